@@ -1,595 +1,809 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import 'regenerator-runtime/runtime';
-import SpeechRecognition, { useSpeechRecognition } from 'react-speech-recognition';
-import { Mic, MicOff, Volume2, PauseCircle, PlayCircle } from 'lucide-react';
-import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, Filler } from 'chart.js';
-import { Line } from 'react-chartjs-2';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Mic, MicOff, Volume2, PauseCircle, PlayCircle, Bell, Briefcase, Keyboard, History, Bot, LayoutGrid, Settings, Wallet, FlaskConical, Layers, Sunrise } from 'lucide-react';
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, BarElement, LineController, BarController, Title, Tooltip, Legend, Filler } from 'chart.js';
+import {
+  MARKET_PROVIDERS,
+  DEFAULT_PROVIDER_ID,
+  CHART_RANGES,
+  KLINE_INTERVALS,
+  ChartRange,
+  quoteVolumeOf,
+  convertKlines,
+  formatMoney,
+  getFiatCurrency,
+  formatDataAge,
+} from './services/market';
+import { analyzeIndicators } from './services/indicators';
+import { SymbolRegistry, getCachedSymbolRegistry, loadSymbolRegistry, isUsdQuote } from './services/symbols';
+import { AlertTrigger } from './services/alerts';
+import { PaperOrder } from './services/paper';
+import { BriefingSlot } from './services/briefing';
+import { MAX_WATCHLIST_SIZE } from './services/watchlist';
+import { parseConfig, serializeConfig } from './services/settings';
+import { Intent, parseIntent } from './services/nlu';
+import { createSentenceBuffer } from './services/chat';
+import { SpeechPriority, createUtterance as buildUtterance } from './services/speech';
+import {
+  ReplyContext,
+  ReplyFormat,
+  assetNameOf,
+  describeAlertTrigger,
+  describePaperFills,
+  describePriceAlert,
+  recordPortfolioTrade,
+} from './services/replies';
+import { HistoryEntry, HistorySnapshot, downloadText, historyToCsv, historyToJson } from './services/history';
+import { LOCALES, Locale, MESSAGES, isLocale, loadLocale, prepareSpeech, saveLocale } from './services/i18n';
+import { useMarketStream } from './hooks/useMarketStream';
+import { usePriceFlash } from './hooks/usePriceFlash';
+import { usePriceAlerts } from './hooks/usePriceAlerts';
+import { usePortfolio } from './hooks/usePortfolio';
+import { usePaperTrading } from './hooks/usePaperTrading';
+import { LISTENING_WINDOWS_MS, useVoiceSession } from './hooks/useVoiceSession';
+import { useDialogueContext } from './hooks/useDialogueContext';
+import { useDisplayCurrency } from './hooks/useDisplayCurrency';
+import { useCommandConsole } from './hooks/useCommandConsole';
+import { useHistoryLog } from './hooks/useHistoryLog';
+import { useChatBackend } from './hooks/useChatBackend';
+import { useWatchlist } from './hooks/useWatchlist';
+import { useAssistantSettings } from './hooks/useAssistantSettings';
+import { useSpeechQueue } from './hooks/useSpeechQueue';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useOrderFlow } from './hooks/useOrderFlow';
+import { useBriefings } from './hooks/useBriefings';
+import { useServices } from './hooks/useServices';
+import { useVoiceCommands } from './hooks/useVoiceCommands';
+import { AnswerStream, CommandPanel, ReplyChannel, useCommandRunner } from './hooks/useCommandRunner';
+import AlertsPanel from './components/AlertsPanel';
+import PortfolioPanel from './components/PortfolioPanel';
+import PaperTradingPanel from './components/PaperTradingPanel';
+import BacktestPanel from './components/BacktestPanel';
+import OrderFlowPanel from './components/OrderFlowPanel';
+import BriefingPanel from './components/BriefingPanel';
+import PriceChart from './components/PriceChart';
+import MarketComparison from './components/MarketComparison';
+import CommandConsole from './components/CommandConsole';
+import HistoryPanel from './components/HistoryPanel';
+import ChatBackendPanel from './components/ChatBackendPanel';
+import WatchlistPanel from './components/WatchlistPanel';
+import SettingsPanel from './components/SettingsPanel';
 
 // Register ChartJS components
-ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, Filler);
-
-// Define types for cryptocurrency data
-interface CryptoData {
-  symbol: string;
-  priceChange: string;
-  priceChangePercent: string;
-  lastPrice: string;
-  volume: string;
-  highPrice: string;
-  lowPrice: string;
-}
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, BarElement, LineController, BarController, Title, Tooltip, Legend, Filler);
 
-// Define type for historical price data
-interface HistoricalPrice {
-  time: number;
-  price: number;
-}
+const PROVIDER_STORAGE_KEY = 'jarvis.marketProvider';
 
 function App() {
   const [autoListening, setAutoListening] = useState(true);
-  const [listening, setListening] = useState(false);
-  const [cryptoData, setCryptoData] = useState<CryptoData | null>(null);
-  const [historicalPrices, setHistoricalPrices] = useState<HistoricalPrice[]>([]);
-  const [loading, setLoading] = useState(false);
   const [speaking, setSpeaking] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [wakeWordDetected, setWakeWordDetected] = useState(false);
-  const wakeWordTimer = useRef<NodeJS.Timeout | null>(null);
+  // Announcements being said; they show the speaking state without taking part in a command
+  const [announcing, setAnnouncing] = useState(0);
   const processingCommand = useRef(false);
-  const [lastInteraction, setLastInteraction] = useState<string>('');
+  // Set when a request is cancelled before its reply was spoken
+  const discardNextReply = useRef(false);
+  // False while answering a typed command that should only be shown as text
+  const speakAloud = useRef(true);
+  // Set once the command in progress has queued its reply, so only that reply running out finishes it
+  const replyQueued = useRef(false);
+  // Data shown with the reply in progress, stored with it in the history log
+  const replySnapshot = useRef<HistorySnapshot | null>(null);
+  // Streamed chat answer in progress, aborted by a cancel
+  const chatRequest = useRef<AbortController | null>(null);
+  const [streamingAnswer, setStreamingAnswer] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState<string>(() => localStorage.getItem(PROVIDER_STORAGE_KEY) || DEFAULT_PROVIDER_ID);
+  const services = useServices();
+  const marketProvider = useMemo(() => services.marketProvider(providerId), [services, providerId]);
+  const [symbolRegistry, setSymbolRegistry] = useState<SymbolRegistry>(() => getCachedSymbolRegistry(providerId));
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const messages = MESSAGES[locale];
 
-  const { transcript, resetTranscript, browserSupportsSpeechRecognition } = useSpeechRecognition();
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [showPortfolio, setShowPortfolio] = useState(false);
+  const [showPaperTrading, setShowPaperTrading] = useState(false);
+  const [showBacktest, setShowBacktest] = useState(false);
+  const [showOrderFlow, setShowOrderFlow] = useState(false);
+  const [showBriefings, setShowBriefings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showChatBackend, setShowChatBackend] = useState(false);
+  const [showWatchlist, setShowWatchlist] = useState(true);
+  const [showSettings, setShowSettings] = useState(false);
 
-  // Function to fetch historical price data
-  const fetchHistoricalPrices = useCallback(async (symbol: string) => {
-    try {
-      const normalizedSymbol = normalizeSymbol(symbol);
-      if (!normalizedSymbol) return;
-      
-      // Get data for the last 7 days (7 * 24 hours)
-      const endTime = Date.now();
-      const startTime = endTime - (7 * 24 * 60 * 60 * 1000); // 7 days ago
-      
-      const response = await fetch(`https://api.binance.com/api/v3/klines?symbol=${normalizedSymbol}&interval=1d&startTime=${startTime}&endTime=${endTime}`);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch historical data for ${normalizedSymbol}`);
-      }
-      
-      const data = await response.json();
-      
-      // Format the data for the chart
-      // Binance klines format: [openTime, open, high, low, close, volume, closeTime, ...]
-      const prices = data.map((item: any[]) => ({
-        time: item[0],
-        price: parseFloat(item[4]) // Close price
-      }));
-      
-      setHistoricalPrices(prices);
-      
-    } catch (err) {
-      console.error('Error fetching historical price data:', err);
-    }
-  }, []);
+  // Everything heard goes through handleTranscript, which always sees the current state
+  const voiceCommands = useVoiceCommands({
+    language: LOCALES[locale].speechLang,
+    autoStart: autoListening,
+    onTranscript: (heard) => handleTranscript(heard),
+  });
+  const { transcript, interimTranscript, resetTranscript, listening, supported: browserSupportsSpeechRecognition } = voiceCommands;
+  const voiceSession = useVoiceSession();
+  const online = useOnlineStatus();
+  const assistantSettings = useAssistantSettings();
+  const currentSettings = assistantSettings.current;
+  const dialogue = useDialogueContext();
+  const displayCurrency = useDisplayCurrency(marketProvider, symbolRegistry);
+  // Without speech recognition the console is the only way in, so it starts open
+  const commandConsole = useCommandConsole({ open: !browserSupportsSpeechRecognition, speakReplies: true });
+  const history = useHistoryLog();
+  const chatBackend = useChatBackend();
+  // Replies queue up and are spoken sentence by sentence; a streamed answer only
+  // finishes once its request is done, not when the queue briefly runs dry
+  const speech = useSpeechQueue({
+    createUtterance: (text) => createUtterance(text),
+    onIdle: () => {
+      if (replyQueued.current && !chatRequest.current) finishSpeaking();
+    },
+  });
 
-  // Function to fetch crypto data from Binance API
-  const fetchCryptoData = useCallback(async (symbol: string) => {
-    try {
-      setLoading(true);
-      setError(null);
-      setSpeaking(true); // Set speaking to true immediately to show the GIF
-      setLastInteraction('crypto');
-      
-      // Normalize the symbol to match Binance format (e.g., "bitcoin" -> "BTCUSDT")
-      const normalizedSymbol = normalizeSymbol(symbol);
-      
-      if (!normalizedSymbol) {
-        throw new Error(`Could not recognize cryptocurrency: ${symbol}`);
-      }
-      
-      const response = await fetch(`https://api.binance.com/api/v3/ticker/24hr?symbol=${normalizedSymbol}`);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch data for ${normalizedSymbol}`);
-      }
-      
-      const data = await response.json();
-      
-      setCryptoData({
-        symbol: normalizedSymbol,
-        priceChange: data.priceChange,
-        priceChangePercent: data.priceChangePercent,
-        lastPrice: data.lastPrice,
-        volume: data.volume,
-        highPrice: data.highPrice,
-        lowPrice: data.lowPrice
-      });
-      
-      // Fetch historical price data for the chart
-      await fetchHistoricalPrices(symbol);
-      
-      // Speak the analysis
-      speakAnalysis({
-        symbol: normalizedSymbol,
-        priceChange: data.priceChange,
-        priceChangePercent: data.priceChangePercent,
-        lastPrice: data.lastPrice,
-        volume: data.volume,
-        highPrice: data.highPrice,
-        lowPrice: data.lowPrice
-      });
-      
-    } catch (err) {
-      console.error('Error fetching crypto data:', err);
-      setError(err instanceof Error ? err.message : 'An unknown error occurred');
-      speakText(`I'm sorry, I couldn't retrieve data for ${symbol}. ${err instanceof Error ? err.message : 'Please try again.'}`);
-    } finally {
-      setLoading(false);
-    }
-  }, [fetchHistoricalPrices]);
+  // Price alerts fire through speech and a desktop notification
+  const priceAlerts = usePriceAlerts(marketProvider, (trigger) => announceAlert(trigger));
+  const portfolio = usePortfolio(marketProvider);
+  // Resting limit orders that fill later are announced like alerts
+  const paperTrading = usePaperTrading(marketProvider, (filled, rejected) => announcePaperFills(filled, rejected));
+  const watchlist = useWatchlist(marketProvider, showWatchlist);
+  // Scheduled briefings are read out unprompted, with a notification in case the tab is in the background
+  const briefings = useBriefings((slot) => {
+    announceBriefing(slot, `Scheduled ${slot} briefing`);
+  });
 
-  // Function to normalize cryptocurrency names to Binance symbols
-  const normalizeSymbol = (input: string): string | null => {
-    const normalizedInput = input.toLowerCase().trim();
-    
-    const symbolMap: Record<string, string> = {
-      'bitcoin': 'BTCUSDT',
-      'btc': 'BTCUSDT',
-      'ethereum': 'ETHUSDT',
-      'eth': 'ETHUSDT',
-      'binance coin': 'BNBUSDT',
-      'bnb': 'BNBUSDT',
-      'cardano': 'ADAUSDT',
-      'ada': 'ADAUSDT',
-      'solana': 'SOLUSDT',
-      'sol': 'SOLUSDT',
-      'ripple': 'XRPUSDT',
-      'xrp': 'XRPUSDT',
-      'dogecoin': 'DOGEUSDT',
-      'doge': 'DOGEUSDT',
-      'polkadot': 'DOTUSDT',
-      'dot': 'DOTUSDT',
-      'avalanche': 'AVAXUSDT',
-      'avax': 'AVAXUSDT',
-      'shiba inu': 'SHIBUSDT',
-      'shib': 'SHIBUSDT',
-      'litecoin': 'LTCUSDT',
-      'ltc': 'LTCUSDT',
-      'chainlink': 'LINKUSDT',
-      'link': 'LINKUSDT',
-      'polygon': 'MATICUSDT',
-      'matic': 'MATICUSDT',
-    };
-    
-    return symbolMap[normalizedInput] || null;
+  // Format a price in its quote asset: the display currency for USD stablecoins,
+  // fiat pairs (e.g. BTCEUR) with their sign, significant digits otherwise
+  const formatPrice = (value: number, quoteAsset: string): string => {
+    if (isUsdQuote(quoteAsset)) return displayCurrency.format(value);
+    const fiat = getFiatCurrency(quoteAsset);
+    return fiat ? formatMoney(value, fiat) : `${parseFloat(value.toPrecision(6))} ${quoteAsset}`;
   };
 
-  // Function to speak text using the Web Speech API with improved pronunciation
-  const speakText = (text: string) => {
-    if ('speechSynthesis' in window) {
-      setSpeaking(true);
-      
-      // Format text to improve pronunciation of symbols and numbers
-      const formattedText = text
-        .replace(/\$/g, ' dollars ')
-        .replace(/%/g, ' percent ')
-        .replace(/(\d+)\.(\d+)/g, (match, whole, decimal) => {
-          // For prices, read as dollars and cents if it looks like a price
-          if (match.includes('$') || text.toLowerCase().includes('price') || text.toLowerCase().includes('dollar')) {
-            return `${whole} dollars and ${decimal} cents`;
-          }
-          // Otherwise read as number point number
-          return `${whole} point ${decimal}`;
-        })
-        .replace(/\n/g, '. ') // Replace newlines with pauses
-        .replace(/\s+/g, ' '); // Normalize spaces
-      
-      const utterance = new SpeechSynthesisUtterance(formattedText);
-      
-      // Set language to English
-      utterance.lang = 'en-US';
-      
-      // Adjust speech parameters for better clarity
-      utterance.rate = 0.9; // Slightly slower than default
-      utterance.pitch = 1.0; // Normal pitch
-      utterance.volume = 1.0; // Maximum volume
-      
-      // Try to use a more natural English voice if available
-      const voices = window.speechSynthesis.getVoices();
-      const englishVoices = voices.filter(voice => 
-        voice.lang.includes('en-') && !voice.name.includes('Microsoft')
-      );
-      
-      if (englishVoices.length > 0) {
-        // Prefer Google voices if available
-        const googleVoice = englishVoices.find(voice => voice.name.includes('Google'));
-        utterance.voice = googleVoice || englishVoices[0];
-      }
-      
-      // Add pauses at punctuation
-      utterance.onboundary = (event) => {
-        if (event.name === 'sentence' || event.name === 'word') {
-          // Small pause at sentence boundaries
-          if (event.name === 'sentence') {
-            setTimeout(() => {}, 200);
-          }
-        }
-      };
-      
-      utterance.onend = () => {
-        setSpeaking(false);
-        processingCommand.current = false; // Reset processing flag when speech ends
-      };
-      
-      // Cancel any ongoing speech
-      window.speechSynthesis.cancel();
-      
-      // Start speaking
-      window.speechSynthesis.speak(utterance);
+  // Figures in replies follow the display currency
+  const replyFormat: ReplyFormat = {
+    formatPrice,
+    convertUsd: displayCurrency.convert,
+    currencyCode: displayCurrency.active().code,
+  };
+  
+  // Names, prices and dates in command replies follow the selected language and the symbol listing
+  const replyContext: ReplyContext = {
+    messages,
+    format: replyFormat,
+    formatValue: displayCurrency.format,
+    pair: (symbol) => symbolRegistry.get(symbol),
+    dateLocale: LOCALES[locale].dateLocale,
+  };
+
+  // Spoken name for a symbol's base asset, e.g. "BTCUSDT" -> "Bitcoin"
+  const assetNameFor = (symbol: string): string => assetNameOf(symbol, replyContext);
+
+  // Function to log a reply in the dialogue, history and console; returns whether to say it aloud
+  const recordReply = (text: string): boolean => {
+    dialogue.answer(text);
+    history.complete(text, replySnapshot.current);
+    replySnapshot.current = null;
+    const aloud = speakAloud.current && services.speechSynthesis !== null;
+    commandConsole.add('jarvis', text, aloud ? 'voice' : 'text');
+    return aloud;
+  };
+
+  // Function to build an utterance in the selected language with improved pronunciation
+  const createUtterance = (text: string): SpeechSynthesisUtterance => {
+    const { voiceURI, rate, pitch, volume } = currentSettings();
+    // Format text to improve pronunciation of amounts in the selected language
+    return buildUtterance(
+      prepareSpeech(text, messages.speech),
+      { lang: LOCALES[locale].speechLang, voiceURI, rate, pitch, volume },
+      services.speechSynthesis?.getVoices() ?? []
+    );
+  };
+
+  // Function to reset the speaking state once a reply has been said
+  const finishSpeaking = () => {
+    setSpeaking(false);
+    replyQueued.current = false;
+    setStreamingAnswer(null);
+    processingCommand.current = false; // Reset processing flag when speech ends
+    resetTranscript(); // Drop whatever the microphone caught of our own voice
+    
+    // Reopen the listening window so follow-ups don't need the wake word
+    if (voiceSession.isAwake()) {
+      voiceSession.wake();
     }
   };
 
-  // Function to generate and speak analysis based on crypto data
-  const speakAnalysis = (data: CryptoData) => {
-    const readableSymbol = data.symbol.replace('USDT', '');
+  // Function to speak text using the Web Speech API with improved pronunciation
+  const speakText = (text: string, priority: SpeechPriority = 'normal') => {
+    if (discardNextReply.current) {
+      discardNextReply.current = false;
+      setSpeaking(false);
+      processingCommand.current = false;
+      return;
+    }
+    
+    // Typed commands can be answered in the console only
+    if (!recordReply(text)) {
+      setSpeaking(false);
+      setStreamingAnswer(null);
+      processingCommand.current = false;
+      return;
+    }
     
-    const priceChangeNum = parseFloat(data.priceChange);
-    const priceChangePercentNum = parseFloat(data.priceChangePercent);
-    const lastPriceNum = parseFloat(data.lastPrice);
+    setSpeaking(true);
+    replyQueued.current = true;
     
-    let trend = priceChangeNum > 0 ? "upward" : "downward";
-    let sentiment = priceChangeNum > 0 ? "positive" : "negative";
+    // Queued behind anything still being said; finishSpeaking runs once the queue is empty
+    speech.enqueue(text, { priority });
+  };
+
+  // Function to say something nobody asked for, such as a triggered alert. It is logged on its own
+  // and leaves the command in progress, the last answer and any cancelled reply alone.
+  const announce = (text: string, topic: string, intent: Intent, priority: SpeechPriority = 'high') => {
+    history.log({ source: 'announcement', utterance: topic, intent, confidence: 1, locale, reply: text });
+    // Nobody typed these, so the last command's choice of text-only replies doesn't apply
+    const aloud = services.speechSynthesis !== null;
+    commandConsole.add('jarvis', text, aloud ? 'voice' : 'text');
+    if (!aloud) return;
     
-    if (Math.abs(priceChangePercentNum) < 0.5) {
-      trend = "relatively stable";
-      sentiment = "neutral";
-    }
+    setAnnouncing(count => count + 1);
+    speech.enqueue(text, { priority, onDone: () => setAnnouncing(count => count - 1) });
+  };
+
+  // Barge-in: stop talking and drop the request in progress
+  const cancelSpeech = () => {
+    // A request still loading would otherwise speak its reply after the cancel
+    discardNextReply.current = processingCommand.current && !replyQueued.current;
+    chatRequest.current?.abort();
+    chatRequest.current = null;
+    speech.cancel();
+    setSpeaking(false);
+    setStreamingAnswer(null);
+    processingCommand.current = false;
+    replyQueued.current = false;
+    resetTranscript();
+  };
+
+  // Function to open a streamed chat answer, speaking each sentence as it comes in
+  const openAnswerStream = (): AnswerStream => {
+    setStreamingAnswer('');
+    const controller = new AbortController();
+    chatRequest.current = controller;
+    const aloud = speakAloud.current && services.speechSynthesis !== null;
+    // Once the stream is over, the speech queue running dry means the answer has been said
+    const endRequest = () => {
+      if (chatRequest.current === controller) {
+        chatRequest.current = null;
+      }
+    };
     
-    // Format the analysis with clear pauses and better structure for speech
-    const analysis = 
-      `Here's my analysis for ${readableSymbol}. ` +
-      `The current price is $${lastPriceNum.toFixed(2)} US dollars. ` +
-      `In the last 24 hours, the price has changed by $${priceChangeNum.toFixed(2)} dollars, ` +
-      `which is a ${Math.abs(priceChangePercentNum).toFixed(2)}% ${priceChangeNum > 0 ? 'increase' : 'decrease'}. ` +
-      `The highest price reached was $${parseFloat(data.highPrice).toFixed(2)} dollars, ` +
-      `while the lowest was $${parseFloat(data.lowPrice).toFixed(2)} dollars. ` +
-      `The trading volume is approximately ${(parseFloat(data.volume) / 1000000).toFixed(2)} million dollars. ` +
-      `Overall, ${readableSymbol} is showing a ${trend} trend with ${sentiment} momentum in the last 24 hours. ` +
-      `${generateAdvice(priceChangePercentNum, trend)}`;
+    const sentences = createSentenceBuffer(sentence => {
+      if (aloud && !controller.signal.aborted) {
+        replyQueued.current = true;
+        speech.enqueue(sentence);
+      }
+    });
     
-    speakText(analysis);
+    return {
+      signal: controller.signal,
+      push: (token) => {
+        setStreamingAnswer(prev => (prev ?? '') + token);
+        sentences.push(token);
+      },
+      complete: (answer) => {
+        sentences.flush();
+        endRequest();
+        recordReply(answer);
+        if (!speech.isSpeaking()) {
+          finishSpeaking();
+        }
+      },
+      close: endRequest,
+    };
   };
 
-  // Function to generate simple advice based on price movement
-  const generateAdvice = (priceChangePercent: number, trend: string): string => {
-    if (Math.abs(priceChangePercent) > 5) {
-      return priceChangePercent > 0 
-        ? "Be cautious as this significant upward movement might be followed by a correction."
-        : "This significant drop might present a buying opportunity, but be aware that the downtrend might continue.";
-    } else if (trend === "relatively stable") {
-      return "The market appears to be consolidating. This might be a period of accumulation before the next significant move.";
-    } else {
-      return "Consider your investment strategy based on your risk tolerance and long-term outlook.";
+  // Commands reply through the speech queue, the history log and the console
+  const replies: ReplyChannel = {
+    start: ({ source, utterance, intent, confidence }) => {
+      commandConsole.add('user', utterance, source);
+      history.begin({ source, utterance, intent, confidence, locale });
+      replySnapshot.current = null;
+      speakAloud.current = source === 'voice' || commandConsole.settings.speakReplies;
+      discardNextReply.current = false;
+    },
+    begin: () => {
+      processingCommand.current = true;
+      setSpeaking(true);
+    },
+    say: (text) => speakText(text),
+    attach: (snapshot) => {
+      replySnapshot.current = snapshot;
+    },
+    stream: openAnswerStream,
+    cancel: cancelSpeech,
+  };
+
+  // Panels a command opens to show what it did
+  const panelSetters: Record<CommandPanel, (open: boolean) => void> = {
+    alerts: setShowAlerts,
+    portfolio: setShowPortfolio,
+    paperTrading: setShowPaperTrading,
+    backtest: setShowBacktest,
+    orderFlow: setShowOrderFlow,
+    watchlist: setShowWatchlist,
+  };
+
+  const {
+    cryptoData,
+    setCryptoData,
+    klines,
+    setKlines,
+    chartError,
+    timeframe,
+    changeTimeframe,
+    chartType,
+    setChartType,
+    chartFrom,
+    comparison,
+    loading,
+    error,
+    lastInteraction,
+    orderFlowSymbol,
+    backtest,
+    backtestRunning,
+    briefingRunning,
+    runCommand,
+    fetchCryptoData,
+    runBriefing,
+    runStrategyBacktest,
+    reopenSnapshot,
+  } = useCommandRunner({
+    marketProvider,
+    symbolRegistry,
+    locale,
+    replyContext,
+    settings: currentSettings,
+    replies,
+    voice: {
+      session: voiceSession,
+      interimTranscript,
+      resetTranscript,
+      stopListening: () => {
+        setAutoListening(false);
+        voiceCommands.stop();
+      },
+    },
+    dialogue,
+    displayCurrency,
+    chatBackend,
+    priceAlerts,
+    portfolio,
+    paperTrading,
+    watchlist,
+    briefings,
+    openPanel: (panel) => panelSetters[panel](true),
+  });
+  const orderFlow = useOrderFlow(marketProvider, showOrderFlow ? orderFlowSymbol : null);
+
+  // Keep the analysis card and the chart's last candle live while a coin is shown
+  const streamStatus = useMarketStream(
+    marketProvider,
+    lastInteraction === 'crypto' && cryptoData ? cryptoData.symbol : null,
+    timeframe.interval,
+    {
+      onTicker: (ticker) => {
+        setCryptoData(prev => (prev && prev.symbol === ticker.symbol ? ticker : prev));
+        priceAlerts.observePrice(ticker.symbol, parseFloat(ticker.lastPrice));
+        paperTrading.observePrice(ticker.symbol, parseFloat(ticker.lastPrice));
+      },
+      onKline: (kline) => {
+        setKlines(prev => {
+          if (prev.length === 0) return prev;
+          const last = prev[prev.length - 1];
+          if (kline.openTime === last.openTime) return [...prev.slice(0, -1), kline];
+          // A new candle opened: slide the window forward
+          if (kline.openTime > last.openTime) return [...prev.slice(1), kline];
+          return prev;
+        });
+      },
     }
+  );
+  const { rsiOverbought, rsiOversold } = assistantSettings.settings;
+  const indicators = useMemo(() => analyzeIndicators(klines, { rsiOverbought, rsiOversold }), [klines, rsiOverbought, rsiOversold]);
+  const priceFlash = usePriceFlash(cryptoData ? parseFloat(cryptoData.lastPrice) : null);
+
+  // Function to announce a triggered alert by voice and desktop notification
+  const announceAlert = (trigger: AlertTrigger) => {
+    const message = describeAlertTrigger(trigger, replyContext);
+    services.notify('Jarvis price alert', message);
+    // Alerts cut in at the next sentence instead of waiting for the reply in progress
+    announce(message, 'Price alert', {
+      type: 'alert',
+      command: { action: 'create', symbol: trigger.alert.symbol, condition: trigger.alert.condition, crossing: false },
+    });
   };
 
-  // Function to handle general conversation
-  const handleConversation = (text: string) => {
-    processingCommand.current = true;
-    setSpeaking(true);
-    setLastInteraction('conversation');
+  // Function to announce paper limit orders that filled or were rejected while waiting
+  const announcePaperFills = (filled: PaperOrder[], rejected: PaperOrder[]) => {
+    const notes = describePaperFills(filled, rejected, replyContext);
+    if (notes.length === 0) return;
     
-    // Convert to lowercase for easier matching
-    const lowerText = text.toLowerCase();
+    services.notify('Jarvis paper trading', notes.map(note => note.text).join(' '));
+    // One history entry per order, each under the order it is about
+    notes.forEach(({ order, text }) => announce(text, 'Paper limit order', {
+      type: 'paper',
+      command: {
+        action: 'order',
+        side: order.side,
+        type: order.type,
+        symbol: order.symbol,
+        quantity: order.quantity,
+        quoteAmount: order.quoteAmount,
+        limitPrice: order.limitPrice,
+      },
+    }));
+  };
+
+  // Function to read a briefing nobody asked for just now: a scheduled one, or one started from its panel
+  const announceBriefing = (slot: BriefingSlot | null, topic: string) =>
+    runBriefing(slot)
+      .then(text => {
+        if (slot) services.notify('Jarvis briefing', `Your ${slot} briefing is ready.`);
+        announce(text, topic, { type: 'briefing', command: { slot } }, 'normal');
+      })
+      .catch(err => {
+        console.error('Error preparing the briefing:', err);
+        announce(messages.briefing.failed(err instanceof Error ? err.message : 'Please try again.'), topic, { type: 'briefing', command: { slot } });
+      });
+
+  // Function to add coins typed into the watchlist panel; returns an error message, or null on success
+  const addToWatchlistFromText = (text: string): string | null => {
+    const symbols = symbolRegistry.resolveAll(text)
+      .map(match => symbolRegistry.get(`${match.baseAsset}USDT`)?.symbol ?? match.symbol);
+    if (symbols.length === 0) return messages.unknownCoin(text.trim());
     
-    // Who are you questions
-    if (lowerText.includes('who are you') || 
-        lowerText.includes('what are you') || 
-        lowerText.includes('your name') ||
-        (lowerText.includes('who') && lowerText.includes('jarvis'))) {
-      speakText("I am Jarvis, an AI cryptocurrency analysis assistant developed by Eser Software. I was designed to help you track and analyze cryptocurrency markets in real-time. I can provide you with price information, market trends, and basic investment insights for various cryptocurrencies.");
-    }
-    // How are you questions
-    else if (lowerText.includes('how are you') || 
-             lowerText.includes('how do you feel') || 
-             lowerText.includes('how\'s it going')) {
-      const responses = [
-        "I'm functioning optimally, thank you for asking. How can I assist you with cryptocurrency analysis today?",
-        "I'm operating at peak efficiency. Ready to analyze any cryptocurrency you're interested in.",
-        "All systems are running smoothly. I'm ready to provide you with crypto market insights whenever you need them."
-      ];
-      speakText(responses[Math.floor(Math.random() * responses.length)]);
-    }
-    // What can you do questions
-    else if (lowerText.includes('what can you do') || 
-             lowerText.includes('your capabilities') || 
-             lowerText.includes('help me')) {
-      speakText("I can provide real-time cryptocurrency analysis. Just mention a cryptocurrency like Bitcoin or Ethereum, and I'll fetch the latest market data including price, 24-hour changes, trading volume, and a 7-day price chart. I can also offer basic market insights based on recent price movements. Feel free to ask me about any major cryptocurrency.");
-    }
-    // Time-related questions
-    else if (lowerText.includes('what time') || lowerText.includes('what day') || lowerText.includes('what is the date')) {
-      const now = new Date();
-      const timeString = now.toLocaleTimeString('en-US', { hour: 'numeric', minute: 'numeric' });
-      const dateString = now.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
-      speakText(`The current time is ${timeString} and today is ${dateString}.`);
-    }
-    // Weather questions - explain we can't do this
-    else if (lowerText.includes('weather') || lowerText.includes('temperature')) {
-      speakText("I'm sorry, I don't have access to weather information. I specialize in cryptocurrency analysis. Is there a specific cryptocurrency you'd like information about?");
-    }
-    // Jokes about crypto
-    else if (lowerText.includes('joke') || lowerText.includes('funny')) {
-      const jokes = [
-        "Why don't Bitcoin investors want to go to heaven? They hate it when things go up and never come back down.",
-        "Why was the cryptocurrency investor always calm? Because they were HODLing their breath.",
-        "What do you call a cryptocurrency investor who finally sells? Bitconned.",
-        "I told my wife I was investing all our money in crypto. She was so shocked, she was speechless for a whole Bitcoin transaction confirmation time."
-      ];
-      speakText(jokes[Math.floor(Math.random() * jokes.length)]);
-    }
-    // Thank you responses
-    else if (lowerText.includes('thank you') || lowerText.includes('thanks')) {
-      const responses = [
-        "You're welcome. I'm here anytime you need cryptocurrency insights.",
-        "Happy to help. Feel free to ask about any cryptocurrency you're interested in.",
-        "My pleasure. I'm always ready to provide market analysis when you need it."
-      ];
-      speakText(responses[Math.floor(Math.random() * responses.length)]);
-    }
-    // Goodbye responses
-    else if (lowerText.includes('goodbye') || lowerText.includes('bye') || lowerText.includes('see you')) {
-      const responses = [
-        "Goodbye. I'll be here when you need more cryptocurrency analysis.",
-        "Until next time. Remember, markets change quickly, so check back for updated analysis.",
-        "Farewell. I'll keep monitoring the crypto markets while you're away."
-      ];
-      speakText(responses[Math.floor(Math.random() * responses.length)]);
-    }
-    // Default response for unrecognized queries
-    else {
-      speakText("I'm not sure I understand. I'm specialized in cryptocurrency analysis. You can ask me about Bitcoin, Ethereum, or other major cryptocurrencies, or ask me who I am or how I'm doing.");
-    }
+    const added = watchlist.add(symbols);
+    if (added.length > 0) return null;
+    return watchlist.symbols.length >= MAX_WATCHLIST_SIZE
+      ? messages.watchlist.full(MAX_WATCHLIST_SIZE)
+      : messages.watchlist.alreadyListed(symbols.map(assetNameFor));
   };
 
   // Initialize voices when component mounts
   useEffect(() => {
+    const synth = services.speechSynthesis;
+    if (!synth) return;
+    
     // Load voices on component mount
     const loadVoices = () => {
-      window.speechSynthesis.getVoices();
+      synth.getVoices();
     };
     
     loadVoices();
     
     // Chrome requires this event listener to get all voices
-    if ('onvoiceschanged' in window.speechSynthesis) {
-      window.speechSynthesis.onvoiceschanged = loadVoices;
+    if ('onvoiceschanged' in synth) {
+      synth.onvoiceschanged = loadVoices;
     }
     
     return () => {
-      if ('onvoiceschanged' in window.speechSynthesis) {
-        window.speechSynthesis.onvoiceschanged = null;
+      if ('onvoiceschanged' in synth) {
+        synth.onvoiceschanged = null;
       }
     };
-  }, []);
+  }, [services]);
 
-  // Start listening automatically when component mounts
+  // Load the tradable pairs for the selected provider (cached locally for a day)
   useEffect(() => {
-    if (autoListening && browserSupportsSpeechRecognition) {
-      SpeechRecognition.startListening({ continuous: true });
-      setListening(true);
-    }
+    let cancelled = false;
+    
+    loadSymbolRegistry(marketProvider).then(registry => {
+      if (!cancelled) setSymbolRegistry(registry);
+    });
     
     return () => {
-      SpeechRecognition.stopListening();
+      cancelled = true;
     };
-  }, [autoListening, browserSupportsSpeechRecognition]);
+  }, [marketProvider]);
 
-  // Process voice commands
-  useEffect(() => {
-    if (!listening || !transcript) return;
-    if (processingCommand.current) return; // Skip if already processing a command
-
-    const processCommand = async () => {
-      const lowerTranscript = transcript.toLowerCase();
-      console.log("Processing transcript:", lowerTranscript); // Debug log
-      
-      // Check for wake word "Jarvis"
-      if (lowerTranscript.includes('jarvis')) {
-        setWakeWordDetected(true);
-        
-        // Reset wake word detection after 10 seconds
-        if (wakeWordTimer.current) {
-          clearTimeout(wakeWordTimer.current);
-        }
-        
-        wakeWordTimer.current = setTimeout(() => {
-          setWakeWordDetected(false);
-        }, 10000); // 10 seconds
-      }
-      
-      // Check for conversation queries first
-      if (lowerTranscript.includes('who are you') || 
-          lowerTranscript.includes('what are you') ||
-          lowerTranscript.includes('how are you') ||
-          lowerTranscript.includes('what can you do') ||
-          lowerTranscript.includes('your name') ||
-          lowerTranscript.includes('what time') ||
-          lowerTranscript.includes('what day') ||
-          lowerTranscript.includes('weather') ||
-          lowerTranscript.includes('joke') ||
-          lowerTranscript.includes('funny') ||
-          lowerTranscript.includes('goodbye') ||
-          lowerTranscript.includes('bye') ||
-          lowerTranscript.includes('see you')) {
-        handleConversation(lowerTranscript);
-        resetTranscript();
-        return;
-      }
-      
-      // Process commands even without wake word for testing
-      // Check for cryptocurrency mentions
-      const cryptoKeywords = [
-        'bitcoin', 'btc', 'ethereum', 'eth', 'binance coin', 'bnb', 
-        'cardano', 'ada', 'solana', 'sol', 'ripple', 'xrp',
-        'dogecoin', 'doge', 'polkadot', 'dot', 'avalanche', 'avax',
-        'shiba inu', 'shib', 'litecoin', 'ltc', 'chainlink', 'link',
-        'polygon', 'matic'
-      ];
-      
-      for (const keyword of cryptoKeywords) {
-        if (lowerTranscript.includes(keyword)) {
-          console.log("Crypto keyword detected:", keyword); // Debug log
-          processingCommand.current = true; // Set processing flag
-          await fetchCryptoData(keyword);
-          resetTranscript();
-          return;
-        }
-      }
-      
-      // Handle other commands
-      if (lowerTranscript.includes('hello jarvis') || lowerTranscript.includes('hi jarvis') || 
-          lowerTranscript.includes('hello') || lowerTranscript.includes('hi')) {
-        processingCommand.current = true; // Set processing flag
-        setLastInteraction('conversation');
-        speakText("Hello, I am Jarvis, your cryptocurrency analysis assistant. You can ask me about various cryptocurrencies like Bitcoin or Ethereum, or ask me questions like 'How are you?' or 'Who are you?'");
-        resetTranscript();
-      } else if (lowerTranscript.includes('thank you') || lowerTranscript.includes('thanks')) {
-        processingCommand.current = true; // Set processing flag
-        setLastInteraction('conversation');
-        speakText("You're welcome. I'm here to help with your cryptocurrency analysis needs.");
-        resetTranscript();
-      } else if (lowerTranscript.includes('help')) {
-        processingCommand.current = true; // Set processing flag
-        setLastInteraction('conversation');
-        speakText("I can provide you with 24-hour analysis of various cryptocurrencies. Just say a cryptocurrency name like Bitcoin or Ethereum, and I'll fetch the latest data and provide an analysis. You can also ask me general questions like 'How are you?' or 'Who are you?'");
-        resetTranscript();
-      } else if (lowerTranscript.includes('stop listening')) {
-        processingCommand.current = true; // Set processing flag
-        setLastInteraction('conversation');
-        setAutoListening(false);
-        SpeechRecognition.stopListening();
-        setListening(false);
-        speakText("I've stopped listening. Click the microphone button when you want me to listen again.");
-        resetTranscript();
+  // Function to run a command typed into the console
+  const submitTextCommand = (text: string) => {
+    // Typing over a reply interrupts it, like saying "stop"
+    if (processingCommand.current) {
+      cancelSpeech();
+    }
+    runCommand(text, 'text');
+  };
+
+  // Function to say a reply from the history log again
+  const respeakHistoryEntry = (entry: HistoryEntry) => {
+    if (!entry.reply) return;
+    if (processingCommand.current) {
+      cancelSpeech();
+    }
+    // A replay isn't a new answer, so it mustn't complete an interrupted entry
+    history.flush();
+    processingCommand.current = true;
+    discardNextReply.current = false;
+    speakAloud.current = true;
+    speakText(entry.reply);
+  };
+
+  // Function to bring back the coin or comparison a history entry was answered with
+  const reopenHistoryEntry = (entry: HistoryEntry) => {
+    if (entry.snapshot) {
+      reopenSnapshot(entry.snapshot);
+    }
+  };
+
+  // Function to download the history log
+  const exportHistory = (format: 'json' | 'csv') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadText(`jarvis-history-${date}.json`, 'application/json', historyToJson(history.entries));
+    } else {
+      downloadText(`jarvis-history-${date}.csv`, 'text/csv', historyToCsv(history.entries));
+    }
+  };
+
+  // Function to process what the microphone has heard so far
+  const handleTranscript = (heard: string) => {
+    // While a command is being handled, only listen for "stop" or "cancel"
+    if (processingCommand.current) {
+      if (parseIntent(heard, symbolRegistry, { locale }).intent.type === 'cancel') {
+        cancelSpeech();
       }
-    };
+      return;
+    }
 
     // Process command immediately for better responsiveness
-    processCommand();
-    
-  }, [transcript, listening, fetchCryptoData, resetTranscript, wakeWordDetected]);
+    runCommand(heard, 'voice');
+  };
+
+  // Switch market data provider and remember the choice
+  const changeProvider = (id: string) => {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    setProviderId(id);
+  };
+
+  // Switch the display currency from the header; failures show on the analysis card
+  const changeDisplayCurrency = (code: string) => {
+    displayCurrency.select(code).catch(() => {});
+  };
+
+  // Function to play a sample with the current voice settings, without logging it as a reply
+  const previewVoice = () => {
+    speech.cancel();
+    speech.enqueue(messages.conversation.greeting);
+  };
+
+  // Function to save the settings, language and display currency to a file
+  const exportSettings = () => {
+    downloadText('jarvis-settings.json', 'application/json', serializeConfig({
+      assistant: assistantSettings.settings,
+      voiceSession: voiceSession.settings,
+      locale,
+      displayCurrency: displayCurrency.selected,
+    }));
+  };
+
+  // Function to apply a settings file; returns an error message, or null on success
+  const importSettings = (text: string): string | null => {
+    try {
+      const config = parseConfig(text);
+      if (config.assistant) assistantSettings.updateSettings(config.assistant);
+      if (config.voiceSession) voiceSession.updateSettings(config.voiceSession);
+      if (config.locale) changeLocale(config.locale);
+      if (config.displayCurrency && displayCurrency.available.some(currency => currency.code === config.displayCurrency)) {
+        changeDisplayCurrency(config.displayCurrency);
+      }
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Could not read the settings file';
+    }
+  };
+
+  // Switch the recognition and reply language and remember the choice
+  const changeLocale = (id: string) => {
+    if (!isLocale(id)) return;
+    saveLocale(id);
+    setLocale(id);
+    // Anything heard so far was recognized in the previous language
+    resetTranscript();
+  };
 
   // Toggle listening state
   const toggleListening = () => {
     if (listening) {
-      SpeechRecognition.stopListening();
-      setListening(false);
+      voiceCommands.stop();
       setAutoListening(false);
     } else {
-      SpeechRecognition.startListening({ continuous: true });
-      setListening(true);
+      voiceCommands.start();
       setAutoListening(true);
       resetTranscript();
     }
   };
 
-  // Prepare chart data
-  const chartData = {
-    labels: historicalPrices.map(item => {
-      const date = new Date(item.time);
-      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-    }),
-    datasets: [
-      {
-        label: cryptoData ? cryptoData.symbol.replace('USDT', '') + ' Price (USD)' : 'Price',
-        data: historicalPrices.map(item => item.price),
-        borderColor: 'rgb(59, 130, 246)',
-        backgroundColor: 'rgba(59, 130, 246, 0.1)',
-        borderWidth: 2,
-        pointRadius: 3,
-        pointBackgroundColor: 'rgb(59, 130, 246)',
-        tension: 0.3,
-        fill: true,
-      },
-    ],
-  };
-
-  const chartOptions = {
-    responsive: true,
-    maintainAspectRatio: false,
-    scales: {
-      y: {
-        beginAtZero: false,
-        grid: {
-          color: 'rgba(255, 255, 255, 0.1)',
-        },
-        ticks: {
-          color: 'rgba(255, 255, 255, 0.7)',
-        },
-      },
-      x: {
-        grid: {
-          color: 'rgba(255, 255, 255, 0.1)',
-        },
-        ticks: {
-          color: 'rgba(255, 255, 255, 0.7)',
-        },
-      },
-    },
-    plugins: {
-      legend: {
-        labels: {
-          color: 'rgba(255, 255, 255, 0.7)',
-        },
-      },
-      tooltip: {
-        backgroundColor: 'rgba(0, 0, 0, 0.7)',
-        titleColor: 'white',
-        bodyColor: 'white',
-        borderColor: 'rgba(59, 130, 246, 0.5)',
-        borderWidth: 1,
-      },
-    },
-  };
-
-  // Check if browser supports speech recognition
-  if (!browserSupportsSpeechRecognition) {
-    return (
-      <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center p-4">
-        <h1 className="text-3xl font-bold mb-4">Jarvis AI</h1>
-        <p className="text-xl text-red-400">
-          Your browser doesn't support speech recognition. Please try using Chrome or Edge.
-        </p>
-      </div>
-    );
-  }
+  // Base/quote of the pair on the analysis card, e.g. ETH in BTC for ETHBTC
+  const cryptoSymbolInfo = cryptoData ? symbolRegistry.get(cryptoData.symbol) : undefined;
+  const cryptoBase = cryptoSymbolInfo?.baseAsset ?? cryptoData?.symbol.replace('USDT', '');
+  const cryptoQuote = cryptoSymbolInfo?.quoteAsset ?? 'USDT';
+  // Chart prices in the display currency; the indicators keep working on the exchange prices
+  const chartKlines = isUsdQuote(cryptoQuote) ? convertKlines(klines, displayCurrency.rate?.rate ?? 1) : klines;
+  // Replies and announcements both show Jarvis talking
+  const talking = speaking || announcing > 0;
 
   return (
     <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center p-4">
       <header className="w-full max-w-4xl flex justify-between items-center mb-8">
         <h1 className="text-3xl font-bold">Jarvis AI</h1>
         <div className="flex items-center space-x-4">
-          <div className="text-sm text-gray-400">
-            {wakeWordDetected ? (
-              <span className="text-green-400">Wake word detected</span>
-            ) : (
-              <span>Say "Bitcoin", "How are you?", etc.</span>
-            )}
-          </div>
+          {browserSupportsSpeechRecognition && (
+            <div className="text-sm text-gray-400 flex flex-col items-end">
+              {voiceSession.awake ? (
+                <span className="text-green-400">Listening...</span>
+              ) : voiceSession.settings.requireWakeWord ? (
+                <span>Say "Jarvis" to wake me</span>
+              ) : (
+                <span>Say "Bitcoin", "How are you?", etc.</span>
+              )}
+              <div className="flex items-center space-x-2 text-xs">
+                <label className="flex items-center space-x-1" title="Ignore speech until you say Jarvis">
+                  <input
+                    type="checkbox"
+                    checked={voiceSession.settings.requireWakeWord}
+                    onChange={(e) => voiceSession.updateSettings({ requireWakeWord: e.target.checked })}
+                  />
+                  <span>Wake word</span>
+                </label>
+                <select
+                  value={voiceSession.settings.windowMs}
+                  onChange={(e) => voiceSession.updateSettings({ windowMs: Number(e.target.value) })}
+                  className="bg-gray-800 text-gray-300 rounded px-1 border border-gray-700"
+                  title="How long I keep listening for follow-ups"
+                >
+                  {LISTENING_WINDOWS_MS.map(ms => (
+                    <option key={ms} value={ms}>{ms / 1000}s window</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+          <button
+            onClick={() => commandConsole.updateSettings({ open: !commandConsole.settings.open })}
+            className={`p-2 rounded-full hover:bg-gray-800 ${commandConsole.settings.open ? 'text-blue-400' : 'text-gray-300'}`}
+            title="Text console"
+          >
+            <Keyboard size={20} />
+          </button>
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className={`p-2 rounded-full hover:bg-gray-800 ${showSettings ? 'text-blue-400' : 'text-gray-300'}`}
+            title="Settings"
+          >
+            <Settings size={20} />
+          </button>
+          <button
+            onClick={() => setShowChatBackend(!showChatBackend)}
+            className={`p-2 rounded-full hover:bg-gray-800 ${chatBackend.ready ? 'text-purple-400' : 'text-gray-300'}`}
+            title="Chat backend"
+          >
+            <Bot size={20} />
+          </button>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`p-2 rounded-full hover:bg-gray-800 ${showHistory ? 'text-blue-400' : 'text-gray-300'}`}
+            title="History"
+          >
+            <History size={20} />
+          </button>
           <button
-            onClick={toggleListening}
-            className={`p-3 rounded-full ${listening ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'} transition-colors`}
-            title={listening ? "Stop listening" : "Start listening"}
+            onClick={() => setShowWatchlist(!showWatchlist)}
+            className={`p-2 rounded-full hover:bg-gray-800 ${showWatchlist ? 'text-blue-400' : 'text-gray-300'}`}
+            title="Watchlist"
           >
-            {listening ? <MicOff size={24} /> : <Mic size={24} />}
+            <LayoutGrid size={20} />
           </button>
+          <button
+            onClick={() => setShowPortfolio(!showPortfolio)}
+            className="p-2 rounded-full text-gray-300 hover:bg-gray-800"
+            title="Portfolio"
+          >
+            <Briefcase size={20} />
+          </button>
+          <button
+            onClick={() => setShowPaperTrading(!showPaperTrading)}
+            className="p-2 rounded-full text-gray-300 hover:bg-gray-800"
+            title="Paper trading"
+          >
+            <Wallet size={20} />
+          </button>
+          <button
+            onClick={() => setShowBacktest(!showBacktest)}
+            className="p-2 rounded-full text-gray-300 hover:bg-gray-800"
+            title="Backtest"
+          >
+            <FlaskConical size={20} />
+          </button>
+          <button
+            onClick={() => setShowBriefings(!showBriefings)}
+            className="p-2 rounded-full text-gray-300 hover:bg-gray-800"
+            title="Briefings"
+          >
+            <Sunrise size={20} />
+          </button>
+          <button
+            onClick={() => setShowOrderFlow(!showOrderFlow)}
+            disabled={!orderFlowSymbol}
+            className={`p-2 rounded-full hover:bg-gray-800 disabled:opacity-40 ${showOrderFlow ? 'text-blue-400' : 'text-gray-300'}`}
+            title={orderFlowSymbol ? 'Order book and trades' : 'Ask about a coin to see its order book'}
+          >
+            <Layers size={20} />
+          </button>
+          <button
+            onClick={() => setShowAlerts(!showAlerts)}
+            className="relative p-2 rounded-full text-gray-300 hover:bg-gray-800"
+            title="Price alerts"
+          >
+            <Bell size={20} />
+            {priceAlerts.alerts.some(alert => !alert.paused) && (
+              <span className="absolute -top-1 -right-1 bg-yellow-500 text-black text-xs rounded-full px-1">
+                {priceAlerts.alerts.filter(alert => !alert.paused).length}
+              </span>
+            )}
+          </button>
+          <select
+            value={displayCurrency.selected}
+            onChange={(e) => changeDisplayCurrency(e.target.value)}
+            className="bg-gray-800 text-gray-300 text-sm rounded px-2 py-1 border border-gray-700"
+            title="Currency prices are shown in"
+          >
+            {displayCurrency.available.map(currency => (
+              <option key={currency.code} value={currency.code}>{currency.code}</option>
+            ))}
+          </select>
+          <select
+            value={locale}
+            onChange={(e) => changeLocale(e.target.value)}
+            className="bg-gray-800 text-gray-300 text-sm rounded px-2 py-1 border border-gray-700"
+            title="Language I listen and reply in"
+          >
+            {Object.values(LOCALES).map(info => (
+              <option key={info.id} value={info.id}>{info.name}</option>
+            ))}
+          </select>
+          <select
+            value={marketProvider.id}
+            onChange={(e) => changeProvider(e.target.value)}
+            className="bg-gray-800 text-gray-300 text-sm rounded px-2 py-1 border border-gray-700"
+            title="Market data source"
+          >
+            {MARKET_PROVIDERS.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.name}</option>
+            ))}
+          </select>
+          {browserSupportsSpeechRecognition && (
+            <button
+              onClick={toggleListening}
+              className={`p-3 rounded-full ${listening ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'} transition-colors`}
+              title={listening ? "Stop listening" : "Start listening"}
+            >
+              {listening ? <MicOff size={24} /> : <Mic size={24} />}
+            </button>
+          )}
         </div>
       </header>
 
+      {!online && (
+        <p className="w-full max-w-4xl mb-4 p-3 rounded-lg bg-yellow-900/40 text-yellow-200 text-sm">
+          You're offline. Jarvis answers from the last data it received until the connection is back.
+        </p>
+      )}
+
+      {!browserSupportsSpeechRecognition && (
+        <p className="w-full max-w-4xl mb-4 p-3 rounded-lg bg-yellow-900/40 text-yellow-200 text-sm">
+          Your browser doesn't support speech recognition, so type your commands in the console below. Chrome or Edge can also take voice commands.
+        </p>
+      )}
+
       <main className="w-full max-w-4xl flex-1 flex flex-col items-center">
         {/* Jarvis GIF - shown when speaking - now in a circular container */}
         <div className="flex-1 flex items-center justify-center w-full">
-          {speaking && (
+          {talking && (
             <div className="relative">
               <div className="w-64 h-64 rounded-full overflow-hidden border-4 border-blue-500 shadow-lg shadow-blue-500/50 flex items-center justify-center bg-black">
                 <img 
@@ -598,17 +812,33 @@ function App() {
                   className="w-full h-full object-cover"
                 />
               </div>
-              <div className="absolute -bottom-4 left-0 right-0 flex justify-center">
+              <div className="absolute -bottom-4 left-0 right-0 flex justify-center space-x-2">
                 <div className="bg-blue-900 rounded-full p-2 shadow-md">
-                  <Volume2 size={24} className="text-blue-400 animate-pulse" />
+                  <Volume2 size={24} className={`text-blue-400 ${speech.paused ? '' : 'animate-pulse'}`} />
                 </div>
+                {speech.speaking && (
+                  <button
+                    onClick={speech.paused ? speech.resume : speech.pause}
+                    className="bg-blue-900 hover:bg-blue-800 rounded-full p-2 shadow-md"
+                    title={speech.paused ? 'Resume speaking' : 'Pause speaking'}
+                  >
+                    {speech.paused
+                      ? <PlayCircle size={24} className="text-blue-400" />
+                      : <PauseCircle size={24} className="text-blue-400" />}
+                  </button>
+                )}
               </div>
             </div>
           )}
           
-          {!speaking && !loading && !cryptoData && lastInteraction !== 'conversation' && (
+          {/* Chat answer as it streams in */}
+          {talking && streamingAnswer && (
+            <p className="ml-8 max-w-md text-gray-300">{streamingAnswer}</p>
+          )}
+          
+          {!talking && !loading && !cryptoData && lastInteraction !== 'conversation' && lastInteraction !== 'market' && (
             <div className="text-center p-8 bg-gray-800 rounded-lg">
-              <p className="text-xl mb-4">Say a cryptocurrency name like "Bitcoin" or "Ethereum"</p>
+              <p className="text-xl mb-4">{browserSupportsSpeechRecognition ? 'Say' : 'Type'} a cryptocurrency name like "Bitcoin" or "Ethereum"</p>
               <p className="text-gray-400">Or ask me questions like "How are you?" or "Who are you?"</p>
             </div>
           )}
@@ -620,52 +850,170 @@ function App() {
             </div>
           )}
           
-          {!speaking && !loading && cryptoData && lastInteraction === 'crypto' && (
+          {!talking && !loading && cryptoData && lastInteraction === 'crypto' && (
             <div className="bg-gray-800 p-6 rounded-lg w-full max-w-2xl">
-              <h2 className="text-2xl font-bold mb-4">{cryptoData.symbol.replace('USDT', '')} Analysis</h2>
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-2xl font-bold">{cryptoBase} Analysis</h2>
+                {cryptoData.cachedAt ? (
+                  <span className="flex items-center text-sm text-yellow-400" title="The exchange could not be reached">
+                    <span className="w-2 h-2 mr-2 rounded-full bg-yellow-400"></span>
+                    Data as of {formatDataAge(cryptoData.cachedAt, Date.now())} (cached)
+                  </span>
+                ) : streamStatus === 'live' ? (
+                  <span className="flex items-center text-sm text-green-400">
+                    <span className="w-2 h-2 mr-2 rounded-full bg-green-400 animate-pulse"></span>
+                    Live
+                  </span>
+                ) : streamStatus !== 'closed' && (
+                  <span className="flex items-center text-sm text-yellow-400">
+                    <span className="w-2 h-2 mr-2 rounded-full bg-yellow-400"></span>
+                    {streamStatus === 'connecting' ? 'Connecting...' : 'Reconnecting...'}
+                  </span>
+                )}
+              </div>
               
               <div className="grid grid-cols-2 gap-4 mb-6">
                 <div className="bg-gray-700 p-3 rounded">
                   <p className="text-gray-400 text-sm">Current Price</p>
-                  <p className="text-xl font-semibold">${parseFloat(cryptoData.lastPrice).toFixed(2)}</p>
+                  <p className={`text-xl font-semibold rounded transition-colors duration-500 ${priceFlash === 'up' ? 'text-green-400 bg-green-900/40' : priceFlash === 'down' ? 'text-red-400 bg-red-900/40' : ''}`}>
+                    {formatPrice(parseFloat(cryptoData.lastPrice), cryptoQuote)}
+                  </p>
                 </div>
                 
                 <div className="bg-gray-700 p-3 rounded">
                   <p className="text-gray-400 text-sm">24h Change</p>
                   <p className={`text-xl font-semibold ${parseFloat(cryptoData.priceChange) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                    {parseFloat(cryptoData.priceChange).toFixed(2)} ({cryptoData.priceChangePercent}%)
+                    {formatPrice(parseFloat(cryptoData.priceChange), cryptoQuote)} ({cryptoData.priceChangePercent}%)
                   </p>
                 </div>
                 
                 <div className="bg-gray-700 p-3 rounded">
                   <p className="text-gray-400 text-sm">24h High</p>
-                  <p className="text-xl font-semibold">${parseFloat(cryptoData.highPrice).toFixed(2)}</p>
+                  <p className="text-xl font-semibold">{formatPrice(parseFloat(cryptoData.highPrice), cryptoQuote)}</p>
                 </div>
                 
                 <div className="bg-gray-700 p-3 rounded">
                   <p className="text-gray-400 text-sm">24h Low</p>
-                  <p className="text-xl font-semibold">${parseFloat(cryptoData.lowPrice).toFixed(2)}</p>
+                  <p className="text-xl font-semibold">{formatPrice(parseFloat(cryptoData.lowPrice), cryptoQuote)}</p>
                 </div>
                 
                 <div className="bg-gray-700 p-3 rounded col-span-2">
                   <p className="text-gray-400 text-sm">24h Volume</p>
-                  <p className="text-xl font-semibold">${(parseFloat(cryptoData.volume) / 1000000).toFixed(2)}M</p>
+                  <p className="text-xl font-semibold">{formatPrice(quoteVolumeOf(cryptoData) / 1000000, cryptoQuote)}M</p>
                 </div>
               </div>
               
+              {/* Where converted prices come from */}
+              {isUsdQuote(cryptoQuote) && displayCurrency.rate && (
+                <p className="-mt-4 mb-6 text-xs text-gray-500">
+                  Converted at 1 USD = {displayCurrency.rate.rate.toPrecision(5)} {displayCurrency.rate.currency} ({displayCurrency.rate.source} {displayCurrency.rate.pair}),
+                  updated {new Date(displayCurrency.rate.fetchedAt).toLocaleTimeString(LOCALES[locale].dateLocale, { hour: 'numeric', minute: '2-digit' })}
+                </p>
+              )}
+              {isUsdQuote(cryptoQuote) && displayCurrency.error && (
+                <p className="-mt-4 mb-6 text-xs text-yellow-400">
+                  {displayCurrency.error}; showing US dollars.
+                </p>
+              )}
+              
+              {/* Technical indicators */}
+              {indicators && indicators.signals.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-6 text-sm">
+                  {indicators.rsi !== null && (
+                    <span className={`px-2 py-1 rounded bg-gray-700 ${indicators.rsi >= rsiOverbought ? 'text-red-400' : indicators.rsi <= rsiOversold ? 'text-green-400' : ''}`}>
+                      RSI {indicators.rsi.toFixed(0)}
+                    </span>
+                  )}
+                  {indicators.macd && (
+                    <span className={`px-2 py-1 rounded bg-gray-700 ${indicators.macd.histogram >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      MACD {indicators.macd.histogram >= 0 ? 'bullish' : 'bearish'}
+                    </span>
+                  )}
+                  {indicators.sma && (
+                    <span className={`px-2 py-1 rounded bg-gray-700 ${indicators.sma.fast > indicators.sma.slow ? 'text-green-400' : 'text-red-400'}`}>
+                      SMA 20/50 {indicators.sma.cross ? `${indicators.sma.cross} cross` : indicators.sma.fast > indicators.sma.slow ? 'above' : 'below'}
+                    </span>
+                  )}
+                  {indicators.bollinger && (
+                    <span className="px-2 py-1 rounded bg-gray-700">
+                      Bollinger %B {indicators.bollinger.percentB.toFixed(2)}
+                    </span>
+                  )}
+                  {indicators.atrPercent !== null && (
+                    <span className="px-2 py-1 rounded bg-gray-700">
+                      ATR {indicators.atrPercent.toFixed(1)}%
+                    </span>
+                  )}
+                  <span className={`px-2 py-1 rounded bg-gray-700 capitalize ${indicators.bias === 'bullish' ? 'text-green-400' : indicators.bias === 'bearish' ? 'text-red-400' : 'text-gray-300'}`}>
+                    {indicators.bias}
+                  </span>
+                </div>
+              )}
+              
               {/* Price Chart */}
-              {historicalPrices.length > 0 && (
+              {klines.length > 0 && (
                 <div className="mt-6 bg-gray-700 p-4 rounded-lg">
-                  <h3 className="text-lg font-semibold mb-2">7-Day Price Chart</h3>
-                  <div className="h-64">
-                    <Line data={chartData} options={chartOptions} />
+                  <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                    <h3 className="text-lg font-semibold">
+                      {CHART_RANGES[timeframe.range].label} Price Chart · {timeframe.interval}
+                    </h3>
+                    <div className="flex flex-wrap gap-1 text-xs">
+                      {(Object.keys(CHART_RANGES) as ChartRange[]).map(range => (
+                        <button
+                          key={range}
+                          onClick={() => changeTimeframe({ range, interval: CHART_RANGES[range].defaultInterval })}
+                          className={`px-2 py-1 rounded ${timeframe.range === range ? 'bg-blue-600' : 'bg-gray-600 hover:bg-gray-500'}`}
+                        >
+                          {CHART_RANGES[range].label}
+                        </button>
+                      ))}
+                      <span className="w-2"></span>
+                      {KLINE_INTERVALS.map(interval => (
+                        <button
+                          key={interval}
+                          onClick={() => changeTimeframe({ ...timeframe, interval })}
+                          className={`px-2 py-1 rounded ${timeframe.interval === interval ? 'bg-blue-600' : 'bg-gray-600 hover:bg-gray-500'}`}
+                        >
+                          {interval}
+                        </button>
+                      ))}
+                      <span className="w-2"></span>
+                      <button
+                        onClick={() => setChartType(chartType === 'line' ? 'candles' : 'line')}
+                        className="px-2 py-1 rounded bg-gray-600 hover:bg-gray-500"
+                      >
+                        {chartType === 'line' ? 'Candles' : 'Line'}
+                      </button>
+                    </div>
                   </div>
+                  <PriceChart
+                    klines={chartKlines}
+                    displayFrom={chartFrom}
+                    interval={timeframe.interval}
+                    chartType={chartType}
+                    label={`${cryptoBase} Price (${isUsdQuote(cryptoQuote) ? displayCurrency.currency.code : cryptoQuote})`}
+                  />
                 </div>
               )}
+              {klines.length === 0 && chartError && (
+                <p className="mt-6 text-sm text-yellow-400">The chart couldn't be loaded: {chartError}</p>
+              )}
             </div>
           )}
           
-          {!speaking && !loading && lastInteraction === 'conversation' && !cryptoData && (
+          {!talking && !loading && comparison && lastInteraction === 'market' && (
+            <MarketComparison
+              title={comparison.title}
+              tickers={comparison.tickers}
+              series={comparison.series}
+              rangeLabel={CHART_RANGES[timeframe.range].label}
+              assetName={assetNameFor}
+              formatPrice={(ticker) => formatPrice(parseFloat(ticker.lastPrice), symbolRegistry.get(ticker.symbol)?.quoteAsset ?? 'USDT')}
+              onSelect={(symbol) => fetchCryptoData(symbol)}
+            />
+          )}
+          
+          {!talking && !loading && lastInteraction === 'conversation' && !cryptoData && (
             <div className="bg-gray-800 p-6 rounded-lg w-full max-w-2xl text-center">
               <h2 className="text-2xl font-bold mb-4">Jarvis AI Assistant</h2>
               <p className="text-lg mb-4">I'm your cryptocurrency analysis assistant.</p>
@@ -680,6 +1028,169 @@ function App() {
           )}
         </div>
 
+        {/* Order book and trade tape */}
+        {showOrderFlow && orderFlowSymbol && (
+          <OrderFlowPanel
+            name={assetNameFor(orderFlowSymbol)}
+            book={orderFlow.book}
+            trades={orderFlow.trades}
+            status={orderFlow.status}
+            error={orderFlow.error}
+            formatPrice={(value) => formatPrice(value, symbolRegistry.get(orderFlowSymbol)?.quoteAsset ?? 'USDT')}
+            onClose={() => setShowOrderFlow(false)}
+          />
+        )}
+
+        {/* Watchlist tiles */}
+        {showWatchlist && (
+          <WatchlistPanel
+            symbols={watchlist.symbols}
+            tickers={watchlist.tickers}
+            sparklines={watchlist.sparklines}
+            updatedAt={watchlist.updatedAt}
+            error={watchlist.error}
+            assetName={assetNameFor}
+            formatPrice={(ticker) => formatPrice(parseFloat(ticker.lastPrice), symbolRegistry.get(ticker.symbol)?.quoteAsset ?? 'USDT')}
+            onSelect={(symbol) => fetchCryptoData(symbol)}
+            onAdd={addToWatchlistFromText}
+            onRemove={(symbol) => watchlist.remove([symbol])}
+            onClose={() => setShowWatchlist(false)}
+          />
+        )}
+
+        {/* Portfolio panel */}
+        {showPortfolio && (
+          <PortfolioPanel
+            valuation={portfolio.valuation}
+            assetName={assetNameFor}
+            currency={displayCurrency.currency}
+            formatValue={displayCurrency.format}
+            onTrade={(coin, side, quantity, price) => {
+              const match = symbolRegistry.resolve(coin);
+              if (!match) return Promise.resolve(messages.unknownCoin(coin));
+              const symbol = symbolRegistry.get(`${match.baseAsset}USDT`)?.symbol ?? match.symbol;
+              // The form takes prices in the display currency; holdings are kept in dollars
+              return recordPortfolioTrade(portfolio, marketProvider, symbol, side, quantity, price === null ? null : price / displayCurrency.convert(1));
+            }}
+            onRemove={portfolio.removeHolding}
+            onClose={() => setShowPortfolio(false)}
+          />
+        )}
+
+        {/* Paper trading panel */}
+        {showPaperTrading && (
+          <PaperTradingPanel
+            account={paperTrading.account}
+            valuation={paperTrading.valuation}
+            assetName={assetNameFor}
+            formatValue={displayCurrency.format}
+            onCancelOrder={paperTrading.cancelOrder}
+            onReset={paperTrading.reset}
+            onClose={() => setShowPaperTrading(false)}
+          />
+        )}
+
+        {/* Backtest panel */}
+        {showBacktest && (
+          <BacktestPanel
+            result={backtest?.result ?? null}
+            klines={backtest?.klines ?? []}
+            running={backtestRunning}
+            assetName={assetNameFor}
+            formatValue={displayCurrency.format}
+            onRun={async (coin, strategy, durationMs) => {
+              const match = symbolRegistry.resolve(coin);
+              if (!match) return messages.unknownCoin(coin);
+              const symbol = symbolRegistry.get(`${match.baseAsset}USDT`)?.symbol ?? match.symbol;
+              try {
+                await runStrategyBacktest(symbol, strategy, durationMs);
+                return null;
+              } catch (err) {
+                return err instanceof Error ? err.message : 'The backtest failed.';
+              }
+            }}
+            onClose={() => setShowBacktest(false)}
+          />
+        )}
+
+        {/* Briefing schedule and transcripts */}
+        {showBriefings && (
+          <BriefingPanel
+            settings={briefings.settings}
+            onChange={briefings.updateSettings}
+            transcripts={briefings.transcripts}
+            running={briefingRunning}
+            onRunNow={() => {
+              announceBriefing(null, 'Briefing');
+            }}
+            onClearTranscripts={briefings.clearTranscripts}
+            onClose={() => setShowBriefings(false)}
+          />
+        )}
+
+        {/* Price alerts panel */}
+        {showAlerts && (
+          <AlertsPanel
+            alerts={priceAlerts.alerts}
+            describe={(alert) => describePriceAlert(alert, replyContext)}
+            onTogglePause={(alert) => priceAlerts.setPaused([alert.id], !alert.paused)}
+            onDelete={(alert) => priceAlerts.removeAlerts([alert.id])}
+            onClose={() => setShowAlerts(false)}
+          />
+        )}
+
+        {/* Text console */}
+        {commandConsole.settings.open && (
+          <CommandConsole
+            entries={commandConsole.entries}
+            speakReplies={commandConsole.settings.speakReplies}
+            onSpeakRepliesChange={(speakReplies) => commandConsole.updateSettings({ speakReplies })}
+            onSubmit={submitTextCommand}
+            onCancel={() => {
+              if (processingCommand.current) cancelSpeech();
+            }}
+            onClear={commandConsole.clear}
+            onClose={browserSupportsSpeechRecognition ? () => commandConsole.updateSettings({ open: false }) : undefined}
+          />
+        )}
+
+        {/* Speech and analysis settings */}
+        {showSettings && (
+          <SettingsPanel
+            settings={assistantSettings.settings}
+            onChange={assistantSettings.updateSettings}
+            voiceSession={voiceSession.settings}
+            onVoiceSessionChange={voiceSession.updateSettings}
+            speechLang={LOCALES[locale].speechLang}
+            onPreview={previewVoice}
+            onExport={exportSettings}
+            onImport={importSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+
+        {/* Chat backend settings */}
+        {showChatBackend && (
+          <ChatBackendPanel
+            settings={chatBackend.settings}
+            ready={chatBackend.ready}
+            onChange={chatBackend.updateSettings}
+            onClose={() => setShowChatBackend(false)}
+          />
+        )}
+
+        {/* Conversation history */}
+        {showHistory && (
+          <HistoryPanel
+            entries={history.entries}
+            onRespeak={respeakHistoryEntry}
+            onReopen={reopenHistoryEntry}
+            onExport={exportHistory}
+            onClear={history.clear}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
         {/* Transcript display */}
         {listening && (
           <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
@@ -0,0 +1,68 @@
+import { Bell, Pause, Play, Trash2, X } from 'lucide-react';
+import { PriceAlert } from '../services/alerts';
+
+interface AlertsPanelProps {
+  alerts: PriceAlert[];
+  describe: (alert: PriceAlert) => string;
+  onTogglePause: (alert: PriceAlert) => void;
+  onDelete: (alert: PriceAlert) => void;
+  onClose: () => void;
+}
+
+// List of price alerts with pause/resume and delete controls
+function AlertsPanel({ alerts, describe, onTogglePause, onDelete, onClose }: AlertsPanelProps) {
+  return (
+    <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Bell size={16} className="mr-2 text-yellow-400" />
+          Price Alerts
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Hide alerts">
+          <X size={18} />
+        </button>
+      </div>
+
+      {alerts.length === 0 ? (
+        <p className="text-gray-400">
+          No alerts yet. Try "Alert me when Solana drops below 120" or "Tell me if ETH moves 5 percent in an hour".
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {alerts.map((alert, index) => (
+            <li key={alert.id} className="flex items-center justify-between bg-gray-700 p-3 rounded">
+              <div>
+                <p className={alert.paused ? 'text-gray-400' : ''}>
+                  <span className="text-gray-500 mr-2">{index + 1}.</span>
+                  {describe(alert)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {alert.paused ? 'Paused' : 'Active'}
+                  {alert.triggeredAt && ` · last triggered ${new Date(alert.triggeredAt).toLocaleString('en-US')}`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => onTogglePause(alert)}
+                  className="p-2 rounded hover:bg-gray-600"
+                  title={alert.paused ? 'Resume alert' : 'Pause alert'}
+                >
+                  {alert.paused ? <Play size={16} /> : <Pause size={16} />}
+                </button>
+                <button
+                  onClick={() => onDelete(alert)}
+                  className="p-2 rounded hover:bg-gray-600 text-red-400"
+                  title="Delete alert"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default AlertsPanel;
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { FlaskConical, X } from 'lucide-react';
+import { Kline } from '../services/market';
+import { BacktestResult, Strategy, StrategyKind, describeStrategy } from '../services/backtest';
+import PriceChart from './PriceChart';
+
+interface BacktestPanelProps {
+  result: BacktestResult | null;
+  // Candles the result was run over, warm-up included
+  klines: Kline[];
+  running: boolean;
+  assetName: (symbol: string) => string;
+  // Amounts are in USDT and formatted in the display currency
+  formatValue: (usd: number) => string;
+  // Returns an error message, or null once the backtest has run
+  onRun: (coin: string, strategy: Strategy, durationMs: number) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS: { label: string; ms: number }[] = [
+  { label: '1 month', ms: 30 * DAY_MS },
+  { label: '3 months', ms: 90 * DAY_MS },
+  { label: '6 months', ms: 180 * DAY_MS },
+  { label: '1 year', ms: 365 * DAY_MS },
+  { label: '2 years', ms: 2 * 365 * DAY_MS },
+];
+
+// Strategies offered by the form, with the same defaults the voice command uses
+const PRESETS: Record<StrategyKind, Strategy> = {
+  maCrossover: { kind: 'maCrossover', average: 'sma', fast: 50, slow: 200 },
+  rsi: { kind: 'rsi', period: 14, buyBelow: 30, sellAbove: 70 },
+  dca: { kind: 'dca', frequency: 'weekly', amount: 100 },
+};
+
+// The DCA amount is shown in the display currency
+const PRESET_LABELS: Record<StrategyKind, (formatValue: (usd: number) => string) => string> = {
+  maCrossover: () => 'SMA 50/200 crossover',
+  rsi: () => 'RSI 30/70',
+  dca: (formatValue) => `Weekly ${formatValue(100)} DCA`,
+};
+
+const signedClass = (value: number) => (value >= 0 ? 'text-green-400' : 'text-red-400');
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Strategy replay over past candles: the form, headline stats and the equity curve over the price
+function BacktestPanel({ result, klines, running, assetName, formatValue, onRun, onClose }: BacktestPanelProps) {
+  const [coin, setCoin] = useState('');
+  const [kind, setKind] = useState<StrategyKind>('dca');
+  const [period, setPeriod] = useState(PERIODS[3].ms);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const submit = async () => {
+    if (!coin.trim()) {
+      setFormError('Enter a coin to test.');
+      return;
+    }
+    setFormError(await onRun(coin, PRESETS[kind], period));
+  };
+
+  const roundTrips = result ? result.trades.filter(trade => trade.side === 'sell').length : 0;
+
+  return (
+    <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <FlaskConical size={16} className="mr-2 text-blue-400" />
+          Backtest
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Hide backtest">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4 text-sm">
+        <input
+          value={coin}
+          onChange={(e) => setCoin(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+          placeholder="Coin, e.g. bitcoin"
+          className="flex-1 min-w-[8rem] bg-gray-700 rounded px-3 py-2"
+        />
+        <select value={kind} onChange={(e) => setKind(e.target.value as StrategyKind)} className="bg-gray-700 rounded px-2 py-2">
+          {(Object.keys(PRESETS) as StrategyKind[]).map(option => (
+            <option key={option} value={option}>{PRESET_LABELS[option](formatValue)}</option>
+          ))}
+        </select>
+        <select value={period} onChange={(e) => setPeriod(Number(e.target.value))} className="bg-gray-700 rounded px-2 py-2">
+          {PERIODS.map(option => (
+            <option key={option.ms} value={option.ms}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={submit}
+          disabled={running}
+          className="px-3 py-2 rounded bg-blue-600 hover:bg-blue-500 disabled:opacity-50"
+        >
+          {running ? 'Running…' : 'Run'}
+        </button>
+      </div>
+      {formError && <p className="text-red-400 text-sm mb-4">{formError}</p>}
+
+      {result ? (
+        <>
+          <p className="text-sm text-gray-400 mb-3">
+            {describeStrategy(result.strategy, formatValue)} on {assetName(result.symbol)}, {formatDate(result.startTime)} to {formatDate(result.endTime)}
+            {' '}({result.interval} candles)
+          </p>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+            <div className="bg-gray-700 p-3 rounded">
+              <p className="text-gray-400 text-sm">Return</p>
+              <p className={`text-lg font-semibold ${signedClass(result.returnPercent)}`}>{result.returnPercent.toFixed(2)}%</p>
+              <p className="text-xs text-gray-400">{formatValue(result.capital)} → {formatValue(result.finalEquity)}</p>
+            </div>
+            <div className="bg-gray-700 p-3 rounded">
+              <p className="text-gray-400 text-sm">Buy & Hold</p>
+              <p className={`text-lg font-semibold ${signedClass(result.buyAndHoldPercent)}`}>{result.buyAndHoldPercent.toFixed(2)}%</p>
+            </div>
+            <div className="bg-gray-700 p-3 rounded">
+              <p className="text-gray-400 text-sm">Max Drawdown</p>
+              <p className="text-lg font-semibold text-red-400">{result.maxDrawdownPercent.toFixed(2)}%</p>
+            </div>
+            <div className="bg-gray-700 p-3 rounded">
+              <p className="text-gray-400 text-sm">Win Rate / Sharpe</p>
+              <p className="text-lg font-semibold">
+                {result.winRate === null ? '–' : `${result.winRate.toFixed(0)}%`} / {result.sharpe === null ? '–' : result.sharpe.toFixed(2)}
+              </p>
+              <p className="text-xs text-gray-400">
+                {result.strategy.kind === 'dca' ? `${result.trades.length} purchases` : `${roundTrips} round trip${roundTrips === 1 ? '' : 's'}`}
+              </p>
+            </div>
+          </div>
+
+          <PriceChart
+            klines={klines}
+            displayFrom={result.startTime}
+            interval={result.interval}
+            chartType="line"
+            label={`${assetName(result.symbol)} Price (USDT)`}
+            backtest={result}
+          />
+        </>
+      ) : (
+        <p className="text-gray-400 text-sm">
+          No backtest yet. Say "backtest a weekly DCA on bitcoin over a year" or pick a strategy above.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default BacktestPanel;
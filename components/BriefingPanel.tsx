@@ -0,0 +1,134 @@
+import { Play, Sunrise, Trash2, X } from 'lucide-react';
+import {
+  BRIEFING_SECTIONS,
+  BRIEFING_SLOTS,
+  BriefingSection,
+  BriefingSettings,
+  BriefingSlot,
+  BriefingTranscript,
+  nextBriefing,
+} from '../services/briefing';
+
+interface BriefingPanelProps {
+  settings: BriefingSettings;
+  onChange: (settings: BriefingSettings) => void;
+  transcripts: BriefingTranscript[];
+  running: boolean;
+  onRunNow: () => void;
+  onClearTranscripts: () => void;
+  onClose: () => void;
+}
+
+const SLOT_LABELS: Record<BriefingSlot, string> = {
+  morning: 'Morning',
+  evening: 'Evening',
+};
+
+const SECTION_LABELS: Record<BriefingSection, string> = {
+  watchlist: 'Watchlist moves',
+  movers: 'Top movers',
+  alerts: 'Triggered alerts',
+  portfolio: 'Portfolio change',
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Morning and evening briefing times and contents, with the transcripts of past briefings
+function BriefingPanel({ settings, onChange, transcripts, running, onRunNow, onClearTranscripts, onClose }: BriefingPanelProps) {
+  const next = nextBriefing(settings, Date.now());
+
+  const updateSlot = (slot: BriefingSlot, patch: Partial<BriefingSettings[BriefingSlot]>) => {
+    onChange({ ...settings, [slot]: { ...settings[slot], ...patch } });
+  };
+
+  const toggleSection = (slot: BriefingSlot, section: BriefingSection, on: boolean) => {
+    const sections = on ? [...settings[slot].sections, section] : settings[slot].sections.filter(item => item !== section);
+    // Keep the sections in their usual reading order
+    updateSlot(slot, { sections: BRIEFING_SECTIONS.filter(item => sections.includes(item)) });
+  };
+
+  return (
+    <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Sunrise size={16} className="mr-2 text-blue-400" />
+          Briefings
+        </h3>
+        <div className="flex items-center space-x-3 text-gray-400">
+          <button
+            onClick={onRunNow}
+            disabled={running}
+            className="flex items-center text-sm hover:text-white disabled:opacity-50"
+            title="Read a briefing now"
+          >
+            <Play size={14} className="mr-1" />
+            Brief me now
+          </button>
+          <button onClick={onClose} className="hover:text-white" title="Hide briefings">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <p className="text-gray-400 text-sm mb-3">
+        {next ? `Next briefing: ${SLOT_LABELS[next.slot].toLowerCase()}, ${formatTime(next.at)}.` : 'Scheduled briefings are off.'}
+        {' '}Say "Jarvis, give me my briefing now" any time.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm mb-4">
+        {BRIEFING_SLOTS.map(slot => (
+          <div key={slot} className="bg-gray-700 p-3 rounded">
+            <div className="flex items-center justify-between mb-2">
+              <label className="flex items-center space-x-2 font-semibold">
+                <input type="checkbox" checked={settings[slot].enabled} onChange={(e) => updateSlot(slot, { enabled: e.target.checked })} />
+                <span>{SLOT_LABELS[slot]}</span>
+              </label>
+              <input
+                type="time"
+                value={settings[slot].time}
+                onChange={(e) => e.target.value && updateSlot(slot, { time: e.target.value })}
+                className="bg-gray-800 rounded px-2 py-1"
+              />
+            </div>
+            {BRIEFING_SECTIONS.map(section => (
+              <label key={section} className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={settings[slot].sections.includes(section)}
+                  onChange={(e) => toggleSection(slot, section, e.target.checked)}
+                />
+                <span>{SECTION_LABELS[section]}</span>
+              </label>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {transcripts.length > 0 ? (
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <h4 className="text-sm text-gray-400">Transcripts</h4>
+            <button onClick={onClearTranscripts} className="text-gray-400 hover:text-white" title="Clear transcripts">
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <ul className="space-y-2 text-sm max-h-64 overflow-y-auto">
+            {[...transcripts].reverse().map(transcript => (
+              <li key={transcript.id} className="bg-gray-700 rounded px-3 py-2">
+                <p className="text-xs text-gray-400 mb-1">
+                  {formatTime(transcript.createdAt)} · {transcript.slot ? SLOT_LABELS[transcript.slot] : 'On demand'}
+                </p>
+                <p>{transcript.text}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">No briefings yet.</p>
+      )}
+    </div>
+  );
+}
+
+export default BriefingPanel;
@@ -0,0 +1,84 @@
+import { Bot, X } from 'lucide-react';
+import { ChatBackendSettings } from '../services/chat';
+
+interface ChatBackendPanelProps {
+  settings: ChatBackendSettings;
+  ready: boolean;
+  onChange: (patch: Partial<ChatBackendSettings>) => void;
+  onClose: () => void;
+}
+
+// Connection settings for the optional LLM that answers open-ended questions
+function ChatBackendPanel({ settings, ready, onChange, onClose }: ChatBackendPanelProps) {
+  return (
+    <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Bot size={16} className="mr-2 text-purple-400" />
+          Chat Backend
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Hide chat backend settings">
+          <X size={18} />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-400 mb-3">
+        Questions like "why is bitcoin down today?" are sent to an OpenAI-compatible server, such as a local
+        llama.cpp or Ollama, together with the coin, indicators and chart on screen. Without one, Jarvis keeps to its built-in replies.
+      </p>
+
+      <label className="flex items-center space-x-2 mb-3">
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ enabled: e.target.checked })} />
+        <span>Answer open questions with the chat backend</span>
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <label className="flex flex-col sm:col-span-2">
+          <span className="text-gray-400 mb-1">Server URL</span>
+          <input
+            value={settings.baseUrl}
+            onChange={(e) => onChange({ baseUrl: e.target.value })}
+            placeholder="http://localhost:11434/v1"
+            className="bg-gray-700 rounded px-3 py-2"
+          />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-gray-400 mb-1">Model</span>
+          <input
+            value={settings.model}
+            onChange={(e) => onChange({ model: e.target.value })}
+            placeholder="llama3.1"
+            className="bg-gray-700 rounded px-3 py-2"
+          />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-gray-400 mb-1">API key (optional)</span>
+          <input
+            type="password"
+            value={settings.apiKey}
+            onChange={(e) => onChange({ apiKey: e.target.value })}
+            className="bg-gray-700 rounded px-3 py-2"
+            autoComplete="off"
+          />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-gray-400 mb-1">Temperature {settings.temperature.toFixed(1)}</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.1}
+            value={settings.temperature}
+            onChange={(e) => onChange({ temperature: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <p className={`mt-3 text-xs ${ready ? 'text-green-400' : 'text-gray-500'}`}>
+        {ready ? `Open questions go to ${settings.model}.` : 'Not in use: enable it and fill in the server URL and model.'}
+      </p>
+    </div>
+  );
+}
+
+export default ChatBackendPanel;
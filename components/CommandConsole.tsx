@@ -0,0 +1,181 @@
+import { FormEvent, KeyboardEvent, useEffect, useRef, useState } from 'react';
+import { Keyboard, Mic, Send, Trash2, Volume2, X } from 'lucide-react';
+import { ConsoleEntry } from '../hooks/useCommandConsole';
+
+interface CommandConsoleProps {
+  entries: ConsoleEntry[];
+  speakReplies: boolean;
+  onSpeakRepliesChange: (speakReplies: boolean) => void;
+  onSubmit: (text: string) => void;
+  // Stop the reply in progress (Escape)
+  onCancel: () => void;
+  onClear: () => void;
+  onClose?: () => void;
+}
+
+interface Shortcut {
+  // KeyboardEvent.code, so Alt+letter works on layouts where Alt types a symbol
+  code: string;
+  label: string;
+  command: string;
+}
+
+// Alt+key runs a common query without typing it
+const CONSOLE_SHORTCUTS: Shortcut[] = [
+  { code: 'KeyB', label: 'Bitcoin', command: 'bitcoin' },
+  { code: 'KeyE', label: 'Ethereum', command: 'ethereum' },
+  { code: 'KeyS', label: 'Solana', command: 'solana' },
+  { code: 'KeyM', label: 'Market overview', command: 'market overview' },
+  { code: 'KeyG', label: 'Top gainers', command: 'top gainers' },
+  { code: 'KeyL', label: 'Top losers', command: 'top losers' },
+  { code: 'KeyP', label: 'Portfolio', command: 'how is my portfolio doing' },
+  { code: 'KeyA', label: 'Alerts', command: 'list my alerts' },
+];
+
+const shortcutKey = (shortcut: Shortcut) => `Alt+${shortcut.code.replace('Key', '')}`;
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Chat-style command line: runs typed commands through the same pipeline as voice
+// and shows every command and reply, whether heard, typed or spoken.
+function CommandConsole({ entries, speakReplies, onSpeakRepliesChange, onSubmit, onCancel, onClear, onClose }: CommandConsoleProps) {
+  const [text, setText] = useState('');
+  // Position while stepping back through earlier commands with the arrow keys
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  const typedCommands = entries.filter(entry => entry.role === 'user' && entry.source === 'text').map(entry => entry.text);
+
+  // Keep the newest line in view
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [entries]);
+
+  // Global shortcuts: Alt+key for common queries, "/" to focus the input, Escape to stop a reply
+  useEffect(() => {
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (event.altKey && !event.ctrlKey && !event.metaKey) {
+        const shortcut = CONSOLE_SHORTCUTS.find(candidate => candidate.code === event.code);
+        if (shortcut) {
+          event.preventDefault();
+          onSubmit(shortcut.command);
+        }
+        return;
+      }
+      if (event.key === 'Escape') {
+        onCancel();
+      } else if (event.key === '/' && !isTyping(event.target)) {
+        event.preventDefault();
+        inputRef.current?.focus();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onSubmit, onCancel]);
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    const command = text.trim();
+    if (!command) return;
+    onSubmit(command);
+    setText('');
+    setHistoryIndex(null);
+  };
+
+  // Up/Down recall earlier typed commands, like a shell
+  const recall = (event: KeyboardEvent<HTMLInputElement>) => {
+    if ((event.key !== 'ArrowUp' && event.key !== 'ArrowDown') || typedCommands.length === 0) return;
+    event.preventDefault();
+
+    const last = typedCommands.length - 1;
+    const next = event.key === 'ArrowUp'
+      ? (historyIndex === null ? last : Math.max(0, historyIndex - 1))
+      : (historyIndex === null || historyIndex >= last ? null : historyIndex + 1);
+
+    setHistoryIndex(next);
+    setText(next === null ? '' : typedCommands[next]);
+  };
+
+  return (
+    <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Keyboard size={16} className="mr-2 text-blue-400" />
+          Console
+        </h3>
+        <div className="flex items-center space-x-3 text-sm text-gray-400">
+          <label className="flex items-center space-x-1" title="Read replies to typed commands aloud">
+            <input type="checkbox" checked={speakReplies} onChange={(e) => onSpeakRepliesChange(e.target.checked)} />
+            <span>Speak replies</span>
+          </label>
+          <button onClick={onClear} className="hover:text-white" title="Clear the console">
+            <Trash2 size={16} />
+          </button>
+          {onClose && (
+            <button onClick={onClose} className="hover:text-white" title="Hide console">
+              <X size={18} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div ref={logRef} className="h-64 overflow-y-auto mb-3 space-y-2 text-sm">
+        {entries.length === 0 ? (
+          <p className="text-gray-400">
+            Type a command such as "bitcoin", "compare solana and ethereum" or "alert me when ETH drops below 3000".
+          </p>
+        ) : (
+          entries.map(entry => (
+            <div key={entry.id} className={`flex ${entry.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] px-3 py-2 rounded-lg ${entry.role === 'user' ? 'bg-blue-700' : 'bg-gray-700'}`}>
+                <p className="whitespace-pre-wrap">{entry.text}</p>
+                <p className="mt-1 text-xs text-gray-400 flex items-center">
+                  {entry.source === 'voice' && (entry.role === 'user' ? <Mic size={10} className="mr-1" /> : <Volume2 size={10} className="mr-1" />)}
+                  {formatTime(entry.time)}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={submit} className="flex gap-2">
+        <input
+          ref={inputRef}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setHistoryIndex(null);
+          }}
+          onKeyDown={recall}
+          placeholder='Ask Jarvis... (press "/" to focus)'
+          className="flex-1 min-w-0 bg-gray-700 rounded px-3 py-2"
+          aria-label="Command"
+        />
+        <button type="submit" className="px-3 py-2 rounded bg-blue-600 hover:bg-blue-700" title="Send">
+          <Send size={16} />
+        </button>
+      </form>
+
+      <div className="flex flex-wrap gap-2 mt-3 text-xs">
+        {CONSOLE_SHORTCUTS.map(shortcut => (
+          <button
+            key={shortcut.code}
+            onClick={() => onSubmit(shortcut.command)}
+            className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-300"
+            title={`Run "${shortcut.command}"`}
+          >
+            {shortcut.label} <span className="text-gray-500">{shortcutKey(shortcut)}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default CommandConsole;
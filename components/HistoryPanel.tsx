@@ -0,0 +1,106 @@
+import { Bell, Download, ExternalLink, History, Keyboard, Mic, Trash2, Volume2, X } from 'lucide-react';
+import { HistoryEntry } from '../services/history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  onRespeak: (entry: HistoryEntry) => void;
+  onReopen: (entry: HistoryEntry) => void;
+  onExport: (format: 'json' | 'csv') => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Stored log of commands and replies, newest first, with replay and export
+function HistoryPanel({ entries, onRespeak, onReopen, onExport, onClear, onClose }: HistoryPanelProps) {
+  const newestFirst = [...entries].reverse();
+
+  return (
+    <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold flex items-center">
+          <History size={16} className="mr-2 text-blue-400" />
+          History
+        </h3>
+        <div className="flex items-center space-x-3 text-sm text-gray-400">
+          <button
+            onClick={() => onExport('json')}
+            disabled={entries.length === 0}
+            className="flex items-center hover:text-white disabled:opacity-40"
+            title="Export the full log as JSON"
+          >
+            <Download size={14} className="mr-1" /> JSON
+          </button>
+          <button
+            onClick={() => onExport('csv')}
+            disabled={entries.length === 0}
+            className="flex items-center hover:text-white disabled:opacity-40"
+            title="Export the log as a spreadsheet"
+          >
+            <Download size={14} className="mr-1" /> CSV
+          </button>
+          <button onClick={onClear} className="hover:text-white" title="Delete the stored history">
+            <Trash2 size={16} />
+          </button>
+          <button onClick={onClose} className="hover:text-white" title="Hide history">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-gray-400">
+          Nothing here yet. Every command and reply is kept here, so you can hear an answer again or bring back the chart it showed.
+        </p>
+      ) : (
+        <ul className="h-80 overflow-y-auto space-y-2 text-sm">
+          {newestFirst.map((entry, index) => (
+            <li key={entry.id ?? `unsaved-${index}`} className="bg-gray-700 p-3 rounded">
+              <div className="flex justify-between items-start">
+                <p className="flex items-center">
+                  {entry.source === 'voice' && <Mic size={12} className="mr-2 text-gray-400" />}
+                  {entry.source === 'text' && <Keyboard size={12} className="mr-2 text-gray-400" />}
+                  {entry.source === 'announcement' && <Bell size={12} className="mr-2 text-gray-400" />}
+                  {entry.utterance}
+                </p>
+                <div className="flex items-center space-x-1 ml-2">
+                  <button
+                    onClick={() => onRespeak(entry)}
+                    disabled={!entry.reply}
+                    className="p-1 rounded hover:bg-gray-600 disabled:opacity-40"
+                    title="Say the reply again"
+                  >
+                    <Volume2 size={14} />
+                  </button>
+                  <button
+                    onClick={() => onReopen(entry)}
+                    disabled={!entry.snapshot}
+                    className="p-1 rounded hover:bg-gray-600 disabled:opacity-40"
+                    title="Show the data from this reply"
+                  >
+                    <ExternalLink size={14} />
+                  </button>
+                </div>
+              </div>
+              <p className={`mt-1 ${entry.reply ? 'text-gray-300' : 'text-gray-500 italic'}`}>
+                {entry.reply ?? 'Cancelled before a reply'}
+              </p>
+              <p className="mt-1 text-xs text-gray-500">
+                {formatTime(entry.time)}
+                {' · '}
+                <span className="text-gray-400">{entry.intent.type}</span>
+                {entry.source !== 'announcement' && ` ${Math.round(entry.confidence * 100)}%`}
+                {' · '}
+                {entry.locale}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,124 @@
+import { Line } from 'react-chartjs-2';
+import type { ChartOptions, TooltipItem } from 'chart.js';
+import { ComparisonSeries, CryptoData, changeOf, quoteVolumeOf } from '../services/market';
+
+interface MarketComparisonProps {
+  title: string;
+  // Rows in the order they were ranked
+  tickers: CryptoData[];
+  // Normalized performance per coin; the chart is hidden when empty
+  series: ComparisonSeries[];
+  rangeLabel: string;
+  assetName: (symbol: string) => string;
+  formatPrice: (ticker: CryptoData) => string;
+  onSelect: (symbol: string) => void;
+}
+
+const SERIES_COLORS = [
+  'rgb(96, 165, 250)',
+  'rgb(250, 204, 21)',
+  'rgb(74, 222, 128)',
+  'rgb(248, 113, 113)',
+  'rgb(192, 132, 252)',
+  'rgb(45, 212, 191)',
+  'rgb(251, 146, 60)',
+  'rgb(244, 114, 182)',
+];
+const GRID_COLOR = 'rgba(255, 255, 255, 0.1)';
+const TICK_COLOR = 'rgba(255, 255, 255, 0.7)';
+
+const formatVolume = (value: number) =>
+  value >= 1e9 ? `$${(value / 1e9).toFixed(2)}B` : `$${(value / 1e6).toFixed(2)}M`;
+
+// Ranked table of several coins with an overlay of their performance rebased to 0%
+function MarketComparison({ title, tickers, series, rangeLabel, assetName, formatPrice, onSelect }: MarketComparisonProps) {
+  // Series can start at different times (new listings), so align them on the union of timestamps
+  const times = [...new Set(series.flatMap(line => line.points.map(point => point.time)))].sort((a, b) => a - b);
+  const labels = times.map(time => new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }));
+
+  const data = {
+    labels,
+    datasets: series.map((line, index) => {
+      const byTime = new Map(line.points.map(point => [point.time, point.percent]));
+      const color = SERIES_COLORS[index % SERIES_COLORS.length];
+      return {
+        label: assetName(line.symbol),
+        data: times.map(time => byTime.get(time) ?? null),
+        borderColor: color,
+        backgroundColor: color,
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.2,
+        spanGaps: true,
+      };
+    }),
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: { labels: { color: TICK_COLOR } },
+      tooltip: {
+        callbacks: {
+          label: (item: TooltipItem<'line'>) => `${item.dataset.label}: ${(item.parsed.y ?? 0).toFixed(2)}%`,
+        },
+      },
+    },
+    scales: {
+      x: { ticks: { color: TICK_COLOR, maxTicksLimit: 8 }, grid: { color: GRID_COLOR } },
+      y: {
+        ticks: { color: TICK_COLOR, callback: (value) => `${value}%` },
+        grid: { color: GRID_COLOR },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg w-full max-w-2xl">
+      <h2 className="text-2xl font-bold mb-4">{title}</h2>
+
+      <table className="w-full text-sm mb-6">
+        <thead>
+          <tr className="text-gray-400 text-left">
+            <th className="py-1 font-normal">#</th>
+            <th className="py-1 font-normal">Coin</th>
+            <th className="py-1 font-normal text-right">Price</th>
+            <th className="py-1 font-normal text-right">24h</th>
+            <th className="py-1 font-normal text-right">24h Volume</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tickers.map((ticker, index) => (
+            <tr
+              key={ticker.symbol}
+              onClick={() => onSelect(ticker.symbol)}
+              className="border-t border-gray-700 cursor-pointer hover:bg-gray-700"
+              title={`Analyze ${assetName(ticker.symbol)}`}
+            >
+              <td className="py-2 text-gray-500">{index + 1}</td>
+              <td className="py-2">{assetName(ticker.symbol)}</td>
+              <td className="py-2 text-right">{formatPrice(ticker)}</td>
+              <td className={`py-2 text-right ${changeOf(ticker) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {changeOf(ticker) >= 0 ? '+' : ''}{changeOf(ticker).toFixed(2)}%
+              </td>
+              <td className="py-2 text-right text-gray-300">{formatVolume(quoteVolumeOf(ticker))}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {series.length > 0 && (
+        <div className="bg-gray-700 p-4 rounded-lg">
+          <h3 className="text-lg font-semibold mb-2">Performance · {rangeLabel}</h3>
+          <div className="h-64">
+            <Line data={data} options={options} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MarketComparison;
@@ -0,0 +1,165 @@
+import { Line } from 'react-chartjs-2';
+import type { ChartOptions } from 'chart.js';
+import { Layers, X } from 'lucide-react';
+import {
+  BookWall,
+  DEPTH_BAND_PERCENT,
+  MarketTrade,
+  OrderBook,
+  StreamStatus,
+  cumulativeDepth,
+  isWall,
+  summarizeOrderBook,
+  summarizeTrades,
+} from '../services/market';
+
+interface OrderFlowPanelProps {
+  name: string;
+  book: OrderBook | null;
+  trades: MarketTrade[];
+  status: StreamStatus;
+  error: string | null;
+  // Prices and order values are in the pair's quote asset
+  formatPrice: (value: number) => string;
+  onClose: () => void;
+}
+
+const BID_COLOR = 'rgb(74, 222, 128)';
+const ASK_COLOR = 'rgb(248, 113, 113)';
+const GRID_COLOR = 'rgba(255, 255, 255, 0.1)';
+const TICK_COLOR = 'rgba(255, 255, 255, 0.7)';
+// Trades shown on the tape, newest first
+const TAPE_ROWS = 20;
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatQuantity = (quantity: number) => quantity.toLocaleString('en-US', { maximumFractionDigits: 4 });
+
+// Depth chart of the book around the price, with walls marked, next to a live tape of trades
+function OrderFlowPanel({ name, book, trades, status, error, formatPrice, onClose }: OrderFlowPanelProps) {
+  const summary = book ? summarizeOrderBook(book) : null;
+  const flow = summarizeTrades(trades);
+  const largeTrades = new Set(flow?.largeTrades.map(trade => trade.id));
+  const tape = trades.slice(-TAPE_ROWS).reverse();
+
+  // Cumulative depth out to the same band the summary uses, bids drawn right to left
+  const depthSide = (levels: OrderBook['bids'], wall: BookWall | null, color: string, label: string) => {
+    const inBand = summary ? levels.filter(level => Math.abs(level.price - summary.mid) / summary.mid <= DEPTH_BAND_PERCENT / 100) : [];
+    const points = cumulativeDepth(inBand);
+    return {
+      label,
+      data: points.map(point => ({ x: point.price, y: point.total })),
+      borderColor: color,
+      backgroundColor: color.replace('rgb', 'rgba').replace(')', ', 0.2)'),
+      borderWidth: 1,
+      stepped: true,
+      fill: 'origin' as const,
+      pointRadius: points.map(point => (isWall(wall) && point.price === wall.price ? 5 : 0)),
+      pointBackgroundColor: 'white',
+    };
+  };
+
+  const depthData = book && summary
+    ? {
+        datasets: [
+          depthSide(book.bids, summary.largestBid, BID_COLOR, 'Bids'),
+          depthSide(book.asks, summary.largestAsk, ASK_COLOR, 'Asks'),
+        ],
+      }
+    : null;
+
+  const depthOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { type: 'linear', grid: { color: GRID_COLOR }, ticks: { color: TICK_COLOR, maxTicksLimit: 6 } },
+      y: { grid: { color: GRID_COLOR }, ticks: { color: TICK_COLOR, maxTicksLimit: 4 } },
+    },
+    plugins: {
+      legend: { labels: { color: TICK_COLOR } },
+      tooltip: {
+        callbacks: {
+          title: (items) => formatPrice(items[0].parsed.x),
+          label: (item) => `${item.dataset.label}: ${formatPrice(item.parsed.y)} total`,
+        },
+      },
+    },
+  };
+
+  const describeWall = (wall: BookWall | null) =>
+    isWall(wall) ? `${formatPrice(wall.price)} (${formatQuantity(wall.quantity)}, ${wall.multiple.toFixed(0)}× usual)` : 'None';
+
+  return (
+    <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Layers size={16} className="mr-2 text-blue-400" />
+          {name} Order Book
+          {status === 'live' && <span className="ml-2 w-2 h-2 rounded-full bg-green-400 animate-pulse" title="Live trades"></span>}
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Hide order book">
+          <X size={18} />
+        </button>
+      </div>
+
+      {error && <p className="text-yellow-400 text-sm mb-4">{error}</p>}
+
+      {summary ? (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4 text-sm">
+          <div className="bg-gray-700 p-3 rounded">
+            <p className="text-gray-400">Spread</p>
+            <p className="font-semibold">{formatPrice(summary.spread)}</p>
+            <p className="text-xs text-gray-400">{summary.spreadPercent.toFixed(3)}%</p>
+          </div>
+          <div className="bg-gray-700 p-3 rounded">
+            <p className="text-gray-400">Bids / Asks</p>
+            <p className={`font-semibold ${summary.imbalance >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {Math.round(((summary.imbalance + 1) / 2) * 100)}% / {Math.round(((1 - summary.imbalance) / 2) * 100)}%
+            </p>
+            <p className="text-xs text-gray-400">within {DEPTH_BAND_PERCENT}% of the price</p>
+          </div>
+          <div className="bg-gray-700 p-3 rounded">
+            <p className="text-gray-400">Buy Wall</p>
+            <p className="font-semibold text-green-400">{describeWall(summary.largestBid)}</p>
+          </div>
+          <div className="bg-gray-700 p-3 rounded">
+            <p className="text-gray-400">Sell Wall</p>
+            <p className="font-semibold text-red-400">{describeWall(summary.largestAsk)}</p>
+          </div>
+        </div>
+      ) : (
+        !error && <p className="text-gray-400 text-sm mb-4">Loading the order book...</p>
+      )}
+
+      {depthData && (
+        <div className="h-48 mb-4">
+          <Line data={depthData} options={depthOptions} />
+        </div>
+      )}
+
+      {tape.length > 0 && (
+        <div>
+          <h4 className="text-sm text-gray-400 mb-1">
+            Recent Trades
+            {flow && ` · ${Math.round(flow.buyShare * 100)}% bought`}
+          </h4>
+          <table className="w-full text-sm">
+            <tbody>
+              {tape.map(trade => (
+                <tr key={`${trade.time}-${trade.id}`} className={`border-t border-gray-700 ${largeTrades.has(trade.id) ? 'font-semibold bg-gray-700/50' : ''}`}>
+                  <td className="py-1 text-gray-400">{formatTime(trade.time)}</td>
+                  <td className={`py-1 ${trade.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>{trade.side === 'buy' ? 'Buy' : 'Sell'}</td>
+                  <td className="py-1 text-right">{formatPrice(trade.price)}</td>
+                  <td className="py-1 text-right">{formatQuantity(trade.quantity)}</td>
+                  <td className="py-1 text-right text-yellow-400">{largeTrades.has(trade.id) ? 'Large' : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default OrderFlowPanel;
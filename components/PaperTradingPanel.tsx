@@ -0,0 +1,159 @@
+import { RotateCcw, Wallet, X } from 'lucide-react';
+import { PaperAccount, PaperAccountValuation, PaperOrder, openOrders } from '../services/paper';
+
+interface PaperTradingPanelProps {
+  account: PaperAccount;
+  valuation: PaperAccountValuation;
+  assetName: (symbol: string) => string;
+  // Amounts are in USDT and formatted in the display currency
+  formatValue: (usd: number) => string;
+  onCancelOrder: (id: string) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+// Trades shown in the history table, newest first
+const RECENT_TRADES = 10;
+
+const pnlClass = (value: number) => (value >= 0 ? 'text-green-400' : 'text-red-400');
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatQuantity = (quantity: number) => quantity.toLocaleString('en-US', { maximumFractionDigits: 6 });
+
+// Simulated account: cash, equity, positions, resting limit orders and recent fills
+function PaperTradingPanel({ account, valuation, assetName, formatValue, onCancelOrder, onReset, onClose }: PaperTradingPanelProps) {
+  const pending = openOrders(account);
+  const trades = account.trades.slice(-RECENT_TRADES).reverse();
+  const totalPnl = valuation.realizedPnl + valuation.unrealizedPnl;
+
+  const describeAmount = (order: PaperOrder) =>
+    order.quantity !== null
+      ? `${formatQuantity(order.quantity)} ${assetName(order.symbol)}`
+      : order.quoteAmount !== null
+        ? `${formatValue(order.quoteAmount)} of ${assetName(order.symbol)}`
+        : `all ${assetName(order.symbol)}`;
+
+  return (
+    <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Wallet size={16} className="mr-2 text-blue-400" />
+          Paper Trading
+        </h3>
+        <div className="flex items-center space-x-3 text-gray-400">
+          <button
+            onClick={() => {
+              if (window.confirm(`Reset the paper account to ${formatValue(account.startingBalance)}? Positions, orders and trades are cleared.`)) {
+                onReset();
+              }
+            }}
+            className="hover:text-white"
+            title="Reset the paper account"
+          >
+            <RotateCcw size={16} />
+          </button>
+          <button onClick={onClose} className="hover:text-white" title="Hide paper trading">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+        <div className="bg-gray-700 p-3 rounded">
+          <p className="text-gray-400 text-sm">Equity</p>
+          <p className="text-lg font-semibold">{formatValue(valuation.equity)}</p>
+          <p className={`text-xs ${pnlClass(valuation.returnPercent)}`}>{valuation.returnPercent.toFixed(2)}%</p>
+        </div>
+        <div className="bg-gray-700 p-3 rounded">
+          <p className="text-gray-400 text-sm">Cash</p>
+          <p className="text-lg font-semibold">{formatValue(account.balance)}</p>
+        </div>
+        <div className="bg-gray-700 p-3 rounded">
+          <p className="text-gray-400 text-sm">P&L</p>
+          <p className={`text-lg font-semibold ${pnlClass(totalPnl)}`}>{formatValue(totalPnl)}</p>
+          <p className="text-xs text-gray-400">{formatValue(valuation.realizedPnl)} realized</p>
+        </div>
+        <div className="bg-gray-700 p-3 rounded">
+          <p className="text-gray-400 text-sm">Fees Paid</p>
+          <p className="text-lg font-semibold">{formatValue(account.feesPaid)}</p>
+        </div>
+      </div>
+
+      {valuation.positions.length > 0 && (
+        <table className="w-full text-sm mb-4">
+          <thead className="text-gray-400 text-left">
+            <tr>
+              <th className="py-1">Coin</th>
+              <th className="py-1 text-right">Quantity</th>
+              <th className="py-1 text-right">Avg Cost</th>
+              <th className="py-1 text-right">Price</th>
+              <th className="py-1 text-right">Value</th>
+              <th className="py-1 text-right">P&L</th>
+            </tr>
+          </thead>
+          <tbody>
+            {valuation.positions.map(({ position, price, value, unrealizedPnl, unrealizedPnlPercent }) => (
+              <tr key={position.symbol} className="border-t border-gray-700">
+                <td className="py-2">{assetName(position.symbol)}</td>
+                <td className="py-2 text-right">{formatQuantity(position.quantity)}</td>
+                <td className="py-2 text-right">{formatValue(position.costBasis / position.quantity)}</td>
+                <td className="py-2 text-right">{formatValue(price)}</td>
+                <td className="py-2 text-right">{formatValue(value)}</td>
+                <td className={`py-2 text-right ${pnlClass(unrealizedPnl)}`}>{unrealizedPnlPercent.toFixed(2)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {pending.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-sm text-gray-400 mb-1">Open Orders</h4>
+          <ul className="space-y-1 text-sm">
+            {pending.map(order => (
+              <li key={order.id} className="flex justify-between items-center bg-gray-700 rounded px-3 py-2">
+                <span>
+                  <span className={order.side === 'buy' ? 'text-green-400' : 'text-red-400'}>Limit {order.side}</span>{' '}
+                  {describeAmount(order)} at {formatValue(order.limitPrice ?? 0)}
+                </span>
+                <button onClick={() => onCancelOrder(order.id)} className="text-gray-400 hover:text-white" title="Cancel order">
+                  <X size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {trades.length > 0 ? (
+        <div>
+          <h4 className="text-sm text-gray-400 mb-1">Recent Trades</h4>
+          <table className="w-full text-sm">
+            <tbody>
+              {trades.map(trade => (
+                <tr key={trade.id} className="border-t border-gray-700">
+                  <td className="py-1 text-gray-400">{formatTime(trade.time)}</td>
+                  <td className={`py-1 ${trade.side === 'buy' ? 'text-green-400' : 'text-red-400'}`}>{trade.side === 'buy' ? 'Bought' : 'Sold'}</td>
+                  <td className="py-1">{formatQuantity(trade.quantity)} {assetName(trade.symbol)}</td>
+                  <td className="py-1 text-right">at {formatValue(trade.price)}</td>
+                  <td className="py-1 text-right text-gray-400">fee {formatValue(trade.fee)}</td>
+                  <td className={`py-1 text-right ${trade.realizedPnl === undefined ? '' : pnlClass(trade.realizedPnl)}`}>
+                    {trade.realizedPnl === undefined ? '' : formatValue(trade.realizedPnl)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">
+          No paper trades yet. Say "buy 200 dollars of solana" or "set a limit sell on ETH at 4000".
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default PaperTradingPanel;
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Briefcase, Trash2, X } from 'lucide-react';
+import { FiatCurrency } from '../services/market';
+import { PortfolioValuation, TradeSide } from '../services/portfolio';
+
+interface PortfolioPanelProps {
+  valuation: PortfolioValuation | null;
+  assetName: (symbol: string) => string;
+  // Display currency; valuations are in US dollars and formatted with formatValue
+  currency: FiatCurrency;
+  formatValue: (usd: number) => string;
+  // Returns an error message, or null when the trade was recorded
+  onTrade: (coin: string, side: TradeSide, quantity: number, price: number | null) => Promise<string | null>;
+  onRemove: (symbol: string) => void;
+  onClose: () => void;
+}
+
+const pnlClass = (value: number) => (value >= 0 ? 'text-green-400' : 'text-red-400');
+
+// Holdings table with unrealized P&L, allocation and a form to record trades
+function PortfolioPanel({ valuation, assetName, currency, formatValue, onTrade, onRemove, onClose }: PortfolioPanelProps) {
+  const [coin, setCoin] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const submit = async (side: TradeSide) => {
+    const parsedQuantity = parseFloat(quantity);
+    if (!coin.trim() || !(parsedQuantity > 0)) {
+      setFormError('Enter a coin and a quantity.');
+      return;
+    }
+    const parsedPrice = price.trim() ? parseFloat(price) : null;
+    const error = await onTrade(coin, side, parsedQuantity, parsedPrice);
+    setFormError(error);
+    if (!error) {
+      setCoin('');
+      setQuantity('');
+      setPrice('');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Briefcase size={16} className="mr-2 text-blue-400" />
+          Portfolio
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Hide portfolio">
+          <X size={18} />
+        </button>
+      </div>
+
+      {valuation && valuation.positions.length > 0 ? (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            <div className="bg-gray-700 p-3 rounded">
+              <p className="text-gray-400 text-sm">Total Value</p>
+              <p className="text-xl font-semibold">{formatValue(valuation.totalValue)}</p>
+            </div>
+            <div className="bg-gray-700 p-3 rounded">
+              <p className="text-gray-400 text-sm">Unrealized P&L</p>
+              <p className={`text-xl font-semibold ${pnlClass(valuation.unrealizedPnl)}`}>
+                {formatValue(valuation.unrealizedPnl)} ({valuation.unrealizedPnlPercent.toFixed(2)}%)
+              </p>
+            </div>
+            <div className="bg-gray-700 p-3 rounded">
+              <p className="text-gray-400 text-sm">24h Change</p>
+              <p className={`text-xl font-semibold ${pnlClass(valuation.change24h)}`}>
+                {formatValue(valuation.change24h)} ({valuation.change24hPercent.toFixed(2)}%)
+              </p>
+            </div>
+          </div>
+
+          <table className="w-full text-sm mb-4">
+            <thead className="text-gray-400 text-left">
+              <tr>
+                <th className="py-1">Coin</th>
+                <th className="py-1 text-right">Quantity</th>
+                <th className="py-1 text-right">Avg Cost</th>
+                <th className="py-1 text-right">Price</th>
+                <th className="py-1 text-right">Value</th>
+                <th className="py-1 text-right">P&L</th>
+                <th className="py-1 text-right">Alloc.</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {valuation.positions.map(position => (
+                <tr key={position.holding.symbol} className="border-t border-gray-700">
+                  <td className="py-2">{assetName(position.holding.symbol)}</td>
+                  <td className="py-2 text-right">{position.holding.quantity}</td>
+                  <td className="py-2 text-right">{formatValue(position.averageCost)}</td>
+                  <td className="py-2 text-right">{position.ticker ? formatValue(position.price) : '—'}</td>
+                  <td className="py-2 text-right">{formatValue(position.value)}</td>
+                  <td className={`py-2 text-right ${pnlClass(position.unrealizedPnl)}`}>
+                    {position.unrealizedPnlPercent.toFixed(2)}%
+                  </td>
+                  <td className="py-2 text-right">{position.allocationPercent.toFixed(1)}%</td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => onRemove(position.holding.symbol)}
+                      className="p-1 rounded hover:bg-gray-600 text-red-400"
+                      title="Remove holding"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : (
+        <p className="text-gray-400 mb-4">
+          No holdings yet. Say "I bought 0.5 bitcoin at 60 thousand" or use the form below.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          value={coin}
+          onChange={(e) => setCoin(e.target.value)}
+          placeholder="Coin (e.g. bitcoin)"
+          className="flex-1 min-w-0 bg-gray-700 rounded px-2 py-1"
+        />
+        <input
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          placeholder="Quantity"
+          type="number"
+          min="0"
+          step="any"
+          className="w-24 bg-gray-700 rounded px-2 py-1"
+        />
+        <input
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          placeholder={`Price in ${currency.code} (optional)`}
+          type="number"
+          min="0"
+          step="any"
+          className="w-32 bg-gray-700 rounded px-2 py-1"
+        />
+        <button onClick={() => submit('buy')} className="px-3 py-1 rounded bg-green-700 hover:bg-green-600">Buy</button>
+        <button onClick={() => submit('sell')} className="px-3 py-1 rounded bg-red-700 hover:bg-red-600">Sell</button>
+      </div>
+      {formError && <p className="mt-2 text-sm text-red-400">{formError}</p>}
+    </div>
+  );
+}
+
+export default PortfolioPanel;
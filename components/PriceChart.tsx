@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { Chart, Bar } from 'react-chartjs-2';
+import type { ChartData, ChartOptions, TooltipItem } from 'chart.js';
+import { Kline, KlineInterval, ChartType } from '../services/market';
+import { bollinger, sma } from '../services/indicators';
+import type { BacktestResult } from '../services/backtest';
+
+type Overlay = 'sma20' | 'sma50' | 'bollinger';
+
+interface PriceChartProps {
+  klines: Kline[];
+  // Candles before this time are only used to warm up the overlays
+  displayFrom: number;
+  interval: KlineInterval;
+  chartType: ChartType;
+  label: string;
+  // Strategy equity on a second axis, with its buys and sells marked on the price
+  backtest?: BacktestResult;
+}
+
+const UP_COLOR = 'rgb(74, 222, 128)';
+const DOWN_COLOR = 'rgb(248, 113, 113)';
+const GRID_COLOR = 'rgba(255, 255, 255, 0.1)';
+const TICK_COLOR = 'rgba(255, 255, 255, 0.7)';
+
+const OVERLAY_LABELS: Record<Overlay, string> = {
+  sma20: 'SMA 20',
+  sma50: 'SMA 50',
+  bollinger: 'Bollinger',
+};
+
+const formatTime = (time: number, interval: KlineInterval) => {
+  const date = new Date(time);
+  return interval === '1h' || interval === '4h'
+    ? date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+};
+
+const overlayLine = (label: string, data: (number | null)[], color: string, dashed = false) => ({
+  type: 'line' as const,
+  label,
+  data,
+  borderColor: color,
+  backgroundColor: color,
+  borderWidth: 1,
+  borderDash: dashed ? [4, 4] : [],
+  pointRadius: 0,
+  tension: 0.2,
+  spanGaps: true,
+  order: 0,
+});
+
+const tradeMarkers = (label: string, data: (number | null)[], color: string, rotation: number) => ({
+  type: 'line' as const,
+  label,
+  data,
+  showLine: false,
+  borderColor: color,
+  backgroundColor: color,
+  pointStyle: 'triangle' as const,
+  pointRadius: 6,
+  rotation,
+  order: -1,
+});
+
+// Price chart in line or OHLC candlestick mode, with indicator overlays and a volume sub-chart.
+// Candles are drawn as two floating bar datasets: thin high-low wicks behind open-close bodies.
+function PriceChart({ klines, displayFrom, interval, chartType, label, backtest }: PriceChartProps) {
+  const [overlays, setOverlays] = useState<Overlay[]>(['sma20']);
+
+  const closes = klines.map(candle => candle.close);
+  const firstIndex = Math.max(0, klines.findIndex(candle => candle.openTime >= displayFrom));
+  const visible = klines.slice(firstIndex);
+  const visibleSeries = <T,>(series: T[]) => series.slice(firstIndex);
+  const colors = visible.map(candle => (candle.close >= candle.open ? UP_COLOR : DOWN_COLOR));
+  const labels = visible.map(candle => formatTime(candle.openTime, interval));
+
+  const overlayDatasets = [];
+  if (overlays.includes('sma20')) {
+    overlayDatasets.push(overlayLine('SMA 20', visibleSeries(sma(closes, 20)), 'rgb(250, 204, 21)'));
+  }
+  if (overlays.includes('sma50')) {
+    overlayDatasets.push(overlayLine('SMA 50', visibleSeries(sma(closes, 50)), 'rgb(192, 132, 252)'));
+  }
+  if (overlays.includes('bollinger')) {
+    const bands = visibleSeries(bollinger(closes));
+    overlayDatasets.push(overlayLine('Upper band', bands.map(band => band?.upper ?? null), 'rgba(148, 163, 184, 0.8)', true));
+    overlayDatasets.push(overlayLine('Lower band', bands.map(band => band?.lower ?? null), 'rgba(148, 163, 184, 0.8)', true));
+  }
+
+  const backtestDatasets = [];
+  if (backtest) {
+    const positions = new Map(visible.map((candle, index) => [candle.openTime, index]));
+    const markers = (side: 'buy' | 'sell') => {
+      const data: (number | null)[] = visible.map(() => null);
+      for (const trade of backtest.trades) {
+        const index = positions.get(trade.time);
+        if (trade.side === side && index !== undefined) data[index] = trade.price;
+      }
+      return data;
+    };
+    const equity = new Map(backtest.equity.map(point => [point.time, point.equity]));
+    backtestDatasets.push(
+      { ...overlayLine('Strategy equity', visible.map(candle => equity.get(candle.openTime) ?? null), 'rgb(251, 146, 60)'), yAxisID: 'equity' },
+      tradeMarkers('Buys', markers('buy'), UP_COLOR, 0),
+      tradeMarkers('Sells', markers('sell'), DOWN_COLOR, 180)
+    );
+  }
+
+  const priceDatasets = chartType === 'candles'
+    ? [
+        {
+          type: 'bar' as const,
+          label,
+          data: visible.map(candle => [Math.min(candle.open, candle.close), Math.max(candle.open, candle.close)] as [number, number]),
+          backgroundColor: colors,
+          borderColor: colors,
+          borderWidth: 1,
+          barPercentage: 0.8,
+          grouped: false,
+          order: 1,
+        },
+        {
+          type: 'bar' as const,
+          label: 'High/Low',
+          data: visible.map(candle => [candle.low, candle.high] as [number, number]),
+          backgroundColor: colors,
+          barPercentage: 0.1,
+          grouped: false,
+          order: 2,
+        },
+      ]
+    : [
+        {
+          type: 'line' as const,
+          label,
+          data: visible.map(candle => candle.close),
+          borderColor: 'rgb(59, 130, 246)',
+          backgroundColor: 'rgba(59, 130, 246, 0.1)',
+          borderWidth: 2,
+          pointRadius: visible.length > 60 ? 0 : 3,
+          pointBackgroundColor: 'rgb(59, 130, 246)',
+          tension: 0.3,
+          fill: true,
+          order: 1,
+        },
+      ];
+
+  const priceData = {
+    labels,
+    datasets: [...priceDatasets, ...overlayDatasets, ...backtestDatasets],
+  } as ChartData<'bar' | 'line', (number | [number, number] | null)[]>;
+
+  const priceOptions: ChartOptions<'bar' | 'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      y: {
+        beginAtZero: false,
+        grid: { color: GRID_COLOR },
+        ticks: { color: TICK_COLOR },
+      },
+      x: {
+        grid: { color: GRID_COLOR },
+        ticks: { color: TICK_COLOR, maxTicksLimit: 8 },
+      },
+      equity: {
+        display: backtest !== undefined,
+        position: 'right',
+        grid: { drawOnChartArea: false },
+        ticks: { color: 'rgb(251, 146, 60)' },
+      },
+    },
+    plugins: {
+      legend: {
+        labels: {
+          color: TICK_COLOR,
+          filter: (item) => item.text !== 'High/Low',
+        },
+      },
+      tooltip: {
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        titleColor: 'white',
+        bodyColor: 'white',
+        borderColor: 'rgba(59, 130, 246, 0.5)',
+        borderWidth: 1,
+        filter: (item) => item.dataset.label !== 'High/Low',
+        callbacks: {
+          label: (item: TooltipItem<'bar' | 'line'>) => {
+            if (chartType === 'candles' && item.datasetIndex === 0) {
+              const candle = visible[item.dataIndex];
+              return `O ${candle.open}  H ${candle.high}  L ${candle.low}  C ${candle.close}`;
+            }
+            return `${item.dataset.label}: ${item.formattedValue}`;
+          },
+        },
+      },
+    },
+  };
+
+  const volumeData: ChartData<'bar'> = {
+    labels,
+    datasets: [
+      {
+        label: 'Volume',
+        data: visible.map(candle => candle.volume),
+        backgroundColor: colors.map(color => color.replace('rgb', 'rgba').replace(')', ', 0.5)')),
+      },
+    ],
+  };
+
+  const volumeOptions: ChartOptions<'bar'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: { legend: { display: false } },
+    scales: {
+      x: { display: false },
+      y: { grid: { color: GRID_COLOR }, ticks: { color: TICK_COLOR, maxTicksLimit: 3 } },
+    },
+  };
+
+  const toggleOverlay = (overlay: Overlay) => {
+    setOverlays(prev => (prev.includes(overlay) ? prev.filter(item => item !== overlay) : [...prev, overlay]));
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-2 text-xs">
+        {(Object.keys(OVERLAY_LABELS) as Overlay[]).map(overlay => (
+          <button
+            key={overlay}
+            onClick={() => toggleOverlay(overlay)}
+            className={`px-2 py-1 rounded ${overlays.includes(overlay) ? 'bg-blue-600' : 'bg-gray-600 hover:bg-gray-500'}`}
+          >
+            {OVERLAY_LABELS[overlay]}
+          </button>
+        ))}
+      </div>
+      <div className="h-64">
+        <Chart type="bar" data={priceData} options={priceOptions} />
+      </div>
+      <div className="h-20 mt-2">
+        <Bar data={volumeData} options={volumeOptions} />
+      </div>
+    </div>
+  );
+}
+
+export default PriceChart;
@@ -0,0 +1,169 @@
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+import { Download, Play, Settings, Upload, X } from 'lucide-react';
+import { AssistantSettings, SETTING_LIMITS } from '../services/settings';
+import { LISTENING_WINDOWS_MS, VoiceSessionSettings } from '../hooks/useVoiceSession';
+
+interface SettingsPanelProps {
+  settings: AssistantSettings;
+  onChange: (patch: Partial<AssistantSettings>) => void;
+  voiceSession: VoiceSessionSettings;
+  onVoiceSessionChange: (patch: Partial<VoiceSessionSettings>) => void;
+  // BCP 47 tag of the reply language; its voices are listed first
+  speechLang: string;
+  onPreview: () => void;
+  onExport: () => void;
+  // Apply an imported config file; returns an error message, or null on success
+  onImport: (text: string) => string | null;
+  onClose: () => void;
+}
+
+type SliderKey = 'rate' | 'pitch' | 'volume' | 'rsiOverbought' | 'rsiOversold' | 'bigMovePercent' | 'stablePercent';
+
+// Voices arrive asynchronously in Chrome, so keep listening for updates
+const useSpeechVoices = (): SpeechSynthesisVoice[] => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+
+  return voices;
+};
+
+// Speech, analysis and wake-word preferences, with config export and import
+function SettingsPanel({ settings, onChange, voiceSession, onVoiceSessionChange, speechLang, onPreview, onExport, onImport, onClose }: SettingsPanelProps) {
+  const voices = useSpeechVoices();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState<{ error: boolean; text: string } | null>(null);
+
+  const language = speechLang.slice(0, 2);
+  const sortedVoices = [...voices].sort((a, b) =>
+    Number(b.lang.startsWith(language)) - Number(a.lang.startsWith(language)) || a.name.localeCompare(b.name));
+
+  const slider = (key: SliderKey, label: string, format: (value: number) => string) => (
+    <label className="flex flex-col">
+      <span className="text-gray-400 mb-1">{label}: {format(settings[key])}</span>
+      <input
+        type="range"
+        min={SETTING_LIMITS[key].min}
+        max={SETTING_LIMITS[key].max}
+        step={SETTING_LIMITS[key].step}
+        value={settings[key]}
+        onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+      />
+    </label>
+  );
+
+  const importFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const error = onImport(await file.text());
+    setImportMessage(error ? { error: true, text: error } : { error: false, text: `Imported settings from ${file.name}.` });
+  };
+
+  return (
+    <div className="w-full max-w-2xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Settings size={16} className="mr-2 text-blue-400" />
+          Settings
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Hide settings">
+          <X size={18} />
+        </button>
+      </div>
+
+      <h4 className="text-sm font-semibold text-gray-300 mb-2">Voice</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm mb-4">
+        <label className="flex flex-col sm:col-span-2">
+          <span className="text-gray-400 mb-1">Voice</span>
+          <div className="flex gap-2">
+            <select
+              value={settings.voiceURI ?? ''}
+              onChange={(e) => onChange({ voiceURI: e.target.value || null })}
+              className="flex-1 min-w-0 bg-gray-700 rounded px-2 py-2"
+            >
+              <option value="">Automatic (natural voice for the language)</option>
+              {sortedVoices.map(voice => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+              ))}
+            </select>
+            <button onClick={onPreview} className="px-3 rounded bg-blue-600 hover:bg-blue-700 flex items-center" title="Hear a sample">
+              <Play size={14} className="mr-1" /> Preview
+            </button>
+          </div>
+        </label>
+        {slider('rate', 'Rate', value => `${value.toFixed(2)}×`)}
+        {slider('pitch', 'Pitch', value => value.toFixed(2))}
+        {slider('volume', 'Volume', value => `${Math.round(value * 100)}%`)}
+      </div>
+
+      <h4 className="text-sm font-semibold text-gray-300 mb-2">Analysis</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm mb-4">
+        <label className="flex flex-col">
+          <span className="text-gray-400 mb-1">Detail</span>
+          <select
+            value={settings.verbosity}
+            onChange={(e) => onChange({ verbosity: e.target.value === 'brief' ? 'brief' : 'full' })}
+            className="bg-gray-700 rounded px-2 py-2"
+          >
+            <option value="full">Full analysis</option>
+            <option value="brief">Brief: price, change and trend</option>
+          </select>
+        </label>
+        <label className="flex items-center space-x-2 sm:mt-6">
+          <input type="checkbox" checked={settings.includeAdvice} onChange={(e) => onChange({ includeAdvice: e.target.checked })} />
+          <span>End with advice</span>
+        </label>
+        {slider('rsiOverbought', 'RSI overbought at', value => String(value))}
+        {slider('rsiOversold', 'RSI oversold at', value => String(value))}
+        {slider('bigMovePercent', 'Big 24h move', value => `${value}%`)}
+        {slider('stablePercent', 'Stable below', value => `${value.toFixed(1)}%`)}
+      </div>
+
+      <h4 className="text-sm font-semibold text-gray-300 mb-2">Wake word</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm mb-4">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={voiceSession.requireWakeWord}
+            onChange={(e) => onVoiceSessionChange({ requireWakeWord: e.target.checked })}
+          />
+          <span>Ignore speech until I say "Jarvis"</span>
+        </label>
+        <label className="flex flex-col">
+          <span className="text-gray-400 mb-1">Keep listening for follow-ups</span>
+          <select
+            value={voiceSession.windowMs}
+            onChange={(e) => onVoiceSessionChange({ windowMs: Number(e.target.value) })}
+            className="bg-gray-700 rounded px-2 py-2"
+          >
+            {LISTENING_WINDOWS_MS.map(ms => (
+              <option key={ms} value={ms}>{ms / 1000} seconds</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3 text-sm">
+        <button onClick={onExport} className="flex items-center px-3 py-2 rounded bg-gray-700 hover:bg-gray-600" title="Save these settings to a file">
+          <Download size={14} className="mr-1" /> Export
+        </button>
+        <button onClick={() => fileInput.current?.click()} className="flex items-center px-3 py-2 rounded bg-gray-700 hover:bg-gray-600" title="Load settings from a file">
+          <Upload size={14} className="mr-1" /> Import
+        </button>
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={importFile} className="hidden" />
+        {importMessage && (
+          <span className={importMessage.error ? 'text-red-300' : 'text-green-400'}>{importMessage.text}</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SettingsPanel;
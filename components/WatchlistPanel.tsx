@@ -0,0 +1,123 @@
+import { FormEvent, useState } from 'react';
+import { LayoutGrid, Plus, X } from 'lucide-react';
+import { CryptoData } from '../services/market';
+import { sparklinePoints } from '../services/watchlist';
+
+interface WatchlistPanelProps {
+  symbols: string[];
+  tickers: Record<string, CryptoData>;
+  sparklines: Record<string, number[]>;
+  updatedAt: number | null;
+  error: string | null;
+  assetName: (symbol: string) => string;
+  formatPrice: (ticker: CryptoData) => string;
+  onSelect: (symbol: string) => void;
+  // Coin names typed into the form; returns an error message, or null when added
+  onAdd: (text: string) => string | null;
+  onRemove: (symbol: string) => void;
+  onClose: () => void;
+}
+
+const SPARKLINE_WIDTH = 120;
+const SPARKLINE_HEIGHT = 32;
+
+// Grid of compact tiles with price, 24h change and a 24h sparkline per coin
+function WatchlistPanel({ symbols, tickers, sparklines, updatedAt, error, assetName, formatPrice, onSelect, onAdd, onRemove, onClose }: WatchlistPanelProps) {
+  const [text, setText] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  // Tickers from the cache carry the time they were fetched
+  const cached = Object.values(tickers).some(ticker => ticker.cachedAt !== undefined);
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    const message = onAdd(text);
+    setFormError(message);
+    if (!message) setText('');
+  };
+
+  return (
+    <div className="w-full max-w-4xl mt-8 p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold flex items-center">
+          <LayoutGrid size={16} className="mr-2 text-blue-400" />
+          Watchlist
+          {updatedAt && (
+            <span className={`ml-3 text-xs font-normal ${cached ? 'text-yellow-400' : 'text-gray-500'}`}>
+              updated {new Date(updatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+              {cached && ' (cached)'}
+            </span>
+          )}
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" title="Hide watchlist">
+          <X size={18} />
+        </button>
+      </div>
+
+      {symbols.length === 0 ? (
+        <p className="text-gray-400 mb-3">Your watchlist is empty. Add a coin below or say "add chainlink to my watchlist".</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3 mb-3">
+          {symbols.map(symbol => {
+            const ticker = tickers[symbol];
+            const change = ticker ? parseFloat(ticker.priceChangePercent) : null;
+            const points = sparklinePoints(sparklines[symbol] ?? [], SPARKLINE_WIDTH, SPARKLINE_HEIGHT);
+            const color = change === null ? 'text-gray-400' : change >= 0 ? 'text-green-400' : 'text-red-400';
+
+            return (
+              <div
+                key={symbol}
+                onClick={() => onSelect(symbol)}
+                className="relative group bg-gray-700 hover:bg-gray-600 rounded p-3 cursor-pointer"
+                title={`Show ${assetName(symbol)}`}
+              >
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRemove(symbol);
+                  }}
+                  className="absolute top-1 right-1 p-1 rounded text-gray-400 hover:text-white opacity-0 group-hover:opacity-100"
+                  title={`Remove ${assetName(symbol)}`}
+                >
+                  <X size={12} />
+                </button>
+                <p className="text-sm text-gray-300">{assetName(symbol)}</p>
+                <p className="font-semibold">{ticker ? formatPrice(ticker) : '—'}</p>
+                <p className={`text-xs ${color}`}>
+                  {change === null ? 'loading…' : `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`}
+                </p>
+                <svg
+                  width="100%"
+                  height={SPARKLINE_HEIGHT}
+                  viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+                  preserveAspectRatio="none"
+                  className={`mt-1 ${color}`}
+                >
+                  {points && <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} />}
+                </svg>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-300 mb-2">{error}</p>}
+
+      <form onSubmit={submit} className="flex gap-2">
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Add coins, e.g. chainlink or LINK"
+          className="flex-1 min-w-0 bg-gray-700 rounded px-3 py-2 text-sm"
+          aria-label="Coin to add"
+        />
+        <button type="submit" className="px-3 py-2 rounded bg-blue-600 hover:bg-blue-700" title="Add to watchlist">
+          <Plus size={16} />
+        </button>
+      </form>
+      {formError && <p className="text-sm text-red-300 mt-2">{formError}</p>}
+    </div>
+  );
+}
+
+export default WatchlistPanel;
@@ -0,0 +1,20 @@
+import { useCallback, useRef, useState } from 'react';
+import { AssistantSettings, loadAssistantSettings, sanitizeAssistantSettings, saveAssistantSettings } from '../services/settings';
+
+// Persisted speech and analysis preferences. A ref mirrors the state so speech
+// started from callbacks always uses the latest values.
+export const useAssistantSettings = () => {
+  const [settings, setSettings] = useState<AssistantSettings>(loadAssistantSettings);
+  const settingsRef = useRef(settings);
+
+  const updateSettings = useCallback((patch: Partial<AssistantSettings>) => {
+    const next = sanitizeAssistantSettings({ ...settingsRef.current, ...patch });
+    settingsRef.current = next;
+    saveAssistantSettings(next);
+    setSettings(next);
+  }, []);
+
+  const current = useCallback(() => settingsRef.current, []);
+
+  return { settings, updateSettings, current };
+};
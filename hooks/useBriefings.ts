@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  BriefingSettings,
+  BriefingSlot,
+  BriefingTranscript,
+  MAX_BRIEFING_TRANSCRIPTS,
+  createBriefingId,
+  dueBriefings,
+  loadBriefingRuns,
+  loadBriefingSettings,
+  loadBriefingTranscripts,
+  saveBriefingRuns,
+  saveBriefingSettings,
+  saveBriefingTranscripts,
+} from '../services/briefing';
+
+// How often the schedule is checked
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// Briefing schedule and transcripts. onDue is called once per scheduled slot when its time comes.
+export const useBriefings = (onDue: (slot: BriefingSlot) => void) => {
+  const [settings, setSettings] = useState<BriefingSettings>(loadBriefingSettings);
+  const [transcripts, setTranscripts] = useState<BriefingTranscript[]>(loadBriefingTranscripts);
+  const settingsRef = useRef(settings);
+  const onDueRef = useRef(onDue);
+  onDueRef.current = onDue;
+
+  const updateSettings = useCallback((next: BriefingSettings) => {
+    settingsRef.current = next;
+    saveBriefingSettings(next);
+    setSettings(next);
+  }, []);
+
+  const addTranscript = useCallback((slot: BriefingSlot | null, text: string) => {
+    setTranscripts(prev => {
+      const next = [...prev, { id: createBriefingId(), slot, createdAt: Date.now(), text }].slice(-MAX_BRIEFING_TRANSCRIPTS);
+      saveBriefingTranscripts(next);
+      return next;
+    });
+  }, []);
+
+  const clearTranscripts = useCallback(() => {
+    saveBriefingTranscripts([]);
+    setTranscripts([]);
+  }, []);
+
+  useEffect(() => {
+    const check = () => {
+      const now = Date.now();
+      const runs = loadBriefingRuns();
+      const due = dueBriefings(settingsRef.current, runs, now);
+      if (due.length === 0) return;
+
+      // Recorded before running so another tab or a reload doesn't repeat it
+      saveBriefingRuns({ ...runs, ...Object.fromEntries(due.map(slot => [slot, now])) });
+      // Both slots due at once only happens after a long sleep; the later one covers it
+      onDueRef.current(due[due.length - 1]);
+    };
+
+    // The first check waits an interval, so the coin list has loaded before a missed briefing is read
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return { settings, updateSettings, transcripts, addTranscript, clearTranscripts };
+};
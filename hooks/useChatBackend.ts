@@ -0,0 +1,65 @@
+import { useCallback, useRef, useState } from 'react';
+import {
+  ChatBackendSettings,
+  ChatMessage,
+  ChatStreamOptions,
+  MAX_CHAT_EXCHANGES,
+  MarketContext,
+  buildChatMessages,
+  isChatBackendReady,
+  streamChatCompletion,
+} from '../services/chat';
+
+const STORAGE_KEY = 'jarvis.chat';
+
+// Build-time configuration turns the backend on; it can still be changed in the app
+const DEFAULT_SETTINGS: ChatBackendSettings = {
+  enabled: Boolean(import.meta.env.VITE_CHAT_BASE_URL),
+  baseUrl: import.meta.env.VITE_CHAT_BASE_URL ?? '',
+  model: import.meta.env.VITE_CHAT_MODEL ?? '',
+  apiKey: import.meta.env.VITE_CHAT_API_KEY ?? '',
+  temperature: 0.3,
+};
+
+const loadSettings = (): ChatBackendSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Optional LLM for questions the rule-based replies don't cover. Remembers the
+// last few exchanges so "and why is that?" has something to refer to.
+export const useChatBackend = () => {
+  const [settings, setSettings] = useState<ChatBackendSettings>(loadSettings);
+  const settingsRef = useRef(settings);
+  const exchanges = useRef<ChatMessage[]>([]);
+
+  const updateSettings = useCallback((patch: Partial<ChatBackendSettings>) => {
+    const next = { ...settingsRef.current, ...patch };
+    settingsRef.current = next;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setSettings(next);
+  }, []);
+
+  // Stream an answer grounded in the market context; throws if the backend fails or is aborted
+  const ask = useCallback(async (question: string, context: MarketContext, options: ChatStreamOptions = {}): Promise<string> => {
+    const messages = buildChatMessages(context, exchanges.current, question);
+    const answer = await streamChatCompletion(settingsRef.current, messages, options);
+
+    exchanges.current = [
+      ...exchanges.current,
+      { role: 'user' as const, content: question },
+      { role: 'assistant' as const, content: answer },
+    ].slice(-MAX_CHAT_EXCHANGES * 2);
+    return answer;
+  }, []);
+
+  const forget = useCallback(() => {
+    exchanges.current = [];
+  }, []);
+
+  return { settings, updateSettings, ready: isChatBackendReady(settings), ask, forget };
+};
@@ -0,0 +1,56 @@
+import { useCallback, useRef, useState } from 'react';
+
+// Where a command came from; replies are tagged with how they were delivered
+export type CommandSource = 'voice' | 'text';
+
+export interface ConsoleEntry {
+  id: number;
+  role: 'user' | 'jarvis';
+  text: string;
+  source: CommandSource;
+  time: number;
+}
+
+export interface CommandConsoleSettings {
+  open: boolean;
+  // Read replies to typed commands aloud as well as showing them
+  speakReplies: boolean;
+}
+
+const STORAGE_KEY = 'jarvis.console';
+
+// Older lines are dropped so a long session doesn't slow the page down
+const MAX_ENTRIES = 200;
+
+const loadSettings = (defaults: CommandConsoleSettings): CommandConsoleSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...defaults, ...JSON.parse(raw) } : defaults;
+  } catch {
+    return defaults;
+  }
+};
+
+// Chat-style log of commands and replies, shared by the microphone and the text console
+export const useCommandConsole = (defaults: CommandConsoleSettings) => {
+  const [settings, setSettings] = useState<CommandConsoleSettings>(() => loadSettings(defaults));
+  const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+  const settingsRef = useRef(settings);
+  const nextId = useRef(1);
+
+  const add = useCallback((role: ConsoleEntry['role'], text: string, source: CommandSource) => {
+    const entry: ConsoleEntry = { id: nextId.current++, role, text, source, time: Date.now() };
+    setEntries(prev => [...prev.slice(-(MAX_ENTRIES - 1)), entry]);
+  }, []);
+
+  const clear = useCallback(() => setEntries([]), []);
+
+  const updateSettings = useCallback((patch: Partial<CommandConsoleSettings>) => {
+    const next = { ...settingsRef.current, ...patch };
+    settingsRef.current = next;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setSettings(next);
+  }, []);
+
+  return { settings, updateSettings, entries, add, clear };
+};
@@ -0,0 +1,175 @@
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { getMarketDataProvider } from '../services/market';
+import { createSymbolRegistry } from '../services/symbols';
+import { DEFAULT_ASSISTANT_SETTINGS } from '../services/settings';
+import { DEFAULT_BRIEFING_SETTINGS } from '../services/briefing';
+import { EMPTY_DIALOGUE_CONTEXT } from '../services/nlu';
+import { MESSAGES } from '../services/i18n';
+import { ReplyContext } from '../services/replies';
+import { AnswerStream, CommandRunnerServices, ReplyChannel, useCommandRunner } from './useCommandRunner';
+
+const messages = MESSAGES.en;
+
+const registry = createSymbolRegistry(
+  ['BTC', 'ETH', 'SOL'].map(asset => ({ symbol: `${asset}USDT`, baseAsset: asset, quoteAsset: 'USDT' }))
+);
+
+const replyContext: ReplyContext = {
+  messages,
+  format: { formatPrice: (value) => `$${value.toFixed(2)}`, convertUsd: (value) => value, currencyCode: 'USD' },
+  formatValue: (usd) => `$${usd.toFixed(2)}`,
+  pair: (symbol) => registry.get(symbol),
+  dateLocale: 'en-US',
+};
+
+// Everything the runner is given, as fakes that record what it did with them
+const createServices = (overrides: Partial<CommandRunnerServices> = {}) => {
+  const answer: AnswerStream = { signal: new AbortController().signal, push: vi.fn(), complete: vi.fn(), close: vi.fn() };
+  const replies: ReplyChannel = {
+    start: vi.fn(),
+    begin: vi.fn(),
+    say: vi.fn(),
+    attach: vi.fn(),
+    stream: () => answer,
+    cancel: vi.fn(),
+  };
+  const services: CommandRunnerServices = {
+    marketProvider: getMarketDataProvider('mock'),
+    symbolRegistry: registry,
+    locale: 'en',
+    replyContext,
+    settings: () => DEFAULT_ASSISTANT_SETTINGS,
+    replies,
+    voice: {
+      session: {
+        settings: { requireWakeWord: true, windowMs: 10000 },
+        isAwake: () => false,
+        wake: vi.fn(),
+        hold: vi.fn(),
+        sleep: vi.fn(),
+      },
+      interimTranscript: '',
+      resetTranscript: vi.fn(),
+      stopListening: vi.fn(),
+    },
+    dialogue: { current: () => EMPTY_DIALOGUE_CONTEXT, remember: vi.fn() },
+    displayCurrency: { selected: 'USD', select: vi.fn(async () => null) },
+    chatBackend: { ready: false, ask: vi.fn(async () => '') },
+    priceAlerts: {
+      alerts: [],
+      addAlert: vi.fn((symbol, condition) => ({ id: 'alert-1', symbol, condition, paused: false, createdAt: 0 })),
+      setPaused: vi.fn(),
+      removeAlerts: vi.fn(),
+    },
+    portfolio: { holdings: [], refresh: vi.fn(), trade: vi.fn(), removeHolding: vi.fn() },
+    paperTrading: {
+      account: { startingBalance: 10000, balance: 10000, positions: [], orders: [], trades: [], feesPaid: 0, realizedPnl: 0, createdAt: 0 },
+      valuation: { equity: 10000, returnPercent: 0, realizedPnl: 0, unrealizedPnl: 0, positions: [] },
+      submitOrder: vi.fn(),
+      cancel: vi.fn(() => []),
+      reset: vi.fn(),
+      observePrice: vi.fn(),
+      observeCandles: vi.fn(),
+    },
+    watchlist: { symbols: [], refresh: vi.fn(async () => []), add: vi.fn(() => []), remove: vi.fn(() => []) },
+    briefings: { settings: DEFAULT_BRIEFING_SETTINGS, transcripts: [], addTranscript: vi.fn() },
+    openPanel: vi.fn(),
+    ...overrides,
+  };
+  return { services, replies, answer };
+};
+
+const run = async (services: CommandRunnerServices, input: string, source: 'voice' | 'text' = 'text') => {
+  const { result } = renderHook(() => useCommandRunner(services));
+  await act(() => result.current.runCommand(input, source));
+  return result;
+};
+
+describe('useCommandRunner', () => {
+  it('answers a coin with its analysis and shows it on the card', async () => {
+    const { services, replies } = createServices();
+
+    const result = await run(services, 'what is the price of bitcoin');
+
+    expect(replies.start).toHaveBeenCalledWith(expect.objectContaining({ source: 'text', intent: { type: 'price', symbol: 'BTCUSDT' } }));
+    expect(replies.attach).toHaveBeenCalledWith(expect.objectContaining({ kind: 'ticker' }));
+    expect(vi.mocked(replies.say).mock.calls[0][0]).toMatch(/^Here's my analysis for BTC\./);
+    expect(result.current.cryptoData?.symbol).toBe('BTCUSDT');
+    expect(result.current.klines.length).toBeGreaterThan(0);
+    expect(result.current.lastInteraction).toBe('crypto');
+    expect(services.paperTrading.observePrice).toHaveBeenCalledWith('BTCUSDT', expect.any(Number));
+  });
+
+  it('ignores speech without the wake word while the session is asleep', async () => {
+    const { services, replies } = createServices();
+
+    await run(services, 'bitcoin', 'voice');
+
+    expect(services.voice.resetTranscript).toHaveBeenCalled();
+    expect(replies.start).not.toHaveBeenCalled();
+  });
+
+  it('waits for the recogniser to finish a sentence, except to stop', async () => {
+    const { services, replies } = createServices();
+    const voice = { ...services.voice, interimTranscript: '120' };
+
+    await run({ ...services, voice }, 'jarvis alert me when solana drops below', 'voice');
+    expect(replies.start).not.toHaveBeenCalled();
+
+    await run({ ...services, voice }, 'jarvis stop', 'voice');
+    expect(replies.cancel).toHaveBeenCalled();
+    expect(voice.session.sleep).toHaveBeenCalled();
+  });
+
+  it('sets an alert and opens the alerts panel', async () => {
+    const { services, replies } = createServices();
+
+    await run(services, 'alert me when solana drops below 120');
+
+    expect(services.priceAlerts.addAlert).toHaveBeenCalledWith('SOLUSDT', { type: 'below', price: 120 });
+    expect(services.openPanel).toHaveBeenCalledWith('alerts');
+    expect(replies.say).toHaveBeenCalledWith(messages.alerts.created(
+      messages.alerts.describe({ name: 'Solana', condition: { type: 'below', price: 120 }, quote: null })
+    ));
+  });
+
+  it('fits the chart to the range asked for', async () => {
+    const { services, replies } = createServices();
+
+    const result = await run(services, 'show bitcoin 4 hour candlestick chart for the last month');
+
+    expect(result.current.timeframe).toEqual({ range: '1M', interval: '4h' });
+    expect(result.current.chartType).toBe('candles');
+    expect(replies.say).toHaveBeenCalledWith(messages.chart.shown({
+      name: 'Bitcoin', interval: '4h', chartType: 'candles', range: '1M', adjusted: false,
+    }));
+  });
+
+  it('streams open questions from the chat backend, or answers the coin they name without one', async () => {
+    const ask = vi.fn<CommandRunnerServices['chatBackend']['ask']>(async (_question, _context, options) => {
+      options?.onToken?.('It is rising.');
+      return 'It is rising.';
+    });
+    const { services, answer } = createServices({ chatBackend: { ready: true, ask } });
+
+    await run(services, 'why is ethereum going up');
+
+    expect(ask).toHaveBeenCalledWith('why is ethereum going up', expect.objectContaining({ assetName: 'Ethereum' }), expect.anything());
+    expect(answer.push).toHaveBeenCalledWith('It is rising.');
+    expect(answer.complete).toHaveBeenCalledWith('It is rising.');
+
+    const offline = createServices();
+    const result = await run(offline.services, 'why is ethereum going up');
+    expect(result.current.cryptoData?.symbol).toBe('ETHUSDT');
+  });
+
+  it('says a typed command it does not understand was not understood', async () => {
+    const { services, replies } = createServices();
+
+    await run(services, 'fold the laundry');
+
+    expect(replies.say).toHaveBeenCalledWith(messages.unknown);
+    expect(services.dialogue.remember).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,705 @@
+import { useState } from 'react';
+import {
+  CHART_RANGES,
+  ChartRange,
+  ChartType,
+  CryptoData,
+  DEFAULT_TIMEFRAME,
+  INTERVAL_MS,
+  Kline,
+  MarketDataProvider,
+  MarketTrade,
+  OrderBook,
+  Timeframe,
+  fetchKlineHistory,
+  fitInterval,
+  formatMoney,
+  getFiatCurrency,
+  topMovers,
+} from '../services/market';
+import { IndicatorReport, analyzeIndicators } from '../services/indicators';
+import { SymbolRegistry } from '../services/symbols';
+import { AlertCommand } from '../services/alerts';
+import { PortfolioCommand } from '../services/portfolio';
+import { PaperCommand } from '../services/paper';
+import { BacktestCommand, BacktestResult, Strategy, backtestInterval, runBacktest, warmupCandles } from '../services/backtest';
+import { BriefingCommand, BriefingSection, BriefingSlot, composeBriefing, currentBriefingSlot } from '../services/briefing';
+import { WatchlistCommand } from '../services/watchlist';
+import { AssistantSettings } from '../services/settings';
+import { ChartRequest, ConversationTopic, DepthTopic, Intent, IntentType, MarketCommand, MarketStat, parseIntent } from '../services/nlu';
+import { MarketContext } from '../services/chat';
+import {
+  AlertBook,
+  MarketComparisonData,
+  PaperDesk,
+  PortfolioBook,
+  ReplyContext,
+  WatchlistBook,
+  assetNameOf,
+  composeAnalysis,
+  conversationReply,
+  describePriceAlert,
+  formatSymbolPrice,
+  replyToAlertCommand,
+  replyToBacktestCommand,
+  replyToDepthQuestion,
+  replyToMarketCommand,
+  replyToPaperCommand,
+  replyToPortfolioCommand,
+  replyToStatQuestion,
+  replyToWatchlistCommand,
+} from '../services/replies';
+import { HistorySnapshot } from '../services/history';
+import { LOCALES, Locale } from '../services/i18n';
+import { CommandSource } from './useCommandConsole';
+import { useBriefings } from './useBriefings';
+import { useChatBackend } from './useChatBackend';
+import { useDialogueContext } from './useDialogueContext';
+import { useDisplayCurrency } from './useDisplayCurrency';
+import { usePaperTrading } from './usePaperTrading';
+import { usePortfolio } from './usePortfolio';
+import { useVoiceSession } from './useVoiceSession';
+
+// Extra candles fetched before the visible range so indicators (up to the 50-period SMA and MACD) are warmed up
+const INDICATOR_WARMUP_CANDLES = 60;
+
+// Gainers and losers read in a briefing's market section
+const BRIEFING_MOVERS = 3;
+
+// Voice commands run before the recogniser has finalised the sentence. Anything longer waits,
+// since a partial "alert me when solana drops below" or "buy 200" reads as a different request.
+const IMMEDIATE_VOICE_INTENTS: IntentType[] = ['cancel', 'stopListening', 'repeat'];
+
+// Panels a command opens to show what it did
+export type CommandPanel = 'alerts' | 'portfolio' | 'paperTrading' | 'backtest' | 'orderFlow' | 'watchlist';
+
+// A streamed chat answer on its way out
+export interface AnswerStream {
+  signal: AbortSignal;
+  push: (token: string) => void;
+  // The whole answer is in; it is finished once its last sentence has been said
+  complete: (answer: string) => void;
+  // Ends the request without an answer
+  close: () => void;
+}
+
+// How commands are answered: the app's speech pipeline, which also tracks the command in progress
+export interface ReplyChannel {
+  // Logs a new request and decides whether its reply is said aloud
+  start: (request: { source: CommandSource; utterance: string; intent: Intent; confidence: number }) => void;
+  // Marks a command as in progress and shows the speaking state while its reply loads
+  begin: () => void;
+  say: (text: string) => void;
+  // Data shown with the reply in progress, stored with it in the history log
+  attach: (snapshot: HistorySnapshot) => void;
+  stream: () => AnswerStream;
+  // Barge-in: stop talking and drop the request in progress
+  cancel: () => void;
+}
+
+// The wake-word session and the recogniser, as far as commands drive them
+export interface VoiceControls {
+  session: Pick<ReturnType<typeof useVoiceSession>, 'settings' | 'isAwake' | 'wake' | 'hold' | 'sleep'>;
+  // Words the recogniser hasn't finalised yet
+  interimTranscript: string;
+  resetTranscript: () => void;
+  stopListening: () => void;
+}
+
+export interface CommandRunnerServices {
+  marketProvider: MarketDataProvider;
+  symbolRegistry: SymbolRegistry;
+  locale: Locale;
+  replyContext: ReplyContext;
+  settings: () => AssistantSettings;
+  replies: ReplyChannel;
+  voice: VoiceControls;
+  dialogue: Pick<ReturnType<typeof useDialogueContext>, 'current' | 'remember'>;
+  displayCurrency: Pick<ReturnType<typeof useDisplayCurrency>, 'selected' | 'select'>;
+  chatBackend: Pick<ReturnType<typeof useChatBackend>, 'ready' | 'ask'>;
+  priceAlerts: AlertBook;
+  portfolio: PortfolioBook & Pick<ReturnType<typeof usePortfolio>, 'holdings'>;
+  paperTrading: PaperDesk & Pick<ReturnType<typeof usePaperTrading>, 'observePrice' | 'observeCandles'>;
+  watchlist: WatchlistBook;
+  briefings: Pick<ReturnType<typeof useBriefings>, 'settings' | 'transcripts' | 'addTranscript'>;
+  openPanel: (panel: CommandPanel) => void;
+}
+
+// Runs heard and typed commands through the intent pipeline and keeps what they show:
+// the coin on the analysis card, its chart, a comparison, the last backtest
+export const useCommandRunner = ({
+  marketProvider,
+  symbolRegistry,
+  locale,
+  replyContext,
+  settings,
+  replies,
+  voice,
+  dialogue,
+  displayCurrency,
+  chatBackend,
+  priceAlerts,
+  portfolio,
+  paperTrading,
+  watchlist,
+  briefings,
+  openPanel,
+}: CommandRunnerServices) => {
+  const [cryptoData, setCryptoData] = useState<CryptoData | null>(null);
+  const [klines, setKlines] = useState<Kline[]>([]);
+  const [chartError, setChartError] = useState<string | null>(null);
+  const [timeframe, setTimeframe] = useState<Timeframe>(DEFAULT_TIMEFRAME);
+  const [chartType, setChartType] = useState<ChartType>('line');
+  const [chartFrom, setChartFrom] = useState(0);
+  const [comparison, setComparison] = useState<MarketComparisonData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastInteraction, setLastInteraction] = useState<string>('');
+  // Coin whose order book and trade tape the panel follows: the last one analysed or asked about
+  const [orderFlowSymbol, setOrderFlowSymbol] = useState<string | null>(null);
+  // Last backtest and the candles it ran over, warm-up included
+  const [backtest, setBacktest] = useState<{ result: BacktestResult; klines: Kline[] } | null>(null);
+  const [backtestRunning, setBacktestRunning] = useState(false);
+  const [briefingRunning, setBriefingRunning] = useState(false);
+  const messages = replyContext.messages;
+
+  // Spoken name for a symbol's base asset, e.g. "BTCUSDT" -> "Bitcoin"
+  const assetNameFor = (symbol: string): string => assetNameOf(symbol, replyContext);
+
+  // Function to fetch historical price data for the chart's timeframe, returning the candles used for indicators
+  const fetchHistoricalPrices = async (symbol: string, chartTimeframe: Timeframe): Promise<Kline[]> => {
+    try {
+      const normalizedSymbol = symbolRegistry.resolve(symbol)?.symbol;
+      if (!normalizedSymbol) return [];
+
+      // Fetch the visible range plus enough earlier candles to warm up the indicators
+      const endTime = Date.now();
+      const displayFrom = endTime - CHART_RANGES[chartTimeframe.range].ms;
+      const startTime = displayFrom - INDICATOR_WARMUP_CANDLES * INTERVAL_MS[chartTimeframe.interval];
+
+      const candles = await fetchKlineHistory(marketProvider, normalizedSymbol, chartTimeframe.interval, startTime, endTime);
+
+      setKlines(candles);
+      setChartFrom(displayFrom);
+      setChartError(null);
+      return candles;
+    } catch (err) {
+      // The ticker can still be analysed without history; the chart area says what went wrong
+      console.error('Error fetching historical price data:', err);
+      setKlines([]);
+      setChartError(err instanceof Error ? err.message : 'Could not load the price history');
+      return [];
+    }
+  };
+
+  // Function to generate and speak analysis based on crypto data and technical indicators
+  const speakAnalysis = (data: CryptoData, report: IndicatorReport | null, book: OrderBook | null, trades: MarketTrade[]) => {
+    replies.say(composeAnalysis(
+      { ticker: data, pair: symbolRegistry.get(data.symbol), report, book, trades },
+      settings(),
+      replyContext.format,
+      messages
+    ));
+  };
+
+  // Function to fetch crypto data from the selected market data provider
+  const fetchCryptoData = async (symbol: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      replies.begin();
+      setLastInteraction('crypto');
+
+      // Normalize the symbol to match Binance format (e.g., "bitcoin" -> "BTCUSDT")
+      const normalizedSymbol = symbolRegistry.resolve(symbol)?.symbol;
+
+      if (!normalizedSymbol) {
+        throw new Error(`Could not recognize cryptocurrency: ${symbol}`);
+      }
+
+      const data = await marketProvider.getTicker(normalizedSymbol);
+
+      setCryptoData(data);
+      setOrderFlowSymbol(normalizedSymbol);
+      replies.attach({ kind: 'ticker', ticker: data, timeframe, chartType });
+      paperTrading.observePrice(normalizedSymbol, parseFloat(data.lastPrice));
+
+      // The order book and recent trades round out the analysis but aren't required for it
+      const orderFlowRequest = Promise.all([
+        marketProvider.getOrderBook(normalizedSymbol).catch(() => null),
+        marketProvider.getRecentTrades(normalizedSymbol).catch(() => []),
+      ]);
+
+      // Fetch historical price data for the chart and indicators
+      const candles = await fetchHistoricalPrices(symbol, timeframe);
+      // Resting paper orders fill against the same candles
+      paperTrading.observeCandles(normalizedSymbol, candles);
+
+      // Speak the analysis
+      const [book, trades] = await orderFlowRequest;
+      speakAnalysis(data, analyzeIndicators(candles, settings()), book, trades);
+    } catch (err) {
+      console.error('Error fetching crypto data:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      replies.say(messages.fetchFailed(symbol, err instanceof Error ? err.message : 'Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Function to create, list, pause, resume and delete price alerts by voice
+  const handleAlertCommand = async (command: AlertCommand) => {
+    replies.begin();
+    setLastInteraction('conversation');
+
+    const reply = await replyToAlertCommand(command, priceAlerts, marketProvider, replyContext);
+    // Show the list, or the alert that was just set
+    if (command.action === 'list' || (command.action === 'create' && command.symbol && command.condition)) {
+      openPanel('alerts');
+    }
+    replies.say(reply);
+  };
+
+  // Function to handle portfolio trades, removals and summaries by voice
+  const handlePortfolioCommand = async (command: PortfolioCommand) => {
+    replies.begin();
+    setLastInteraction('conversation');
+    openPanel('portfolio');
+    replies.say(await replyToPortfolioCommand(command, portfolio, marketProvider, replyContext));
+  };
+
+  // Function to handle watchlist commands like "add chainlink to my watchlist" or "read my watchlist"
+  const handleWatchlistCommand = async (command: WatchlistCommand) => {
+    replies.begin();
+    setLastInteraction('conversation');
+    openPanel('watchlist');
+    replies.say(await replyToWatchlistCommand(command, watchlist, replyContext));
+  };
+
+  // Function to place, cancel and summarize paper-trading orders by voice
+  const handlePaperCommand = async (command: PaperCommand) => {
+    replies.begin();
+    setLastInteraction('conversation');
+    openPanel('paperTrading');
+    replies.say(await replyToPaperCommand(command, paperTrading, replyContext));
+  };
+
+  // Function to download a symbol's history and replay a strategy over it
+  const runStrategyBacktest = async (symbol: string, strategy: Strategy, durationMs: number): Promise<BacktestResult> => {
+    const interval = backtestInterval(durationMs);
+    const endTime = Date.now();
+    const startTime = endTime - durationMs;
+    setBacktestRunning(true);
+    try {
+      const candles = await fetchKlineHistory(
+        marketProvider, symbol, interval, startTime - warmupCandles(strategy) * INTERVAL_MS[interval], endTime
+      );
+      const result = runBacktest(candles, strategy, { symbol, interval, startTime });
+      setBacktest({ result, klines: candles });
+      return result;
+    } finally {
+      setBacktestRunning(false);
+    }
+  };
+
+  // Function to run a backtest asked for by voice
+  const handleBacktestCommand = async (command: BacktestCommand) => {
+    replies.begin();
+    setLastInteraction('conversation');
+    openPanel('backtest');
+    replies.say(await replyToBacktestCommand(command, runStrategyBacktest, replyContext));
+  };
+
+  // Function to assemble a briefing from the sections configured for its slot and keep its transcript
+  const runBriefing = async (slot: BriefingSlot | null): Promise<string> => {
+    const now = Date.now();
+    const { sections } = briefings.settings[slot ?? currentBriefingSlot(briefings.settings, now)];
+    const wants = (section: BriefingSection) => sections.includes(section);
+    // Alerts are reported from the previous briefing on, or over the last day
+    const since = briefings.transcripts[briefings.transcripts.length - 1]?.createdAt ?? now - 24 * 60 * 60 * 1000;
+
+    setBriefingRunning(true);
+    try {
+      // A section that can't be loaded is left out rather than failing the whole briefing
+      const [watchlistTickers, allTickers, valuation] = await Promise.all([
+        wants('watchlist') ? watchlist.refresh().catch(() => null) : null,
+        wants('movers') ? marketProvider.getTickers().catch(() => null) : null,
+        wants('portfolio') && portfolio.holdings.length > 0 ? portfolio.refresh().catch(() => null) : null,
+      ]);
+
+      const text = composeBriefing(
+        {
+          slot,
+          watchlist: watchlistTickers,
+          gainers: allTickers ? topMovers(allTickers, 'gainers', BRIEFING_MOVERS) : null,
+          losers: allTickers ? topMovers(allTickers, 'losers', BRIEFING_MOVERS) : null,
+          alerts: wants('alerts') ? priceAlerts.alerts.filter(alert => (alert.triggeredAt ?? 0) > since) : null,
+          portfolio: valuation,
+        },
+        {
+          assetName: assetNameFor,
+          formatPrice: (ticker) => formatSymbolPrice(parseFloat(ticker.lastPrice), ticker.symbol, replyContext),
+          formatValue: replyContext.formatValue,
+          describeAlert: (alert) => describePriceAlert(alert, replyContext),
+        },
+        messages
+      );
+      briefings.addTranscript(slot, text);
+      return text;
+    } finally {
+      setBriefingRunning(false);
+    }
+  };
+
+  // Function to read the briefing on request
+  const handleBriefingCommand = async (command: BriefingCommand) => {
+    replies.begin();
+    setLastInteraction('conversation');
+    try {
+      replies.say(await runBriefing(command.slot));
+    } catch (err) {
+      console.error('Error preparing the briefing:', err);
+      replies.say(messages.briefing.failed(err instanceof Error ? err.message : 'Please try again.'));
+    }
+  };
+
+  // Function to handle chart commands like "show bitcoin 4 hour chart for the last month"
+  const handleChartCommand = async (request: ChartRequest, symbol: string | null) => {
+    replies.begin();
+
+    const targetSymbol = symbol ?? cryptoData?.symbol ?? null;
+    if (!targetSymbol) {
+      setLastInteraction('conversation');
+      replies.say(messages.chart.askCoin);
+      return;
+    }
+
+    const range = request.range ?? timeframe.range;
+    const interval = request.interval ?? (request.range ? CHART_RANGES[request.range].defaultInterval : timeframe.interval);
+    const fitted: Timeframe = { range, interval: fitInterval(range, interval) };
+    const nextChartType = request.chartType ?? chartType;
+
+    setTimeframe(fitted);
+    setChartType(nextChartType);
+    setLastInteraction('crypto');
+
+    try {
+      const ticker = targetSymbol === cryptoData?.symbol ? cryptoData : await marketProvider.getTicker(targetSymbol);
+      setCryptoData(ticker);
+      await fetchHistoricalPrices(targetSymbol, fitted);
+      replies.attach({ kind: 'ticker', ticker, timeframe: fitted, chartType: nextChartType });
+
+      replies.say(messages.chart.shown({
+        name: assetNameFor(targetSymbol),
+        interval: fitted.interval,
+        chartType: nextChartType,
+        range,
+        adjusted: fitted.interval !== interval,
+      }));
+    } catch (err) {
+      console.error('Error loading chart:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      replies.say(messages.chart.failed(err instanceof Error ? err.message : 'Please try again.'));
+    }
+  };
+
+  // Function to answer questions like "what was ethereum's weekly high" from the candles of that period
+  const handleStatQuestion = async (symbol: string | null, stat: MarketStat, range: ChartRange) => {
+    replies.begin();
+    if (!symbol) {
+      setLastInteraction('conversation');
+    }
+    replies.say(await replyToStatQuestion(symbol, stat, range, marketProvider, replyContext));
+  };
+
+  // Function to answer questions about a coin's order book and recent trades
+  const handleDepthQuestion = async (symbol: string | null, topic: DepthTopic) => {
+    replies.begin();
+    setLastInteraction('conversation');
+
+    // The panel follows the coin asked about
+    if (symbol) {
+      setOrderFlowSymbol(symbol);
+      openPanel('orderFlow');
+    }
+    replies.say(await replyToDepthQuestion(symbol, topic, marketProvider, replyContext));
+  };
+
+  // Function to handle comparisons, top movers and the market overview, speaking a ranked summary
+  const handleMarketCommand = async (command: MarketCommand) => {
+    replies.begin();
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const reply = await replyToMarketCommand(command, marketProvider, timeframe, replyContext);
+      if (reply.comparison) {
+        // Keep the table with the reply's history entry
+        setComparison(reply.comparison);
+        replies.attach({ kind: 'comparison', ...reply.comparison });
+        setLastInteraction('market');
+      } else {
+        setLastInteraction('conversation');
+      }
+      replies.say(reply.text);
+    } catch (err) {
+      console.error('Error fetching market data:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      replies.say(messages.market.failed(err instanceof Error ? err.message : 'Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Function to switch the display currency by voice ("show prices in euros")
+  const handleCurrencyCommand = async (code: string) => {
+    replies.begin();
+
+    const currency = getFiatCurrency(code);
+
+    try {
+      const rate = await displayCurrency.select(code);
+      replies.say(messages.currency.switched(code, rate && currency ? formatMoney(rate.rate, currency) : null));
+    } catch (err) {
+      replies.say(messages.currency.failed(err instanceof Error ? err.message : 'Please try again.'));
+    }
+  };
+
+  // Function to collect the market data a chat answer is grounded in, loading the coin the question names
+  const buildMarketContext = async (symbol: string | null): Promise<MarketContext> => {
+    const now = Date.now();
+    let ticker = cryptoData;
+    let candles = klines;
+    let displayFrom = chartFrom;
+
+    if (symbol && symbol !== cryptoData?.symbol) {
+      displayFrom = now - CHART_RANGES[timeframe.range].ms;
+      const startTime = displayFrom - INDICATOR_WARMUP_CANDLES * INTERVAL_MS[timeframe.interval];
+      [ticker, candles] = await Promise.all([
+        marketProvider.getTicker(symbol),
+        fetchKlineHistory(marketProvider, symbol, timeframe.interval, startTime, now),
+      ]);
+    }
+
+    return {
+      language: LOCALES[locale].name,
+      ticker,
+      assetName: ticker ? assetNameFor(ticker.symbol) : null,
+      quoteAsset: ticker ? symbolRegistry.get(ticker.symbol)?.quoteAsset ?? null : null,
+      report: ticker ? analyzeIndicators(candles, settings()) : null,
+      klines: ticker ? candles.filter(candle => candle.openTime >= displayFrom) : [],
+      timeframe,
+      comparison: lastInteraction === 'market' && comparison ? { title: comparison.title, tickers: comparison.tickers } : null,
+      now,
+    };
+  };
+
+  // Function to answer a free-form question with the chat backend, speaking each sentence as it streams in
+  const handleQuestion = async (question: string, symbol: string | null) => {
+    replies.begin();
+    setLastInteraction('conversation');
+    const answer = replies.stream();
+
+    try {
+      const context = await buildMarketContext(symbol);
+      const text = await chatBackend.ask(question, context, { signal: answer.signal, onToken: answer.push });
+      if (answer.signal.aborted) return;
+
+      if (!text) {
+        answer.close();
+        replies.say(messages.question.noAnswer);
+        return;
+      }
+      answer.complete(text);
+    } catch (err) {
+      // A cancel aborts the stream; the reply channel has already reset everything
+      if (answer.signal.aborted) return;
+      answer.close();
+      console.error('Error asking the chat backend:', err);
+      replies.say(messages.question.failed(err instanceof Error ? err.message : 'Please try again.'));
+    }
+  };
+
+  // Function to handle general conversation
+  const handleConversation = (topic: ConversationTopic) => {
+    replies.begin();
+    setLastInteraction('conversation');
+    replies.say(conversationReply(topic, messages, LOCALES[locale].dateLocale));
+  };
+
+  // Function to run one command through the intent pipeline, whether heard or typed
+  const runCommand = async (input: string, source: CommandSource) => {
+    const parsed = parseIntent(input, symbolRegistry, { context: dialogue.current(), locale });
+    let { intent } = parsed;
+    // Without a chat backend, open questions get the rule-based replies: a price if they name a coin
+    if (intent.type === 'question' && !chatBackend.ready) {
+      intent = intent.symbol ? { type: 'price', symbol: intent.symbol } : { type: 'unknown' };
+    }
+    console.log(`Processing ${source} command:`, input.toLowerCase(), `-> ${intent.type} (${parsed.confidence.toFixed(2)})`); // Debug log
+
+    if (source === 'voice') {
+      // "Jarvis" opens the listening window; follow-ups inside it don't need the wake word
+      if (parsed.wakeWord) {
+        voice.session.wake();
+      } else if (voice.session.settings.requireWakeWord && !voice.session.isAwake()) {
+        // Background chatter without the wake word is ignored
+        voice.resetTranscript();
+        return;
+      }
+
+      if (intent.type === 'unknown') {
+        // Just the wake word so far: start a fresh transcript for the request itself
+        if (parsed.wakeWord) {
+          voice.resetTranscript();
+        }
+        // Otherwise keep accumulating the transcript until it says something we understand
+        return;
+      }
+
+      // Alerts, orders, charts and questions are only complete once the recogniser has finalised the sentence
+      if (voice.interimTranscript && !IMMEDIATE_VOICE_INTENTS.includes(intent.type)) {
+        return;
+      }
+
+      // Keep the session open while the reply is prepared and spoken
+      voice.session.hold();
+      // Listen afresh from here, so a "stop" while the reply loads isn't read as part of this command
+      voice.resetTranscript();
+    }
+
+    replies.start({ source, utterance: input, intent, confidence: parsed.confidence });
+
+    // A typed command is complete, so say so instead of waiting for more words
+    if (intent.type === 'unknown') {
+      replies.begin();
+      setLastInteraction('conversation');
+      replies.say(messages.unknown);
+      return;
+    }
+
+    // "bitcoin price in euros" also switches the display currency before answering
+    const currency = parsed.entities.currency;
+    if (currency && currency !== displayCurrency.selected && ['price', 'stat', 'chart', 'market', 'portfolio'].includes(intent.type)) {
+      await displayCurrency.select(currency).catch(() => {});
+    }
+
+    switch (intent.type) {
+      case 'briefing':
+        await handleBriefingCommand(intent.command);
+        break;
+      case 'alert':
+        await handleAlertCommand(intent.command);
+        break;
+      case 'portfolio':
+        await handlePortfolioCommand(intent.command);
+        break;
+      case 'watchlist':
+        await handleWatchlistCommand(intent.command);
+        break;
+      case 'paper':
+        await handlePaperCommand(intent.command);
+        break;
+      case 'backtest':
+        await handleBacktestCommand(intent.command);
+        break;
+      case 'chart':
+        await handleChartCommand(intent.request, intent.symbol);
+        break;
+      case 'stat':
+        await handleStatQuestion(intent.symbol, intent.stat, intent.range);
+        break;
+      case 'depth':
+        await handleDepthQuestion(intent.symbol, intent.topic);
+        break;
+      case 'market':
+        await handleMarketCommand(intent.command);
+        break;
+      case 'price':
+        console.log("Crypto symbol detected:", intent.symbol, `(heard "${parsed.entities.coin?.alias}")`); // Debug log
+        await fetchCryptoData(intent.symbol);
+        break;
+      case 'conversation':
+        handleConversation(intent.topic);
+        break;
+      case 'currency':
+        await handleCurrencyCommand(intent.currency);
+        break;
+      case 'question':
+        await handleQuestion(intent.text, intent.symbol);
+        break;
+      case 'stopListening':
+        replies.begin();
+        setLastInteraction('conversation');
+        voice.stopListening();
+        voice.session.sleep();
+        replies.say(messages.stopListening);
+        break;
+      case 'repeat':
+        // Say the last reply again without changing what's on screen
+        replies.begin();
+        replies.say(dialogue.current().lastAnswer ?? messages.repeat);
+        break;
+      case 'cancel':
+        replies.cancel();
+        voice.session.sleep();
+        break;
+    }
+
+    // Remember the coin and question so follow-ups can refer back to them
+    dialogue.remember(intent);
+  };
+
+  // Function to bring back the coin or comparison a history entry was answered with
+  const reopenSnapshot = (snapshot: HistorySnapshot) => {
+    setError(null);
+
+    if (snapshot.kind === 'ticker') {
+      setCryptoData(snapshot.ticker);
+      setTimeframe(snapshot.timeframe);
+      setChartType(snapshot.chartType);
+      setLastInteraction('crypto');
+      // The stored price is shown until the live stream catches up; the chart is reloaded
+      fetchHistoricalPrices(snapshot.ticker.symbol, snapshot.timeframe);
+    } else {
+      setComparison({ title: snapshot.title, tickers: snapshot.tickers, series: snapshot.series });
+      setLastInteraction('market');
+    }
+  };
+
+  // Switch the chart's range/interval and reload the candles for the current coin
+  const changeTimeframe = (next: Timeframe) => {
+    const fitted: Timeframe = { range: next.range, interval: fitInterval(next.range, next.interval) };
+    setTimeframe(fitted);
+    if (cryptoData) {
+      fetchHistoricalPrices(cryptoData.symbol, fitted);
+    }
+    return fitted;
+  };
+
+  return {
+    cryptoData,
+    setCryptoData,
+    klines,
+    setKlines,
+    chartError,
+    timeframe,
+    changeTimeframe,
+    chartType,
+    setChartType,
+    chartFrom,
+    comparison,
+    loading,
+    error,
+    lastInteraction,
+    orderFlowSymbol,
+    backtest,
+    backtestRunning,
+    briefingRunning,
+    runCommand,
+    fetchCryptoData,
+    runBriefing,
+    runStrategyBacktest,
+    reopenSnapshot,
+  };
+};
@@ -0,0 +1,23 @@
+import { useCallback, useRef } from 'react';
+import { DialogueContext, EMPTY_DIALOGUE_CONTEXT, Intent, rememberAnswer, rememberIntent } from '../services/nlu';
+
+// Conversation memory for follow-up questions; kept in a ref since nothing renders from it
+export const useDialogueContext = () => {
+  const context = useRef<DialogueContext>(EMPTY_DIALOGUE_CONTEXT);
+
+  const current = useCallback(() => context.current, []);
+
+  const remember = useCallback((intent: Intent) => {
+    context.current = rememberIntent(context.current, intent, Date.now());
+  }, []);
+
+  const answer = useCallback((text: string) => {
+    context.current = rememberAnswer(context.current, text, Date.now());
+  }, []);
+
+  const reset = useCallback(() => {
+    context.current = EMPTY_DIALOGUE_CONTEXT;
+  }, []);
+
+  return { current, remember, answer, reset };
+};
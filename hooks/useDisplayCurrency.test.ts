@@ -0,0 +1,57 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { createCachedProvider } from '../services/market/cache';
+import { binanceProvider } from '../services/market/binance';
+import { createSymbolRegistry } from '../services/symbols';
+import { mockFetch } from '../test/fetch';
+import { useDisplayCurrency } from './useDisplayCurrency';
+
+const STORAGE_KEY = 'jarvis.displayCurrency';
+
+const registry = createSymbolRegistry([
+  { symbol: 'BTCUSDT', baseAsset: 'BTC', quoteAsset: 'USDT' },
+  { symbol: 'EURUSDT', baseAsset: 'EUR', quoteAsset: 'USDT' },
+  { symbol: 'GBPUSDT', baseAsset: 'GBP', quoteAsset: 'USDT' },
+]);
+
+const EUR_TICKER = {
+  symbol: 'EURUSDT',
+  priceChange: '0.001',
+  priceChangePercent: '0.10',
+  lastPrice: '1.25',
+  volume: '1000',
+  highPrice: '1.26',
+  lowPrice: '1.24',
+};
+
+// A fresh cache per test, so no test is answered from another's tickers
+const renderCurrency = () => {
+  const provider = createCachedProvider(binanceProvider);
+  return renderHook(() => useDisplayCurrency(provider, registry));
+};
+
+describe('useDisplayCurrency', () => {
+  it('saves a currency once its rate has loaded', async () => {
+    mockFetch([[/ticker\/24hr\?symbol=EURUSDT/, EUR_TICKER]]);
+    const { result } = renderCurrency();
+
+    await act(() => result.current.select('EUR'));
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBe('EUR');
+    expect(result.current.selected).toBe('EUR');
+    expect(result.current.format(100)).toBe('€80.00');
+  });
+
+  it('stays in dollars without saving when the rate cannot be fetched', async () => {
+    localStorage.setItem(STORAGE_KEY, 'USD');
+    mockFetch([[/ticker/, { code: -1003, msg: 'Too many requests.' }, 500]]);
+    const { result } = renderCurrency();
+
+    await act(() => expect(result.current.select('EUR')).rejects.toThrow());
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBe('USD');
+    await waitFor(() => expect(result.current.selected).toBe('USD'));
+    expect(result.current.format(100)).toBe('$100.00');
+    expect(result.current.error).not.toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  FiatCurrency,
+  FiatRate,
+  MarketDataProvider,
+  USD_CURRENCY,
+  availableFiatCurrencies,
+  fetchFiatRate,
+  formatMoney,
+  getFiatCurrency,
+} from '../services/market';
+import { SymbolRegistry } from '../services/symbols';
+
+const STORAGE_KEY = 'jarvis.displayCurrency';
+
+// Fiat rates move slowly next to crypto prices, so a few minutes old is fine
+const RATE_REFRESH_MS = 5 * 60 * 1000;
+
+const currencyOf = (rate: FiatRate | null): FiatCurrency =>
+  (rate && getFiatCurrency(rate.currency)) || USD_CURRENCY;
+
+// Currency that US dollar prices are shown and spoken in. Prices stay in dollars
+// until the selected currency's rate has loaded.
+export const useDisplayCurrency = (provider: MarketDataProvider, registry: SymbolRegistry) => {
+  const [selected, setSelected] = useState<string>(() => localStorage.getItem(STORAGE_KEY) || USD_CURRENCY.code);
+  const [rate, setRate] = useState<FiatRate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const rateRef = useRef<FiatRate | null>(null);
+  // Only the latest request may update the rate when the selection changes quickly
+  const requestId = useRef(0);
+
+  const available = useMemo(() => availableFiatCurrencies(registry.symbols), [registry]);
+
+  const applyRate = (next: FiatRate | null) => {
+    rateRef.current = next;
+    setRate(next);
+  };
+
+  const loadRate = useCallback(async (code: string): Promise<FiatRate | null> => {
+    const request = ++requestId.current;
+
+    // A failed switch falls back to dollars; its error stays up until the next selection
+    if (code === USD_CURRENCY.code) {
+      applyRate(null);
+      return null;
+    }
+
+    try {
+      const next = await fetchFiatRate(provider, registry.symbols, code);
+      if (request === requestId.current) {
+        applyRate(next);
+        setError(null);
+      }
+      return next;
+    } catch (err) {
+      console.error(`Error fetching the ${code} exchange rate:`, err);
+      if (request === requestId.current) {
+        applyRate(null);
+        setError(err instanceof Error ? err.message : `Could not load the ${code} exchange rate`);
+      }
+      throw err;
+    }
+  }, [provider, registry]);
+
+  // Switch the display currency once its rate has loaded. Throws if it can't be converted to,
+  // leaving prices in dollars and the saved choice untouched.
+  const select = useCallback(async (code: string): Promise<FiatRate | null> => {
+    setError(null);
+    try {
+      const next = await loadRate(code);
+      localStorage.setItem(STORAGE_KEY, code);
+      setSelected(code);
+      return next;
+    } catch (err) {
+      setSelected(USD_CURRENCY.code);
+      throw err;
+    }
+  }, [loadRate]);
+
+  useEffect(() => {
+    // The listing may not include the fiat pairs until it has loaded; keep dollars meanwhile
+    loadRate(selected).catch(() => {});
+    if (selected === USD_CURRENCY.code) return;
+
+    const timer = setInterval(() => {
+      loadRate(selected).catch(() => {});
+    }, RATE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [selected, loadRate]);
+
+  // US dollars -> display currency; read from the ref so replies use a rate fetched moments ago
+  const convert = useCallback((usd: number) => usd * (rateRef.current?.rate ?? 1), []);
+
+  // Currency the converted amounts are in right now (US dollars until a rate has loaded)
+  const active = useCallback(() => currencyOf(rateRef.current), []);
+
+  const format = useCallback((usd: number) => formatMoney(convert(usd), active()), [convert, active]);
+
+  return { selected, currency: currencyOf(rate), rate, available, error, select, active, convert, format };
+};
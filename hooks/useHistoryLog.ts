@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { HistoryEntry, HistorySnapshot, MAX_HISTORY_ENTRIES } from '../services/history';
+import { useServices } from './useServices';
+
+type NewEntry = Pick<HistoryEntry, 'source' | 'utterance' | 'intent' | 'confidence' | 'locale'>;
+
+const createSessionId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Persistent log of commands and replies. An entry is started when a command is
+// dispatched and stored once its reply is known (or the next command starts).
+// Announcements are stored straight away.
+export const useHistoryLog = () => {
+  const { historyStore } = useServices();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const sessionId = useRef(createSessionId());
+  const pending = useRef<HistoryEntry | null>(null);
+
+  useEffect(() => {
+    historyStore.load()
+      // Keep anything logged while the database was opening, without repeating what it saved
+      .then(stored => setEntries(prev => {
+        const storedIds = new Set(stored.map(entry => entry.id));
+        return [...stored, ...prev.filter(entry => !storedIds.has(entry.id))].slice(-MAX_HISTORY_ENTRIES);
+      }))
+      .catch(err => console.error('Error loading history:', err));
+  }, [historyStore]);
+
+  const save = useCallback((entry: HistoryEntry) => {
+    historyStore.add(entry)
+      .then(id => setEntries(prev => [...prev, { ...entry, id }].slice(-MAX_HISTORY_ENTRIES)))
+      .catch(err => {
+        // Private windows may refuse IndexedDB; keep the entry for this session at least
+        console.error('Error saving history entry:', err);
+        setEntries(prev => [...prev, entry].slice(-MAX_HISTORY_ENTRIES));
+      });
+  }, [historyStore]);
+
+  // Store an unanswered entry, e.g. a request that was cancelled
+  const flush = useCallback(() => {
+    if (pending.current) {
+      save(pending.current);
+      pending.current = null;
+    }
+  }, [save]);
+
+  const begin = useCallback((entry: NewEntry) => {
+    flush();
+    pending.current = { ...entry, sessionId: sessionId.current, time: Date.now(), reply: null, snapshot: null };
+  }, [flush]);
+
+  // Attach the reply to the command in progress
+  const complete = useCallback((reply: string, snapshot: HistorySnapshot | null) => {
+    if (!pending.current) return;
+    save({ ...pending.current, reply, snapshot });
+    pending.current = null;
+  }, [save]);
+
+  // Store speech nobody asked for (alerts, fills, scheduled briefings) as an entry of its own,
+  // leaving the command in progress waiting for its reply
+  const log = useCallback((entry: NewEntry & Pick<HistoryEntry, 'reply'>) => {
+    save({ ...entry, sessionId: sessionId.current, time: Date.now(), snapshot: null });
+  }, [save]);
+
+  const clear = useCallback(async () => {
+    pending.current = null;
+    setEntries([]);
+    await historyStore.clear().catch(err => console.error('Error clearing history:', err));
+  }, [historyStore]);
+
+  return { entries, sessionId: sessionId.current, begin, complete, log, flush, clear };
+};
@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from 'react';
+import { CryptoData, Kline, KlineInterval, MarketDataProvider, StreamStatus } from '../services/market';
+
+interface MarketStreamCallbacks {
+  onTicker(ticker: CryptoData): void;
+  onKline(kline: Kline): void;
+}
+
+// Subscribe to live ticker/kline updates for a symbol while it is set, returning the connection status
+export const useMarketStream = (
+  provider: MarketDataProvider,
+  symbol: string | null,
+  interval: KlineInterval,
+  callbacks: MarketStreamCallbacks
+): StreamStatus => {
+  const [status, setStatus] = useState<StreamStatus>('closed');
+
+  // Keep the latest callbacks without resubscribing on every render
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  useEffect(() => {
+    if (!symbol) return;
+
+    let active = true;
+    const unsubscribe = provider.subscribe(symbol, interval, {
+      onTicker: (ticker) => active && callbacksRef.current.onTicker(ticker),
+      onKline: (kline) => active && callbacksRef.current.onKline(kline),
+      onStatus: (next) => active && setStatus(next),
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+      setStatus('closed');
+    };
+  }, [provider, symbol, interval]);
+
+  return status;
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { isOffline } from '../services/market';
+
+// Whether the browser thinks it has a network connection
+export const useOnlineStatus = (): boolean => {
+  const [online, setOnline] = useState(() => !isOffline());
+
+  useEffect(() => {
+    const update = () => setOnline(!isOffline());
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+};
@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { MarketDataProvider, MarketTrade, OrderBook, StreamStatus } from '../services/market';
+
+// The book is re-polled while shown; trades arrive over the stream
+const BOOK_REFRESH_MS = 5 * 1000;
+// Trades kept on the tape
+const TAPE_LENGTH = 50;
+
+// Order book and live trade tape for a symbol while it is set
+export const useOrderFlow = (provider: MarketDataProvider, symbol: string | null) => {
+  const [book, setBook] = useState<OrderBook | null>(null);
+  const [trades, setTrades] = useState<MarketTrade[]>([]);
+  const [status, setStatus] = useState<StreamStatus>('closed');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBook(null);
+    setTrades([]);
+    setError(null);
+    if (!symbol) return;
+
+    let active = true;
+    const refreshBook = () => {
+      provider.getOrderBook(symbol)
+        .then(next => {
+          if (!active) return;
+          setBook(next);
+          setError(null);
+        })
+        .catch(err => {
+          console.error('Error fetching order book:', err);
+          if (active) setError(err instanceof Error ? err.message : 'Could not load the order book');
+        });
+    };
+
+    refreshBook();
+    const timer = setInterval(refreshBook, BOOK_REFRESH_MS);
+
+    // Seed the tape with recent trades, then append streamed ones
+    provider.getRecentTrades(symbol)
+      .then(recent => {
+        if (active) setTrades(prev => [...recent, ...prev].slice(-TAPE_LENGTH));
+      })
+      .catch(err => console.error('Error fetching recent trades:', err));
+
+    const unsubscribe = provider.subscribeTrades(symbol, {
+      onTrade: (trade) => active && setTrades(prev => [...prev, trade].slice(-TAPE_LENGTH)),
+      onStatus: (next) => active && setStatus(next),
+    });
+
+    return () => {
+      active = false;
+      clearInterval(timer);
+      unsubscribe();
+      setStatus('closed');
+    };
+  }, [provider, symbol]);
+
+  return { book, trades, status, error };
+};
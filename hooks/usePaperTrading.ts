@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Kline, MarketDataProvider } from '../services/market';
+import {
+  OrderRequest,
+  OrderResult,
+  PaperAccount,
+  PaperOrder,
+  cancelOrders,
+  createPaperAccount,
+  loadPaperAccount,
+  matchOpenOrders,
+  openOrders,
+  placeOrder,
+  savePaperAccount,
+  valuePaperAccount,
+} from '../services/paper';
+
+// Positions and open orders are re-priced this often; the live stream adds ticks in between
+const POLL_INTERVAL_MS = 30000;
+
+// Limit orders that filled or were rejected outside of a command the user just gave
+export type PaperFillHandler = (filled: PaperOrder[], rejected: PaperOrder[]) => void;
+
+// Simulated trading account: market orders fill at the latest ticker, limit orders
+// fill when a polled ticker, a streamed tick or a fetched candle reaches their price
+export const usePaperTrading = (provider: MarketDataProvider, onFill: PaperFillHandler) => {
+  const [account, setAccount] = useState<PaperAccount>(loadPaperAccount);
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const accountRef = useRef(account);
+  const onFillRef = useRef(onFill);
+  onFillRef.current = onFill;
+
+  // Update the ref immediately so back-to-back ticks never fill the same order twice
+  const updateAccount = useCallback((next: PaperAccount) => {
+    accountRef.current = next;
+    savePaperAccount(next);
+    setAccount(next);
+  }, []);
+
+  const match = useCallback((symbol: string, low: number, high: number, time: number) => {
+    if (!openOrders(accountRef.current).some(order => order.symbol === symbol)) return;
+    const result = matchOpenOrders(accountRef.current, symbol, { low, high, time });
+    if (result.filled.length === 0 && result.rejected.length === 0) return;
+    updateAccount(result.account);
+    onFillRef.current(result.filled, result.rejected);
+  }, [updateAccount]);
+
+  const observePrice = useCallback((symbol: string, price: number) => {
+    setPrices(prev => (prev[symbol] === price ? prev : { ...prev, [symbol]: price }));
+    match(symbol, price, price, Date.now());
+  }, [match]);
+
+  // Candles fetched for the chart also fill limits touched by a wick between polls
+  const observeCandles = useCallback((symbol: string, klines: Kline[]) => {
+    for (const candle of klines) {
+      match(symbol, candle.low, candle.high, candle.openTime);
+    }
+  }, [match]);
+
+  // Poll tickers for every position and open order
+  useEffect(() => {
+    const poll = async () => {
+      const current = accountRef.current;
+      const symbols = [...new Set([...current.positions.map(position => position.symbol), ...openOrders(current).map(order => order.symbol)])];
+      for (const symbol of symbols) {
+        try {
+          const ticker = await provider.getTicker(symbol);
+          observePrice(symbol, parseFloat(ticker.lastPrice));
+        } catch (err) {
+          console.error(`Error polling the paper-trading price of ${symbol}:`, err);
+        }
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [provider, observePrice]);
+
+  // Place an order at the latest price; throws if it can't be priced or covered
+  const submitOrder = useCallback(async (request: OrderRequest): Promise<OrderResult> => {
+    const ticker = await provider.getTicker(request.symbol);
+    const price = parseFloat(ticker.lastPrice);
+    if (!(price > 0)) {
+      throw new Error(`No price available for ${request.symbol}`);
+    }
+
+    setPrices(prev => ({ ...prev, [request.symbol]: price }));
+    const result = placeOrder(accountRef.current, request, price);
+    updateAccount(result.account);
+    return result;
+  }, [provider, updateAccount]);
+
+  // Cancel the open orders on a symbol, or all of them; returns the orders cancelled
+  const cancel = useCallback((symbol: string | null): PaperOrder[] => {
+    const targets = openOrders(accountRef.current).filter(order => symbol === null || order.symbol === symbol);
+    if (targets.length > 0) {
+      updateAccount(cancelOrders(accountRef.current, targets.map(order => order.id)));
+    }
+    return targets;
+  }, [updateAccount]);
+
+  const cancelOrder = useCallback((id: string) => {
+    updateAccount(cancelOrders(accountRef.current, [id]));
+  }, [updateAccount]);
+
+  const reset = useCallback(() => {
+    updateAccount(createPaperAccount(accountRef.current.startingBalance));
+  }, [updateAccount]);
+
+  const valuation = useMemo(() => valuePaperAccount(account, prices), [account, prices]);
+
+  return { account, valuation, submitOrder, cancel, cancelOrder, reset, observePrice, observeCandles };
+};
@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CryptoData, MarketDataProvider } from '../services/market';
+import {
+  Holding,
+  PortfolioValuation,
+  TradeSide,
+  applyTrade,
+  loadHoldings,
+  saveHoldings,
+  valuePortfolio,
+} from '../services/portfolio';
+
+// Locally persisted holdings, valued against the provider's 24h tickers
+export const usePortfolio = (provider: MarketDataProvider) => {
+  const [holdings, setHoldings] = useState<Holding[]>(loadHoldings);
+  const [valuation, setValuation] = useState<PortfolioValuation | null>(null);
+  const holdingsRef = useRef(holdings);
+
+  const updateHoldings = useCallback((next: Holding[]) => {
+    holdingsRef.current = next;
+    saveHoldings(next);
+    setHoldings(next);
+  }, []);
+
+  // Fetch a ticker for every holding and recompute the valuation
+  const refresh = useCallback(async (): Promise<PortfolioValuation> => {
+    const current = holdingsRef.current;
+    const results = await Promise.allSettled(current.map(holding => provider.getTicker(holding.symbol)));
+
+    const tickers: Record<string, CryptoData> = {};
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        tickers[current[index].symbol] = result.value;
+      } else {
+        console.error(`Error fetching price for ${current[index].symbol}:`, result.reason);
+      }
+    });
+
+    const next = valuePortfolio(current, tickers);
+    setValuation(next);
+    return next;
+  }, [provider]);
+
+  useEffect(() => {
+    refresh();
+  }, [holdings, refresh]);
+
+  // Record a buy or sell; throws if selling more than is held
+  const trade = useCallback((symbol: string, side: TradeSide, quantity: number, price: number) => {
+    updateHoldings(applyTrade(holdingsRef.current, symbol, side, quantity, price));
+  }, [updateHoldings]);
+
+  const removeHolding = useCallback((symbol: string) => {
+    updateHoldings(holdingsRef.current.filter(holding => holding.symbol !== symbol));
+  }, [updateHoldings]);
+
+  return { holdings, valuation, refresh, trade, removeHolding };
+};
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MarketDataProvider } from '../services/market';
+import {
+  AlertCondition,
+  AlertTrigger,
+  PriceAlert,
+  PricePoint,
+  createAlertId,
+  evaluateAlert,
+  loadAlerts,
+  requestNotificationPermission,
+  saveAlerts,
+} from '../services/alerts';
+
+// Symbols with active alerts are polled this often; the live stream adds ticks in between
+const POLL_INTERVAL_MS = 30000;
+// Keep at least this much price history per symbol
+const MIN_HISTORY_MS = 60 * 60 * 1000;
+
+// Persistent price alerts, evaluated against polled tickers and any prices passed to observePrice
+export const usePriceAlerts = (provider: MarketDataProvider, onTrigger: (trigger: AlertTrigger) => void) => {
+  const [alerts, setAlerts] = useState<PriceAlert[]>(loadAlerts);
+  const alertsRef = useRef(alerts);
+  const historyRef = useRef(new Map<string, PricePoint[]>());
+  const onTriggerRef = useRef(onTrigger);
+  onTriggerRef.current = onTrigger;
+
+  // Update the ref immediately so back-to-back price ticks never fire the same alert twice
+  const updateAlerts = useCallback((update: (prev: PriceAlert[]) => PriceAlert[]) => {
+    alertsRef.current = update(alertsRef.current);
+    saveAlerts(alertsRef.current);
+    setAlerts(alertsRef.current);
+  }, []);
+
+  const observePrice = useCallback((symbol: string, price: number) => {
+    const now = Date.now();
+    const symbolAlerts = alertsRef.current.filter(alert => alert.symbol === symbol);
+    if (symbolAlerts.length === 0) return;
+
+    const historyMs = Math.max(
+      MIN_HISTORY_MS,
+      ...symbolAlerts.map(alert => (alert.condition.type === 'move' ? alert.condition.windowMs : 0))
+    );
+    const history = [...(historyRef.current.get(symbol) ?? []), { time: now, price }]
+      .filter(point => point.time >= now - historyMs);
+    historyRef.current.set(symbol, history);
+
+    const triggers = symbolAlerts
+      .map(alert => evaluateAlert(alert, price, history, now))
+      .filter((trigger): trigger is AlertTrigger => trigger !== null);
+    if (triggers.length === 0) return;
+
+    // Price-level alerts are one-shot: pause them once they fire
+    const firedIds = new Set(triggers.map(trigger => trigger.alert.id));
+    updateAlerts(prev => prev.map(alert =>
+      firedIds.has(alert.id)
+        ? { ...alert, triggeredAt: now, paused: alert.paused || alert.condition.type !== 'move' }
+        : alert
+    ));
+
+    triggers.forEach(trigger => onTriggerRef.current(trigger));
+  }, [updateAlerts]);
+
+  // Poll tickers for every symbol that has an active alert
+  useEffect(() => {
+    const poll = async () => {
+      const symbols = [...new Set(alertsRef.current.filter(alert => !alert.paused).map(alert => alert.symbol))];
+      for (const symbol of symbols) {
+        try {
+          const ticker = await provider.getTicker(symbol);
+          observePrice(symbol, parseFloat(ticker.lastPrice));
+        } catch (err) {
+          console.error(`Error polling price for alert on ${symbol}:`, err);
+        }
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [provider, observePrice]);
+
+  const addAlert = useCallback((symbol: string, condition: AlertCondition): PriceAlert => {
+    const alert: PriceAlert = { id: createAlertId(), symbol, condition, paused: false, createdAt: Date.now() };
+    requestNotificationPermission();
+    updateAlerts(prev => [...prev, alert]);
+    return alert;
+  }, [updateAlerts]);
+
+  // Resuming re-arms the alert, so a level that already fired can fire again
+  const setPaused = useCallback((ids: string[], paused: boolean) => {
+    updateAlerts(prev => prev.map(alert =>
+      ids.includes(alert.id)
+        ? { ...alert, paused, ...(paused ? {} : { triggeredAt: undefined, createdAt: Date.now() }) }
+        : alert
+    ));
+  }, [updateAlerts]);
+
+  const removeAlerts = useCallback((ids: string[]) => {
+    updateAlerts(prev => prev.filter(alert => !ids.includes(alert.id)));
+  }, [updateAlerts]);
+
+  return { alerts, addAlert, setPaused, removeAlerts, observePrice };
+};
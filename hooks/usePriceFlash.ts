@@ -0,0 +1,25 @@
+import { useEffect, useRef, useState } from 'react';
+
+export type PriceFlash = 'up' | 'down' | null;
+
+const FLASH_MS = 700;
+
+// Briefly report the direction of the last price tick so the UI can flash it
+export const usePriceFlash = (price: number | null): PriceFlash => {
+  const [flash, setFlash] = useState<PriceFlash>(null);
+  const previousPrice = useRef<number | null>(null);
+
+  useEffect(() => {
+    const previous = previousPrice.current;
+    previousPrice.current = price;
+
+    if (price === null || previous === null || price === previous) return;
+
+    setFlash(price > previous ? 'up' : 'down');
+    const timer = setTimeout(() => setFlash(null), FLASH_MS);
+
+    return () => clearTimeout(timer);
+  }, [price]);
+
+  return flash;
+};
@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import { MarketDataProvider, getMarketDataProvider } from '../services/market';
+import { HistoryStore, indexedDbHistoryStore } from '../services/history';
+import { showDesktopNotification } from '../services/alerts';
+
+// Network and browser dependencies the app reaches through context, so they can be swapped out
+export interface AppServices {
+  // Market data provider for an id from MARKET_PROVIDERS
+  marketProvider: (id: string) => MarketDataProvider;
+  // Speech output; null where the browser has none
+  speechSynthesis: SpeechSynthesis | null;
+  // Desktop notification for announcements, in case the tab is in the background
+  notify: (title: string, body: string) => void;
+  // Where the command history is kept
+  historyStore: HistoryStore;
+}
+
+export const defaultServices: AppServices = {
+  marketProvider: getMarketDataProvider,
+  speechSynthesis: typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null,
+  notify: showDesktopNotification,
+  historyStore: indexedDbHistoryStore,
+};
+
+export const ServicesContext = createContext<AppServices>(defaultServices);
+
+export const useServices = (): AppServices => useContext(ServicesContext);
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SpeechQueue, SpeechQueueState, SpeechRequest, createSpeechQueue } from '../services/speech';
+import { useServices } from './useServices';
+
+interface SpeechQueueCallbacks {
+  createUtterance: (text: string) => SpeechSynthesisUtterance;
+  onIdle: () => void;
+}
+
+// One speech queue for the app. Callbacks are read from a ref so utterances always
+// use the current language and voice settings.
+export const useSpeechQueue = (callbacks: SpeechQueueCallbacks) => {
+  const [state, setState] = useState<SpeechQueueState>({ speaking: false, paused: false });
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+  const queueRef = useRef<SpeechQueue | null>(null);
+  const { speechSynthesis } = useServices();
+
+  // Created on first use; browsers without speech synthesis never get one
+  const queue = useCallback((): SpeechQueue | null => {
+    if (!queueRef.current && speechSynthesis) {
+      queueRef.current = createSpeechQueue({
+        synth: speechSynthesis,
+        createUtterance: (text) => callbacksRef.current.createUtterance(text),
+        onStateChange: setState,
+        onIdle: () => callbacksRef.current.onIdle(),
+      });
+    }
+    return queueRef.current;
+  }, [speechSynthesis]);
+
+  useEffect(() => () => queueRef.current?.cancel(), []);
+
+  const enqueue = useCallback((text: string, request?: SpeechRequest) => {
+    const target = queue();
+    if (target) {
+      target.enqueue(text, request);
+    } else {
+      request?.onDone?.('ended');
+    }
+  }, [queue]);
+
+  const cancel = useCallback(() => queue()?.cancel(), [queue]);
+  const pause = useCallback(() => queue()?.pause(), [queue]);
+  const resume = useCallback(() => queue()?.resume(), [queue]);
+  const isSpeaking = useCallback(() => queue()?.isSpeaking() ?? false, [queue]);
+
+  return { speaking: state.speaking, paused: state.paused, enqueue, cancel, pause, resume, isSpeaking };
+};
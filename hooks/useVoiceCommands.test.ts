@@ -0,0 +1,58 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import SpeechRecognition from 'react-speech-recognition';
+import { microphone } from '../test/recognition';
+import { useVoiceCommands } from './useVoiceCommands';
+
+vi.mock('react-speech-recognition', () => import('../test/recognition'));
+
+describe('useVoiceCommands', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    microphone.supported = true;
+    microphone.reset();
+  });
+
+  it('starts listening in the given language', () => {
+    const { result } = renderHook(() => useVoiceCommands({ language: 'de-DE', autoStart: true, onTranscript: vi.fn() }));
+
+    expect(SpeechRecognition.startListening).toHaveBeenCalledWith({ continuous: true, language: 'de-DE' });
+    expect(result.current.listening).toBe(true);
+  });
+
+  it('does not start without support or when auto-start is off', () => {
+    microphone.supported = false;
+    renderHook(() => useVoiceCommands({ language: 'en-US', autoStart: true, onTranscript: vi.fn() }));
+    microphone.supported = true;
+    renderHook(() => useVoiceCommands({ language: 'en-US', autoStart: false, onTranscript: vi.fn() }));
+
+    expect(SpeechRecognition.startListening).not.toHaveBeenCalled();
+  });
+
+  it('passes each new transcript to the latest callback', () => {
+    const first = vi.fn();
+    const latest = vi.fn();
+    const { rerender } = renderHook(
+      ({ onTranscript }) => useVoiceCommands({ language: 'en-US', autoStart: true, onTranscript }),
+      { initialProps: { onTranscript: first } }
+    );
+    rerender({ onTranscript: latest });
+
+    act(() => microphone.hear('jarvis bitcoin'));
+
+    expect(first).not.toHaveBeenCalled();
+    expect(latest).toHaveBeenCalledWith('jarvis bitcoin');
+  });
+
+  it('ignores speech once stopped', () => {
+    const onTranscript = vi.fn();
+    const { result } = renderHook(() => useVoiceCommands({ language: 'en-US', autoStart: true, onTranscript }));
+
+    act(() => result.current.stop());
+    act(() => microphone.hear('bitcoin'));
+
+    expect(SpeechRecognition.stopListening).toHaveBeenCalled();
+    expect(result.current.listening).toBe(false);
+    expect(onTranscript).not.toHaveBeenCalled();
+  });
+});
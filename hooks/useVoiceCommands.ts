@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import 'regenerator-runtime/runtime';
+import SpeechRecognition, { useSpeechRecognition } from 'react-speech-recognition';
+
+interface VoiceCommandOptions {
+  // BCP 47 tag to recognise speech in
+  language: string;
+  // Listen as soon as the browser supports recognition
+  autoStart: boolean;
+  // Called with everything heard so far whenever the transcript changes while listening
+  onTranscript: (transcript: string) => void;
+}
+
+// The microphone on top of react-speech-recognition. onTranscript is read from a ref,
+// so it always sees the current app state rather than the one from the first render.
+export const useVoiceCommands = ({ language, autoStart, onTranscript }: VoiceCommandOptions) => {
+  const { transcript, interimTranscript, resetTranscript, browserSupportsSpeechRecognition } = useSpeechRecognition();
+  const [listening, setListening] = useState(false);
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+
+  const start = useCallback(() => {
+    SpeechRecognition.startListening({ continuous: true, language });
+    setListening(true);
+  }, [language]);
+
+  const stop = useCallback(() => {
+    SpeechRecognition.stopListening();
+    setListening(false);
+  }, []);
+
+  // Restarts in the new language when it changes
+  useEffect(() => {
+    if (!autoStart || !browserSupportsSpeechRecognition) return;
+    start();
+    return () => {
+      SpeechRecognition.stopListening();
+    };
+  }, [autoStart, browserSupportsSpeechRecognition, start]);
+
+  useEffect(() => {
+    if (!listening || !transcript) return;
+    onTranscriptRef.current(transcript);
+  }, [transcript, interimTranscript, listening]);
+
+  return {
+    supported: browserSupportsSpeechRecognition,
+    listening,
+    transcript,
+    interimTranscript,
+    resetTranscript,
+    start,
+    stop,
+  };
+};
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface VoiceSessionSettings {
+  // Ignore everything until "Jarvis" is heard
+  requireWakeWord: boolean;
+  // How long the session stays open for follow-ups after the wake word or a reply
+  windowMs: number;
+}
+
+export const LISTENING_WINDOWS_MS = [5000, 10000, 20000, 30000, 60000];
+
+export const DEFAULT_VOICE_SESSION: VoiceSessionSettings = {
+  requireWakeWord: true,
+  windowMs: 10000,
+};
+
+const STORAGE_KEY = 'jarvis.voiceSession';
+
+const loadSettings = (): VoiceSessionSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_VOICE_SESSION, ...JSON.parse(raw) } : DEFAULT_VOICE_SESSION;
+  } catch {
+    return DEFAULT_VOICE_SESSION;
+  }
+};
+
+// Wake-word session: "Jarvis" opens a listening window, each reply reopens it for
+// follow-ups, and the window is held open while Jarvis is speaking
+export const useVoiceSession = () => {
+  const [settings, setSettings] = useState<VoiceSessionSettings>(loadSettings);
+  const [awake, setAwake] = useState(false);
+  const awakeRef = useRef(false);
+  const settingsRef = useRef(settings);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearTimer = () => {
+    if (timer.current) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+  };
+
+  const sleep = useCallback(() => {
+    clearTimer();
+    awakeRef.current = false;
+    setAwake(false);
+  }, []);
+
+  // Open (or restart) the listening window
+  const wake = useCallback(() => {
+    clearTimer();
+    awakeRef.current = true;
+    setAwake(true);
+    timer.current = setTimeout(sleep, settingsRef.current.windowMs);
+  }, [sleep]);
+
+  // Keep the session open without a deadline, e.g. while a reply is being spoken
+  const hold = useCallback(() => {
+    if (awakeRef.current) clearTimer();
+  }, []);
+
+  const isAwake = useCallback(() => awakeRef.current, []);
+
+  const updateSettings = useCallback((patch: Partial<VoiceSessionSettings>) => {
+    const next = { ...settingsRef.current, ...patch };
+    settingsRef.current = next;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setSettings(next);
+  }, []);
+
+  useEffect(() => clearTimer, []);
+
+  return { settings, updateSettings, awake, isAwake, wake, hold, sleep };
+};
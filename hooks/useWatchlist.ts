@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CryptoData, MarketDataProvider, fetchKlineHistory } from '../services/market';
+import { addToWatchlist, loadWatchlist, saveWatchlist } from '../services/watchlist';
+
+// Prices are polled while the tiles are visible; sparklines change slowly
+const TICKER_REFRESH_MS = 30 * 1000;
+const SPARKLINE_REFRESH_MS = 5 * 60 * 1000;
+const SPARKLINE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Persisted list of coins with their 24h tickers and hourly closes for sparklines.
+// Refreshes on a timer while `active`; refresh() can be called any time for a fresh digest.
+export const useWatchlist = (provider: MarketDataProvider, active: boolean) => {
+  const [symbols, setSymbols] = useState<string[]>(loadWatchlist);
+  const [tickers, setTickers] = useState<Record<string, CryptoData>>({});
+  const [sparklines, setSparklines] = useState<Record<string, number[]>>({});
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const symbolsRef = useRef(symbols);
+
+  const updateSymbols = useCallback((next: string[]) => {
+    symbolsRef.current = next;
+    saveWatchlist(next);
+    setSymbols(next);
+  }, []);
+
+  // Fetch tickers for the whole list in one request; resolves with the tickers in list order
+  const refresh = useCallback(async (): Promise<CryptoData[]> => {
+    const current = symbolsRef.current;
+    if (current.length === 0) return [];
+
+    try {
+      const fetched = await provider.getTickers(current);
+      const bySymbol: Record<string, CryptoData> = {};
+      fetched.forEach(ticker => {
+        bySymbol[ticker.symbol] = ticker;
+      });
+      setTickers(bySymbol);
+      // Cached tickers (exchange unreachable) keep the time they were fetched
+      setUpdatedAt(fetched[0]?.cachedAt ?? Date.now());
+      setError(null);
+      return current.map(symbol => bySymbol[symbol]).filter((ticker): ticker is CryptoData => Boolean(ticker));
+    } catch (err) {
+      console.error('Error fetching watchlist prices:', err);
+      setError(err instanceof Error ? err.message : 'Could not load watchlist prices');
+      throw err;
+    }
+  }, [provider]);
+
+  const refreshSparklines = useCallback(async () => {
+    const endTime = Date.now();
+    const results = await Promise.allSettled(symbolsRef.current.map(symbol =>
+      fetchKlineHistory(provider, symbol, '1h', endTime - SPARKLINE_WINDOW_MS, endTime)));
+
+    const next: Record<string, number[]> = {};
+    results.forEach((result, index) => {
+      const symbol = symbolsRef.current[index];
+      if (result.status === 'fulfilled') {
+        next[symbol] = result.value.map(candle => candle.close);
+      } else {
+        console.error(`Error fetching sparkline for ${symbol}:`, result.reason);
+      }
+    });
+    setSparklines(next);
+  }, [provider]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    refresh().catch(() => {});
+    const timer = setInterval(() => refresh().catch(() => {}), TICKER_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [active, symbols, refresh]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    refreshSparklines();
+    const timer = setInterval(refreshSparklines, SPARKLINE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [active, symbols, refreshSparklines]);
+
+  // Returns the symbols that were actually added (not already listed, within the size limit)
+  const add = useCallback((added: string[]): string[] => {
+    const next = addToWatchlist(symbolsRef.current, added);
+    const newSymbols = next.filter(symbol => !symbolsRef.current.includes(symbol));
+    updateSymbols(next);
+    return newSymbols;
+  }, [updateSymbols]);
+
+  // Returns the symbols that were actually removed
+  const remove = useCallback((removed: string[]): string[] => {
+    const dropped = symbolsRef.current.filter(symbol => removed.includes(symbol));
+    updateSymbols(symbolsRef.current.filter(symbol => !removed.includes(symbol)));
+    return dropped;
+  }, [updateSymbols]);
+
+  return { symbols, tickers, sparklines, updatedAt, error, refresh, add, remove };
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateAlert } from './evaluate';
+import { AlertCondition, PriceAlert, PricePoint } from './types';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 0, 1, 12);
+
+const alertOn = (condition: AlertCondition, overrides: Partial<PriceAlert> = {}): PriceAlert => ({
+  id: 'alert-1',
+  symbol: 'BTCUSDT',
+  condition,
+  paused: false,
+  createdAt: NOW - 2 * HOUR,
+  ...overrides,
+});
+
+const history = (...prices: [number, number][]): PricePoint[] =>
+  prices.map(([hoursAgo, price]) => ({ time: NOW - hoursAgo * HOUR, price }));
+
+describe('evaluateAlert', () => {
+  it('fires an "above" alert once the price reaches the level', () => {
+    const alert = alertOn({ type: 'above', price: 70000 });
+
+    expect(evaluateAlert(alert, 69999.99, [], NOW)).toBeNull();
+    expect(evaluateAlert(alert, 70000, [], NOW)).toEqual({ alert, price: 70000 });
+    expect(evaluateAlert(alert, 71250, [], NOW)).toEqual({ alert, price: 71250 });
+  });
+
+  it('fires a "below" alert once the price falls to the level', () => {
+    const alert = alertOn({ type: 'below', price: 60000 });
+
+    expect(evaluateAlert(alert, 60000.01, [], NOW)).toBeNull();
+    expect(evaluateAlert(alert, 60000, [], NOW)).toEqual({ alert, price: 60000 });
+    expect(evaluateAlert(alert, 58000, [], NOW)).toEqual({ alert, price: 58000 });
+  });
+
+  it('ignores a paused alert', () => {
+    const alert = alertOn({ type: 'above', price: 70000 }, { paused: true });
+
+    expect(evaluateAlert(alert, 75000, [], NOW)).toBeNull();
+  });
+
+  it('fires a move alert in the direction it watches', () => {
+    const points = history([1, 100]);
+    const up = alertOn({ type: 'move', percent: 5, windowMs: HOUR, direction: 'up' });
+    const down = alertOn({ type: 'move', percent: 5, windowMs: HOUR, direction: 'down' });
+    const any = alertOn({ type: 'move', percent: 5, windowMs: HOUR, direction: 'any' });
+
+    expect(evaluateAlert(up, 106, points, NOW)).toEqual({ alert: up, price: 106, changePercent: 6 });
+    expect(evaluateAlert(up, 94, points, NOW)).toBeNull();
+    expect(evaluateAlert(down, 94, points, NOW)).toEqual({ alert: down, price: 94, changePercent: -6 });
+    expect(evaluateAlert(down, 106, points, NOW)).toBeNull();
+    expect(evaluateAlert(any, 94, points, NOW)?.changePercent).toBe(-6);
+    expect(evaluateAlert(any, 104, points, NOW)).toBeNull();
+  });
+
+  it('measures a move from the start of the window, not from older prices', () => {
+    const alert = alertOn({ type: 'move', percent: 5, windowMs: HOUR, direction: 'up' });
+
+    // 90 is outside the hour; against 100 the rise is only 3%
+    expect(evaluateAlert(alert, 103, history([1.5, 90], [0.5, 100]), NOW)).toBeNull();
+  });
+
+  it('waits a full window before a move alert fires again', () => {
+    const condition: AlertCondition = { type: 'move', percent: 5, windowMs: HOUR, direction: 'up' };
+    const points = history([0.75, 100]);
+
+    expect(evaluateAlert(alertOn(condition, { triggeredAt: NOW - 0.5 * HOUR }), 120, points, NOW)).toBeNull();
+    expect(evaluateAlert(alertOn(condition, { triggeredAt: NOW - HOUR }), 108, points, NOW)).toEqual(
+      expect.objectContaining({ changePercent: 8 })
+    );
+  });
+
+  it('does not count prices from before the alert was set', () => {
+    const alert = alertOn({ type: 'move', percent: 5, windowMs: HOUR, direction: 'up' }, { createdAt: NOW - 0.5 * HOUR });
+
+    const points = history([0.75, 100], [0.25, 104]);
+
+    // 8% above the older price, under 4% above the first one since
+    expect(evaluateAlert(alert, 108, points, NOW)).toBeNull();
+    expect(evaluateAlert(alert, 110, points, NOW)?.changePercent).toBeCloseTo(5.769, 3);
+  });
+});
@@ -0,0 +1,40 @@
+import { AlertTrigger, PriceAlert, PricePoint } from './types';
+
+// Check one alert against the latest price and the recent price history of its symbol.
+// Price-level alerts fire once; move alerts re-arm after one window has passed.
+export const evaluateAlert = (
+  alert: PriceAlert,
+  price: number,
+  history: PricePoint[],
+  now: number
+): AlertTrigger | null => {
+  if (alert.paused) return null;
+
+  const { condition } = alert;
+
+  switch (condition.type) {
+    case 'above':
+      return price >= condition.price ? { alert, price } : null;
+
+    case 'below':
+      return price <= condition.price ? { alert, price } : null;
+
+    case 'move': {
+      if (alert.triggeredAt && now - alert.triggeredAt < condition.windowMs) return null;
+
+      const windowStart = Math.max(now - condition.windowMs, alert.triggeredAt ?? 0, alert.createdAt);
+      const reference = history.find(point => point.time >= windowStart);
+      if (!reference || reference.price === 0) return null;
+
+      const changePercent = ((price - reference.price) / reference.price) * 100;
+      const matchesDirection =
+        condition.direction === 'any' ||
+        (condition.direction === 'up' && changePercent > 0) ||
+        (condition.direction === 'down' && changePercent < 0);
+
+      return matchesDirection && Math.abs(changePercent) >= condition.percent
+        ? { alert, price, changePercent }
+        : null;
+    }
+  }
+};
@@ -0,0 +1,41 @@
+import { describeDuration } from '../nlu/numbers';
+import { PriceAlert } from './types';
+
+export * from './types';
+export * from './evaluate';
+export * from './parse';
+export * from './notify';
+
+const STORAGE_KEY = 'jarvis.alerts';
+
+export const loadAlerts = (): PriceAlert[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlerts = (alerts: PriceAlert[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(alerts));
+};
+
+export const createAlertId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Short description for the panel and for speech, e.g. "SOL below 120" or "ETH moves 5% within 1 hour"
+export const describeAlert = (alert: PriceAlert, assetName: string): string => {
+  const { condition } = alert;
+
+  switch (condition.type) {
+    case 'above':
+      return `${assetName} above ${condition.price}`;
+    case 'below':
+      return `${assetName} below ${condition.price}`;
+    case 'move': {
+      const verb = condition.direction === 'up' ? 'rises' : condition.direction === 'down' ? 'drops' : 'moves';
+      return `${assetName} ${verb} ${condition.percent}% within ${describeDuration(condition.windowMs)}`;
+    }
+  }
+};
@@ -0,0 +1,13 @@
+// Thin wrapper around the browser Notification API; every call is a no-op where it is unavailable
+
+export const requestNotificationPermission = () => {
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(err => console.warn('Notification permission request failed:', err));
+  }
+};
+
+export const showDesktopNotification = (title: string, body: string) => {
+  if ('Notification' in window && Notification.permission === 'granted') {
+    new Notification(title, { body });
+  }
+};
@@ -0,0 +1,94 @@
+import { SymbolRegistry } from '../symbols';
+import { findDuration, findNumbers, findPercent } from '../nlu/numbers';
+import { hasAnyPhrase, tokenize } from '../nlu/tokenize';
+import type { Lexicon } from '../nlu/lexicon';
+import { AlertCondition, MoveDirection } from './types';
+
+// Which alerts a management command refers to
+export type AlertTarget = { all: true } | { index: number } | { symbol: string };
+
+export type AlertCommand =
+  // symbol/condition are null when the request was recognised but incomplete
+  | { action: 'create'; symbol: string | null; condition: AlertCondition | null; crossing: boolean }
+  | { action: 'list' }
+  | { action: 'pause' | 'resume' | 'delete'; target: AlertTarget | null };
+
+const CREATE_PATTERN = /\b(alert me|notify me|tell me|warn me|ping me|let me know|set (?:an |a price )?alert|create (?:an )?alert)\b/;
+const BELOW_PATTERN = /\b(below|under|beneath|less than|drops? to|falls? to|dips? to)\b/;
+const ABOVE_PATTERN = /\b(above|over|more than|exceeds?|breaks|rises? to|climbs? to|goes up to)\b/;
+// "hits 120" or "reaches 120": the direction depends on where the price is now
+const CROSS_PATTERN = /\b(hits?|reach(?:es)?|touch(?:es)?|gets? to|is at)\b/;
+const MOVE_DOWN_PATTERN = /\b(drops?|falls?|dumps?|crash(?:es)?|declines?|loses?|goes down)\b/;
+const MOVE_UP_PATTERN = /\b(rises?|jumps?|pumps?|gains?|climbs?|goes up|spikes?)\b/;
+
+const ORDINALS: Record<string, number> = {
+  one: 1, first: 1, two: 2, second: 2, three: 3, third: 3, four: 4, fourth: 4,
+  five: 5, fifth: 5, six: 6, sixth: 6, seven: 7, seventh: 7, eight: 8, eighth: 8,
+  nine: 9, ninth: 9, ten: 10, tenth: 10,
+};
+
+const parseTarget = (text: string, registry: SymbolRegistry): AlertTarget | null => {
+  if (/\b(all|every|everything)\b/.test(text)) return { all: true };
+
+  const numbered = /\balert\s+(?:number\s+)?(\d+|[a-z]+)\b/.exec(text) ?? /\b(\d+|[a-z]+)\s+alert\b/.exec(text);
+  if (numbered) {
+    const index = /^\d+$/.test(numbered[1]) ? parseInt(numbered[1], 10) : ORDINALS[numbered[1]];
+    if (index) return { index };
+  }
+
+  const match = registry.resolve(text);
+  return match ? { symbol: match.symbol } : null;
+};
+
+// Recognise alert commands such as "alert me when Solana drops below 120",
+// "tell me if ETH moves 5 percent in an hour" or "pause alert 2"
+export const parseAlertCommand = (input: string, registry: SymbolRegistry, lexicon?: Lexicon): AlertCommand | null => {
+  const text = input.toLowerCase();
+  const tokens = tokenize(text);
+  const mentions = (pattern: RegExp, phrases: string[] = []) => pattern.test(text) || hasAnyPhrase(tokens, phrases);
+  const mentionsAlerts = mentions(/\balerts?\b/, lexicon?.alerts);
+
+  if (mentionsAlerts && mentions(/\b(list|show|read|what are|which)\b/, lexicon?.listWords)) return { action: 'list' };
+  if (mentionsAlerts && /\b(resume|unpause|enable|reactivate|turn on)\b/.test(text)) {
+    return { action: 'resume', target: parseTarget(text, registry) };
+  }
+  if (mentionsAlerts && /\b(pause|mute|disable|silence|turn off)\b/.test(text)) {
+    return { action: 'pause', target: parseTarget(text, registry) };
+  }
+  if (mentionsAlerts && /\b(delete|remove|cancel|clear)\b/.test(text)) {
+    return { action: 'delete', target: parseTarget(text, registry) };
+  }
+
+  if (!mentions(CREATE_PATTERN, lexicon?.alertCreate)) return null;
+
+  const percent = findPercent(text);
+  const numbers = findNumbers(text);
+  const isMove = percent !== null && /\b(move|moves|change|changes|swing|swings)\b|\b(drops?|falls?|rises?|jumps?|pumps?|dumps?|gains?|loses?)\b/.test(text);
+
+  // Without a threshold this isn't an alert request ("tell me a joke")
+  if (!isMove && numbers.length === 0) return null;
+
+  const symbol = registry.resolve(text)?.symbol ?? null;
+
+  if (isMove && percent) {
+    const direction: MoveDirection = MOVE_DOWN_PATTERN.test(text) ? 'down' : MOVE_UP_PATTERN.test(text) ? 'up' : 'any';
+    const windowMs = findDuration(text, lexicon) ?? 60 * 60 * 1000;
+    return { action: 'create', symbol, condition: { type: 'move', percent: percent.value, windowMs, direction }, crossing: false };
+  }
+
+  // Use the last number, so "alert me when ETH 2 drops below 3000" picks the threshold
+  const price = numbers[numbers.length - 1].value;
+
+  if (mentions(BELOW_PATTERN, lexicon?.below)) {
+    return { action: 'create', symbol, condition: { type: 'below', price }, crossing: false };
+  }
+  if (mentions(ABOVE_PATTERN, lexicon?.above)) {
+    return { action: 'create', symbol, condition: { type: 'above', price }, crossing: false };
+  }
+  if (CROSS_PATTERN.test(text)) {
+    // Direction is resolved against the current price when the alert is created
+    return { action: 'create', symbol, condition: { type: 'above', price }, crossing: true };
+  }
+
+  return { action: 'create', symbol, condition: null, crossing: false };
+};
@@ -0,0 +1,28 @@
+export type MoveDirection = 'up' | 'down' | 'any';
+
+export type AlertCondition =
+  | { type: 'above'; price: number }
+  | { type: 'below'; price: number }
+  // Relative move of at least `percent` within the trailing window
+  | { type: 'move'; percent: number; windowMs: number; direction: MoveDirection };
+
+export interface PriceAlert {
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  paused: boolean;
+  createdAt: number;
+  triggeredAt?: number;
+}
+
+export interface PricePoint {
+  time: number;
+  price: number;
+}
+
+export interface AlertTrigger {
+  alert: PriceAlert;
+  price: number;
+  // Percentage move that fired a 'move' alert
+  changePercent?: number;
+}
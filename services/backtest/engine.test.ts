@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Kline } from '../market/types';
+import { runBacktest } from './engine';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// Daily candles that open, trade and close at one price
+const candles = (closes: number[]): Kline[] => closes.map((close, index) => ({
+  openTime: START + index * DAY_MS,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1,
+  closeTime: START + (index + 1) * DAY_MS - 1,
+}));
+
+// A 1/2 SMA crossover buys when a close is up on the one before and sells when it is down
+const crossover = { kind: 'maCrossover', average: 'sma', fast: 1, slow: 2 } as const;
+const options = { symbol: 'BTCUSDT', interval: '1d', startTime: START, feeRate: 0 } as const;
+
+describe('runBacktest', () => {
+  // Buys at 10, sells at 11 (a win), buys at 12, sells at 8 (a loss)
+  const result = runBacktest(candles([10, 9, 10, 12, 11, 12, 8]), crossover, options);
+
+  it('trades on the crossovers and reports the return', () => {
+    expect(result.trades.map(trade => [trade.side, trade.price])).toEqual([['buy', 10], ['sell', 11], ['buy', 12], ['sell', 8]]);
+    expect(result.equity.map(point => Math.round(point.equity))).toEqual([10000, 10000, 10000, 12000, 11000, 11000, 7333]);
+    expect(result.finalEquity).toBeCloseTo(22000 / 3);
+    expect(result.returnPercent).toBeCloseTo(-26.667, 2);
+    expect(result.buyAndHoldPercent).toBeCloseTo(-20);
+  });
+
+  it('measures the drawdown from the highest equity', () => {
+    // 12000 down to 7333.33
+    expect(result.maxDrawdownPercent).toBeCloseTo((1 - 22000 / 3 / 12000) * 100);
+  });
+
+  it('counts winning round trips', () => {
+    expect(result.winRate).toBe(50);
+  });
+
+  it('annualises the Sharpe ratio from the daily returns', () => {
+    const returns = [0, 0, 0.2, -1 / 12, 0, -1 / 3];
+    const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+    const deviation = Math.sqrt(returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1));
+    expect(result.sharpe).toBeCloseTo((mean / deviation) * Math.sqrt(365));
+  });
+
+  it('has no Sharpe ratio or win rate without trades', () => {
+    const flat = runBacktest(candles([10, 10, 10, 10]), crossover, options);
+    expect(flat.trades).toEqual([]);
+    expect(flat.sharpe).toBeNull();
+    expect(flat.winRate).toBeNull();
+    expect(flat.maxDrawdownPercent).toBe(0);
+  });
+
+  it('takes the fee out of every fill', () => {
+    const { trades } = runBacktest(candles([10, 9, 10, 12, 11]), crossover, { ...options, feeRate: 0.001 });
+    expect(trades[0].fee).toBeCloseTo(10);
+    expect(trades[0].quantity).toBeCloseTo(999);
+    expect(trades[1].fee).toBeCloseTo(999 * 11 * 0.001);
+    expect(trades[1].pnl).toBeCloseTo(999 * 11 * 0.999 - 10000);
+  });
+
+  it('buys a fixed amount each period with DCA and never sells', () => {
+    const dca = runBacktest(candles([10, 20, 40]), { kind: 'dca', frequency: 'daily', amount: 100 }, options);
+    expect(dca.capital).toBe(300);
+    expect(dca.trades.map(trade => trade.quantity)).toEqual([10, 5, 2.5]);
+    expect(dca.finalEquity).toBeCloseTo(700);
+    // Two of the three purchases are below the last close
+    expect(dca.winRate).toBeCloseTo(200 / 3);
+  });
+
+  it('needs candles inside the tested range', () => {
+    expect(() => runBacktest(candles([10, 11]), crossover, { ...options, startTime: START + 5 * DAY_MS })).toThrow('Not enough price history');
+  });
+});
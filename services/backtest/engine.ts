@@ -0,0 +1,166 @@
+import { INTERVAL_MS, Kline, KlineInterval } from '../market/types';
+import { ema, rsi, sma } from '../indicators/series';
+import { BacktestResult, BacktestTrade, DcaFrequency, EquityPoint, Strategy } from './types';
+
+// Same taker fee as paper trading
+export const BACKTEST_FEE_RATE = 0.001;
+export const BACKTEST_CAPITAL = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+
+export const DCA_PERIOD_MS: Record<DcaFrequency, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS,
+};
+
+// Longest history a backtest downloads
+export const MAX_BACKTEST_MS = 5 * YEAR_MS;
+
+// Candles per test stay in the hundreds to low thousands
+export const backtestInterval = (durationMs: number): KlineInterval =>
+  durationMs <= 45 * DAY_MS ? '1h' : durationMs <= 200 * DAY_MS ? '4h' : '1d';
+
+// Candles needed before the tested range for the strategy's indicators to settle
+export const warmupCandles = (strategy: Strategy): number => {
+  switch (strategy.kind) {
+    case 'maCrossover':
+      return strategy.slow + 1;
+    case 'rsi':
+      return strategy.period * 3;
+    case 'dca':
+      return 0;
+  }
+};
+
+// Buy (1), sell (-1) or hold (0) at each candle's close
+const signals = (strategy: Exclude<Strategy, { kind: 'dca' }>, closes: number[]): number[] => {
+  if (strategy.kind === 'maCrossover') {
+    const average = strategy.average === 'ema' ? ema : sma;
+    const fast = average(closes, strategy.fast);
+    const slow = average(closes, strategy.slow);
+    const above = (index: number) => {
+      const f = fast[index];
+      const s = slow[index];
+      return f === null || s === null ? null : f > s;
+    };
+    return closes.map((_, index) => {
+      const now = above(index);
+      const before = index > 0 ? above(index - 1) : null;
+      if (now === null || before === null || now === before) return 0;
+      return now ? 1 : -1;
+    });
+  }
+
+  const values = rsi(closes, strategy.period);
+  return values.map(value => (value === null ? 0 : value < strategy.buyBelow ? 1 : value > strategy.sellAbove ? -1 : 0));
+};
+
+const maxDrawdown = (equity: EquityPoint[]): number => {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const point of equity) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) worst = Math.max(worst, (peak - point.equity) / peak);
+  }
+  return worst * 100;
+};
+
+const sharpeRatio = (equity: EquityPoint[], interval: KlineInterval): number | null => {
+  const returns = equity.slice(1).map((point, index) => point.equity / equity[index].equity - 1);
+  if (returns.length < 2) return null;
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+  const deviation = Math.sqrt(variance);
+  if (deviation === 0) return null;
+  return (mean / deviation) * Math.sqrt(YEAR_MS / INTERVAL_MS[interval]);
+};
+
+// Run a strategy over candles. Candles before startTime only warm up the indicators;
+// orders fill at the close of the candle that signalled them.
+export const runBacktest = (
+  klines: Kline[],
+  strategy: Strategy,
+  options: { symbol: string; interval: KlineInterval; startTime: number; capital?: number; feeRate?: number }
+): BacktestResult => {
+  const { symbol, interval, startTime, feeRate = BACKTEST_FEE_RATE } = options;
+  const first = klines.findIndex(candle => candle.openTime >= startTime);
+  if (first === -1 || first === klines.length - 1) {
+    throw new Error('Not enough price history for that period');
+  }
+
+  const closes = klines.map(candle => candle.close);
+  const tested = klines.slice(first);
+  const trades: BacktestTrade[] = [];
+  const equity: EquityPoint[] = [];
+
+  // DCA buys on the first candle of each period and starts with its whole budget as cash
+  const periodOf = (candle: Kline) =>
+    strategy.kind === 'dca' ? Math.floor((candle.openTime - tested[0].openTime) / DCA_PERIOD_MS[strategy.frequency]) : 0;
+  const purchases = strategy.kind === 'dca'
+    ? tested.filter((candle, index) => index === 0 || periodOf(candle) > periodOf(tested[index - 1]))
+    : [];
+  const capital = strategy.kind === 'dca' ? purchases.length * strategy.amount : options.capital ?? BACKTEST_CAPITAL;
+  const purchaseTimes = new Set(purchases.map(candle => candle.openTime));
+  const marks = strategy.kind === 'dca' ? [] : signals(strategy, closes);
+
+  let cash = capital;
+  let quantity = 0;
+  let positionCost = 0;
+
+  const buy = (time: number, price: number, spend: number) => {
+    const fee = spend * feeRate;
+    const bought = (spend - fee) / price;
+    cash -= spend;
+    quantity += bought;
+    positionCost += spend;
+    trades.push({ side: 'buy', time, price, quantity: bought, fee });
+  };
+
+  const sellAll = (time: number, price: number) => {
+    const proceeds = quantity * price;
+    const fee = proceeds * feeRate;
+    trades.push({ side: 'sell', time, price, quantity, fee, pnl: proceeds - fee - positionCost });
+    cash += proceeds - fee;
+    quantity = 0;
+    positionCost = 0;
+  };
+
+  for (let index = first; index < klines.length; index++) {
+    const candle = klines[index];
+    if (strategy.kind === 'dca') {
+      if (purchaseTimes.has(candle.openTime)) buy(candle.openTime, candle.close, strategy.amount);
+    } else if (marks[index] === 1 && quantity === 0) {
+      buy(candle.openTime, candle.close, cash);
+    } else if (marks[index] === -1 && quantity > 0) {
+      sellAll(candle.openTime, candle.close);
+    }
+    equity.push({ time: candle.openTime, equity: cash + quantity * candle.close });
+  }
+
+  const lastClose = tested[tested.length - 1].close;
+  const finalEquity = equity[equity.length - 1].equity;
+  const sells = trades.filter(trade => trade.pnl !== undefined);
+  const buys = trades.filter(trade => trade.side === 'buy');
+  const winRate = strategy.kind === 'dca'
+    ? (buys.length > 0 ? (buys.filter(trade => trade.price < lastClose).length / buys.length) * 100 : null)
+    : (sells.length > 0 ? (sells.filter(trade => (trade.pnl ?? 0) > 0).length / sells.length) * 100 : null);
+
+  return {
+    strategy,
+    symbol,
+    interval,
+    startTime: tested[0].openTime,
+    endTime: tested[tested.length - 1].closeTime,
+    capital,
+    finalEquity,
+    returnPercent: capital > 0 ? ((finalEquity - capital) / capital) * 100 : 0,
+    buyAndHoldPercent: ((lastClose - tested[0].close) / tested[0].close) * 100,
+    maxDrawdownPercent: maxDrawdown(equity),
+    winRate,
+    sharpe: sharpeRatio(equity, interval),
+    trades,
+    equity,
+  };
+};
@@ -0,0 +1,25 @@
+import { describeDuration } from '../nlu/numbers';
+import { Strategy } from './types';
+
+export * from './types';
+export * from './engine';
+export * from './parse';
+
+// Short description for speech and the panel, e.g. "a weekly $100 DCA" or "the SMA 50/200 crossover";
+// `formatValue` formats the DCA amount in the display currency
+export const describeStrategy = (strategy: Strategy, formatValue: (usd: number) => string): string => {
+  switch (strategy.kind) {
+    case 'maCrossover':
+      return `the ${strategy.average.toUpperCase()} ${strategy.fast}/${strategy.slow} crossover`;
+    case 'rsi':
+      return `RSI ${strategy.period}, buying below ${strategy.buyBelow} and selling above ${strategy.sellAbove}`;
+    case 'dca':
+      return `a ${strategy.frequency} ${formatValue(strategy.amount)} DCA`;
+  }
+};
+
+// "the past year", "the past 6 months"
+export const describeBacktestPeriod = (durationMs: number): string => {
+  const text = describeDuration(durationMs);
+  return text.startsWith('1 ') ? `the past ${text.slice(2)}` : `the past ${text}`;
+};
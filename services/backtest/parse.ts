@@ -0,0 +1,69 @@
+import { SymbolRegistry } from '../symbols';
+import { findDurationMention, findNumbers } from '../nlu/numbers';
+import { hasAnyPhrase, tokenize } from '../nlu/tokenize';
+import type { Lexicon } from '../nlu/lexicon';
+import { MAX_BACKTEST_MS } from './engine';
+import { DcaFrequency, Strategy } from './types';
+
+export interface BacktestCommand {
+  // null when the request didn't say which strategy to test
+  strategy: Strategy | null;
+  symbol: string | null;
+  durationMs: number;
+}
+
+export const DEFAULT_BACKTEST_MS = 365 * 24 * 60 * 60 * 1000;
+export const DEFAULT_DCA_AMOUNT = 100;
+
+const BACKTEST_PATTERN = /\bback[\s-]?test(?:s|ing)?\b/;
+const DCA_PATTERN = /\b(dca|dollar[\s-]cost[\s-]averag\w*)\b/;
+// "buying bitcoin every week" is a DCA too
+const SCHEDULED_BUY_PATTERN = /\bbuy(?:ing|s)?\b.*\b(daily|weekly|monthly|every|each)\b/;
+const RSI_PATTERN = /\brsi\b/;
+const MA_PATTERN = /\b(moving averages?|ma|sma|ema|golden cross|crossovers?|cross)\b/;
+// Words that say how the strategy works, removed before looking for the coin
+const STRATEGY_WORDS = /\b(back[\s-]?test(?:s|ing)?|strateg(?:y|ies)|dca|dollar[\s-]cost[\s-]averag\w*|rsi|moving averages?|ma|sma|ema|golden cross|crossovers?|cross|daily|weekly|monthly|dollars?|usd|usdt|buy(?:ing|s)?|every|each)\b/g;
+
+const frequencyOf = (text: string): DcaFrequency =>
+  /\b(daily|every day|each day|per day)\b/.test(text) ? 'daily'
+    : /\b(monthly|every month|each month|per month)\b/.test(text) ? 'monthly'
+      : 'weekly';
+
+// Recognise "backtest a weekly DCA on bitcoin over a year", "backtest the 50/200 moving
+// average crossover on ETH over 2 years" or "backtest RSI 30 70 on solana for 6 months"
+export const parseBacktestCommand = (input: string, registry: SymbolRegistry, lexicon?: Lexicon): BacktestCommand | null => {
+  const text = input.toLowerCase();
+  if (!BACKTEST_PATTERN.test(text) && !hasAnyPhrase(tokenize(text), lexicon?.backtest ?? [])) return null;
+
+  // The period comes out first so "over 2 years" isn't read as a strategy setting
+  const duration = findDurationMention(text, lexicon);
+  const rest = duration ? text.slice(0, duration.index) + ' ' + text.slice(duration.end) : text;
+  const numbers = findNumbers(rest);
+
+  let strategy: Strategy | null = null;
+  if (DCA_PATTERN.test(rest) || SCHEDULED_BUY_PATTERN.test(rest)) {
+    const amount = numbers.find(number => rest[number.index] === '$' || /^\s*(dollars?|usd|usdt)\b/.test(rest.slice(number.end)));
+    strategy = { kind: 'dca', frequency: frequencyOf(rest), amount: amount?.value ?? DEFAULT_DCA_AMOUNT };
+  } else if (RSI_PATTERN.test(rest)) {
+    const levels = numbers.map(number => number.value).filter(value => value > 0 && value < 100);
+    const [buyBelow, sellAbove] = levels.length >= 2 ? [Math.min(levels[0], levels[1]), Math.max(levels[0], levels[1])] : [30, 70];
+    strategy = { kind: 'rsi', period: 14, buyBelow, sellAbove };
+  } else if (MA_PATTERN.test(rest) || hasAnyPhrase(tokenize(rest), lexicon?.movingAverage ?? [])) {
+    const average = /\bema\b/.test(rest) ? 'ema' : 'sma';
+    const periods = numbers.map(number => Math.round(number.value)).filter(value => value >= 2 && value <= 400);
+    const [fast, slow] = periods.length >= 2
+      ? [Math.min(periods[0], periods[1]), Math.max(periods[0], periods[1])]
+      : average === 'ema' ? [12, 26] : [50, 200];
+    strategy = { kind: 'maCrossover', average, fast, slow };
+  }
+
+  const localWords = [...(lexicon?.backtest ?? []), ...(lexicon?.movingAverage ?? [])].flatMap(phrase => phrase.split(' '));
+  const match = registry.resolve(rest.replace(STRATEGY_WORDS, ' ').split(/\s+/).filter(word => !localWords.includes(word)).join(' '));
+  const symbol = match ? registry.get(`${match.baseAsset}USDT`)?.symbol ?? match.symbol : null;
+
+  return {
+    strategy,
+    symbol,
+    durationMs: Math.min(duration?.value ?? DEFAULT_BACKTEST_MS, MAX_BACKTEST_MS),
+  };
+};
@@ -0,0 +1,54 @@
+import { KlineInterval } from '../market/types';
+import { TradeSide } from '../portfolio/types';
+
+export type MovingAverageKind = 'sma' | 'ema';
+
+export type DcaFrequency = 'daily' | 'weekly' | 'monthly';
+
+// Rule-based strategies. The signal strategies go all in on a buy signal and all
+// out on a sell signal; DCA buys a fixed amount on a schedule and never sells.
+export type Strategy =
+  | { kind: 'maCrossover'; average: MovingAverageKind; fast: number; slow: number }
+  | { kind: 'rsi'; period: number; buyBelow: number; sellAbove: number }
+  | { kind: 'dca'; frequency: DcaFrequency; amount: number };
+
+export type StrategyKind = Strategy['kind'];
+
+export interface BacktestTrade {
+  side: TradeSide;
+  time: number;
+  price: number;
+  quantity: number;
+  fee: number;
+  // Sells only: proceeds after fees minus what the position cost, fees included
+  pnl?: number;
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+}
+
+export interface BacktestResult {
+  strategy: Strategy;
+  symbol: string;
+  interval: KlineInterval;
+  startTime: number;
+  endTime: number;
+  // Cash at the start; for DCA, the total of every scheduled purchase
+  capital: number;
+  finalEquity: number;
+  returnPercent: number;
+  // Buying at the first close and holding to the end, for comparison
+  buyAndHoldPercent: number;
+  // Largest fall from a peak of the equity curve, as a positive percentage
+  maxDrawdownPercent: number;
+  // Share of round trips closed at a profit (for DCA: of purchases now in profit);
+  // null when there is nothing to count
+  winRate: number | null;
+  // Annualised, from per-candle returns with no risk-free rate; null for a flat curve
+  sharpe: number | null;
+  trades: BacktestTrade[];
+  // One point per candle in the tested range
+  equity: EquityPoint[];
+}
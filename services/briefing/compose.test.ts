@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { CryptoData } from '../market/types';
+import { MESSAGES } from '../i18n';
+import { composeBriefing } from './compose';
+import { BriefingData, BriefingFormat } from './types';
+
+const ticker = (symbol: string, lastPrice: string, priceChangePercent: string): CryptoData => ({
+  symbol,
+  priceChange: '0',
+  priceChangePercent,
+  lastPrice,
+  volume: '1000',
+  highPrice: lastPrice,
+  lowPrice: lastPrice,
+});
+
+const NAMES: Record<string, string> = { BTCUSDT: 'Bitcoin', SOLUSDT: 'Solana', DOGEUSDT: 'Dogecoin' };
+
+const format: BriefingFormat = {
+  assetName: (symbol) => NAMES[symbol] ?? symbol,
+  formatPrice: (ticker) => `$${ticker.lastPrice}`,
+  formatValue: (usd) => `$${usd.toFixed(2)}`,
+  describeAlert: (alert) => `${NAMES[alert.symbol]} alert`,
+};
+
+const data: BriefingData = {
+  slot: 'morning',
+  watchlist: [ticker('BTCUSDT', '60000', '-1.5'), ticker('SOLUSDT', '150', '4.25')],
+  gainers: [ticker('DOGEUSDT', '0.2', '12')],
+  losers: [],
+  alerts: [],
+  portfolio: null,
+};
+
+describe('composeBriefing', () => {
+  it('reads the watchlist best first, then the market and alerts', () => {
+    expect(composeBriefing(data, format, MESSAGES.en)).toBe(
+      "Good morning. Here's your morning briefing. " +
+      'On your watchlist, Solana is up 4.25% at $150 and Bitcoin is down 1.50% at $60000. ' +
+      'Across the market, the top gainers are Dogecoin up 12.00%. ' +
+      'None of your price alerts fired since the last briefing.'
+    );
+  });
+
+  it('speaks in the reply language', () => {
+    const text = composeBriefing({ ...data, gainers: null, alerts: null }, format, MESSAGES.tr);
+    expect(text).toBe('Günaydın. İşte sabah özetiniz. İzleme listenizde Solana $150, yüzde 4.25 artıda ve Bitcoin $60000, yüzde 1.50 ekside.');
+  });
+
+  it('says when there was nothing to report', () => {
+    const empty = { slot: null, watchlist: null, gainers: null, losers: null, alerts: null, portfolio: null };
+    expect(composeBriefing(empty, format, MESSAGES.de)).toBe(
+      'Hier ist Ihr Markt-Briefing. Es gab nichts zu berichten. Schalten Sie in den Briefing-Einstellungen einige Abschnitte ein.'
+    );
+  });
+});
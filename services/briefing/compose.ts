@@ -0,0 +1,40 @@
+import { changeOf } from '../market/overview';
+import { CryptoData } from '../market/types';
+import type { CoinChange, Messages } from '../i18n/types';
+import { BriefingData, BriefingFormat } from './types';
+
+// Assemble the spoken briefing in the reply language, one short paragraph per section that has data
+export const composeBriefing = (data: BriefingData, format: BriefingFormat, messages: Messages): string => {
+  const text = messages.briefing;
+  const coinChange = (ticker: CryptoData): CoinChange => ({ name: format.assetName(ticker.symbol), changePercent: changeOf(ticker) });
+  const parts: string[] = [text.greeting(data.slot)];
+
+  if (data.watchlist && data.watchlist.length > 0) {
+    const ranked = [...data.watchlist].sort((a, b) => changeOf(b) - changeOf(a));
+    parts.push(text.watchlist(ranked.map(ticker => ({ ...coinChange(ticker), price: format.formatPrice(ticker) }))));
+  }
+
+  if (data.gainers && data.gainers.length > 0) {
+    parts.push(text.movers(data.gainers.map(coinChange), (data.losers ?? []).map(coinChange)));
+  }
+
+  if (data.alerts) {
+    parts.push(text.alerts(data.alerts.map(format.describeAlert)));
+  }
+
+  if (data.portfolio && data.portfolio.positions.length > 0) {
+    const { totalValue, change24h, change24hPercent, unrealizedPnl } = data.portfolio;
+    parts.push(text.portfolio({
+      totalValue: format.formatValue(totalValue),
+      change24h: format.formatValue(Math.abs(change24h)),
+      change24hPercent,
+      pnl: format.formatValue(Math.abs(unrealizedPnl)),
+      inProfit: unrealizedPnl >= 0,
+    }));
+  }
+
+  if (parts.length === 1) {
+    parts.push(text.nothing);
+  }
+  return parts.join(' ');
+};
@@ -0,0 +1,75 @@
+import { BRIEFING_SLOTS, parseTimeOfDay } from './schedule';
+import { BriefingSection, BriefingSettings, BriefingSlot, BriefingTranscript } from './types';
+
+export * from './types';
+export * from './schedule';
+export * from './compose';
+export * from './parse';
+
+const SETTINGS_KEY = 'jarvis.briefings';
+const LAST_RUN_KEY = 'jarvis.briefings.lastRun';
+const TRANSCRIPTS_KEY = 'jarvis.briefings.transcripts';
+
+// Transcripts kept, newest last
+export const MAX_BRIEFING_TRANSCRIPTS = 20;
+
+export const BRIEFING_SECTIONS: BriefingSection[] = ['watchlist', 'movers', 'alerts', 'portfolio'];
+
+export const DEFAULT_BRIEFING_SETTINGS: BriefingSettings = {
+  morning: { enabled: true, time: '08:00', sections: ['watchlist', 'movers', 'alerts', 'portfolio'] },
+  evening: { enabled: true, time: '20:00', sections: ['watchlist', 'alerts', 'portfolio'] },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keep valid times and known sections, falling back to the defaults for each slot
+export const sanitizeBriefingSettings = (raw: unknown): BriefingSettings => {
+  const settings = { ...DEFAULT_BRIEFING_SETTINGS };
+  if (!isRecord(raw)) return settings;
+
+  BRIEFING_SLOTS.forEach(slot => {
+    const value = raw[slot];
+    if (!isRecord(value)) return;
+    const fallback = DEFAULT_BRIEFING_SETTINGS[slot];
+    settings[slot] = {
+      enabled: typeof value.enabled === 'boolean' ? value.enabled : fallback.enabled,
+      time: typeof value.time === 'string' && parseTimeOfDay(value.time) !== null ? value.time : fallback.time,
+      sections: Array.isArray(value.sections)
+        ? BRIEFING_SECTIONS.filter(section => (value.sections as unknown[]).includes(section))
+        : fallback.sections,
+    };
+  });
+  return settings;
+};
+
+const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const loadBriefingSettings = (): BriefingSettings => sanitizeBriefingSettings(loadJson<unknown>(SETTINGS_KEY, null));
+
+export const saveBriefingSettings = (settings: BriefingSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// When each slot last ran, so a reload doesn't read the same briefing twice
+export const loadBriefingRuns = (): Partial<Record<BriefingSlot, number>> => loadJson(LAST_RUN_KEY, {});
+
+export const saveBriefingRuns = (runs: Partial<Record<BriefingSlot, number>>) => {
+  localStorage.setItem(LAST_RUN_KEY, JSON.stringify(runs));
+};
+
+export const loadBriefingTranscripts = (): BriefingTranscript[] => loadJson(TRANSCRIPTS_KEY, []);
+
+export const saveBriefingTranscripts = (transcripts: BriefingTranscript[]) => {
+  localStorage.setItem(TRANSCRIPTS_KEY, JSON.stringify(transcripts));
+};
+
+export const createBriefingId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
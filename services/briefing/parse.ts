@@ -0,0 +1,23 @@
+import { hasAnyPhrase, tokenize } from '../nlu/tokenize';
+import type { Lexicon } from '../nlu/lexicon';
+import { BriefingSlot } from './types';
+
+export interface BriefingCommand {
+  // null when no slot was named ("give me my briefing now")
+  slot: BriefingSlot | null;
+}
+
+const BRIEFING_PATTERN = /\b(briefing|brief me|market brief|daily brief|rundown)\b/;
+
+// Recognise "give me my briefing now", "brief me" or "read my evening briefing"
+export const parseBriefingCommand = (input: string, lexicon?: Lexicon): BriefingCommand | null => {
+  const text = input.toLowerCase();
+  const tokens = tokenize(text);
+  const mentions = (pattern: RegExp, phrases: string[] = []) => pattern.test(text) || hasAnyPhrase(tokens, phrases);
+  if (!mentions(BRIEFING_PATTERN, lexicon?.briefing)) return null;
+
+  const slot = mentions(/\bmorning\b/, lexicon?.morning)
+    ? 'morning'
+    : mentions(/\b(evening|tonight|night)\b/, lexicon?.evening) ? 'evening' : null;
+  return { slot };
+};
@@ -0,0 +1,59 @@
+import { BriefingSettings, BriefingSlot } from './types';
+
+export const BRIEFING_SLOTS: BriefingSlot[] = ['morning', 'evening'];
+
+// A briefing missed by more than this (the app was closed) is skipped rather than read late
+export const BRIEFING_GRACE_MS = 2 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minutes after midnight for "HH:MM", or null when malformed
+export const parseTimeOfDay = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+// When a slot is scheduled on the local day containing `now`
+const scheduledOn = (time: string, now: number): number | null => {
+  const minutes = parseTimeOfDay(time);
+  if (minutes === null) return null;
+  const day = new Date(now);
+  day.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return day.getTime();
+};
+
+// Enabled slots whose time has come since they last ran, within the grace period
+export const dueBriefings = (
+  settings: BriefingSettings,
+  lastRun: Partial<Record<BriefingSlot, number>>,
+  now: number
+): BriefingSlot[] =>
+  BRIEFING_SLOTS.filter(slot => {
+    const schedule = settings[slot];
+    const at = schedule.enabled ? scheduledOn(schedule.time, now) : null;
+    return at !== null && now >= at && now - at <= BRIEFING_GRACE_MS && (lastRun[slot] ?? 0) < at;
+  });
+
+// Next scheduled briefing after `now`, if any slot is enabled
+export const nextBriefing = (settings: BriefingSettings, now: number): { slot: BriefingSlot; at: number } | null => {
+  const upcoming = BRIEFING_SLOTS.flatMap(slot => {
+    const schedule = settings[slot];
+    const today = schedule.enabled ? scheduledOn(schedule.time, now) : null;
+    if (today === null) return [];
+    return [{ slot, at: today > now ? today : scheduledOn(schedule.time, now + DAY_MS) ?? today + DAY_MS }];
+  });
+  return upcoming.sort((a, b) => a.at - b.at)[0] ?? null;
+};
+
+// Slot an on-demand briefing stands in for: the latest one scheduled before now, or
+// the evening one before the first briefing of the day
+export const currentBriefingSlot = (settings: BriefingSettings, now: number): BriefingSlot => {
+  const morning = scheduledOn(settings.morning.time, now);
+  const evening = scheduledOn(settings.evening.time, now);
+  if (evening !== null && now >= evening) return 'evening';
+  if (morning !== null && now >= morning) return 'morning';
+  return 'evening';
+};
@@ -0,0 +1,45 @@
+import { CryptoData } from '../market/types';
+import { PriceAlert } from '../alerts/types';
+import { PortfolioValuation } from '../portfolio/types';
+
+export type BriefingSlot = 'morning' | 'evening';
+
+// What a briefing can cover
+export type BriefingSection = 'watchlist' | 'movers' | 'alerts' | 'portfolio';
+
+export interface BriefingSchedule {
+  enabled: boolean;
+  // Local time of day, "HH:MM"
+  time: string;
+  sections: BriefingSection[];
+}
+
+export type BriefingSettings = Record<BriefingSlot, BriefingSchedule>;
+
+// A briefing as it was read out; slot is null for one asked for outside the schedule
+export interface BriefingTranscript {
+  id: string;
+  slot: BriefingSlot | null;
+  createdAt: number;
+  text: string;
+}
+
+// Figures a briefing is assembled from; a section is null when it is turned off or couldn't be loaded
+export interface BriefingData {
+  slot: BriefingSlot | null;
+  watchlist: CryptoData[] | null;
+  gainers: CryptoData[] | null;
+  losers: CryptoData[] | null;
+  // Alerts that fired since the previous briefing
+  alerts: PriceAlert[] | null;
+  portfolio: PortfolioValuation | null;
+}
+
+// How names, prices and amounts are spoken
+export interface BriefingFormat {
+  assetName: (symbol: string) => string;
+  formatPrice: (ticker: CryptoData) => string;
+  // Amounts in USDT, in the display currency
+  formatValue: (usd: number) => string;
+  describeAlert: (alert: PriceAlert) => string;
+}
@@ -0,0 +1,73 @@
+import { ChatBackendSettings, ChatMessage, ChatStreamOptions } from './types';
+
+// Server-sent event chunk of a streamed chat completion
+interface CompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+// A backend can only be used once it knows where to connect and which model to ask
+export const isChatBackendReady = (settings: ChatBackendSettings): boolean =>
+  settings.enabled && settings.baseUrl.trim() !== '' && settings.model.trim() !== '';
+
+const completionsUrl = (baseUrl: string): string => `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+
+// Pull the text out of one "data: {...}" line; null for keep-alives and the end marker
+const parseEventLine = (line: string): string | null => {
+  if (!line.startsWith('data:')) return null;
+  const payload = line.slice(5).trim();
+  if (!payload || payload === '[DONE]') return null;
+
+  const chunk: CompletionChunk = JSON.parse(payload);
+  return chunk.choices?.[0]?.delta?.content ?? null;
+};
+
+// Ask for a streamed chat completion and resolve with the whole answer.
+// Tokens are passed to onToken as they arrive so speech can start early.
+export const streamChatCompletion = async (
+  settings: ChatBackendSettings,
+  messages: ChatMessage[],
+  options: ChatStreamOptions = {},
+): Promise<string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey.trim()) {
+    headers.Authorization = `Bearer ${settings.apiKey.trim()}`;
+  }
+
+  const response = await fetch(completionsUrl(settings.baseUrl), {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ model: settings.model, messages, temperature: settings.temperature, stream: true }),
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`The chat backend answered with status ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let answer = '';
+
+  const handleLine = (line: string) => {
+    const token = parseEventLine(line.trim());
+    if (token) {
+      answer += token;
+      options.onToken?.(token);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    // The last line may be incomplete until the next read
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  return answer.trim();
+};
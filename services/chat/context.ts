@@ -0,0 +1,97 @@
+import { CryptoData, Kline } from '../market/types';
+import { CHART_RANGES, SPOKEN_INTERVALS, Timeframe } from '../market/timeframes';
+import { IndicatorReport } from '../indicators';
+import { ChatMessage } from './types';
+
+// What is on screen when a question is asked; the answer is grounded in it
+export interface MarketContext {
+  // Language the answer should be spoken in, e.g. "Deutsch"
+  language: string;
+  ticker: CryptoData | null;
+  assetName: string | null;
+  quoteAsset: string | null;
+  report: IndicatorReport | null;
+  // Candles of the visible chart range
+  klines: Kline[];
+  timeframe: Timeframe;
+  comparison: { title: string; tickers: CryptoData[] } | null;
+  now: number;
+}
+
+// Exchanges kept for follow-up questions; older ones are dropped to keep prompts small
+export const MAX_CHAT_EXCHANGES = 4;
+
+const round = (value: number): string =>
+  value.toLocaleString('en-US', { maximumFractionDigits: Math.abs(value) >= 1 ? 2 : 6 });
+
+const percent = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const describeTicker = (ticker: CryptoData, assetName: string | null, quoteAsset: string | null): string => {
+  const quote = quoteAsset ?? '';
+  return [
+    `Coin: ${assetName ?? ticker.symbol} (${ticker.symbol})`,
+    `Last price: ${round(parseFloat(ticker.lastPrice))} ${quote}`,
+    `24h change: ${percent(parseFloat(ticker.priceChangePercent))}`,
+    `24h high / low: ${round(parseFloat(ticker.highPrice))} / ${round(parseFloat(ticker.lowPrice))} ${quote}`,
+    `24h volume: ${round(parseFloat(ticker.volume))} coins`,
+  ].join('\n');
+};
+
+const describeIndicators = (report: IndicatorReport): string => {
+  const lines = [`Technical bias: ${report.bias} (score ${report.score.toFixed(2)} from -1 to 1)`];
+  if (report.rsi !== null) lines.push(`RSI(14): ${report.rsi.toFixed(1)}`);
+  if (report.macd) lines.push(`MACD: ${round(report.macd.macd)}, signal ${round(report.macd.signal)}, histogram ${round(report.macd.histogram)}`);
+  if (report.sma) {
+    lines.push(`SMA${report.sma.fastPeriod} ${round(report.sma.fast)} vs SMA${report.sma.slowPeriod} ${round(report.sma.slow)}` +
+      `${report.sma.cross ? `, recent ${report.sma.cross} cross` : ''}`);
+  }
+  if (report.bollinger) lines.push(`Bollinger %B: ${report.bollinger.percentB.toFixed(2)}`);
+  if (report.atrPercent !== null) lines.push(`ATR: ${report.atrPercent.toFixed(2)}% of the price`);
+  report.signals.forEach(signal => lines.push(`Signal: ${signal.description}`));
+  return lines.join('\n');
+};
+
+// Shape of the visible chart in a few numbers instead of every candle
+const describeKlines = (klines: Kline[], timeframe: Timeframe): string => {
+  const first = klines[0];
+  const last = klines[klines.length - 1];
+  const high = Math.max(...klines.map(candle => candle.high));
+  const low = Math.min(...klines.map(candle => candle.low));
+  const averageVolume = klines.reduce((sum, candle) => sum + candle.volume, 0) / klines.length;
+
+  return [
+    `Chart: ${klines.length} ${SPOKEN_INTERVALS[timeframe.interval]} candles over ${CHART_RANGES[timeframe.range].spoken}`,
+    `Open ${round(first.open)}, close ${round(last.close)} (${percent(((last.close - first.open) / first.open) * 100)})`,
+    `Range high ${round(high)}, low ${round(low)}, average candle volume ${round(averageVolume)}`,
+  ].join('\n');
+};
+
+const describeComparison = (comparison: NonNullable<MarketContext['comparison']>): string =>
+  [`${comparison.title}:`, ...comparison.tickers.map(ticker =>
+    `${ticker.symbol} ${round(parseFloat(ticker.lastPrice))} (${percent(parseFloat(ticker.priceChangePercent))} 24h)`)].join('\n');
+
+// Instructions plus the market data the answer must stick to
+export const buildSystemPrompt = (context: MarketContext): string => {
+  const sections = [
+    'You are Jarvis, a voice assistant for cryptocurrency markets. ' +
+    `Answer in ${context.language}, in at most three short sentences that read well aloud: no markdown, lists or emoji. ` +
+    'Base market statements on the data below and say so when it does not cover the question. ' +
+    'You may explain concepts and indicators, but do not give personal financial advice.',
+    `Current time: ${new Date(context.now).toISOString()}`,
+  ];
+
+  if (context.ticker) sections.push(describeTicker(context.ticker, context.assetName, context.quoteAsset));
+  if (context.report) sections.push(describeIndicators(context.report));
+  if (context.klines.length > 0) sections.push(describeKlines(context.klines, context.timeframe));
+  if (context.comparison) sections.push(describeComparison(context.comparison));
+  if (!context.ticker && !context.comparison) sections.push('No coin is selected at the moment.');
+
+  return sections.join('\n\n');
+};
+
+// Full request: instructions, earlier exchanges, then the new question
+export const buildChatMessages = (context: MarketContext, history: ChatMessage[], question: string): ChatMessage[] => [
+  { role: 'system', content: buildSystemPrompt(context) },
+  ...history.slice(-MAX_CHAT_EXCHANGES * 2),
+  { role: 'user', content: question },
+];
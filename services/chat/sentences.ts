@@ -0,0 +1,46 @@
+// Sentence end: punctuation followed by whitespace, so decimals like "67,250.12" stay whole
+const SENTENCE_END = /[.!?;:](?=\s)|\n/;
+
+// Shorter pieces are joined to the next one, so speech doesn't stop after every "Yes."
+const MIN_SENTENCE_LENGTH = 24;
+
+export interface SentenceBuffer {
+  push: (token: string) => void;
+  // Emit whatever is left once the stream has ended
+  flush: () => void;
+}
+
+// Collect streamed tokens and hand over complete sentences, for speaking an answer while it arrives
+export const createSentenceBuffer = (onSentence: (sentence: string) => void): SentenceBuffer => {
+  let buffer = '';
+  let searchFrom = 0;
+
+  const emit = (sentence: string) => {
+    const text = sentence.trim();
+    if (text) onSentence(text);
+  };
+
+  return {
+    push(token: string) {
+      buffer += token;
+      for (;;) {
+        const match = SENTENCE_END.exec(buffer.slice(searchFrom));
+        if (!match) return;
+
+        const end = searchFrom + match.index + 1;
+        if (end < MIN_SENTENCE_LENGTH) {
+          searchFrom = end;
+          continue;
+        }
+        emit(buffer.slice(0, end));
+        buffer = buffer.slice(end);
+        searchFrom = 0;
+      }
+    },
+    flush() {
+      emit(buffer);
+      buffer = '';
+      searchFrom = 0;
+    },
+  };
+};
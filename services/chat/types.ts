@@ -0,0 +1,23 @@
+// Shared types for the optional chat backend that answers free-form questions
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Connection to an OpenAI-compatible server, e.g. a local llama.cpp or Ollama
+export interface ChatBackendSettings {
+  enabled: boolean;
+  // Up to and including the version path, e.g. "http://localhost:11434/v1"
+  baseUrl: string;
+  model: string;
+  // Local servers usually don't need one
+  apiKey: string;
+  temperature: number;
+}
+
+export interface ChatStreamOptions {
+  signal?: AbortSignal;
+  // Called with each piece of text as it arrives
+  onToken?: (token: string) => void;
+}
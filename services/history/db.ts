@@ -0,0 +1,89 @@
+import { HistoryEntry, HistoryStore } from './types';
+
+// Interaction history lives in IndexedDB rather than localStorage: snapshots make
+// entries large, and the log is kept across sessions for later export.
+const DB_NAME = 'jarvis';
+const DB_VERSION = 1;
+const STORE = 'history';
+
+// The oldest entries are dropped beyond this
+export const MAX_HISTORY_ENTRIES = 2000;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('time', 'time');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry, e.g. after the user allows storage
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return settle(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+// Delete the oldest entries once the log grows past its limit
+const pruneHistory = async () => {
+  const count = await withStore('readonly', store => store.count());
+  let excess = count - MAX_HISTORY_ENTRIES;
+  if (excess <= 0) return;
+
+  const db = await openDatabase();
+  const cursorRequest = db.transaction(STORE, 'readwrite').objectStore(STORE).index('time').openCursor();
+  await new Promise<void>((resolve, reject) => {
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+};
+
+// Store an entry and return its id
+export const addHistoryEntry = async (entry: HistoryEntry): Promise<number> => {
+  const id = await withStore('readwrite', store => store.add(entry));
+  await pruneHistory();
+  return id as number;
+};
+
+// Every stored entry, oldest first
+export const loadHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore('readonly', store => store.index('time').getAll());
+  return entries as HistoryEntry[];
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
+
+export const indexedDbHistoryStore: HistoryStore = { load: loadHistory, add: addHistoryEntry, clear: clearHistory };
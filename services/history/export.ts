@@ -0,0 +1,49 @@
+import { HistoryEntry } from './types';
+
+const CSV_COLUMNS = ['time', 'session', 'source', 'locale', 'utterance', 'intent', 'confidence', 'symbol', 'price', 'change_percent', 'reply'];
+
+// The coin an entry was about, from the intent or the data that was shown
+const entrySymbol = (entry: HistoryEntry): string => {
+  if ('symbol' in entry.intent && entry.intent.symbol) return entry.intent.symbol;
+  return entry.snapshot?.kind === 'ticker' ? entry.snapshot.ticker.symbol : '';
+};
+
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const historyToJson = (entries: HistoryEntry[]): string => JSON.stringify(entries, null, 2);
+
+// One row per entry; snapshots are reduced to the price shown, the full data is in the JSON export
+export const historyToCsv = (entries: HistoryEntry[]): string => {
+  const rows = entries.map(entry => {
+    const ticker = entry.snapshot?.kind === 'ticker' ? entry.snapshot.ticker : null;
+    return [
+      new Date(entry.time).toISOString(),
+      entry.sessionId,
+      entry.source,
+      entry.locale,
+      entry.utterance,
+      entry.intent.type,
+      entry.confidence.toFixed(2),
+      entrySymbol(entry),
+      ticker?.lastPrice ?? '',
+      ticker?.priceChangePercent ?? '',
+      entry.reply ?? '',
+    ].map(csvCell).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// Save text as a file through a temporary download link
+export const downloadText = (filename: string, mimeType: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Firefox needs the URL until the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,38 @@
+import { CryptoData } from '../market/types';
+import { ChartType, Timeframe } from '../market/timeframes';
+import { PerformancePoint } from '../market/overview';
+import type { Intent } from '../nlu/intent';
+import type { Locale } from '../i18n/types';
+
+// What was on screen when a reply was given, so it can be re-opened later
+export type HistorySnapshot =
+  | { kind: 'ticker'; ticker: CryptoData; timeframe: Timeframe; chartType: ChartType }
+  | { kind: 'comparison'; title: string; tickers: CryptoData[]; series: { symbol: string; points: PerformancePoint[] }[] };
+
+// One command and Jarvis's answer to it
+export interface HistoryEntry {
+  // Assigned by IndexedDB; missing when the entry could not be stored
+  id?: number;
+  // Entries from the same page load share a session
+  sessionId: string;
+  time: number;
+  // Announcements are said unprompted: alerts, paper fills and scheduled briefings
+  source: 'voice' | 'text' | 'announcement';
+  // What was said or typed; for an announcement, what it is about
+  utterance: string;
+  intent: Intent;
+  confidence: number;
+  locale: Locale;
+  // Null when the request was cancelled before it was answered
+  reply: string | null;
+  snapshot: HistorySnapshot | null;
+}
+
+// Where the log is kept across sessions
+export interface HistoryStore {
+  // Every stored entry, oldest first
+  load: () => Promise<HistoryEntry[]>;
+  // Store an entry and return its id
+  add: (entry: HistoryEntry) => Promise<number>;
+  clear: () => Promise<void>;
+}
@@ -0,0 +1,10 @@
+import { Locale, Messages } from './types';
+import { en } from './messages/en';
+import { tr } from './messages/tr';
+import { de } from './messages/de';
+
+export * from './types';
+export * from './locales';
+export * from './speech';
+
+export const MESSAGES: Record<Locale, Messages> = { en, tr, de };
@@ -0,0 +1,23 @@
+import { Locale, LocaleInfo } from './types';
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { id: 'en', name: 'English', speechLang: 'en-US', dateLocale: 'en-US' },
+  tr: { id: 'tr', name: 'Türkçe', speechLang: 'tr-TR', dateLocale: 'tr-TR' },
+  de: { id: 'de', name: 'Deutsch', speechLang: 'de-DE', dateLocale: 'de-DE' },
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const STORAGE_KEY = 'jarvis.locale';
+
+// Own keys only, so "toString" or "constructor" from a stored value or an imported file isn't taken for a language
+export const isLocale = (value: string): value is Locale => Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+export const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored && isLocale(stored) ? stored : DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
@@ -0,0 +1,394 @@
+import { HIGH_VOLATILITY_ATR_PERCENT } from '../../indicators';
+import { DurationUnit, splitDuration } from '../../nlu/numbers';
+import { Messages } from '../types';
+
+const TRENDS = { up: 'Aufwärtstrend', down: 'Abwärtstrend', stable: 'Seitwärtstrend' };
+const SENTIMENTS = { up: 'positivem', down: 'negativem', stable: 'neutralem' };
+const CURRENCY_NAMES: Record<string, [string, string | null]> = {
+  USD: ['Dollar', 'Cent'],
+  EUR: ['Euro', 'Cent'],
+  GBP: ['Pfund', 'Pence'],
+  TRY: ['Lira', 'Kuruş'],
+  JPY: ['Yen', null],
+  BRL: ['Real', 'Centavos'],
+};
+const unitName = (code: string) => CURRENCY_NAMES[code]?.[0] ?? code;
+const change = (percent: number) => `${percent >= 0 ? 'plus' : 'minus'} ${Math.abs(percent).toFixed(2)}%`;
+const list = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} und ${items[items.length - 1]}`;
+// Dative forms, as in "innerhalb von 2 Stunden"
+const DURATION_UNITS: Record<DurationUnit, [string, string]> = {
+  year: ['Jahr', 'Jahren'],
+  month: ['Monat', 'Monaten'],
+  week: ['Woche', 'Wochen'],
+  day: ['Tag', 'Tagen'],
+  hour: ['Stunde', 'Stunden'],
+  minute: ['Minute', 'Minuten'],
+};
+const duration = (ms: number) => {
+  const { count, unit } = splitDuration(ms);
+  return `${count === 1 ? 'einer' : count} ${DURATION_UNITS[unit][count === 1 ? 0 : 1]}`;
+};
+const RANGES = { '24h': 'den letzten 24 Stunden', '7d': 'den letzten 7 Tagen', '1M': 'dem letzten Monat', '3M': 'den letzten 3 Monaten', '6M': 'den letzten 6 Monaten', '1y': 'dem letzten Jahr' };
+const MOVERS = { gainers: 'größten Gewinner', losers: 'größten Verlierer', movers: 'stärksten Bewegungen' };
+const ALERT_ACTIONS = { pause: 'pausiert', resume: 'fortgesetzt', delete: 'gelöscht' };
+const DCA_FREQUENCIES = { daily: 'täglichen', weekly: 'wöchentlichen', monthly: 'monatlichen' };
+const ORDERS = { buy: 'Kauforder', sell: 'Verkaufsorder' };
+const INTERVALS = { '1h': '1-Stunden', '4h': '4-Stunden', '1d': 'Tages', '1w': 'Wochen' };
+// Accusative, as in "über das letzte Jahr" or "über die letzten 6 Monate"
+const PAST_PERIODS: Record<DurationUnit, [string, string]> = {
+  year: ['das letzte Jahr', 'Jahre'],
+  month: ['den letzten Monat', 'Monate'],
+  week: ['die letzte Woche', 'Wochen'],
+  day: ['den letzten Tag', 'Tage'],
+  hour: ['die letzte Stunde', 'Stunden'],
+  minute: ['die letzte Minute', 'Minuten'],
+};
+const pastPeriod = (ms: number) => {
+  const { count, unit } = splitDuration(ms);
+  return count === 1 ? PAST_PERIODS[unit][0] : `die letzten ${count} ${PAST_PERIODS[unit][1]}`;
+};
+
+export const de: Messages = {
+  conversation: {
+    identity: "Ich bin Jarvis, ein KI-Assistent für Kryptowährungsanalyse, entwickelt von Eser Software. Ich helfe Ihnen, Kryptomärkte in Echtzeit zu verfolgen und zu analysieren, mit Preisinformationen, Markttrends und grundlegenden Einschätzungen zu vielen Kryptowährungen.",
+    wellbeing: [
+      "Mir geht es bestens, danke der Nachfrage. Wie kann ich Ihnen heute bei der Kryptoanalyse helfen?",
+      "Ich arbeite mit voller Leistung. Bereit, jede Kryptowährung zu analysieren, die Sie interessiert.",
+      "Alle Systeme laufen einwandfrei. Ich liefere Ihnen Markteinblicke, wann immer Sie sie brauchen.",
+    ],
+    capabilities: "Ich biete Kryptoanalysen in Echtzeit. Nennen Sie einfach eine Kryptowährung wie Bitcoin oder Ethereum, und ich hole die aktuellen Marktdaten mit Preis, 24-Stunden-Änderung, Handelsvolumen und Preisdiagramm. Außerdem gebe ich grundlegende Einschätzungen auf Basis der jüngsten Kursbewegungen.",
+    time: (time, date) => `Es ist jetzt ${time} Uhr, heute ist ${date}.`,
+    weather: "Tut mir leid, ich habe keinen Zugriff auf Wetterdaten. Ich bin auf Kryptoanalyse spezialisiert. Gibt es eine Kryptowährung, über die Sie etwas wissen möchten?",
+    jokes: [
+      "Warum wollen Bitcoin-Anleger nicht in den Himmel? Weil sie es hassen, wenn etwas steigt und nie wieder herunterkommt.",
+      "Warum war der Krypto-Anleger immer so ruhig? Weil er sogar seinen Atem gehodlt hat.",
+      "Wie nennt man einen Krypto-Anleger, der endlich verkauft? Einen ehemaligen Hodler.",
+    ],
+    thanks: [
+      "Gern geschehen. Ich bin jederzeit für Krypto-Einblicke da.",
+      "Freut mich, dass ich helfen konnte. Fragen Sie gern nach jeder Kryptowährung.",
+      "Sehr gerne. Ich bin immer bereit für eine Marktanalyse.",
+    ],
+    goodbye: [
+      "Auf Wiedersehen. Ich bin da, wenn Sie wieder eine Analyse brauchen.",
+      "Bis zum nächsten Mal. Die Märkte ändern sich schnell, schauen Sie bald wieder vorbei.",
+      "Tschüss. Ich behalte die Kryptomärkte im Blick, während Sie weg sind.",
+    ],
+    greeting: "Hallo, ich bin Jarvis, Ihr Assistent für Kryptoanalyse. Fragen Sie mich nach Kryptowährungen wie Bitcoin oder Ethereum, oder stellen Sie Fragen wie 'Wie geht es dir?' oder 'Wer bist du?'",
+    help: "Ich erstelle 24-Stunden-Analysen für viele Kryptowährungen. Nennen Sie einfach einen Namen wie Bitcoin oder Ethereum, und ich hole die aktuellen Daten und analysiere sie. Sie können mir auch allgemeine Fragen stellen, etwa 'Wie geht es dir?' oder 'Wer bist du?'",
+  },
+
+  analysis: (p) =>
+    `Hier ist meine Analyse für ${p.name}. ` +
+    `Der aktuelle Preis liegt bei ${p.price}. ` +
+    `In den letzten 24 Stunden hat sich der Preis um ${p.change} verändert, ` +
+    `das ist ein ${p.changePercent > 0 ? 'Anstieg' : 'Rückgang'} von ${Math.abs(p.changePercent).toFixed(2)}%. ` +
+    `Der höchste Preis lag bei ${p.high}, der niedrigste bei ${p.low}. ` +
+    `Das Handelsvolumen beträgt etwa ${p.volumeMillions} Millionen ${unitName(p.currency)}. ` +
+    (p.technicals.length > 0 ? `Technisch gesehen: ${p.technicals.join('; ')}. ` : '') +
+    p.orderFlow +
+    `Insgesamt zeigt ${p.name} einen ${TRENDS[p.trend]} mit ${SENTIMENTS[p.trend]} Momentum. ` +
+    p.advice,
+
+  briefAnalysis: (p) =>
+    `${p.name} steht bei ${p.price}, ${p.changePercent >= 0 ? 'ein Plus' : 'ein Minus'} von ${Math.abs(p.changePercent).toFixed(2)}% in 24 Stunden, ` +
+    `im ${TRENDS[p.trend]}. ` +
+    p.advice,
+
+  signal: (signal, report) => {
+    switch (signal.indicator) {
+      case 'rsi': {
+        const value = Math.round(report.rsi ?? 0);
+        return signal.bias === 'bearish'
+          ? `der RSI liegt bei ${value}, überkauft`
+          : signal.bias === 'bullish' ? `der RSI liegt bei ${value}, überverkauft` : `der RSI liegt bei ${value}, im neutralen Bereich`;
+      }
+      case 'macd':
+        return signal.bias === 'bullish' ? 'der MACD liegt über seiner Signallinie' : 'der MACD liegt unter seiner Signallinie';
+      case 'sma':
+      case 'ema': {
+        const cross = signal.indicator === 'sma' ? report.sma : report.ema;
+        const name = `der ${cross?.fastPeriod}-Perioden-${signal.indicator === 'sma' ? 'Durchschnitt' : 'EMA'}`;
+        const slow = `${cross?.slowPeriod}-Perioden-Durchschnitt`;
+        if (cross?.cross === 'golden') return `${name} hat gerade den ${slow} nach oben gekreuzt, ein Golden Cross`;
+        if (cross?.cross === 'death') return `${name} hat gerade den ${slow} nach unten gekreuzt, ein Death Cross`;
+        return signal.bias === 'bullish' ? `${name} liegt über dem ${slow}` : `${name} liegt unter dem ${slow}`;
+      }
+      case 'bollinger':
+        return signal.bias === 'bearish'
+          ? 'der Preis liegt über dem oberen Bollinger-Band, nach oben überdehnt'
+          : signal.bias === 'bullish' ? 'der Preis liegt unter dem unteren Bollinger-Band, nach unten überdehnt' : 'der Preis liegt innerhalb der Bollinger-Bänder';
+      case 'atr':
+        return `die durchschnittliche wahre Spanne beträgt ${(report.atrPercent ?? 0).toFixed(1)}% des Preises, die Volatilität ist also ${(report.atrPercent ?? 0) >= HIGH_VOLATILITY_ATR_PERCENT ? 'hoch' : 'moderat'}`;
+    }
+  },
+
+  advice: {
+    overboughtStretched: "Das Momentum wirkt überdehnt. Ein überkaufter RSI bei einem Preis über dem oberen Bollinger-Band geht oft einem Rücksetzer voraus, also Vorsicht beim Hinterherkaufen.",
+    overbought: "Mit einem RSI im überkauften Bereich wäre eine Pause oder Korrektur nicht ungewöhnlich. Seien Sie vorsichtig, auf diesem Niveau zu kaufen.",
+    oversold: "Der RSI ist überverkauft, der Verkaufsdruck könnte also bald nachlassen und eine Erholung ist möglich. Warten Sie trotzdem lieber auf eine Bestätigung, bevor Sie kaufen.",
+    goldenCross: "Das frische Golden Cross deutet auf eine mögliche Trendwende nach oben hin, allerdings liefern Kreuzungen in unruhigen Märkten oft Fehlsignale.",
+    deathCross: "Das frische Death Cross deutet auf eine mögliche Trendwende nach unten hin. Sichern Sie gegebenenfalls Ihre Gewinne ab.",
+    bullish: "Die meisten Indikatoren zeigen nach oben, was den aktuellen Trend stützt.",
+    bearish: "Die meisten Indikatoren zeigen nach unten, die Schwäche könnte also anhalten.",
+    bigRise: "Vorsicht, auf diesen deutlichen Anstieg könnte eine Korrektur folgen.",
+    bigDrop: "Dieser deutliche Rückgang könnte eine Kaufgelegenheit sein, aber der Abwärtstrend könnte sich auch fortsetzen.",
+    consolidating: "Der Markt scheint sich zu konsolidieren. Das könnte eine Akkumulationsphase vor der nächsten großen Bewegung sein.",
+    neutral: "Richten Sie Ihre Anlagestrategie nach Ihrer Risikobereitschaft und Ihrem langfristigen Ausblick aus.",
+  },
+  volatility: (atrPercent) => ` Die Volatilität liegt bei ${atrPercent}% pro Tag, passen Sie Ihre Positionsgröße entsprechend an.`,
+
+  fetchFailed: (coin, reason) => `Es tut mir leid, ich konnte keine Daten für ${coin} abrufen. ${reason}`,
+  unknownCoin: (name) => `Ich kenne keinen Coin namens "${name}".`,
+  unknown: "Ich bin nicht sicher, was Sie meinen. Versuchen Sie einen Coin wie 'Bitcoin', 'Top-Gewinner' oder 'wie läuft mein Portfolio'.",
+  stopListening: 'Ich höre nicht mehr zu. Klicken Sie auf das Mikrofon, wenn ich wieder zuhören soll.',
+  repeat: 'Ich habe noch nichts gesagt.',
+  orderFlow: (p) =>
+    `Im Orderbuch liegt der Spread bei ${p.spreadPercent.toFixed(3)}%, und ${Math.round(p.bidSharePercent)}% der Liquidität nahe dem Kurs liegen auf der Kaufseite. ` +
+    (p.buyWall ? `Bei ${p.buyWall} steht eine Kaufwand. ` : '') +
+    (p.sellWall ? `Bei ${p.sellWall} steht eine Verkaufswand. ` : '') +
+    (p.largeTrades > 0
+      ? p.largeTrades === 1
+        ? `Zuletzt gab es einen großen ${p.largeBuySharePercent >= 50 ? 'Kauf' : 'Verkauf'}. `
+        : `Zuletzt gab es ${p.largeTrades} große Trades, überwiegend ${p.largeBuySharePercent >= 50 ? 'Käufe' : 'Verkäufe'}. `
+      : ''),
+
+  cachedData: (minutesOld) =>
+    `Ich konnte die Börse nicht erreichen, diese Daten sind ${minutesOld === 1 ? 'eine Minute' : `${minutesOld} Minuten`} alt.`,
+
+  change,
+  list,
+
+  alerts: {
+    describe: ({ name, condition, quote }) => {
+      if (condition.type === 'move') {
+        const verb = condition.direction === 'up' ? 'steigt' : condition.direction === 'down' ? 'fällt' : 'schwankt';
+        return `${name} innerhalb von ${duration(condition.windowMs)} um ${condition.percent}% ${verb}`;
+      }
+      return `${name} ${condition.type === 'above' ? 'über' : 'unter'} ${condition.price} ${quote ?? 'Dollar'} ${condition.type === 'above' ? 'steigt' : 'fällt'}`;
+    },
+    none: "Sie haben keine Preisalarme. Sagen Sie zum Beispiel 'Alarm, wenn Bitcoin unter 60000 fällt'.",
+    list: (alerts) =>
+      `Sie haben ${alerts.length === 1 ? 'einen Preisalarm' : `${alerts.length} Preisalarme`}. ` +
+      alerts.map((alert, index) => `${index + 1}, wenn ${alert.description}${alert.paused ? ', pausiert' : ''}`).join('. ') + '.',
+    askCoin: "Welche Kryptowährung soll ich beobachten? Sagen Sie zum Beispiel 'Alarm, wenn Solana unter 120 fällt'.",
+    askCondition: "Nennen Sie mir einen Kurs oder eine prozentuale Bewegung, zum Beispiel 'über 70000' oder 'unter 60000'.",
+    created: (description) => `In Ordnung, ich melde mich, wenn ${description}.`,
+    notFound: () => 'Ich konnte diesen Alarm nicht finden. Bitten Sie mich, Ihre Alarme aufzulisten.',
+    changed: (action, description, count) =>
+      `Ich habe ${description ? `den Alarm für „${description}“` : `${count} Alarme`} ${ALERT_ACTIONS[action]}.`,
+    triggeredMove: (name, changePercent, price) => `Alarm: ${name} hat sich um ${changePercent.toFixed(2)}% bewegt und steht jetzt bei ${price}.`,
+    triggeredLevel: (name, direction, price) =>
+      `Alarm: ${name} ist jetzt ${direction === 'above' ? 'über' : 'unter'} Ihrer Marke und notiert bei ${price}.`,
+  },
+
+  portfolio: {
+    empty: "Ihr Portfolio ist leer. Sagen Sie mir, was Sie besitzen, zum Beispiel 'Ich habe 0.5 Bitcoin zu 60000 gekauft'.",
+    summary: (p) =>
+      `Hier ist Ihre Portfolio-Übersicht. ` +
+      `Ihre ${p.holdings === 1 ? 'Position ist' : `${p.holdings} Positionen sind`} ${p.totalValue} wert. ` +
+      `Sie haben einen nicht realisierten ${p.inProfit ? 'Gewinn' : 'Verlust'} von ${p.pnl}, ` +
+      `das sind ${Math.abs(p.pnlPercent).toFixed(2)}% auf Einstandskosten von ${p.cost}. ` +
+      `In den letzten 24 Stunden hat Ihr Portfolio ${p.change24h} ${p.change24hPercent >= 0 ? 'gewonnen' : 'verloren'}, ` +
+      `${p.change24hPercent >= 0 ? 'ein Plus' : 'ein Minus'} von ${Math.abs(p.change24hPercent).toFixed(2)}%. ` +
+      `Ihre größte Position ist ${p.largest} mit ${p.largestAllocationPercent.toFixed(1)}% des Portfolios. ` +
+      (p.best && p.worst
+        ? `Am besten läuft ${p.best.name} mit ${p.best.changePercent.toFixed(2)}%, ` +
+          `am schwächsten ${p.worst.name} mit ${p.worst.changePercent.toFixed(2)}%.`
+        : ''),
+    askCoin: "Ich habe nicht verstanden, welche Kryptowährung Sie meinen. Versuchen Sie es zum Beispiel mit 'Ich habe 2 Solana zu 150 gekauft'.",
+    removed: (name) => `Ich habe ${name} aus Ihrem Portfolio entfernt.`,
+    askQuantity: (name, side) =>
+      `Wie viel ${name} haben Sie ${side === 'buy' ? 'gekauft' : 'verkauft'}? Zum Beispiel 'Ich habe 0.5 ${name} ${side === 'buy' ? 'gekauft' : 'verkauft'}'.`,
+    recordFailed: (reason) => `Ich konnte diesen Handel nicht erfassen. ${reason}.`,
+    recorded: (side, quantity, name, price) =>
+      `Verstanden. Ich habe erfasst, dass Sie ${quantity} ${name} ${price ? `zu ${price}` : 'zum aktuellen Marktpreis'} ` +
+      `${side === 'buy' ? 'gekauft' : 'verkauft'} haben.`,
+  },
+
+  watchlist: {
+    empty: "Ihre Watchlist ist leer. Sagen Sie zum Beispiel 'füge Chainlink zu meiner Watchlist hinzu'.",
+    digest: (coins, ranking) =>
+      'Hier ist Ihre Watchlist. ' + coins.map(coin => `${coin.name} steht bei ${coin.price}, ${change(coin.changePercent)}`).join('. ') + '.' +
+      (ranking ? ` Am stärksten ist heute ${ranking.strongest}, am schwächsten ${ranking.weakest}.` : ''),
+    failed: (reason) => `Ich konnte die Preise Ihrer Watchlist nicht laden. ${reason}`,
+    askCoin: (action) =>
+      `Welchen Coin soll ich ${action === 'add' ? 'zu Ihrer Watchlist hinzufügen' : 'von Ihrer Watchlist entfernen'}? ` +
+      "Sagen Sie zum Beispiel 'füge Chainlink zu meiner Watchlist hinzu'.",
+    added: (names) => `Ich habe ${list(names)} zu Ihrer Watchlist hinzugefügt.`,
+    removed: (names) => `Ich habe ${list(names)} von Ihrer Watchlist entfernt.`,
+    notListed: (names) => `${list(names)} ${names.length === 1 ? 'steht' : 'stehen'} nicht auf Ihrer Watchlist.`,
+    alreadyListed: (names) => `${list(names)} ${names.length === 1 ? 'steht' : 'stehen'} schon auf Ihrer Watchlist.`,
+    full: (max) => `Ihre Watchlist ist mit ${max} Coins voll. Entfernen Sie zuerst einen.`,
+  },
+
+  backtest: {
+    strategy: (strategy, formatValue) => {
+      switch (strategy.kind) {
+        case 'maCrossover':
+          return `den ${strategy.average.toUpperCase()}-${strategy.fast}/${strategy.slow}-Crossover`;
+        case 'rsi':
+          return `RSI ${strategy.period} mit Kauf unter ${strategy.buyBelow} und Verkauf über ${strategy.sellAbove}`;
+        case 'dca':
+          return `einen ${DCA_FREQUENCIES[strategy.frequency]} Sparplan über ${formatValue(strategy.amount)}`;
+      }
+    },
+    result: (p) => {
+      const trades = p.dca
+        ? `${p.trades} Käufe über insgesamt ${p.capital} sind jetzt ${p.finalEquity} wert`
+        : `von ${p.capital} ausgehend endete er nach ${p.trades} ${p.trades === 1 ? 'Trade' : 'Trades'} bei ${p.finalEquity}`;
+      return `Backtest für ${p.strategy} auf ${p.name} über ${pastPeriod(p.durationMs)}: ` +
+        `${trades}, ${change(p.returnPercent)}, gegenüber ${change(p.buyAndHoldPercent)} bei Buy-and-Hold. ` +
+        `Der maximale Drawdown lag bei ${p.maxDrawdownPercent.toFixed(1)}%` +
+        `${p.winRate === null ? '' : `, die Trefferquote bei ${p.winRate.toFixed(0)}%`}` +
+        `${p.sharpe === null ? '' : ` und die Sharpe Ratio bei ${p.sharpe.toFixed(2)}`}. ` +
+        'Vergangene Wertentwicklung ist keine Garantie für zukünftige Ergebnisse.';
+    },
+    askCoin: "Welchen Coin soll ich testen? Sagen Sie zum Beispiel 'teste einen wöchentlichen DCA auf Bitcoin über ein Jahr'.",
+    askStrategy: (name) =>
+      `Welche Strategie soll ich auf ${name} testen? Ich kann einen Gleitender-Durchschnitt-Crossover, RSI-Schwellen oder einen wöchentlichen DCA testen.`,
+    failed: (reason) => `Ich konnte diesen Backtest nicht ausführen. ${reason}.`,
+  },
+
+  stats: {
+    askCoin: "Welche Kryptowährung meinen Sie? Sagen Sie zum Beispiel 'was war das Wochenhoch von Ethereum'.",
+    level: (p) =>
+      `Das ${p.level === 'high' ? 'Hoch' : 'Tief'} von ${p.name} in ${RANGES[p.range]} lag bei ${p.price}, am ${p.date}. ` +
+      `Jetzt steht ${p.name} bei ${p.now}, ${p.distancePercent.toFixed(2)}% ${p.level === 'high' ? 'unter diesem Hoch' : 'über diesem Tief'}.`,
+    volume: (name, range, volume, unit) =>
+      `In ${RANGES[range]} wurden ${Math.round(volume).toLocaleString('de-DE')} ${unit} von ${name} gehandelt.`,
+    change: (name, range, changePercent, from, to) =>
+      `${name} liegt in ${RANGES[range]} ${change(changePercent)}, von ${from} auf ${to}.`,
+    failed: (reason) => `Es tut mir leid, das konnte ich nicht nachschlagen. ${reason}`,
+  },
+
+  depth: {
+    askCoin: "Welche Kryptowährung meinen Sie? Sagen Sie zum Beispiel 'wie hoch ist der Spread bei Bitcoin'.",
+    spread: (name, spread, spreadPercent, bestBid, bestAsk) =>
+      `Der Spread bei ${name} beträgt ${spread}, also ${spreadPercent.toFixed(3)}%, mit dem besten Gebot bei ${bestBid} und dem besten Angebot bei ${bestAsk}.`,
+    imbalance: (name, bidSharePercent, deeper, bandPercent) =>
+      `Im ${name}-Orderbuch innerhalb von ${bandPercent}% um den Preis sind ${bidSharePercent}% Gebote und ${100 - bidSharePercent}% Angebote, ` +
+      `${deeper === 'balanced' ? 'das Buch ist also etwa ausgeglichen' : deeper === 'buy' ? 'die Käuferseite ist also tiefer' : 'die Verkäuferseite ist also tiefer'}.`,
+    wall: (name, side, wall, bandPercent) => {
+      if (!wall) return `Innerhalb von ${bandPercent}% um den Preis gibt es bei ${name} keine ${side === 'buy' ? 'Gebote' : 'Angebote'}.`;
+      return wall.standout
+        ? `Die größte ${side === 'buy' ? 'Kaufwand' : 'Verkaufswand'} bei ${name} steht bei ${wall.price}, ` +
+          `${wall.distancePercent.toFixed(2)}% ${side === 'buy' ? 'unter' : 'über'} dem Preis: ${wall.amount} im Wert von ${wall.value}, ` +
+          `etwa ${Math.round(wall.multiple)}-mal so viel wie ein typisches Level.`
+        : `Bei ${name} gibt es gerade keine auffällige ${side === 'buy' ? 'Kaufwand' : 'Verkaufswand'}. ` +
+          `Das größte ${side === 'buy' ? 'Gebot' : 'Angebot'} innerhalb von ${bandPercent}% um den Preis sind ${wall.amount} bei ${wall.price}.`;
+    },
+    tape: (name, tape) => {
+      if (!tape) return `Ich konnte keine aktuellen ${name}-Trades finden.`;
+      return `Bei den letzten ${tape.count} ${name}-Trades waren ${tape.buySharePercent}% des Volumens Käufe. ` +
+        (tape.biggest
+          ? `${tape.largeTrades} ${tape.largeTrades === 1 ? 'war' : 'waren'} groß, über ${tape.largeTradeValue}; ` +
+            `der größte war ein ${tape.biggest.side === 'buy' ? 'Kauf' : 'Verkauf'} von ${tape.biggest.amount} zu ${tape.biggest.price}.`
+          : 'Keiner davon fiel durch seine Größe auf.');
+    },
+    flow: (count, buySharePercent) => `Bei den letzten ${count} Trades waren ${buySharePercent}% des Volumens Käufe.`,
+    failed: (reason) => `Es tut mir leid, ich konnte das Orderbuch nicht abrufen. ${reason}`,
+  },
+
+  briefing: {
+    greeting: (slot) =>
+      slot === 'morning'
+        ? 'Guten Morgen. Hier ist Ihr Morgen-Briefing.'
+        : slot === 'evening'
+          ? 'Guten Abend. Hier ist Ihr Abend-Briefing.'
+          : 'Hier ist Ihr Markt-Briefing.',
+    watchlist: (coins) =>
+      `Auf Ihrer Watchlist: ${list(coins.map(coin => `${coin.name} ${change(coin.changePercent)} bei ${coin.price}`))}.`,
+    movers: (gainers, losers) =>
+      `Marktweit sind die größten Gewinner ${list(gainers.map(coin => `${coin.name} ${change(coin.changePercent)}`))}` +
+      (losers.length > 0 ? `, die größten Verlierer ${list(losers.map(coin => `${coin.name} ${change(coin.changePercent)}`))}` : '') + '.',
+    alerts: (fired) =>
+      fired.length === 0
+        ? 'Seit dem letzten Briefing hat keiner Ihrer Preisalarme ausgelöst.'
+        : `Seit dem letzten Briefing ${fired.length === 1 ? 'hat ein Alarm' : `haben ${fired.length} Alarme`} ausgelöst: ${list(fired)}.`,
+    portfolio: (p) =>
+      `Ihr Portfolio ist ${p.totalValue} wert, ${change(p.change24hPercent)} oder ${p.change24h} in 24 Stunden, ` +
+      `mit einem nicht realisierten ${p.inProfit ? 'Gewinn' : 'Verlust'} von ${p.pnl}.`,
+    nothing: 'Es gab nichts zu berichten. Schalten Sie in den Briefing-Einstellungen einige Abschnitte ein.',
+    failed: (reason) => `Ich konnte Ihr Briefing nicht zusammenstellen. ${reason}`,
+  },
+
+  market: {
+    askCompare: "Welche Coins soll ich vergleichen? Sagen Sie zum Beispiel 'vergleiche Bitcoin und Ethereum'.",
+    comparison: ([leader, ...rest], best) =>
+      `In den letzten 24 Stunden liegt ${leader.name} vorn, ${change(leader.changePercent)}` +
+      rest.map(coin => `, dann ${coin.name}, ${change(coin.changePercent)}`).join('') + '.' +
+      (best ? ` In ${RANGES[best.range]} lief ${best.coin.name} am besten, ${change(best.coin.changePercent)}.` : ''),
+    movers: (direction, movers) =>
+      `Die ${MOVERS[direction]} der letzten 24 Stunden sind ` +
+      movers.map(coin => `${coin.name}, ${change(coin.changePercent)}`).join('; ') + '.',
+    overview: (p) => {
+      const mood = p.averageChangePercent > 1 ? 'ein guter Tag' : p.averageChangePercent < -1 ? 'ein schwerer Tag' : 'ein ruhiger Tag';
+      return `Es ist ${mood} für Krypto. Von den ${p.coins} meistgehandelten Coins liegen ${p.advancers} im Plus und ${p.decliners} im Minus, ` +
+        `mit einer durchschnittlichen Bewegung von ${change(p.averageChangePercent)}. ` +
+        `Größter Gewinner ist ${p.topGainer.name}, ${change(p.topGainer.changePercent)}, ` +
+        `größter Verlierer ist ${p.topLoser.name}, ${change(p.topLoser.changePercent)}.`;
+    },
+    failed: (reason) => `Es tut mir leid, ich konnte die Marktdaten nicht abrufen. ${reason}`,
+  },
+
+  paper: {
+    amount: (name, quantity, value) =>
+      quantity !== null ? `${Number(quantity.toPrecision(4))} ${name}` : value !== null ? `${name} im Wert von ${value}` : `Ihr gesamtes ${name}`,
+    limitPlaced: (side, amount, price) =>
+      `Papier-Limit-${ORDERS[side]} über ${amount} zu ${price} platziert. Ich sage Bescheid, wenn sie ausgeführt wird.`,
+    filled: (p) => {
+      const amount = `${Number(p.quantity.toPrecision(4))} ${p.name} zu ${p.price}`;
+      const details = p.side === 'buy'
+        ? `${amount} gekauft, Kosten ${p.total} inklusive ${p.fee} Gebühr.`
+        : `${amount} verkauft, ${p.total} nach ${p.fee} Gebühr, ein realisierter ${p.inProfit ? 'Gewinn' : 'Verlust'} von ${p.realizedPnl}.`;
+      return `Papierorder ausgeführt. ${details} Ihr Papier-Guthaben beträgt ${p.balance}.`;
+    },
+    limitFilled: (side, amount, price) =>
+      `Papier-Limit-${ORDERS[side]} ausgeführt: ${amount} zu ${price} ${side === 'buy' ? 'gekauft' : 'verkauft'}.`,
+    limitRejected: (side, name, reason) =>
+      `Ihre Papier-Limit-${ORDERS[side]} für ${name} hat ihren Kurs erreicht, konnte aber nicht ausgeführt werden. ${reason}.`,
+    summary: (p) =>
+      `Ihr Papierkonto ist ${p.equity} wert, ${change(p.returnPercent)} gegenüber dem Startkapital von ${p.startingBalance}. ` +
+      `Sie haben ${p.balance} in bar und ${p.positions} offene Position${p.positions === 1 ? '' : 'en'}` +
+      `${p.pending > 0 ? `, dazu ${p.pending} wartende Limit-Order${p.pending === 1 ? '' : 's'}` : ''}. ` +
+      `Der realisierte Gewinn und Verlust beträgt ${p.realizedPnl}, an Gebühren haben Sie ${p.fees} bezahlt.`,
+    reset: (startingBalance) => `Ihr Papierkonto wurde auf ${startingBalance} zurückgesetzt.`,
+    cancelled: (count, name) => `Ich habe ${count} Papierorder${count === 1 ? '' : 's'}${name ? ` für ${name}` : ''} storniert.`,
+    noOrders: (name) => `Sie haben keine offenen Papierorders${name ? ` für ${name}` : ''}.`,
+    askCoin: "Welchen Coin soll ich handeln? Sagen Sie zum Beispiel 'kaufe 200 dollar solana'.",
+    askAmount: (name) => `Wie viel ${name} soll ich kaufen? Sagen Sie zum Beispiel 'kaufe 200 dollar ${name}' oder 'kaufe 0.5 ${name}'.`,
+    askLimitPrice: (side, name) =>
+      `Auf welchen Kurs soll die Limit-${ORDERS[side]} für ${name} warten? Sagen Sie die Order noch einmal mit dem Kurs.`,
+    failed: (reason) => `Ich konnte diese Papierorder nicht platzieren. ${reason}.`,
+  },
+
+  chart: {
+    askCoin: "Von welcher Kryptowährung soll ich den Chart zeigen? Sagen Sie zum Beispiel 'zeige bitcoin 4 stunden chart'.",
+    shown: (p) =>
+      `Hier ist der ${INTERVALS[p.interval]}-${p.chartType === 'candles' ? 'Kerzenchart' : 'Kurschart'} für ${p.name} aus ${RANGES[p.range]}.` +
+      (p.adjusted ? ` Ich habe ${INTERVALS[p.interval]}-Kerzen verwendet, damit der Chart lesbar bleibt.` : ''),
+    failed: (reason) => `Es tut mir leid, ich konnte diesen Chart nicht laden. ${reason}`,
+  },
+
+  currency: {
+    switched: (code, oneDollar) =>
+      `In Ordnung, die Anzeigewährung ist jetzt ${unitName(code)}.${oneDollar ? ` Ein US-Dollar entspricht ${oneDollar}.` : ''}`,
+    failed: (reason) => `Ich kann Preise nicht in dieser Währung anzeigen. ${reason}.`,
+  },
+
+  question: {
+    noAnswer: 'Darauf habe ich keine Antwort. Versuchen Sie, es anders zu formulieren.',
+    failed: (reason) => `Ich habe keine Antwort vom Sprachmodell bekommen. ${reason}`,
+  },
+
+  speech: {
+    currency: (whole, cents, code) => {
+      const [unit, subunit] = CURRENCY_NAMES[code] ?? [code, null];
+      return cents && subunit ? `${whole} ${unit} ${cents} ${subunit}` : `${whole} ${unit}`;
+    },
+    percent: (value) => `${value} Prozent`,
+    decimalPoint: 'Komma',
+  },
+};
@@ -0,0 +1,327 @@
+import { describeDuration } from '../../nlu/numbers';
+import { describeBacktestPeriod, describeStrategy } from '../../backtest';
+import { SPOKEN_INTERVALS } from '../../market/timeframes';
+import { Messages } from '../types';
+
+const TRENDS = { up: 'upward', down: 'downward', stable: 'relatively stable' };
+const SENTIMENTS = { up: 'positive', down: 'negative', stable: 'neutral' };
+// Spoken unit and subunit of each display currency
+const CURRENCY_NAMES: Record<string, [string, string | null]> = {
+  USD: ['dollars', 'cents'],
+  EUR: ['euros', 'cents'],
+  GBP: ['pounds', 'pence'],
+  TRY: ['lira', 'kurus'],
+  JPY: ['yen', null],
+  BRL: ['reais', 'centavos'],
+};
+const unitName = (code: string) => CURRENCY_NAMES[code]?.[0] ?? code;
+const change = (percent: number) => `${percent >= 0 ? 'up' : 'down'} ${Math.abs(percent).toFixed(2)}%`;
+const list = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+const RANGES = { '24h': 'the last 24 hours', '7d': 'the last 7 days', '1M': 'the last month', '3M': 'the last 3 months', '6M': 'the last 6 months', '1y': 'the last year' };
+const MOVERS = { gainers: 'top gainers', losers: 'top losers', movers: 'top movers' };
+const ALERT_ACTIONS = { pause: 'paused', resume: 'resumed', delete: 'deleted' };
+
+export const en: Messages = {
+  conversation: {
+    identity: "I am Jarvis, an AI cryptocurrency analysis assistant developed by Eser Software. I was designed to help you track and analyze cryptocurrency markets in real-time. I can provide you with price information, market trends, and basic investment insights for various cryptocurrencies.",
+    wellbeing: [
+      "I'm functioning optimally, thank you for asking. How can I assist you with cryptocurrency analysis today?",
+      "I'm operating at peak efficiency. Ready to analyze any cryptocurrency you're interested in.",
+      "All systems are running smoothly. I'm ready to provide you with crypto market insights whenever you need them.",
+    ],
+    capabilities: "I can provide real-time cryptocurrency analysis. Just mention a cryptocurrency like Bitcoin or Ethereum, and I'll fetch the latest market data including price, 24-hour changes, trading volume, and a 7-day price chart. I can also offer basic market insights based on recent price movements. Feel free to ask me about any major cryptocurrency.",
+    time: (time, date) => `The current time is ${time} and today is ${date}.`,
+    weather: "I'm sorry, I don't have access to weather information. I specialize in cryptocurrency analysis. Is there a specific cryptocurrency you'd like information about?",
+    jokes: [
+      "Why don't Bitcoin investors want to go to heaven? They hate it when things go up and never come back down.",
+      "Why was the cryptocurrency investor always calm? Because they were HODLing their breath.",
+      "What do you call a cryptocurrency investor who finally sells? Bitconned.",
+      "I told my wife I was investing all our money in crypto. She was so shocked, she was speechless for a whole Bitcoin transaction confirmation time.",
+    ],
+    thanks: [
+      "You're welcome. I'm here anytime you need cryptocurrency insights.",
+      "Happy to help. Feel free to ask about any cryptocurrency you're interested in.",
+      "My pleasure. I'm always ready to provide market analysis when you need it.",
+    ],
+    goodbye: [
+      "Goodbye. I'll be here when you need more cryptocurrency analysis.",
+      "Until next time. Remember, markets change quickly, so check back for updated analysis.",
+      "Farewell. I'll keep monitoring the crypto markets while you're away.",
+    ],
+    greeting: "Hello, I am Jarvis, your cryptocurrency analysis assistant. You can ask me about various cryptocurrencies like Bitcoin or Ethereum, or ask me questions like 'How are you?' or 'Who are you?'",
+    help: "I can provide you with 24-hour analysis of various cryptocurrencies. Just say a cryptocurrency name like Bitcoin or Ethereum, and I'll fetch the latest data and provide an analysis. You can also ask me general questions like 'How are you?' or 'Who are you?'",
+  },
+
+  analysis: (p) =>
+    `Here's my analysis for ${p.name}. ` +
+    `The current price is ${p.price}. ` +
+    `In the last 24 hours, the price has changed by ${p.change}, ` +
+    `which is a ${Math.abs(p.changePercent).toFixed(2)}% ${p.changePercent > 0 ? 'increase' : 'decrease'}. ` +
+    `The highest price reached was ${p.high}, while the lowest was ${p.low}. ` +
+    `The trading volume is approximately ${p.volumeMillions} million ${unitName(p.currency)}. ` +
+    (p.technicals.length > 0 ? `On the technical side, ${p.technicals.join('; ')}. ` : '') +
+    p.orderFlow +
+    `Overall, ${p.name} is showing a ${TRENDS[p.trend]} trend with ${SENTIMENTS[p.trend]} momentum. ` +
+    p.advice,
+
+  briefAnalysis: (p) =>
+    `${p.name} is at ${p.price}, ${p.changePercent >= 0 ? 'up' : 'down'} ${Math.abs(p.changePercent).toFixed(2)}% in 24 hours, ` +
+    `in a ${TRENDS[p.trend]} trend. ` +
+    p.advice,
+
+  // The indicator engine already phrases its signals in English
+  signal: (signal) => signal.description,
+
+  advice: {
+    overboughtStretched: "Momentum looks stretched. An overbought RSI with the price above its upper Bollinger band often comes before a pullback, so be cautious about chasing this move.",
+    overbought: "With RSI in overbought territory, a pause or correction would not be unusual. Be careful about buying at these levels.",
+    oversold: "RSI is oversold, so selling pressure may be close to exhausted and a rebound is possible. It is still wise to wait for confirmation before buying.",
+    goldenCross: "The fresh golden cross suggests the trend may be turning up, although crossovers can give false signals in choppy markets.",
+    deathCross: "The fresh death cross suggests the trend may be turning down. Consider protecting any gains.",
+    bullish: "Most indicators point upward, which supports the current trend.",
+    bearish: "Most indicators point downward, so the weakness may continue.",
+    bigRise: "Be cautious as this significant upward movement might be followed by a correction.",
+    bigDrop: "This significant drop might present a buying opportunity, but be aware that the downtrend might continue.",
+    consolidating: "The market appears to be consolidating. This might be a period of accumulation before the next significant move.",
+    neutral: "Consider your investment strategy based on your risk tolerance and long-term outlook.",
+  },
+  volatility: (atrPercent) => ` Volatility is ${atrPercent}% per day, so size any position accordingly.`,
+
+  orderFlow: (p) =>
+    `In the order book, the spread is ${p.spreadPercent.toFixed(3)}% and ${Math.round(p.bidSharePercent)}% of the liquidity near the price is on the buy side. ` +
+    (p.buyWall ? `There is a buy wall at ${p.buyWall}. ` : '') +
+    (p.sellWall ? `There is a sell wall at ${p.sellWall}. ` : '') +
+    (p.largeTrades > 0
+      ? `${p.largeTrades === 1 ? 'One large trade' : `${p.largeTrades} large trades`} went through recently, ` +
+        `${p.largeBuySharePercent >= 50 ? 'mostly buying' : 'mostly selling'}. `
+      : ''),
+
+  fetchFailed: (coin, reason) => `I'm sorry, I couldn't retrieve data for ${coin}. ${reason}`,
+  unknownCoin: (name) => `I don't recognize "${name}".`,
+  unknown: "I'm not sure what you mean. Try a coin name like 'bitcoin', 'top gainers', or 'how is my portfolio doing'.",
+  stopListening: "I've stopped listening. Click the microphone button when you want me to listen again.",
+  repeat: "I haven't said anything yet.",
+  cachedData: (minutesOld) =>
+    `I couldn't reach the exchange, so these figures are from ${minutesOld === 1 ? 'a minute' : `${minutesOld} minutes`} ago.`,
+
+  change,
+  list,
+
+  alerts: {
+    describe: ({ name, condition, quote }) => {
+      if (condition.type === 'move') {
+        const verb = condition.direction === 'up' ? 'rises' : condition.direction === 'down' ? 'drops' : 'moves';
+        return `${name} ${verb} ${condition.percent}% within ${describeDuration(condition.windowMs)}`;
+      }
+      return `${name} goes ${condition.type} ${condition.price} ${quote ?? 'dollars'}`;
+    },
+    none: "You don't have any price alerts. Try saying 'alert me when Bitcoin drops below 60000'.",
+    list: (alerts) =>
+      `You have ${alerts.length} price alert${alerts.length === 1 ? '' : 's'}. ` +
+      alerts.map((alert, index) => `${index + 1}, ${alert.description}${alert.paused ? ', paused' : ''}`).join('. ') + '.',
+    askCoin: "Which cryptocurrency should I watch? For example, say 'alert me when Solana drops below 120'.",
+    askCondition: "Tell me a price level or a percentage move, for example 'above 70000' or 'moves 5 percent in an hour'.",
+    created: (description) => `Okay, I'll alert you when ${description}.`,
+    notFound: (action) => `I couldn't find that alert. Say for example '${action} alert 1', or ask me to list your alerts.`,
+    changed: (action, description, count) =>
+      `I've ${ALERT_ACTIONS[action]} ${description ? `the alert for when ${description}` : `${count} alerts`}.`,
+    triggeredMove: (name, changePercent, price) => `Alert: ${name} has moved ${changePercent.toFixed(2)}% and is now at ${price}.`,
+    triggeredLevel: (name, direction, price) => `Alert: ${name} is now ${direction} your level, trading at ${price}.`,
+  },
+
+  portfolio: {
+    empty: "Your portfolio is empty. Tell me what you own, for example 'I bought 0.5 bitcoin at 60 thousand'.",
+    summary: (p) =>
+      `Here's your portfolio summary. ` +
+      `Your ${p.holdings} holding${p.holdings === 1 ? ' is' : 's are'} worth ${p.totalValue}. ` +
+      `You have an unrealized ${p.inProfit ? 'profit' : 'loss'} of ${p.pnl}, ` +
+      `which is ${Math.abs(p.pnlPercent).toFixed(2)}% on a cost basis of ${p.cost}. ` +
+      `In the last 24 hours, your portfolio has ${p.change24hPercent >= 0 ? 'gained' : 'lost'} ${p.change24h}, ` +
+      `a ${Math.abs(p.change24hPercent).toFixed(2)}% ${p.change24hPercent >= 0 ? 'increase' : 'decrease'}. ` +
+      `Your largest position is ${p.largest} at ${p.largestAllocationPercent.toFixed(1)}% of the portfolio. ` +
+      (p.best && p.worst
+        ? `Your best performer is ${p.best.name} at ${p.best.changePercent.toFixed(2)}%, ` +
+          `and your weakest is ${p.worst.name} at ${p.worst.changePercent.toFixed(2)}%.`
+        : ''),
+    askCoin: "I didn't catch which cryptocurrency you mean. Please try again, for example 'I bought 2 solana at 150'.",
+    removed: (name) => `I've removed ${name} from your portfolio.`,
+    askQuantity: (name, side) =>
+      `How much ${name} did you ${side}? For example, 'I ${side === 'buy' ? 'bought' : 'sold'} 0.5 ${name}'.`,
+    recordFailed: (reason) => `I couldn't record that trade. ${reason}.`,
+    recorded: (side, quantity, name, price) =>
+      `Got it. I've recorded that you ${side === 'buy' ? 'bought' : 'sold'} ${quantity} ${name}` +
+      `${price ? ` at ${price}` : ' at the current market price'}.`,
+  },
+
+  watchlist: {
+    empty: "Your watchlist is empty. Say something like 'add chainlink to my watchlist'.",
+    digest: (coins, ranking) =>
+      "Here's your watchlist. " + coins.map(coin => `${coin.name} is at ${coin.price}, ${change(coin.changePercent)}`).join('. ') + '.' +
+      (ranking ? ` ${ranking.strongest} is the strongest today, and ${ranking.weakest} the weakest.` : ''),
+    failed: (reason) => `I couldn't load your watchlist prices. ${reason}`,
+    askCoin: (action) =>
+      `Which coin should I ${action} ${action === 'add' ? 'to' : 'from'} your watchlist? For example, 'add chainlink to my watchlist'.`,
+    added: (names) => `I've added ${list(names)} to your watchlist.`,
+    removed: (names) => `I've removed ${list(names)} from your watchlist.`,
+    notListed: (names) => `${list(names)} ${names.length === 1 ? "isn't" : "aren't"} on your watchlist.`,
+    alreadyListed: (names) => `${list(names)} ${names.length === 1 ? 'is' : 'are'} already on your watchlist.`,
+    full: (max) => `Your watchlist is full at ${max} coins. Remove one first.`,
+  },
+
+  backtest: {
+    strategy: describeStrategy,
+    result: (p) => {
+      const percent = (value: number) => `${value >= 0 ? 'up' : 'down'} ${Math.abs(value).toFixed(1)}%`;
+      const trades = p.dca
+        ? `${p.trades} purchases totalling ${p.capital} are now worth ${p.finalEquity}`
+        : `starting from ${p.capital}, it ended at ${p.finalEquity} after ${p.trades} trade${p.trades === 1 ? '' : 's'}`;
+      return `Backtest of ${p.strategy} on ${p.name} over ${describeBacktestPeriod(p.durationMs)}: ` +
+        `${trades}, ${percent(p.returnPercent)}, against ${percent(p.buyAndHoldPercent)} for buy and hold. ` +
+        `The maximum drawdown was ${p.maxDrawdownPercent.toFixed(1)}%` +
+        `${p.winRate === null ? '' : `, a win rate of ${p.winRate.toFixed(0)}%`}` +
+        `${p.sharpe === null ? '' : ` and a Sharpe ratio of ${p.sharpe.toFixed(2)}`}. ` +
+        'Past performance is no guarantee of future results.';
+    },
+    askCoin: "Which coin should I test? For example, 'backtest a weekly DCA on bitcoin over a year'.",
+    askStrategy: (name) =>
+      `Which strategy should I test on ${name}? I can backtest a moving average crossover, RSI levels, or a weekly DCA.`,
+    failed: (reason) => `I couldn't run that backtest. ${reason}.`,
+  },
+
+  stats: {
+    askCoin: "Which cryptocurrency do you mean? For example, say 'what was Ethereum's weekly high'.",
+    level: (p) =>
+      `${p.name}'s ${p.level} over ${RANGES[p.range]} was ${p.price}, on ${p.date}. ` +
+      `It is now ${p.now}, ${p.distancePercent.toFixed(2)}% ${p.level === 'high' ? 'below' : 'above'} that ${p.level}.`,
+    volume: (name, range, volume, unit) => `${name} traded ${Math.round(volume).toLocaleString('en-US')} ${unit} over ${RANGES[range]}.`,
+    change: (name, range, changePercent, from, to) =>
+      `${name} is ${change(changePercent)} over ${RANGES[range]}, from ${from} to ${to}.`,
+    failed: (reason) => `I'm sorry, I couldn't look that up. ${reason}`,
+  },
+
+  depth: {
+    askCoin: "Which cryptocurrency do you mean? For example, say 'what's the spread on bitcoin'.",
+    spread: (name, spread, spreadPercent, bestBid, bestAsk) =>
+      `The spread on ${name} is ${spread}, or ${spreadPercent.toFixed(3)}%, with the best bid at ${bestBid} and the best ask at ${bestAsk}.`,
+    imbalance: (name, bidSharePercent, deeper, bandPercent) =>
+      `${bidSharePercent}% of the ${name} order book within ${bandPercent}% of the price is bids and ${100 - bidSharePercent}% is asks, ` +
+      `so ${deeper === 'balanced' ? 'the book is roughly balanced' : deeper === 'buy' ? 'buyers have the deeper side' : 'sellers have the deeper side'}.`,
+    wall: (name, side, wall, bandPercent) => {
+      if (!wall) return `There are no ${side === 'buy' ? 'bids' : 'asks'} on ${name} within ${bandPercent}% of the price.`;
+      return wall.standout
+        ? `The biggest ${side} wall on ${name} is at ${wall.price}, ${wall.distancePercent.toFixed(2)}% ${side === 'buy' ? 'below' : 'above'} the price: ` +
+          `${wall.amount} worth ${wall.value}, about ${Math.round(wall.multiple)} times a typical level.`
+        : `There's no standout ${side} wall on ${name} right now. ` +
+          `The largest ${side === 'buy' ? 'bid' : 'ask'} within ${bandPercent}% of the price is ${wall.amount} at ${wall.price}.`;
+    },
+    tape: (name, tape) => {
+      if (!tape) return `I couldn't find any recent ${name} trades.`;
+      return `Over the last ${tape.count} ${name} trades, ${tape.buySharePercent}% of the volume was buying. ` +
+        (tape.biggest
+          ? `${tape.largeTrades} ${tape.largeTrades === 1 ? 'was' : 'were'} large, over ${tape.largeTradeValue}; ` +
+            `the biggest was a ${tape.biggest.side} of ${tape.biggest.amount} at ${tape.biggest.price}.`
+          : 'None of them stood out in size.');
+    },
+    flow: (count, buySharePercent) => `Over the last ${count} trades, ${buySharePercent}% of the volume was buying.`,
+    failed: (reason) => `I'm sorry, I couldn't look at the order book. ${reason}`,
+  },
+
+  briefing: {
+    greeting: (slot) =>
+      slot === 'morning'
+        ? "Good morning. Here's your morning briefing."
+        : slot === 'evening'
+          ? "Good evening. Here's your evening briefing."
+          : "Here's your market briefing.",
+    watchlist: (coins) =>
+      `On your watchlist, ${list(coins.map(coin => `${coin.name} is ${change(coin.changePercent)} at ${coin.price}`))}.`,
+    movers: (gainers, losers) =>
+      `Across the market, the top gainers are ${list(gainers.map(coin => `${coin.name} ${change(coin.changePercent)}`))}` +
+      (losers.length > 0 ? `, and the biggest losers are ${list(losers.map(coin => `${coin.name} ${change(coin.changePercent)}`))}` : '') + '.',
+    alerts: (fired) =>
+      fired.length === 0
+        ? 'None of your price alerts fired since the last briefing.'
+        : `${fired.length === 1 ? 'One alert' : `${fired.length} alerts`} fired since the last briefing: ${list(fired)}.`,
+    portfolio: (p) =>
+      `Your portfolio is worth ${p.totalValue}, ${change(p.change24hPercent)} or ${p.change24h} over 24 hours, ` +
+      `with ${p.pnl} of unrealized ${p.inProfit ? 'profit' : 'loss'}.`,
+    nothing: 'There was nothing to report. Turn on some sections in the briefing settings.',
+    failed: (reason) => `I couldn't put your briefing together. ${reason}`,
+  },
+
+  market: {
+    askCompare: "Which coins should I compare? For example, say 'compare Bitcoin and Ethereum'.",
+    comparison: ([leader, ...rest], best) =>
+      `Over the last 24 hours, ${leader.name} leads, ${change(leader.changePercent)}` +
+      rest.map(coin => `, then ${coin.name}, ${change(coin.changePercent)}`).join('') + '.' +
+      (best ? ` Over ${RANGES[best.range]}, ${best.coin.name} performed best, ${change(best.coin.changePercent)}.` : ''),
+    movers: (direction, movers) =>
+      `The ${MOVERS[direction]} of the last 24 hours are ` +
+      movers.map(coin => `${coin.name}, ${change(coin.changePercent)}`).join('; ') + '.',
+    overview: (p) => {
+      const mood = p.averageChangePercent > 1 ? 'a good day' : p.averageChangePercent < -1 ? 'a rough day' : 'a quiet day';
+      return `It's ${mood} for crypto. Of the ${p.coins} most traded coins, ${p.advancers} are up and ${p.decliners} are down, ` +
+        `with an average move of ${change(p.averageChangePercent)}. ` +
+        `The biggest gainer is ${p.topGainer.name}, ${change(p.topGainer.changePercent)}, ` +
+        `and the biggest loser is ${p.topLoser.name}, ${change(p.topLoser.changePercent)}.`;
+    },
+    failed: (reason) => `I'm sorry, I couldn't get the market data. ${reason}`,
+  },
+
+  paper: {
+    amount: (name, quantity, value) =>
+      quantity !== null ? `${Number(quantity.toPrecision(4))} ${name}` : value !== null ? `${value} of ${name}` : `all your ${name}`,
+    limitPlaced: (side, amount, price) => `Paper limit ${side} placed for ${amount} at ${price}. I'll tell you when it fills.`,
+    filled: (p) => {
+      const amount = `${Number(p.quantity.toPrecision(4))} ${p.name} at ${p.price}`;
+      const details = p.side === 'buy'
+        ? `Bought ${amount}, costing ${p.total} including a ${p.fee} fee.`
+        : `Sold ${amount} for ${p.total} after a ${p.fee} fee, a realized ${p.inProfit ? 'profit' : 'loss'} of ${p.realizedPnl}.`;
+      return `Paper order filled. ${details} Your paper cash balance is ${p.balance}.`;
+    },
+    limitFilled: (side, amount, price) => `Paper limit ${side} filled: ${side === 'buy' ? 'bought' : 'sold'} ${amount} at ${price}.`,
+    limitRejected: (side, name, reason) => `Your paper limit ${side} on ${name} reached its price but couldn't be filled. ${reason}.`,
+    summary: (p) =>
+      `Your paper account is worth ${p.equity}, ${change(p.returnPercent)} from the starting ${p.startingBalance}. ` +
+      `You have ${p.balance} in cash and ${p.positions} open position${p.positions === 1 ? '' : 's'}` +
+      `${p.pending > 0 ? `, with ${p.pending} limit order${p.pending === 1 ? '' : 's'} waiting` : ''}. ` +
+      `Realized profit and loss is ${p.realizedPnl}, and you've paid ${p.fees} in fees.`,
+    reset: (startingBalance) => `Your paper account has been reset to ${startingBalance}.`,
+    cancelled: (count, name) => `I've cancelled ${count} paper order${count === 1 ? '' : 's'}${name ? ` on ${name}` : ''}.`,
+    noOrders: (name) => `You have no open paper orders${name ? ` on ${name}` : ''}.`,
+    askCoin: "Which coin should I trade? For example, 'buy 200 dollars of solana'.",
+    askAmount: (name) => `How much ${name} should I buy? For example, 'buy 200 dollars of ${name}' or 'buy 0.5 ${name}'.`,
+    askLimitPrice: (side, name) =>
+      `What price should the limit ${side} on ${name} wait for? Say the order again with the price, for example 'limit ${side} ${name} at' and then the price.`,
+    failed: (reason) => `I couldn't place that paper order. ${reason}.`,
+  },
+
+  chart: {
+    askCoin: "Which cryptocurrency would you like to chart? For example, say 'show bitcoin 4 hour chart for the last month'.",
+    shown: (p) =>
+      `Here's the ${SPOKEN_INTERVALS[p.interval]} ${p.chartType === 'candles' ? 'candlestick' : 'price'} chart for ${p.name} over ${RANGES[p.range]}.` +
+      (p.adjusted ? ` I used ${SPOKEN_INTERVALS[p.interval]} candles so the chart stays readable.` : ''),
+    failed: (reason) => `I'm sorry, I couldn't load that chart. ${reason}`,
+  },
+
+  currency: {
+    switched: (code, oneDollar) =>
+      `Okay, I've switched the display currency to ${unitName(code)}.${oneDollar ? ` One US dollar is ${oneDollar}.` : ''}`,
+    failed: (reason) => `I can't show prices in that currency. ${reason}.`,
+  },
+
+  question: {
+    noAnswer: "I don't have an answer to that one. Try asking it another way.",
+    failed: (reason) => `I couldn't get an answer from the language model. ${reason}`,
+  },
+
+  speech: {
+    currency: (whole, cents, code) => {
+      const [unit, subunit] = CURRENCY_NAMES[code] ?? [code, null];
+      return cents && subunit ? `${whole} ${unit} and ${cents} ${subunit}` : `${whole} ${unit}`;
+    },
+    percent: (value) => `${value} percent`,
+    decimalPoint: 'point',
+  },
+};
@@ -0,0 +1,372 @@
+import { HIGH_VOLATILITY_ATR_PERCENT } from '../../indicators';
+import { DurationUnit, splitDuration } from '../../nlu/numbers';
+import { Messages } from '../types';
+
+const TRENDS = { up: 'yükseliş', down: 'düşüş', stable: 'yatay' };
+const SENTIMENTS = { up: 'olumlu', down: 'olumsuz', stable: 'nötr' };
+const CURRENCY_NAMES: Record<string, [string, string | null]> = {
+  USD: ['dolar', 'sent'],
+  EUR: ['avro', 'sent'],
+  GBP: ['sterlin', 'peni'],
+  TRY: ['lira', 'kuruş'],
+  JPY: ['yen', null],
+  BRL: ['real', 'sentavo'],
+};
+const unitName = (code: string) => CURRENCY_NAMES[code]?.[0] ?? code;
+const change = (percent: number) => `yüzde ${Math.abs(percent).toFixed(2)} ${percent >= 0 ? 'artıda' : 'ekside'}`;
+const list = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} ve ${items[items.length - 1]}`;
+const DURATION_UNITS: Record<DurationUnit, string> = { year: 'yıl', month: 'ay', week: 'hafta', day: 'gün', hour: 'saat', minute: 'dakika' };
+const duration = (ms: number) => {
+  const { count, unit } = splitDuration(ms);
+  return `${count} ${DURATION_UNITS[unit]}`;
+};
+const RANGES = { '24h': 'son 24 saatte', '7d': 'son 7 günde', '1M': 'son bir ayda', '3M': 'son 3 ayda', '6M': 'son 6 ayda', '1y': 'son bir yılda' };
+const MOVERS = { gainers: 'en çok yükselenleri', losers: 'en çok düşenleri', movers: 'en çok hareket edenleri' };
+const ALERT_ACTIONS = { pause: 'duraklattım', resume: 'yeniden başlattım', delete: 'sildim' };
+const DCA_FREQUENCIES = { daily: 'günlük', weekly: 'haftalık', monthly: 'aylık' };
+const SIDES = { buy: 'alış', sell: 'satış' };
+const INTERVALS = { '1h': '1 saatlik', '4h': '4 saatlik', '1d': 'günlük', '1w': 'haftalık' };
+
+export const tr: Messages = {
+  conversation: {
+    identity: "Ben Jarvis, Eser Software tarafından geliştirilen bir yapay zeka kripto para analiz asistanıyım. Kripto para piyasalarını gerçek zamanlı takip etmenize ve analiz etmenize yardımcı olmak için tasarlandım. Fiyat bilgisi, piyasa eğilimleri ve temel yatırım görüşleri sunabilirim.",
+    wellbeing: [
+      "Gayet iyi çalışıyorum, sorduğunuz için teşekkürler. Bugün kripto analizinde size nasıl yardımcı olabilirim?",
+      "Tam verimle çalışıyorum. İlgilendiğiniz herhangi bir kripto parayı analiz etmeye hazırım.",
+      "Tüm sistemler sorunsuz çalışıyor. İhtiyacınız olduğunda piyasa yorumları sunmaya hazırım.",
+    ],
+    capabilities: "Gerçek zamanlı kripto para analizi yapabilirim. Bitcoin veya Ethereum gibi bir kripto para adı söyleyin; fiyat, 24 saatlik değişim, işlem hacmi ve fiyat grafiği dahil en güncel piyasa verilerini getireyim. Son fiyat hareketlerine göre temel piyasa yorumları da sunabilirim.",
+    time: (time, date) => `Saat şu an ${time}, bugün ${date}.`,
+    weather: "Üzgünüm, hava durumu bilgisine erişimim yok. Kripto para analizinde uzmanım. Bilgi almak istediğiniz bir kripto para var mı?",
+    jokes: [
+      "Bitcoin yatırımcısı neden asansöre binmez? Çünkü yükselen her şeyin bir gün düşeceğini bilir.",
+      "Kripto yatırımcısı neden hep sakindir? Çünkü nefesini bile HODL'lar.",
+      "Sonunda satan kripto yatırımcısına ne denir? Hayal kırıklığına uğramış bir HODL'cı.",
+    ],
+    thanks: [
+      "Rica ederim. Kripto yorumlarına ihtiyacınız olduğunda buradayım.",
+      "Yardımcı olabildiysem ne mutlu. İlgilendiğiniz her kripto parayı sorabilirsiniz.",
+      "Ne demek. Piyasa analizine ihtiyacınız olduğunda her zaman hazırım.",
+    ],
+    goodbye: [
+      "Hoşça kalın. Daha fazla analize ihtiyacınız olduğunda buradayım.",
+      "Bir dahaki sefere kadar. Piyasalar hızlı değişir, güncel analiz için tekrar uğrayın.",
+      "Güle güle. Siz yokken kripto piyasalarını izlemeye devam edeceğim.",
+    ],
+    greeting: "Merhaba, ben Jarvis, kripto para analiz asistanınız. Bana Bitcoin veya Ethereum gibi kripto paraları sorabilir ya da 'Nasılsın?' veya 'Sen kimsin?' gibi sorular sorabilirsiniz.",
+    help: "Kripto paraların 24 saatlik analizini yapabilirim. Bitcoin veya Ethereum gibi bir kripto para adı söyleyin, en güncel verileri getirip analiz edeyim. 'Nasılsın?' veya 'Sen kimsin?' gibi genel sorular da sorabilirsiniz.",
+  },
+
+  analysis: (p) =>
+    `${p.name} için analizim şöyle. ` +
+    `Güncel fiyat ${p.price}. ` +
+    `Son 24 saatte fiyat ${p.change} değişti, ` +
+    `bu %${Math.abs(p.changePercent).toFixed(2)} ${p.changePercent > 0 ? 'artış' : 'düşüş'} demek. ` +
+    `Görülen en yüksek fiyat ${p.high}, en düşük fiyat ise ${p.low} oldu. ` +
+    `İşlem hacmi yaklaşık ${p.volumeMillions} milyon ${unitName(p.currency)}. ` +
+    (p.technicals.length > 0 ? `Teknik açıdan, ${p.technicals.join('; ')}. ` : '') +
+    p.orderFlow +
+    `Genel olarak ${p.name} ${SENTIMENTS[p.trend]} bir momentumla ${TRENDS[p.trend]} eğiliminde. ` +
+    p.advice,
+
+  briefAnalysis: (p) =>
+    `${p.name} ${p.price} seviyesinde, son 24 saatte %${Math.abs(p.changePercent).toFixed(2)} ${p.changePercent >= 0 ? 'yükseldi' : 'düştü'}, ` +
+    `eğilim ${TRENDS[p.trend]} yönünde. ` +
+    p.advice,
+
+  signal: (signal, report) => {
+    switch (signal.indicator) {
+      case 'rsi': {
+        const value = Math.round(report.rsi ?? 0);
+        return signal.bias === 'bearish'
+          ? `RSI ${value}, aşırı alım bölgesinde`
+          : signal.bias === 'bullish' ? `RSI ${value}, aşırı satım bölgesinde` : `RSI ${value}, nötr bölgede`;
+      }
+      case 'macd':
+        return signal.bias === 'bullish' ? 'MACD sinyal çizgisinin üzerinde' : 'MACD sinyal çizgisinin altında';
+      case 'sma':
+      case 'ema': {
+        const cross = signal.indicator === 'sma' ? report.sma : report.ema;
+        const name = `${cross?.fastPeriod} periyotluk ${signal.indicator === 'sma' ? 'basit' : 'üssel'} hareketli ortalama`;
+        const slow = `${cross?.slowPeriod} periyotluk ortalama`;
+        if (cross?.cross === 'golden') return `${name} ${slow}nın üzerine çıktı, bu bir altın kesişim`;
+        if (cross?.cross === 'death') return `${name} ${slow}nın altına indi, bu bir ölüm kesişimi`;
+        return signal.bias === 'bullish' ? `${name} ${slow}nın üzerinde` : `${name} ${slow}nın altında`;
+      }
+      case 'bollinger':
+        return signal.bias === 'bearish'
+          ? 'fiyat üst Bollinger bandının üzerinde, yukarı yönde gerilmiş'
+          : signal.bias === 'bullish' ? 'fiyat alt Bollinger bandının altında, aşağı yönde gerilmiş' : 'fiyat Bollinger bantlarının içinde';
+      case 'atr':
+        return `ortalama gerçek aralık fiyatın %${(report.atrPercent ?? 0).toFixed(1)} kadarı, yani oynaklık ${(report.atrPercent ?? 0) >= HIGH_VOLATILITY_ATR_PERCENT ? 'yüksek' : 'orta düzeyde'}`;
+    }
+  },
+
+  advice: {
+    overboughtStretched: "Momentum aşırı gerilmiş görünüyor. Fiyat üst Bollinger bandının üzerindeyken aşırı alımdaki RSI çoğu zaman bir geri çekilmeden önce gelir, bu yükselişi kovalarken dikkatli olun.",
+    overbought: "RSI aşırı alım bölgesindeyken bir duraklama ya da düzeltme şaşırtıcı olmaz. Bu seviyelerden alım yaparken dikkatli olun.",
+    oversold: "RSI aşırı satımda, satış baskısı tükenmeye yakın olabilir ve bir tepki yükselişi mümkün. Yine de almadan önce teyit beklemek akıllıca olur.",
+    goldenCross: "Yeni oluşan altın kesişim trendin yukarı dönebileceğine işaret ediyor, ancak dalgalı piyasalarda kesişimler yanıltıcı olabilir.",
+    deathCross: "Yeni oluşan ölüm kesişimi trendin aşağı dönebileceğine işaret ediyor. Kazançlarınızı korumayı düşünün.",
+    bullish: "Göstergelerin çoğu yukarıyı gösteriyor, bu da mevcut trendi destekliyor.",
+    bearish: "Göstergelerin çoğu aşağıyı gösteriyor, zayıflık sürebilir.",
+    bigRise: "Dikkatli olun, bu güçlü yükselişin ardından bir düzeltme gelebilir.",
+    bigDrop: "Bu sert düşüş bir alım fırsatı olabilir, ancak düşüş trendinin sürebileceğini unutmayın.",
+    consolidating: "Piyasa konsolide oluyor gibi görünüyor. Bu, bir sonraki büyük hareketten önceki birikim dönemi olabilir.",
+    neutral: "Yatırım stratejinizi risk toleransınıza ve uzun vadeli beklentinize göre belirleyin.",
+  },
+  volatility: (atrPercent) => ` Günlük oynaklık %${atrPercent}, pozisyon büyüklüğünü buna göre ayarlayın.`,
+
+  fetchFailed: (coin, reason) => `Üzgünüm, ${coin} için veri alamadım. ${reason}`,
+  unknownCoin: (name) => `"${name}" adında bir coin tanımıyorum.`,
+  unknown: "Ne demek istediğinizi anlayamadım. 'bitcoin', 'en çok yükselenler' ya da 'portföyüm nasıl' gibi bir şey söyleyin.",
+  stopListening: 'Dinlemeyi bıraktım. Tekrar dinlememi istediğinizde mikrofon düğmesine tıklayın.',
+  repeat: 'Henüz bir şey söylemedim.',
+  orderFlow: (p) =>
+    `Emir defterinde alış-satış makası %${p.spreadPercent.toFixed(3)}, fiyata yakın likiditenin %${Math.round(p.bidSharePercent)} kadarı alış tarafında. ` +
+    (p.buyWall ? `${p.buyWall} seviyesinde bir alış duvarı var. ` : '') +
+    (p.sellWall ? `${p.sellWall} seviyesinde bir satış duvarı var. ` : '') +
+    (p.largeTrades > 0
+      ? `Son işlemler arasında ${p.largeTrades} büyük işlem var, çoğunlukla ${p.largeBuySharePercent >= 50 ? 'alış' : 'satış'} yönünde. `
+      : ''),
+
+  cachedData: (minutesOld) => `Borsaya ulaşamadım, bu veriler ${minutesOld} dakika öncesine ait.`,
+
+  change,
+  list,
+
+  alerts: {
+    // Phrased as a "when" clause: "Solana 120 dolar altına düştüğünde"
+    describe: ({ name, condition, quote }) => {
+      if (condition.type === 'move') {
+        const verb = condition.direction === 'up' ? 'yükseldiğinde' : condition.direction === 'down' ? 'düştüğünde' : 'hareket ettiğinde';
+        return `${name} ${duration(condition.windowMs)} içinde %${condition.percent} ${verb}`;
+      }
+      return `${name} ${condition.price} ${quote ?? 'dolar'} ${condition.type === 'above' ? 'üstüne çıktığında' : 'altına düştüğünde'}`;
+    },
+    none: "Hiç fiyat alarmınız yok. Örneğin 'bitcoin 60000 altına düşünce haber ver' diyebilirsiniz.",
+    list: (alerts) =>
+      `${alerts.length} fiyat alarmınız var. ` +
+      alerts.map((alert, index) => `${index + 1}, ${alert.description}${alert.paused ? ', duraklatıldı' : ''}`).join('. ') + '.',
+    askCoin: "Hangi kripto parayı izleyeyim? Örneğin 'solana 120 altına düşünce haber ver' deyin.",
+    askCondition: "Bana bir fiyat seviyesi söyleyin, örneğin '70000 üstüne çıkınca' ya da '60000 altına düşünce'.",
+    created: (description) => `Tamam, ${description} size haber vereceğim.`,
+    notFound: () => 'O alarmı bulamadım. Alarmlarınızı listelememi isteyebilirsiniz.',
+    changed: (action, description, count) =>
+      `${description ? `${description} çalacak alarmı` : `${count} alarmı`} ${ALERT_ACTIONS[action]}.`,
+    triggeredMove: (name, changePercent, price) => `Alarm: ${name} yüzde ${changePercent.toFixed(2)} hareket etti, şu an ${price}.`,
+    triggeredLevel: (name, direction, price) =>
+      `Alarm: ${name} belirlediğiniz seviyenin ${direction === 'above' ? 'üstüne çıktı' : 'altına düştü'}, şu an ${price}.`,
+  },
+
+  portfolio: {
+    empty: "Portföyünüz boş. Neye sahip olduğunuzu söyleyin, örneğin '0.5 bitcoin aldım'.",
+    summary: (p) =>
+      `Portföy özetiniz şöyle. ` +
+      `${p.holdings} varlığınızın değeri ${p.totalValue}. ` +
+      `${p.cost} maliyet üzerinden ${p.pnl} gerçekleşmemiş ${p.inProfit ? 'kârınız' : 'zararınız'} var, ` +
+      `bu yüzde ${Math.abs(p.pnlPercent).toFixed(2)} ediyor. ` +
+      `Son 24 saatte portföyünüz ${p.change24h} ${p.change24hPercent >= 0 ? 'kazandı' : 'kaybetti'}, ` +
+      `yüzde ${Math.abs(p.change24hPercent).toFixed(2)} ${p.change24hPercent >= 0 ? 'artış' : 'düşüş'}. ` +
+      `En büyük pozisyonunuz portföyün yüzde ${p.largestAllocationPercent.toFixed(1)} kadarıyla ${p.largest}. ` +
+      (p.best && p.worst
+        ? `En iyi performans yüzde ${p.best.changePercent.toFixed(2)} ile ${p.best.name}, ` +
+          `en zayıfı yüzde ${p.worst.changePercent.toFixed(2)} ile ${p.worst.name}.`
+        : ''),
+    askCoin: "Hangi kripto parayı kastettiğinizi anlayamadım. Örneğin '2 solana aldım' diyerek tekrar deneyin.",
+    removed: (name) => `${name} portföyünüzden çıkarıldı.`,
+    askQuantity: (name, side) =>
+      `Ne kadar ${name} ${side === 'buy' ? 'aldınız' : 'sattınız'}? Örneğin '0.5 ${name} ${side === 'buy' ? 'aldım' : 'sattım'}'.`,
+    recordFailed: (reason) => `Bu işlemi kaydedemedim. ${reason}.`,
+    recorded: (side, quantity, name, price) =>
+      `Anlaşıldı. ${price ? `${price} fiyatından` : 'Güncel piyasa fiyatından'} ${quantity} ${name} ` +
+      `${side === 'buy' ? 'aldığınızı' : 'sattığınızı'} kaydettim.`,
+  },
+
+  watchlist: {
+    empty: "İzleme listeniz boş. Örneğin 'izleme listeme chainlink ekle' deyin.",
+    digest: (coins, ranking) =>
+      'İzleme listeniz şöyle. ' + coins.map(coin => `${coin.name} ${coin.price}, ${change(coin.changePercent)}`).join('. ') + '.' +
+      (ranking ? ` Bugün en güçlüsü ${ranking.strongest}, en zayıfı ${ranking.weakest}.` : ''),
+    failed: (reason) => `İzleme listenizin fiyatlarını yükleyemedim. ${reason}`,
+    askCoin: (action) =>
+      `İzleme listenize hangi coini ${action === 'add' ? 'ekleyeyim' : 'çıkarayım'}? Örneğin 'izleme listeme chainlink ekle' deyin.`,
+    added: (names) => `${list(names)} izleme listenize eklendi.`,
+    removed: (names) => `${list(names)} izleme listenizden çıkarıldı.`,
+    notListed: (names) => `${list(names)} izleme listenizde yok.`,
+    alreadyListed: (names) => `${list(names)} zaten izleme listenizde.`,
+    full: (max) => `İzleme listeniz ${max} coinle dolu. Önce birini çıkarın.`,
+  },
+
+  backtest: {
+    strategy: (strategy, formatValue) => {
+      switch (strategy.kind) {
+        case 'maCrossover':
+          return `${strategy.average.toUpperCase()} ${strategy.fast}/${strategy.slow} kesişimi`;
+        case 'rsi':
+          return `${strategy.buyBelow} altında alıp ${strategy.sellAbove} üstünde satan RSI ${strategy.period}`;
+        case 'dca':
+          return `${DCA_FREQUENCIES[strategy.frequency]} ${formatValue(strategy.amount)} DCA`;
+      }
+    },
+    result: (p) => {
+      const percent = (value: number) => `yüzde ${Math.abs(value).toFixed(1)} ${value >= 0 ? 'artıda' : 'ekside'}`;
+      const { count, unit } = splitDuration(p.durationMs);
+      const trades = p.dca
+        ? `toplam ${p.capital} tutarındaki ${p.trades} alımın değeri şu an ${p.finalEquity}`
+        : `${p.capital} ile başladı ve ${p.trades} işlemin ardından ${p.finalEquity} ile bitirdi`;
+      return `${p.name} üzerinde ${p.strategy} için son ${count === 1 ? 'bir' : count} ${DURATION_UNITS[unit]} boyunca backtest: ` +
+        `${trades}, ${percent(p.returnPercent)}; al ve tut ise ${percent(p.buyAndHoldPercent)}. ` +
+        `En büyük düşüş yüzde ${p.maxDrawdownPercent.toFixed(1)}` +
+        `${p.winRate === null ? '' : `, kazanma oranı yüzde ${p.winRate.toFixed(0)}`}` +
+        `${p.sharpe === null ? '' : `, Sharpe oranı ${p.sharpe.toFixed(2)}`}. ` +
+        'Geçmiş performans gelecekteki sonuçların garantisi değildir.';
+    },
+    askCoin: "Hangi coini test edeyim? Örneğin 'bitcoin üzerinde haftalık DCA'yı bir yıl boyunca backtest et' deyin.",
+    askStrategy: (name) =>
+      `${name} üzerinde hangi stratejiyi test edeyim? Hareketli ortalama kesişimi, RSI seviyeleri veya haftalık DCA test edebilirim.`,
+    failed: (reason) => `Bu backtest'i çalıştıramadım. ${reason}.`,
+  },
+
+  stats: {
+    askCoin: "Hangi kripto parayı kastediyorsunuz? Örneğin 'ethereum haftalık en yüksek ne' deyin.",
+    level: (p) =>
+      `${p.name} ${RANGES[p.range]} en ${p.level === 'high' ? 'yüksek' : 'düşük'} ${p.price} seviyesini ${p.date} tarihinde gördü. ` +
+      `Şu an ${p.now}, bu ${p.level === 'high' ? 'zirvenin' : 'dibin'} yüzde ${p.distancePercent.toFixed(2)} ${p.level === 'high' ? 'altında' : 'üstünde'}.`,
+    volume: (name, range, volume, unit) => `${name} ${RANGES[range]} ${Math.round(volume).toLocaleString('tr-TR')} ${unit} işlem gördü.`,
+    change: (name, range, changePercent, from, to) =>
+      `${name} ${RANGES[range]} ${change(changePercent)}; ${from} seviyesinden ${to} seviyesine geldi.`,
+    failed: (reason) => `Üzgünüm, buna bakamadım. ${reason}`,
+  },
+
+  depth: {
+    askCoin: "Hangi kripto parayı kastediyorsunuz? Örneğin 'bitcoin spread ne kadar' deyin.",
+    spread: (name, spread, spreadPercent, bestBid, bestAsk) =>
+      `${name} için spread ${spread}, yani yüzde ${spreadPercent.toFixed(3)}; en iyi alış ${bestBid}, en iyi satış ${bestAsk}.`,
+    imbalance: (name, bidSharePercent, deeper, bandPercent) =>
+      `${name} emir defterinin fiyatın yüzde ${bandPercent} yakınındaki kısmının yüzde ${bidSharePercent} kadarı alış, yüzde ${100 - bidSharePercent} kadarı satış emri; ` +
+      `${deeper === 'balanced' ? 'defter aşağı yukarı dengeli' : deeper === 'buy' ? 'alıcılar daha derin' : 'satıcılar daha derin'}.`,
+    wall: (name, side, wall, bandPercent) => {
+      const orders = side === 'buy' ? 'alış' : 'satış';
+      if (!wall) return `${name} için fiyatın yüzde ${bandPercent} yakınında hiç ${orders} emri yok.`;
+      return wall.standout
+        ? `${name} üzerindeki en büyük ${orders} duvarı ${wall.price} seviyesinde, fiyatın yüzde ${wall.distancePercent.toFixed(2)} ${side === 'buy' ? 'altında' : 'üstünde'}: ` +
+          `${wall.value} değerinde ${wall.amount}, tipik bir seviyenin yaklaşık ${Math.round(wall.multiple)} katı.`
+        : `Şu an ${name} üzerinde öne çıkan bir ${orders} duvarı yok. ` +
+          `Fiyatın yüzde ${bandPercent} yakınındaki en büyük ${orders} emri ${wall.price} seviyesinde ${wall.amount}.`;
+    },
+    tape: (name, tape) => {
+      if (!tape) return `Son ${name} işlemlerini bulamadım.`;
+      return `Son ${tape.count} ${name} işleminde hacmin yüzde ${tape.buySharePercent} kadarı alıştı. ` +
+        (tape.biggest
+          ? `${tape.largeTrades} tanesi ${tape.largeTradeValue} üzerinde büyük işlemdi; ` +
+            `en büyüğü ${tape.biggest.price} fiyatından ${tape.biggest.amount} ${tape.biggest.side === 'buy' ? 'alış' : 'satış'}.`
+          : 'Hiçbiri büyüklüğüyle öne çıkmadı.');
+    },
+    flow: (count, buySharePercent) => `Son ${count} işlemde hacmin yüzde ${buySharePercent} kadarı alıştı.`,
+    failed: (reason) => `Üzgünüm, emir defterine bakamadım. ${reason}`,
+  },
+
+  briefing: {
+    greeting: (slot) =>
+      slot === 'morning'
+        ? 'Günaydın. İşte sabah özetiniz.'
+        : slot === 'evening'
+          ? 'İyi akşamlar. İşte akşam özetiniz.'
+          : 'İşte piyasa özetiniz.',
+    watchlist: (coins) =>
+      `İzleme listenizde ${list(coins.map(coin => `${coin.name} ${coin.price}, ${change(coin.changePercent)}`))}.`,
+    movers: (gainers, losers) =>
+      `Piyasa genelinde en çok yükselenler ${list(gainers.map(coin => `${coin.name} ${change(coin.changePercent)}`))}` +
+      (losers.length > 0 ? `, en çok düşenler ${list(losers.map(coin => `${coin.name} ${change(coin.changePercent)}`))}` : '') + '.',
+    alerts: (fired) =>
+      fired.length === 0
+        ? 'Son özetten bu yana hiçbir fiyat alarmınız tetiklenmedi.'
+        : `Son özetten bu yana ${fired.length} alarm tetiklendi: ${list(fired)}.`,
+    portfolio: (p) =>
+      `Portföyünüzün değeri ${p.totalValue}; son 24 saatte ${change(p.change24hPercent)}, yani ${p.change24h}. ` +
+      `Gerçekleşmemiş ${p.inProfit ? 'kârınız' : 'zararınız'} ${p.pnl}.`,
+    nothing: 'Bildirilecek bir şey yok. Özet ayarlarından bazı bölümleri açın.',
+    failed: (reason) => `Özetinizi hazırlayamadım. ${reason}`,
+  },
+
+  market: {
+    askCompare: "Hangi coinleri karşılaştırayım? Örneğin 'bitcoin ve ethereum karşılaştır' deyin.",
+    comparison: ([leader, ...rest], best) =>
+      `Son 24 saatte ${leader.name} önde, ${change(leader.changePercent)}` +
+      rest.map(coin => `, ardından ${coin.name}, ${change(coin.changePercent)}`).join('') + '.' +
+      (best ? ` ${RANGES[best.range]} en iyi performansı ${best.coin.name} gösterdi, ${change(best.coin.changePercent)}.` : ''),
+    movers: (direction, movers) =>
+      `Son 24 saatin ${MOVERS[direction]} şunlar: ` +
+      movers.map(coin => `${coin.name}, ${change(coin.changePercent)}`).join('; ') + '.',
+    overview: (p) => {
+      const mood = p.averageChangePercent > 1 ? 'iyi bir gün' : p.averageChangePercent < -1 ? 'zor bir gün' : 'sakin bir gün';
+      return `Kripto için ${mood}. En çok işlem gören ${p.coins} coinden ${p.advancers} tanesi yükselişte, ${p.decliners} tanesi düşüşte, ` +
+        `ortalama hareket ${change(p.averageChangePercent)}. ` +
+        `En çok yükselen ${p.topGainer.name}, ${change(p.topGainer.changePercent)}, ` +
+        `en çok düşen ${p.topLoser.name}, ${change(p.topLoser.changePercent)}.`;
+    },
+    failed: (reason) => `Üzgünüm, piyasa verilerini alamadım. ${reason}`,
+  },
+
+  paper: {
+    amount: (name, quantity, value) =>
+      quantity !== null ? `${Number(quantity.toPrecision(4))} ${name}` : value !== null ? `${value} değerinde ${name}` : `tüm ${name} varlığınız`,
+    limitPlaced: (side, amount, price) =>
+      `${amount} için ${price} fiyatlı sanal limit ${SIDES[side]} emri verildi. Gerçekleşince size haber vereceğim.`,
+    filled: (p) => {
+      const amount = `${Number(p.quantity.toPrecision(4))} ${p.name} ${p.price} fiyattan`;
+      const details = p.side === 'buy'
+        ? `${amount} alındı, ${p.fee} komisyon dahil maliyeti ${p.total}.`
+        : `${amount} satıldı, ${p.fee} komisyon sonrası ${p.total} elde edildi; gerçekleşen ${p.inProfit ? 'kâr' : 'zarar'} ${p.realizedPnl}.`;
+      return `Sanal emir gerçekleşti. ${details} Sanal nakit bakiyeniz ${p.balance}.`;
+    },
+    limitFilled: (side, amount, price) =>
+      `Sanal limit ${SIDES[side]} emri gerçekleşti: ${amount} ${price} fiyattan ${side === 'buy' ? 'alındı' : 'satıldı'}.`,
+    limitRejected: (side, name, reason) =>
+      `${name} için sanal limit ${SIDES[side]} emriniz fiyatına ulaştı ama gerçekleştirilemedi. ${reason}.`,
+    summary: (p) =>
+      `Sanal hesabınızın değeri ${p.equity}, başlangıçtaki ${p.startingBalance} tutarına göre ${change(p.returnPercent)}. ` +
+      `Nakitte ${p.balance} ve ${p.positions} açık pozisyonunuz var` +
+      `${p.pending > 0 ? `, ayrıca ${p.pending} limit emri bekliyor` : ''}. ` +
+      `Gerçekleşen kâr ve zarar ${p.realizedPnl}, ödediğiniz komisyon ${p.fees}.`,
+    reset: (startingBalance) => `Sanal hesabınız ${startingBalance} bakiyeyle sıfırlandı.`,
+    cancelled: (count, name) => `${name ? `${name} için ` : ''}${count} sanal emri iptal ettim.`,
+    noOrders: (name) => (name ? `${name} için açık sanal emriniz yok.` : 'Açık sanal emriniz yok.'),
+    askCoin: "Hangi coin ile işlem yapayım? Örneğin '200 dolarlık solana al' deyin.",
+    askAmount: (name) => `Ne kadar ${name} alayım? Örneğin '200 dolarlık ${name} al' ya da '0.5 ${name} al' deyin.`,
+    askLimitPrice: (side, name) =>
+      `${name} için limit ${SIDES[side]} emri hangi fiyatı beklesin? Emri fiyatıyla birlikte tekrar söyleyin.`,
+    failed: (reason) => `Bu sanal emri veremedim. ${reason}.`,
+  },
+
+  chart: {
+    askCoin: "Hangi kripto paranın grafiğini göstereyim? Örneğin 'bitcoin 4 saatlik grafik göster' deyin.",
+    shown: (p) =>
+      `İşte ${p.name} için ${RANGES[p.range]} ${INTERVALS[p.interval]} ${p.chartType === 'candles' ? 'mum' : 'fiyat'} grafiği.` +
+      (p.adjusted ? ` Grafik okunaklı kalsın diye ${INTERVALS[p.interval]} mumlar kullandım.` : ''),
+    failed: (reason) => `Üzgünüm, bu grafiği yükleyemedim. ${reason}`,
+  },
+
+  currency: {
+    switched: (code, oneDollar) =>
+      `Tamam, görüntüleme para birimini ${unitName(code)} olarak değiştirdim.${oneDollar ? ` Bir ABD doları ${oneDollar} ediyor.` : ''}`,
+    failed: (reason) => `Fiyatları bu para biriminde gösteremiyorum. ${reason}.`,
+  },
+
+  question: {
+    noAnswer: 'Bu soruya bir cevabım yok. Başka bir şekilde sormayı deneyin.',
+    failed: (reason) => `Dil modelinden cevap alamadım. ${reason}`,
+  },
+
+  speech: {
+    currency: (whole, cents, code) => {
+      const [unit, subunit] = CURRENCY_NAMES[code] ?? [code, null];
+      return cents && subunit ? `${whole} ${unit} ${cents} ${subunit}` : `${whole} ${unit}`;
+    },
+    // Turkish puts the percent word first: "yüzde 5"
+    percent: (value) => `yüzde ${value}`,
+    decimalPoint: 'virgül',
+  },
+};
@@ -0,0 +1,30 @@
+import { FIAT_CURRENCIES } from '../market/fiat';
+import { SpeechWords } from './types';
+
+// Currency signs, longest first so "R$" is not read as "$"
+const CURRENCY_SIGNS = [...FIAT_CURRENCIES].sort((a, b) => b.sign.length - a.sign.length);
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const MONEY_PATTERN = new RegExp(`(${CURRENCY_SIGNS.map(currency => escapeRegExp(currency.sign)).join('|')})(\\d+)(?:\\.(\\d+))?`, 'g');
+
+// Rewrite amounts in a reply so the speech engine reads them naturally in the
+// reply's language: "€67,250.12" -> "67250 euros and 12 cents", "1.84%" ->
+// "1 point 84 percent" (or "yüzde 1 virgül 84", "1 Komma 84 Prozent").
+export const prepareSpeech = (text: string, words: SpeechWords): string => {
+  const decimal = (value: string) => value.replace(/(\d+)\.(\d+)/, (_, whole, fraction) => `${whole} ${words.decimalPoint} ${fraction}`);
+
+  return text
+    // English thousands separators would be read as decimal commas in Turkish and German
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    // Prices: two decimals are cents, finer prices (e.g. $0.000012) are read as decimals
+    .replace(MONEY_PATTERN, (_, sign: string, whole: string, fraction?: string) => {
+      const code = CURRENCY_SIGNS.find(currency => currency.sign === sign)?.code ?? 'USD';
+      return !fraction || fraction.length <= 2
+        ? words.currency(whole, fraction ? fraction.padEnd(2, '0') : null, code)
+        : words.currency(decimal(`${whole}.${fraction}`), null, code);
+    })
+    // Percentages written either way round ("5%" or Turkish "%5")
+    .replace(/(\d+(?:\.\d+)?)\s*%|%\s*(\d+(?:\.\d+)?)/g, (_, suffixed?: string, prefixed?: string) => words.percent(decimal(suffixed ?? prefixed ?? '')))
+    .replace(/(\d+)\.(\d+)/g, (_, whole, fraction) => `${whole} ${words.decimalPoint} ${fraction}`)
+    .replace(/\n/g, '. ') // Replace newlines with pauses
+    .replace(/\s+/g, ' '); // Normalize spaces
+};
@@ -0,0 +1,398 @@
+import { IndicatorReport, IndicatorSignal } from '../indicators';
+import type { AlertCondition } from '../alerts/types';
+import type { TradeSide } from '../portfolio/types';
+import type { ChartRange, ChartType } from '../market/timeframes';
+import type { KlineInterval } from '../market/types';
+import type { MoverDirection } from '../market/overview';
+import type { Strategy } from '../backtest/types';
+import type { BriefingSlot } from '../briefing/types';
+
+export type Locale = 'en' | 'tr' | 'de';
+
+export interface LocaleInfo {
+  id: Locale;
+  // Shown in the language picker, in the language itself
+  name: string;
+  // BCP 47 tag for speech recognition and synthesis
+  speechLang: string;
+  // Used for dates and times in replies
+  dateLocale: string;
+}
+
+// Direction of the overall trend in an analysis
+export type Trend = 'up' | 'down' | 'stable';
+
+export type AdviceKey =
+  | 'overboughtStretched'
+  | 'overbought'
+  | 'oversold'
+  | 'goldenCross'
+  | 'deathCross'
+  | 'bullish'
+  | 'bearish'
+  | 'bigRise'
+  | 'bigDrop'
+  | 'consolidating'
+  | 'neutral';
+
+export interface AnalysisParams {
+  name: string;
+  // Prices are already formatted ("$67250.12" or "0.0523 BTC")
+  price: string;
+  change: string;
+  changePercent: number;
+  high: string;
+  low: string;
+  // 24h turnover in millions of `currency`
+  volumeMillions: string;
+  // Currency the prices and volume are in, e.g. "EUR" (or a quote asset such as "BTC")
+  currency: string;
+  technicals: string[];
+  // Spoken order book and trade tape sentence, empty when they couldn't be fetched
+  orderFlow: string;
+  trend: Trend;
+  advice: string;
+}
+
+// Order book and recent trades behind the full analysis; prices are already formatted
+export interface OrderFlowParams {
+  spreadPercent: number;
+  // Share of the liquidity near the price that is resting bids, 0 to 100
+  bidSharePercent: number;
+  // Prices of walls that stand out from the rest of the book, if any
+  buyWall: string | null;
+  sellWall: string | null;
+  largeTrades: number;
+  // Share of the large trades' value that was buying, 0 to 100
+  largeBuySharePercent: number;
+}
+
+// How amounts are read aloud; the numbers themselves are left to the speech engine
+export interface SpeechWords {
+  // `code` is a display currency such as "USD" or "EUR"
+  currency: (whole: string, cents: string | null, code: string) => string;
+  percent: (value: string) => string;
+  decimalPoint: string;
+}
+
+// A coin's spoken name with its percentage change, for rankings and digests
+export interface CoinChange {
+  name: string;
+  changePercent: number;
+}
+
+// An alert as read aloud; `quote` is the quote asset of a non-dollar pair, null for dollars
+export interface AlertParams {
+  name: string;
+  condition: AlertCondition;
+  quote: string | null;
+}
+
+export interface AlertMessages {
+  // "Solana goes below 120 dollars", "Ethereum moves 5% within 1 hour"
+  describe: (alert: AlertParams) => string;
+  none: string;
+  list: (alerts: { description: string; paused: boolean }[]) => string;
+  askCoin: string;
+  askCondition: string;
+  created: (description: string) => string;
+  notFound: (action: 'pause' | 'resume' | 'delete') => string;
+  // `description` is set when a single alert changed, otherwise `count` alerts did
+  changed: (action: 'pause' | 'resume' | 'delete', description: string | null, count: number) => string;
+  // Prices are already formatted
+  triggeredMove: (name: string, changePercent: number, price: string) => string;
+  triggeredLevel: (name: string, direction: 'above' | 'below', price: string) => string;
+}
+
+// Money values are already formatted in the display currency
+export interface PortfolioSummaryParams {
+  holdings: number;
+  totalValue: string;
+  pnl: string;
+  pnlPercent: number;
+  inProfit: boolean;
+  cost: string;
+  change24h: string;
+  change24hPercent: number;
+  largest: string;
+  largestAllocationPercent: number;
+  // Unrealized P&L percent of the best and worst holdings, null with a single holding
+  best: CoinChange | null;
+  worst: CoinChange | null;
+}
+
+export interface PortfolioMessages {
+  empty: string;
+  summary: (params: PortfolioSummaryParams) => string;
+  askCoin: string;
+  removed: (name: string) => string;
+  askQuantity: (name: string, side: TradeSide) => string;
+  recordFailed: (reason: string) => string;
+  // `price` is null when the trade was priced at the market
+  recorded: (side: TradeSide, quantity: number, name: string, price: string | null) => string;
+}
+
+// A watchlist coin; the price is already formatted
+export interface WatchlistCoin extends CoinChange {
+  price: string;
+}
+
+export interface WatchlistMessages {
+  empty: string;
+  // `ranking` is set with three or more coins
+  digest: (coins: WatchlistCoin[], ranking: { strongest: string; weakest: string } | null) => string;
+  failed: (reason: string) => string;
+  askCoin: (action: 'add' | 'remove') => string;
+  added: (names: string[]) => string;
+  removed: (names: string[]) => string;
+  notListed: (names: string[]) => string;
+  alreadyListed: (names: string[]) => string;
+  full: (max: number) => string;
+}
+
+// Money values are already formatted in the display currency
+export interface BacktestResultParams {
+  // Spoken strategy, from `strategy`
+  strategy: string;
+  name: string;
+  durationMs: number;
+  // DCA results count purchases instead of round trips
+  dca: boolean;
+  trades: number;
+  capital: string;
+  finalEquity: string;
+  returnPercent: number;
+  buyAndHoldPercent: number;
+  maxDrawdownPercent: number;
+  winRate: number | null;
+  sharpe: number | null;
+}
+
+export interface BacktestMessages {
+  // `formatValue` formats a dollar amount in the display currency
+  strategy: (strategy: Strategy, formatValue: (usd: number) => string) => string;
+  result: (params: BacktestResultParams) => string;
+  askCoin: string;
+  askStrategy: (name: string) => string;
+  failed: (reason: string) => string;
+}
+
+// A high or low over a chart range; prices are already formatted and `date` is in the locale's format
+export interface StatLevelParams {
+  level: 'high' | 'low';
+  name: string;
+  range: ChartRange;
+  price: string;
+  date: string;
+  now: string;
+  // How far the price now is from the level
+  distancePercent: number;
+}
+
+export interface StatMessages {
+  askCoin: string;
+  level: (params: StatLevelParams) => string;
+  // `volume` is in `unit`, the coin's ticker
+  volume: (name: string, range: ChartRange, volume: number, unit: string) => string;
+  change: (name: string, range: ChartRange, changePercent: number, from: string, to: string) => string;
+  failed: (reason: string) => string;
+}
+
+// The largest resting order on one side of the book; prices and amounts are already formatted
+export interface DepthWall {
+  price: string;
+  distancePercent: number;
+  amount: string;
+  value: string;
+  // Size next to a typical level, and whether that makes it a wall
+  multiple: number;
+  standout: boolean;
+}
+
+export interface TradeTapeParams {
+  count: number;
+  // Share of the volume that was buying, 0 to 100
+  buySharePercent: number;
+  largeTrades: number;
+  largeTradeValue: string;
+  biggest: { side: TradeSide; amount: string; price: string } | null;
+}
+
+// Order book answers; `bandPercent` is how far from the price the book is read
+export interface DepthMessages {
+  askCoin: string;
+  spread: (name: string, spread: string, spreadPercent: number, bestBid: string, bestAsk: string) => string;
+  imbalance: (name: string, bidSharePercent: number, deeper: 'balanced' | TradeSide, bandPercent: number) => string;
+  // `wall` is null when that side of the book is empty
+  wall: (name: string, side: TradeSide, wall: DepthWall | null, bandPercent: number) => string;
+  // `tape` is null when no recent trades were found
+  tape: (name: string, tape: TradeTapeParams | null) => string;
+  // Buying share of the last trades, said after the imbalance
+  flow: (count: number, buySharePercent: number) => string;
+  failed: (reason: string) => string;
+}
+
+// Money values are already formatted in the display currency; `change24h` and `pnl` are unsigned
+export interface BriefingPortfolioParams {
+  totalValue: string;
+  change24h: string;
+  change24hPercent: number;
+  pnl: string;
+  inProfit: boolean;
+}
+
+// Sections of a spoken briefing, one short paragraph each
+export interface BriefingMessages {
+  // `slot` is null for a briefing asked for outside the schedule
+  greeting: (slot: BriefingSlot | null) => string;
+  // Ranked best first
+  watchlist: (coins: WatchlistCoin[]) => string;
+  movers: (gainers: CoinChange[], losers: CoinChange[]) => string;
+  // Descriptions of the alerts that fired since the last briefing, possibly none
+  alerts: (fired: string[]) => string;
+  portfolio: (params: BriefingPortfolioParams) => string;
+  nothing: string;
+  failed: (reason: string) => string;
+}
+
+// Money values are already formatted in the display currency
+export interface PaperFillParams {
+  side: TradeSide;
+  quantity: number;
+  name: string;
+  price: string;
+  // What a buy cost or a sale brought in, fee included
+  total: string;
+  fee: string;
+  // Unsigned realized profit or loss of a sale, null for a buy
+  realizedPnl: string | null;
+  inProfit: boolean;
+  balance: string;
+}
+
+// Money values are already formatted in the display currency
+export interface PaperSummaryParams {
+  equity: string;
+  returnPercent: number;
+  startingBalance: string;
+  balance: string;
+  positions: number;
+  pending: number;
+  realizedPnl: string;
+  fees: string;
+}
+
+// Paper trading replies; an order's `amount` is written by `amount` first
+export interface PaperMessages {
+  // `value` is set for an order sized in money, neither for selling everything
+  amount: (name: string, quantity: number | null, value: string | null) => string;
+  limitPlaced: (side: TradeSide, amount: string, price: string) => string;
+  filled: (params: PaperFillParams) => string;
+  limitFilled: (side: TradeSide, amount: string, price: string) => string;
+  limitRejected: (side: TradeSide, name: string, reason: string) => string;
+  summary: (params: PaperSummaryParams) => string;
+  reset: (startingBalance: string) => string;
+  // `name` is null when the orders on every coin were meant
+  cancelled: (count: number, name: string | null) => string;
+  noOrders: (name: string | null) => string;
+  askCoin: string;
+  askAmount: (name: string) => string;
+  askLimitPrice: (side: TradeSide, name: string) => string;
+  failed: (reason: string) => string;
+}
+
+export interface ChartParams {
+  name: string;
+  interval: KlineInterval;
+  chartType: ChartType;
+  range: ChartRange;
+  // Set when the interval asked for was swapped for one that suits the range
+  adjusted: boolean;
+}
+
+export interface ChartMessages {
+  askCoin: string;
+  shown: (params: ChartParams) => string;
+  failed: (reason: string) => string;
+}
+
+export interface CurrencyMessages {
+  // `oneDollar` is a US dollar in the new currency, already formatted, when the rate is known
+  switched: (code: string, oneDollar: string | null) => string;
+  failed: (reason: string) => string;
+}
+
+// Answers from the chat backend
+export interface QuestionMessages {
+  noAnswer: string;
+  failed: (reason: string) => string;
+}
+
+export interface MarketOverviewParams {
+  coins: number;
+  advancers: number;
+  decliners: number;
+  averageChangePercent: number;
+  topGainer: CoinChange;
+  topLoser: CoinChange;
+}
+
+export interface MarketMessages {
+  askCompare: string;
+  // Ranked best first; `best` is the strongest performer over the chart's range, if known
+  comparison: (ranked: CoinChange[], best: { range: ChartRange; coin: CoinChange } | null) => string;
+  movers: (direction: MoverDirection, movers: CoinChange[]) => string;
+  overview: (params: MarketOverviewParams) => string;
+  failed: (reason: string) => string;
+}
+
+// Every reply Jarvis speaks in a given language
+export interface Messages {
+  conversation: {
+    identity: string;
+    wellbeing: string[];
+    capabilities: string;
+    time: (time: string, date: string) => string;
+    weather: string;
+    jokes: string[];
+    thanks: string[];
+    goodbye: string[];
+    greeting: string;
+    help: string;
+  };
+  analysis: (params: AnalysisParams) => string;
+  // Price, 24h change and trend only, for the brief verbosity setting
+  briefAnalysis: (params: AnalysisParams) => string;
+  // Spoken form of one indicator signal
+  signal: (signal: IndicatorSignal, report: IndicatorReport) => string;
+  advice: Record<AdviceKey, string>;
+  volatility: (atrPercent: string) => string;
+  orderFlow: (params: OrderFlowParams) => string;
+  fetchFailed: (coin: string, reason: string) => string;
+  // A coin typed into a panel that the listing doesn't know
+  unknownCoin: (name: string) => string;
+  // A request that matched nothing
+  unknown: string;
+  stopListening: string;
+  // Asked to repeat before anything was said
+  repeat: string;
+  // Said before an analysis of cached figures when the exchange couldn't be reached
+  cachedData: (minutesOld: number) => string;
+  // Signed change for speech, e.g. "up 4.12%"
+  change: (percent: number) => string;
+  // "Bitcoin", "Bitcoin and Solana", "Bitcoin, Solana and Chainlink"
+  list: (items: string[]) => string;
+  alerts: AlertMessages;
+  portfolio: PortfolioMessages;
+  watchlist: WatchlistMessages;
+  backtest: BacktestMessages;
+  stats: StatMessages;
+  depth: DepthMessages;
+  briefing: BriefingMessages;
+  market: MarketMessages;
+  paper: PaperMessages;
+  chart: ChartMessages;
+  currency: CurrencyMessages;
+  question: QuestionMessages;
+  speech: SpeechWords;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Kline } from '../market/types';
+import { analyzeIndicators } from './analyze';
+
+const toKlines = (closes: number[]): Kline[] =>
+  closes.map((close, index) => ({
+    openTime: index * 3600000,
+    open: close,
+    high: close * 1.01,
+    low: close * 0.99,
+    close,
+    volume: 10,
+    closeTime: (index + 1) * 3600000 - 1,
+  }));
+
+const trend = (count: number, from: number, step: number) => Array.from({ length: count }, (_, index) => from + index * step);
+// Compounding moves, so the MACD keeps pulling away from its signal line
+const compound = (count: number, from: number, rate: number) => Array.from({ length: count }, (_, index) => from * (1 + rate) ** index);
+
+describe('analyzeIndicators', () => {
+  it('has nothing to say without candles', () => {
+    expect(analyzeIndicators([])).toBeNull();
+  });
+
+  it('leaves indicators that need more history null', () => {
+    const report = analyzeIndicators(toKlines(trend(10, 100, 1)))!;
+    expect(report.rsi).toBeNull();
+    expect(report.macd).toBeNull();
+    expect(report.sma).toBeNull();
+    expect(report.signals).toEqual([]);
+    expect(report.bias).toBe('neutral');
+  });
+
+  it('reads a steady rally as overbought but bullish on the averages', () => {
+    const report = analyzeIndicators(toKlines(compound(80, 100, 0.01)))!;
+    expect(report.rsi).toBe(100);
+    expect(report.signals.find(signal => signal.indicator === 'rsi')?.bias).toBe('bearish');
+    expect(report.sma).toMatchObject({ fastPeriod: 20, slowPeriod: 50, cross: null });
+    expect(report.sma!.fast).toBeGreaterThan(report.sma!.slow);
+    expect(report.bias).toBe('bullish');
+  });
+
+  it('reads an accelerating decline as oversold but bearish on the averages', () => {
+    const report = analyzeIndicators(toKlines(compound(80, 100, 0.01).map(price => 300 - price)))!;
+    expect(report.signals.find(signal => signal.indicator === 'rsi')?.bias).toBe('bullish');
+    expect(report.bias).toBe('bearish');
+  });
+
+  it('reports a golden cross when the 20-period average just crossed above the 50', () => {
+    // A long decline, then a sharp rally until the short average overtakes the long one
+    const closes = trend(60, 200, -1);
+    const report = (() => {
+      for (let price = closes[closes.length - 1]; ; price += 4) {
+        closes.push(price);
+        const next = analyzeIndicators(toKlines(closes))!;
+        if (next.sma && next.sma.fast > next.sma.slow) return next;
+      }
+    })();
+    expect(report.sma!.cross).toBe('golden');
+    expect(report.signals.some(signal => signal.description.includes('golden cross'))).toBe(true);
+  });
+
+  it('uses the RSI thresholds it is given', () => {
+    const klines = toKlines(trend(80, 100, 1));
+    const lenient = analyzeIndicators(klines, { rsiOverbought: 101, rsiOversold: 0 })!;
+    expect(lenient.signals.find(signal => signal.indicator === 'rsi')?.bias).toBe('neutral');
+  });
+
+  it('reports the ATR as a share of the price', () => {
+    const report = analyzeIndicators(toKlines(Array(30).fill(100)))!;
+    // Every candle spans 99 to 101
+    expect(report.atrPercent).toBeCloseTo(2);
+  });
+});
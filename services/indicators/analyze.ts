@@ -0,0 +1,169 @@
+import { Kline } from '../market/types';
+import { BollingerPoint, MacdPoint, atr, bollinger, ema, macd, rsi, sma } from './series';
+
+export type Bias = 'bullish' | 'bearish' | 'neutral';
+
+export interface IndicatorSignal {
+  indicator: 'rsi' | 'macd' | 'sma' | 'ema' | 'bollinger' | 'atr';
+  bias: Bias;
+  // Sentence fragment for speech, e.g. "RSI is 78, overbought"
+  description: string;
+}
+
+export interface MovingAverageCross {
+  fast: number;
+  slow: number;
+  fastPeriod: number;
+  slowPeriod: number;
+  // Set when the averages crossed within the last few candles
+  cross: 'golden' | 'death' | null;
+}
+
+export interface IndicatorReport {
+  price: number;
+  rsi: number | null;
+  macd: MacdPoint | null;
+  sma: MovingAverageCross | null;
+  ema: MovingAverageCross | null;
+  bollinger: (BollingerPoint & { percentB: number }) | null;
+  atr: number | null;
+  // ATR as a percentage of the price
+  atrPercent: number | null;
+  signals: IndicatorSignal[];
+  // Average of the directional signals, from -1 (bearish) to 1 (bullish)
+  score: number;
+  bias: Bias;
+}
+
+export const RSI_OVERBOUGHT = 70;
+export const RSI_OVERSOLD = 30;
+
+// RSI levels that count as overbought/oversold, adjustable in the settings
+export interface IndicatorThresholds {
+  rsiOverbought: number;
+  rsiOversold: number;
+}
+
+export const DEFAULT_INDICATOR_THRESHOLDS: IndicatorThresholds = {
+  rsiOverbought: RSI_OVERBOUGHT,
+  rsiOversold: RSI_OVERSOLD,
+};
+// ATR above this share of the price counts as high volatility
+export const HIGH_VOLATILITY_ATR_PERCENT = 5;
+// A moving-average cross is "recent" within this many candles
+const RECENT_CROSS_CANDLES = 3;
+
+const last = <T>(series: (T | null)[]): T | null => series[series.length - 1] ?? null;
+
+const movingAverageCross = (fastSeries: (number | null)[], slowSeries: (number | null)[], fastPeriod: number, slowPeriod: number): MovingAverageCross | null => {
+  const fast = last(fastSeries);
+  const slow = last(slowSeries);
+  if (fast === null || slow === null) return null;
+
+  let cross: MovingAverageCross['cross'] = null;
+  for (let offset = 1; offset <= RECENT_CROSS_CANDLES; offset++) {
+    const index = fastSeries.length - offset;
+    const previousFast = fastSeries[index - 1];
+    const previousSlow = slowSeries[index - 1];
+    const currentFast = fastSeries[index];
+    const currentSlow = slowSeries[index];
+    if (previousFast == null || previousSlow == null || currentFast == null || currentSlow == null) break;
+    if (previousFast <= previousSlow && currentFast > currentSlow) cross = 'golden';
+    if (previousFast >= previousSlow && currentFast < currentSlow) cross = 'death';
+    if (cross) break;
+  }
+
+  return { fast, slow, fastPeriod, slowPeriod, cross };
+};
+
+const crossSignal = (indicator: 'sma' | 'ema', label: string, value: MovingAverageCross): IndicatorSignal => {
+  const name = `${value.fastPeriod}-period ${label}`;
+  const slowName = `${value.slowPeriod}-period`;
+  if (value.cross === 'golden') {
+    return { indicator, bias: 'bullish', description: `the ${name} just crossed above the ${slowName}, a golden cross` };
+  }
+  if (value.cross === 'death') {
+    return { indicator, bias: 'bearish', description: `the ${name} just crossed below the ${slowName}, a death cross` };
+  }
+  return value.fast > value.slow
+    ? { indicator, bias: 'bullish', description: `the ${name} is above the ${slowName}` }
+    : { indicator, bias: 'bearish', description: `the ${name} is below the ${slowName}` };
+};
+
+// Compute every indicator on the candles and turn them into directional signals.
+// Indicators that need more history than is available are left null.
+export const analyzeIndicators = (klines: Kline[], thresholds: IndicatorThresholds = DEFAULT_INDICATOR_THRESHOLDS): IndicatorReport | null => {
+  if (klines.length === 0) return null;
+
+  const closes = klines.map(candle => candle.close);
+  const price = closes[closes.length - 1];
+  const signals: IndicatorSignal[] = [];
+
+  const rsiValue = last(rsi(closes));
+  if (rsiValue !== null) {
+    const rounded = Math.round(rsiValue);
+    if (rsiValue >= thresholds.rsiOverbought) {
+      signals.push({ indicator: 'rsi', bias: 'bearish', description: `RSI is ${rounded}, overbought` });
+    } else if (rsiValue <= thresholds.rsiOversold) {
+      signals.push({ indicator: 'rsi', bias: 'bullish', description: `RSI is ${rounded}, oversold` });
+    } else {
+      signals.push({ indicator: 'rsi', bias: 'neutral', description: `RSI is ${rounded}, in neutral territory` });
+    }
+  }
+
+  const macdValue = last(macd(closes));
+  if (macdValue) {
+    signals.push(macdValue.histogram >= 0
+      ? { indicator: 'macd', bias: 'bullish', description: 'MACD is above its signal line' }
+      : { indicator: 'macd', bias: 'bearish', description: 'MACD is below its signal line' });
+  }
+
+  const smaCross = movingAverageCross(sma(closes, 20), sma(closes, 50), 20, 50);
+  if (smaCross) signals.push(crossSignal('sma', 'simple moving average', smaCross));
+
+  const emaCross = movingAverageCross(ema(closes, 12), ema(closes, 26), 12, 26);
+  if (emaCross) signals.push(crossSignal('ema', 'exponential moving average', emaCross));
+
+  const bands = last(bollinger(closes));
+  const bollingerValue = bands
+    ? { ...bands, percentB: bands.upper === bands.lower ? 0.5 : (price - bands.lower) / (bands.upper - bands.lower) }
+    : null;
+  if (bollingerValue) {
+    if (price > bollingerValue.upper) {
+      signals.push({ indicator: 'bollinger', bias: 'bearish', description: 'the price is above the upper Bollinger band, stretched to the upside' });
+    } else if (price < bollingerValue.lower) {
+      signals.push({ indicator: 'bollinger', bias: 'bullish', description: 'the price is below the lower Bollinger band, stretched to the downside' });
+    } else {
+      signals.push({ indicator: 'bollinger', bias: 'neutral', description: 'the price is inside its Bollinger bands' });
+    }
+  }
+
+  const atrValue = last(atr(klines));
+  const atrPercent = atrValue !== null && price > 0 ? (atrValue / price) * 100 : null;
+  if (atrPercent !== null) {
+    signals.push({
+      indicator: 'atr',
+      bias: 'neutral',
+      description: `the average true range is ${atrPercent.toFixed(1)}% of the price, so volatility is ${atrPercent >= HIGH_VOLATILITY_ATR_PERCENT ? 'high' : 'moderate'}`,
+    });
+  }
+
+  const directional = signals.filter(signal => signal.indicator !== 'atr');
+  const score = directional.length
+    ? directional.reduce((sum, signal) => sum + (signal.bias === 'bullish' ? 1 : signal.bias === 'bearish' ? -1 : 0), 0) / directional.length
+    : 0;
+
+  return {
+    price,
+    rsi: rsiValue,
+    macd: macdValue,
+    sma: smaCross,
+    ema: emaCross,
+    bollinger: bollingerValue,
+    atr: atrValue,
+    atrPercent,
+    signals,
+    score,
+    bias: score > 0.25 ? 'bullish' : score < -0.25 ? 'bearish' : 'neutral',
+  };
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { Kline } from '../market/types';
+import { atr, bollinger, ema, macd, rsi, sma } from './series';
+
+const candle = (close: number, range = 2, index = 0): Kline => ({
+  openTime: index * 60000,
+  open: close,
+  high: close + range / 2,
+  low: close - range / 2,
+  close,
+  volume: 1,
+  closeTime: index * 60000 + 59999,
+});
+
+const last = <T>(series: T[]): T => series[series.length - 1];
+
+const rising = (count: number, from = 100) => Array.from({ length: count }, (_, index) => from + index);
+
+describe('sma', () => {
+  it('averages the last `period` values and is null before that', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+});
+
+describe('ema', () => {
+  it('is seeded with the SMA and then smoothed', () => {
+    // k = 2 / (3 + 1) = 0.5
+    expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    expect(ema([2, 4, 6, 12], 3)).toEqual([null, null, 4, 8]);
+  });
+});
+
+describe('rsi', () => {
+  it('is null until a full period of changes has been seen', () => {
+    const values = rsi(rising(15), 14);
+    expect(values.slice(0, 14).every(value => value === null)).toBe(true);
+    expect(values[14]).not.toBeNull();
+  });
+
+  it('is 100 with only gains, 0 with only losses and 50 when flat', () => {
+    expect(last(rsi(rising(20)))).toBe(100);
+    expect(last(rsi(rising(20).reverse()))).toBe(0);
+    expect(last(rsi(Array(20).fill(100)))).toBe(50);
+  });
+
+  it('matches the gain/loss ratio with Wilder smoothing', () => {
+    // Alternating +2 / -1 moves: average gain 1, average loss 0.5 over an even window
+    const closes = [100];
+    for (let index = 0; index < 28; index++) closes.push(closes[index] + (index % 2 === 0 ? 2 : -1));
+    const value = last(rsi(closes, 14))!;
+    expect(value).toBeGreaterThan(60);
+    expect(value).toBeLessThan(72);
+  });
+});
+
+describe('macd', () => {
+  it('starts once the slow EMA and the signal line have enough values', () => {
+    const points = macd(rising(40));
+    // Slow EMA from index 25, signal EMA of that from 8 values later
+    expect(points[32]).toBeNull();
+    expect(points[33]).not.toBeNull();
+  });
+
+  it('is positive in an uptrend and flat for a constant price', () => {
+    expect(last(macd(rising(60)))!.macd).toBeGreaterThan(0);
+    expect(last(macd(Array(60).fill(50)))).toEqual({ macd: 0, signal: 0, histogram: 0 });
+  });
+
+  it('is all null with too little history', () => {
+    expect(macd(rising(10)).every(point => point === null)).toBe(true);
+  });
+});
+
+describe('bollinger', () => {
+  it('collapses onto the average for a constant price', () => {
+    expect(last(bollinger(Array(20).fill(10)))).toEqual({ upper: 10, middle: 10, lower: 10 });
+  });
+
+  it('puts the bands two population standard deviations from the SMA', () => {
+    // Mean 3, population standard deviation sqrt(2)
+    const band = last(bollinger([1, 2, 3, 4, 5], 5))!;
+    expect(band.middle).toBe(3);
+    expect(band.upper).toBeCloseTo(3 + 2 * Math.SQRT2);
+    expect(band.lower).toBeCloseTo(3 - 2 * Math.SQRT2);
+  });
+});
+
+describe('atr', () => {
+  it('averages the candle ranges when there are no gaps', () => {
+    const klines = Array.from({ length: 20 }, (_, index) => candle(100, 4, index));
+    expect(last(atr(klines))).toBe(4);
+  });
+
+  it('counts a gap from the previous close in the true range', () => {
+    const klines = [candle(100, 2, 0), candle(110, 2, 1)];
+    // high 111 - previous close 100
+    expect(last(atr(klines, 2))).toBe((2 + 11) / 2);
+  });
+});
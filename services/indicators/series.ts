@@ -0,0 +1,114 @@
+import { Kline } from '../market/types';
+
+// Indicator series are aligned with their input: entry i belongs to candle i,
+// and is null until enough candles have been seen.
+export type Series = (number | null)[];
+
+export const sma = (values: number[], period: number): Series => {
+  let sum = 0;
+  return values.map((value, index) => {
+    sum += value;
+    if (index >= period) sum -= values[index - period];
+    return index >= period - 1 ? sum / period : null;
+  });
+};
+
+// Exponential moving average, seeded with the SMA of the first `period` values
+export const ema = (values: number[], period: number): Series => {
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  return values.map((value, index) => {
+    if (index < period - 1) return null;
+    if (previous === null) {
+      previous = values.slice(0, period).reduce((sum, item) => sum + item, 0) / period;
+    } else {
+      previous = value * k + previous * (1 - k);
+    }
+    return previous;
+  });
+};
+
+// Wilder's smoothing, as used by RSI and ATR
+const wilder = (values: number[], period: number, offset: number): Series => {
+  let previous: number | null = null;
+  return values.map((value, index) => {
+    if (index < offset + period - 1) return null;
+    if (previous === null) {
+      previous = values.slice(offset, offset + period).reduce((sum, item) => sum + item, 0) / period;
+    } else {
+      previous = (previous * (period - 1) + value) / period;
+    }
+    return previous;
+  });
+};
+
+// Relative Strength Index (0-100)
+export const rsi = (closes: number[], period = 14): Series => {
+  const gains = closes.map((close, index) => (index === 0 ? 0 : Math.max(close - closes[index - 1], 0)));
+  const losses = closes.map((close, index) => (index === 0 ? 0 : Math.max(closes[index - 1] - close, 0)));
+  const averageGain = wilder(gains, period, 1);
+  const averageLoss = wilder(losses, period, 1);
+
+  return closes.map((_, index) => {
+    const gain = averageGain[index];
+    const loss = averageLoss[index];
+    if (gain === null || loss === null) return null;
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+};
+
+export interface MacdPoint {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+// MACD line (fast EMA - slow EMA), its signal EMA and the histogram
+export const macd = (closes: number[], fast = 12, slow = 26, signal = 9): (MacdPoint | null)[] => {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line = closes.map((_, index) => {
+    const fastValue = fastEma[index];
+    const slowValue = slowEma[index];
+    return fastValue === null || slowValue === null ? null : fastValue - slowValue;
+  });
+
+  const start = line.findIndex(value => value !== null);
+  if (start === -1) return closes.map(() => null);
+
+  const signalLine = ema(line.slice(start) as number[], signal);
+  return line.map((value, index) => {
+    const signalValue = index >= start ? signalLine[index - start] : null;
+    if (value === null || signalValue === null) return null;
+    return { macd: value, signal: signalValue, histogram: value - signalValue };
+  });
+};
+
+export interface BollingerPoint {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+// Bollinger Bands: SMA +/- `multiplier` population standard deviations
+export const bollinger = (closes: number[], period = 20, multiplier = 2): (BollingerPoint | null)[] => {
+  const middle = sma(closes, period);
+  return closes.map((_, index) => {
+    const mean = middle[index];
+    if (mean === null) return null;
+    const window = closes.slice(index - period + 1, index + 1);
+    const deviation = Math.sqrt(window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period);
+    return { upper: mean + multiplier * deviation, middle: mean, lower: mean - multiplier * deviation };
+  });
+};
+
+// Average True Range with Wilder's smoothing
+export const atr = (klines: Kline[], period = 14): Series => {
+  const trueRanges = klines.map((candle, index) => {
+    if (index === 0) return candle.high - candle.low;
+    const previousClose = klines[index - 1].close;
+    return Math.max(candle.high - candle.low, Math.abs(candle.high - previousClose), Math.abs(candle.low - previousClose));
+  });
+  return wilder(trueRanges, period, 0);
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { mockFetch } from '../../test/fetch';
+import { binanceProvider } from './binance';
+
+const TICKER = {
+  symbol: 'BTCUSDT',
+  priceChange: '1215.05',
+  priceChangePercent: '1.840',
+  lastPrice: '67250.12',
+  volume: '18542.30',
+  highPrice: '68078.86',
+  lowPrice: '65036.16',
+  // Fields the app doesn't use are dropped
+  weightedAvgPrice: '66800.00',
+};
+
+describe('binanceProvider', () => {
+  it('fetches a 24h ticker', async () => {
+    const fetchMock = mockFetch([[/ticker\/24hr\?symbol=BTCUSDT/, TICKER]]);
+
+    const ticker = await binanceProvider.getTicker('BTCUSDT');
+
+    expect(String(fetchMock.mock.calls[0][0])).toBe('https://api.binance.com/api/v3/ticker/24hr?symbol=BTCUSDT');
+    expect(ticker).toEqual({
+      symbol: 'BTCUSDT',
+      priceChange: '1215.05',
+      priceChangePercent: '1.840',
+      lastPrice: '67250.12',
+      volume: '18542.30',
+      highPrice: '68078.86',
+      lowPrice: '65036.16',
+    });
+  });
+
+  it('turns kline arrays into candles and passes the query on', async () => {
+    const fetchMock = mockFetch([[/\/klines\?/, [[1700000000000, '100.0', '110.0', '95.0', '105.0', '12.5', 1700003599999, '0', 0, '0', '0', '0']]]]);
+
+    const candles = await binanceProvider.getKlines('ETHUSDT', { interval: '1h', startTime: 1700000000000, limit: 10 });
+
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(Object.fromEntries(url.searchParams)).toEqual({ symbol: 'ETHUSDT', interval: '1h', startTime: '1700000000000', limit: '10' });
+    expect(candles).toEqual([{ openTime: 1700000000000, open: 100, high: 110, low: 95, close: 105, volume: 12.5, closeTime: 1700003599999 }]);
+  });
+
+  it('reads the order book levels as numbers, best first', async () => {
+    mockFetch([[/\/depth\?/, { bids: [['99.5', '2'], ['99.0', '1']], asks: [['100.5', '3']] }]]);
+
+    const book = await binanceProvider.getOrderBook('BTCUSDT', 20);
+
+    expect(book.bids).toEqual([{ price: 99.5, quantity: 2 }, { price: 99, quantity: 1 }]);
+    expect(book.asks).toEqual([{ price: 100.5, quantity: 3 }]);
+  });
+
+  it('fails without retrying when the exchange rejects the symbol', async () => {
+    const fetchMock = mockFetch([[/ticker/, { code: -1121, msg: 'Invalid symbol.' }, 400]]);
+
+    await expect(binanceProvider.getTicker('NOPEUSDT')).rejects.toThrow('Failed to fetch data for NOPEUSDT');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
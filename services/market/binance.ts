@@ -0,0 +1,216 @@
+import { fetchJson } from './http';
+import { createReconnectingSocket } from './stream';
+import {
+  CryptoData,
+  Kline,
+  KlineInterval,
+  KlineQuery,
+  MarketDataProvider,
+  MarketStreamHandlers,
+  MarketTrade,
+  ORDER_BOOK_DEPTH,
+  OrderBook,
+  OrderBookLevel,
+  RECENT_TRADES_LIMIT,
+  SymbolInfo,
+  TradeStreamHandlers,
+} from './types';
+
+const BASE_URL = 'https://api.binance.com/api/v3';
+const STREAM_URL = 'wss://stream.binance.com:9443/stream';
+
+// Binance klines format: [openTime, open, high, low, close, volume, closeTime, ...]
+type BinanceKline = [number, string, string, string, string, string, number, ...unknown[]];
+
+// Combined stream envelope: { stream: "btcusdt@ticker", data: {...} }
+interface BinanceStreamMessage {
+  stream: string;
+  data: {
+    e: string;
+    // 24hrTicker fields
+    p?: string;
+    P?: string;
+    c?: string;
+    v?: string;
+    h?: string;
+    l?: string;
+    // kline payload
+    k?: { t: number; T: number; o: string; h: string; l: string; c: string; v: string };
+    // aggTrade fields (m: the buyer was the maker, so the taker sold)
+    a?: number;
+    q?: string;
+    T?: number;
+    m?: boolean;
+  };
+}
+
+// Depth levels as [price, quantity] strings
+type BinanceLevel = [string, string];
+
+interface BinanceTrade {
+  id: number;
+  price: string;
+  qty: string;
+  time: number;
+  isBuyerMaker: boolean;
+}
+
+// REST 24hr ticker fields used by the app
+interface BinanceTicker {
+  symbol: string;
+  priceChange: string;
+  priceChangePercent: string;
+  lastPrice: string;
+  volume: string;
+  highPrice: string;
+  lowPrice: string;
+}
+
+const toCryptoData = (data: BinanceTicker): CryptoData => ({
+  symbol: data.symbol,
+  priceChange: data.priceChange,
+  priceChangePercent: data.priceChangePercent,
+  lastPrice: data.lastPrice,
+  volume: data.volume,
+  highPrice: data.highPrice,
+  lowPrice: data.lowPrice,
+});
+
+const toLevels = (levels: BinanceLevel[]): OrderBookLevel[] =>
+  levels.map(([price, quantity]) => ({ price: parseFloat(price), quantity: parseFloat(quantity) }));
+
+// Binance only accepts these depth sizes
+const DEPTH_LIMITS = [5, 10, 20, 50, 100, 500, 1000, 5000];
+
+export const binanceProvider: MarketDataProvider = {
+  id: 'binance',
+  name: 'Binance',
+  maxKlinesPerRequest: 1000,
+
+  async getTicker(symbol: string): Promise<CryptoData> {
+    const data = await fetchJson<BinanceTicker>(`${BASE_URL}/ticker/24hr?symbol=${symbol}`, {
+      errorMessage: `Failed to fetch data for ${symbol}`,
+    });
+
+    return { ...toCryptoData(data), symbol };
+  },
+
+  async getTickers(symbols?: string[]): Promise<CryptoData[]> {
+    const query = symbols ? `?symbols=${encodeURIComponent(JSON.stringify(symbols))}` : '';
+    const data = await fetchJson<BinanceTicker[]>(`${BASE_URL}/ticker/24hr${query}`, {
+      errorMessage: 'Failed to fetch market tickers',
+    });
+
+    return data.map(toCryptoData);
+  },
+
+  async getKlines(symbol: string, query: KlineQuery): Promise<Kline[]> {
+    const params = new URLSearchParams({ symbol, interval: query.interval });
+    if (query.startTime !== undefined) params.set('startTime', String(query.startTime));
+    if (query.endTime !== undefined) params.set('endTime', String(query.endTime));
+    if (query.limit !== undefined) params.set('limit', String(query.limit));
+
+    const data = await fetchJson<BinanceKline[]>(`${BASE_URL}/klines?${params}`, {
+      errorMessage: `Failed to fetch historical data for ${symbol}`,
+    });
+
+    return data.map(item => ({
+      openTime: item[0],
+      open: parseFloat(item[1]),
+      high: parseFloat(item[2]),
+      low: parseFloat(item[3]),
+      close: parseFloat(item[4]),
+      volume: parseFloat(item[5]),
+      closeTime: item[6],
+    }));
+  },
+
+  async getSymbols(): Promise<SymbolInfo[]> {
+    // The listing is large, so it gets longer than the other requests
+    const data = await fetchJson<{ symbols: (SymbolInfo & { status: string })[] }>(`${BASE_URL}/exchangeInfo?permissions=SPOT`, {
+      errorMessage: 'Failed to fetch the list of trading pairs',
+      timeoutMs: 20000,
+    });
+
+    return data.symbols
+      .filter(item => item.status === 'TRADING')
+      .map(({ symbol, baseAsset, quoteAsset }) => ({ symbol, baseAsset, quoteAsset }));
+  },
+
+  async getOrderBook(symbol: string, limit = ORDER_BOOK_DEPTH): Promise<OrderBook> {
+    const size = DEPTH_LIMITS.find(allowed => allowed >= limit) ?? DEPTH_LIMITS[DEPTH_LIMITS.length - 1];
+    const data = await fetchJson<{ bids: BinanceLevel[]; asks: BinanceLevel[] }>(`${BASE_URL}/depth?symbol=${symbol}&limit=${size}`, {
+      errorMessage: `Failed to fetch the order book for ${symbol}`,
+    });
+
+    return { symbol, bids: toLevels(data.bids).slice(0, limit), asks: toLevels(data.asks).slice(0, limit), time: Date.now() };
+  },
+
+  async getRecentTrades(symbol: string, limit = RECENT_TRADES_LIMIT): Promise<MarketTrade[]> {
+    const data = await fetchJson<BinanceTrade[]>(`${BASE_URL}/trades?symbol=${symbol}&limit=${limit}`, {
+      errorMessage: `Failed to fetch recent trades for ${symbol}`,
+    });
+
+    return data.map(trade => ({
+      id: String(trade.id),
+      price: parseFloat(trade.price),
+      quantity: parseFloat(trade.qty),
+      time: trade.time,
+      side: trade.isBuyerMaker ? 'sell' : 'buy',
+    }));
+  },
+
+  subscribe(symbol: string, interval: KlineInterval, handlers: MarketStreamHandlers): () => void {
+    const stream = symbol.toLowerCase();
+
+    return createReconnectingSocket({
+      url: `${STREAM_URL}?streams=${stream}@ticker/${stream}@kline_${interval}`,
+      onStatus: handlers.onStatus,
+      onMessage: (message) => {
+        const { data } = message as BinanceStreamMessage;
+
+        if (data.e === '24hrTicker') {
+          handlers.onTicker({
+            symbol,
+            priceChange: data.p ?? '0',
+            priceChangePercent: data.P ?? '0',
+            lastPrice: data.c ?? '0',
+            volume: data.v ?? '0',
+            highPrice: data.h ?? '0',
+            lowPrice: data.l ?? '0',
+          });
+        } else if (data.e === 'kline' && data.k) {
+          handlers.onKline({
+            openTime: data.k.t,
+            open: parseFloat(data.k.o),
+            high: parseFloat(data.k.h),
+            low: parseFloat(data.k.l),
+            close: parseFloat(data.k.c),
+            volume: parseFloat(data.k.v),
+            closeTime: data.k.T,
+          });
+        }
+      },
+    });
+  },
+
+  subscribeTrades(symbol: string, handlers: TradeStreamHandlers): () => void {
+    return createReconnectingSocket({
+      url: `${STREAM_URL}?streams=${symbol.toLowerCase()}@aggTrade`,
+      onStatus: handlers.onStatus,
+      onMessage: (message) => {
+        const { data } = message as BinanceStreamMessage;
+
+        if (data.e === 'aggTrade') {
+          handlers.onTrade({
+            id: String(data.a),
+            price: parseFloat(data.p ?? '0'),
+            quantity: parseFloat(data.q ?? '0'),
+            time: data.T ?? Date.now(),
+            side: data.m ? 'sell' : 'buy',
+          });
+        }
+      },
+    });
+  },
+};
@@ -0,0 +1,226 @@
+import { fetchJson } from './http';
+import { createReconnectingSocket } from './stream';
+import {
+  CryptoData,
+  INTERVAL_MS,
+  Kline,
+  KlineInterval,
+  KlineQuery,
+  MarketDataProvider,
+  MarketStreamHandlers,
+  MarketTrade,
+  ORDER_BOOK_DEPTH,
+  OrderBook,
+  OrderBookLevel,
+  RECENT_TRADES_LIMIT,
+  SymbolInfo,
+  TradeStreamHandlers,
+} from './types';
+
+const BASE_URL = 'https://api.bybit.com/v5/market';
+const STREAM_URL = 'wss://stream.bybit.com/v5/public/spot';
+
+// Bybit closes idle public connections unless pinged roughly every 20 seconds
+const PING_INTERVAL_MS = 20000;
+// Largest spot order book and trade list Bybit returns
+const MAX_DEPTH = 200;
+const MAX_RECENT_TRADES = 60;
+
+// Bybit uses its own interval codes (minutes, or D/W)
+const INTERVAL_CODES: Record<KlineInterval, string> = {
+  '1h': '60',
+  '4h': '240',
+  '1d': 'D',
+  '1w': 'W',
+};
+
+// Bybit kline format: [startTime, open, high, low, close, volume, turnover], newest first
+type BybitKline = [string, string, string, string, string, string, string];
+
+// Bybit reports the previous price and a fractional change instead of absolute/percent values
+const toCryptoData = (symbol: string, ticker: Record<string, string>): CryptoData => {
+  const lastPrice = parseFloat(ticker.lastPrice);
+  const prevPrice = parseFloat(ticker.prevPrice24h);
+
+  return {
+    symbol,
+    priceChange: String(lastPrice - prevPrice),
+    priceChangePercent: (parseFloat(ticker.price24hPcnt) * 100).toFixed(3),
+    lastPrice: ticker.lastPrice,
+    volume: ticker.volume24h,
+    highPrice: ticker.highPrice24h,
+    lowPrice: ticker.lowPrice24h,
+  };
+};
+
+const toLevels = (levels: [string, string][]): OrderBookLevel[] =>
+  levels.map(([price, quantity]) => ({ price: parseFloat(price), quantity: parseFloat(quantity) }));
+
+// Bybit wraps every response in { retCode, retMsg, result }
+const request = async <T>(path: string, params: URLSearchParams, errorMessage: string): Promise<T> => {
+  const body = await fetchJson<{ retCode: number; retMsg: string; result: unknown }>(`${BASE_URL}/${path}?${params}`, { errorMessage });
+
+  if (body.retCode !== 0) {
+    throw new Error(`${errorMessage}: ${body.retMsg}`);
+  }
+
+  return body.result as T;
+};
+
+export const bybitProvider: MarketDataProvider = {
+  id: 'bybit',
+  name: 'Bybit',
+  maxKlinesPerRequest: 1000,
+
+  async getTicker(symbol: string): Promise<CryptoData> {
+    const params = new URLSearchParams({ category: 'spot', symbol });
+    const result = await request<{ list: Record<string, string>[] }>('tickers', params, `Failed to fetch data for ${symbol}`);
+    const ticker = result.list[0];
+
+    if (!ticker) {
+      throw new Error(`Failed to fetch data for ${symbol}`);
+    }
+
+    return toCryptoData(symbol, ticker);
+  },
+
+  // The spot tickers endpoint returns every pair at once, so filter locally
+  async getTickers(symbols?: string[]): Promise<CryptoData[]> {
+    const params = new URLSearchParams({ category: 'spot' });
+    const result = await request<{ list: Record<string, string>[] }>('tickers', params, 'Failed to fetch market tickers');
+    const wanted = symbols ? new Set(symbols) : null;
+
+    return result.list
+      .filter(ticker => !wanted || wanted.has(ticker.symbol))
+      .map(ticker => toCryptoData(ticker.symbol, ticker));
+  },
+
+  async getKlines(symbol: string, query: KlineQuery): Promise<Kline[]> {
+    const params = new URLSearchParams({ category: 'spot', symbol, interval: INTERVAL_CODES[query.interval] });
+    if (query.startTime !== undefined) params.set('start', String(query.startTime));
+    if (query.endTime !== undefined) params.set('end', String(query.endTime));
+    if (query.limit !== undefined) params.set('limit', String(query.limit));
+
+    const result = await request<{ list: BybitKline[] }>('kline', params, `Failed to fetch historical data for ${symbol}`);
+
+    return result.list
+      .map(item => {
+        const openTime = parseInt(item[0], 10);
+        return {
+          openTime,
+          open: parseFloat(item[1]),
+          high: parseFloat(item[2]),
+          low: parseFloat(item[3]),
+          close: parseFloat(item[4]),
+          volume: parseFloat(item[5]),
+          closeTime: openTime + INTERVAL_MS[query.interval] - 1,
+        };
+      })
+      .reverse();
+  },
+
+  async getSymbols(): Promise<SymbolInfo[]> {
+    const params = new URLSearchParams({ category: 'spot' });
+    const result = await request<{ list: { symbol: string; baseCoin: string; quoteCoin: string; status: string }[] }>(
+      'instruments-info',
+      params,
+      'Failed to fetch the list of trading pairs'
+    );
+
+    return result.list
+      .filter(item => item.status === 'Trading')
+      .map(item => ({ symbol: item.symbol, baseAsset: item.baseCoin, quoteAsset: item.quoteCoin }));
+  },
+
+  async getOrderBook(symbol: string, limit = ORDER_BOOK_DEPTH): Promise<OrderBook> {
+    const params = new URLSearchParams({ category: 'spot', symbol, limit: String(Math.min(limit, MAX_DEPTH)) });
+    const result = await request<{ b: [string, string][]; a: [string, string][]; ts: number }>(
+      'orderbook',
+      params,
+      `Failed to fetch the order book for ${symbol}`
+    );
+
+    return { symbol, bids: toLevels(result.b), asks: toLevels(result.a), time: result.ts };
+  },
+
+  async getRecentTrades(symbol: string, limit = RECENT_TRADES_LIMIT): Promise<MarketTrade[]> {
+    const params = new URLSearchParams({ category: 'spot', symbol, limit: String(Math.min(limit, MAX_RECENT_TRADES)) });
+    const result = await request<{ list: { execId: string; price: string; size: string; side: string; time: string }[] }>(
+      'recent-trade',
+      params,
+      `Failed to fetch recent trades for ${symbol}`
+    );
+
+    // Newest first from Bybit
+    return result.list
+      .map((trade): MarketTrade => ({
+        id: trade.execId,
+        price: parseFloat(trade.price),
+        quantity: parseFloat(trade.size),
+        time: parseInt(trade.time, 10),
+        side: trade.side === 'Buy' ? 'buy' : 'sell',
+      }))
+      .reverse();
+  },
+
+  subscribe(symbol: string, interval: KlineInterval, handlers: MarketStreamHandlers): () => void {
+    const tickerTopic = `tickers.${symbol}`;
+    const klineTopic = `kline.${INTERVAL_CODES[interval]}.${symbol}`;
+
+    return createReconnectingSocket({
+      url: STREAM_URL,
+      heartbeat: { intervalMs: PING_INTERVAL_MS, message: JSON.stringify({ op: 'ping' }) },
+      onStatus: handlers.onStatus,
+      onOpen: (socket) => {
+        socket.send(JSON.stringify({ op: 'subscribe', args: [tickerTopic, klineTopic] }));
+      },
+      onMessage: (message) => {
+        const { topic, data } = message as { topic?: string; data?: unknown };
+
+        if (topic === tickerTopic && data) {
+          handlers.onTicker(toCryptoData(symbol, data as Record<string, string>));
+        } else if (topic === klineTopic && Array.isArray(data)) {
+          for (const candle of data as Record<string, string | number>[]) {
+            handlers.onKline({
+              openTime: Number(candle.start),
+              open: parseFloat(String(candle.open)),
+              high: parseFloat(String(candle.high)),
+              low: parseFloat(String(candle.low)),
+              close: parseFloat(String(candle.close)),
+              volume: parseFloat(String(candle.volume)),
+              closeTime: Number(candle.end),
+            });
+          }
+        }
+      },
+    });
+  },
+
+  subscribeTrades(symbol: string, handlers: TradeStreamHandlers): () => void {
+    const tradeTopic = `publicTrade.${symbol}`;
+
+    return createReconnectingSocket({
+      url: STREAM_URL,
+      heartbeat: { intervalMs: PING_INTERVAL_MS, message: JSON.stringify({ op: 'ping' }) },
+      onStatus: handlers.onStatus,
+      onOpen: (socket) => {
+        socket.send(JSON.stringify({ op: 'subscribe', args: [tradeTopic] }));
+      },
+      onMessage: (message) => {
+        const { topic, data } = message as { topic?: string; data?: unknown };
+
+        if (topic === tradeTopic && Array.isArray(data)) {
+          for (const trade of data as { i: string; T: number; p: string; v: string; S: string }[]) {
+            handlers.onTrade({
+              id: trade.i,
+              price: parseFloat(trade.p),
+              quantity: parseFloat(trade.v),
+              time: trade.T,
+              side: trade.S === 'Buy' ? 'buy' : 'sell',
+            });
+          }
+        }
+      },
+    });
+  },
+};
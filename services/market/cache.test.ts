@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCachedProvider, formatDataAge } from './cache';
+import { CryptoData, MarketDataProvider } from './types';
+
+const START = Date.UTC(2024, 0, 1, 12);
+
+const TICKER: CryptoData = {
+  symbol: 'BTCUSDT',
+  priceChange: '1215.05',
+  priceChangePercent: '1.840',
+  lastPrice: '67250.12',
+  volume: '18542.30',
+  highPrice: '68078.86',
+  lowPrice: '65036.16',
+};
+
+const createProvider = () => {
+  const getTicker = vi.fn(async (): Promise<CryptoData> => TICKER);
+  const provider = { id: 'test', name: 'Test', getTicker } as unknown as MarketDataProvider;
+  return { provider, getTicker };
+};
+
+describe('createCachedProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: START });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('reuses a fresh response and shares a request in flight', async () => {
+    const { provider, getTicker } = createProvider();
+    const cached = createCachedProvider(provider);
+
+    await Promise.all([cached.getTicker('BTCUSDT'), cached.getTicker('BTCUSDT')]);
+    vi.advanceTimersByTime(10 * 1000);
+    await cached.getTicker('BTCUSDT');
+    expect(getTicker).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(10 * 1000);
+    await cached.getTicker('BTCUSDT');
+    expect(getTicker).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the last good ticker, marked with when it was fetched', async () => {
+    const { provider, getTicker } = createProvider();
+    const cached = createCachedProvider(provider);
+    await cached.getTicker('BTCUSDT');
+
+    getTicker.mockRejectedValue(new Error('the exchange could not be reached'));
+    vi.advanceTimersByTime(5 * 60 * 1000);
+
+    await expect(cached.getTicker('BTCUSDT')).resolves.toEqual({ ...TICKER, cachedAt: START });
+  });
+
+  it('gives up on data older than a day', async () => {
+    const { provider, getTicker } = createProvider();
+    const cached = createCachedProvider(provider);
+    await cached.getTicker('BTCUSDT');
+
+    getTicker.mockRejectedValue(new Error('the exchange could not be reached'));
+    vi.advanceTimersByTime(25 * 60 * 60 * 1000);
+
+    await expect(cached.getTicker('BTCUSDT')).rejects.toThrow('the exchange could not be reached');
+  });
+
+  it('passes the error on when nothing was cached', async () => {
+    const { provider, getTicker } = createProvider();
+    getTicker.mockRejectedValue(new Error('Failed to fetch data for BTCUSDT'));
+
+    await expect(createCachedProvider(provider).getTicker('BTCUSDT')).rejects.toThrow('Failed to fetch data for BTCUSDT');
+  });
+});
+
+describe('formatDataAge', () => {
+  it('rounds to minutes, then hours', () => {
+    expect(formatDataAge(START, START + 20 * 1000)).toBe('just now');
+    expect(formatDataAge(START, START + 2 * 60 * 1000)).toBe('2 min ago');
+    expect(formatDataAge(START, START + 3 * 60 * 60 * 1000)).toBe('3 h ago');
+  });
+});
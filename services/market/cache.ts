@@ -0,0 +1,109 @@
+import { CryptoData, INTERVAL_MS, Kline, KlineQuery, MarketDataProvider, SymbolInfo } from './types';
+
+// How long a response is reused before asking the exchange again
+const TICKER_TTL_MS = 15 * 1000;
+const RECENT_KLINES_TTL_MS = 30 * 1000;
+// Candles that closed a while ago don't change
+const PAST_KLINES_TTL_MS = 10 * 60 * 1000;
+const SYMBOLS_TTL_MS = 60 * 60 * 1000;
+// Expired entries are still served when the exchange can't be reached, up to this age
+const MAX_STALE_MS = 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 300;
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+// Provider wrapper with a TTL cache. Identical requests in flight share one fetch,
+// and when a request fails the last good response is returned instead, with tickers
+// marked by `cachedAt` so the UI can say how old they are.
+export const createCachedProvider = (provider: MarketDataProvider): MarketDataProvider => {
+  const entries = new Map<string, CacheEntry<unknown>>();
+  const pending = new Map<string, Promise<unknown>>();
+
+  const store = (key: string, value: unknown) => {
+    // Re-inserting moves the key to the end, so the oldest entry is evicted first
+    entries.delete(key);
+    entries.set(key, { value, fetchedAt: Date.now() });
+    if (entries.size > MAX_ENTRIES) {
+      entries.delete(entries.keys().next().value as string);
+    }
+  };
+
+  const cached = async <T>(
+    key: string,
+    ttlMs: number,
+    load: () => Promise<T>,
+    markStale: (value: T, fetchedAt: number) => T = (value) => value
+  ): Promise<T> => {
+    const entry = entries.get(key) as CacheEntry<T> | undefined;
+    if (entry && Date.now() - entry.fetchedAt < ttlMs) return entry.value;
+
+    const inFlight = pending.get(key) as Promise<T> | undefined;
+    if (inFlight) return inFlight;
+
+    const request = load()
+      .then(value => {
+        store(key, value);
+        return value;
+      })
+      .catch(err => {
+        if (entry && Date.now() - entry.fetchedAt < MAX_STALE_MS) {
+          console.warn(`Serving cached ${provider.name} data for ${key}:`, err);
+          return markStale(entry.value, entry.fetchedAt);
+        }
+        throw err;
+      })
+      .finally(() => pending.delete(key));
+
+    pending.set(key, request);
+    return request;
+  };
+
+  const staleTicker = (ticker: CryptoData, fetchedAt: number): CryptoData => ({ ...ticker, cachedAt: fetchedAt });
+
+  // Requests for the latest candles use a moving end time, so round the range to the
+  // interval to let repeated "up to now" queries share an entry
+  const klineKey = (symbol: string, query: KlineQuery, now: number): { key: string; ttlMs: number } => {
+    const step = INTERVAL_MS[query.interval];
+    const recent = query.endTime === undefined || query.endTime >= now - step;
+    const start = query.startTime === undefined ? '' : Math.floor(query.startTime / step);
+    const end = recent ? 'now' : query.endTime;
+    return {
+      key: `klines:${symbol}:${query.interval}:${query.limit ?? ''}:${start}:${end}`,
+      ttlMs: recent ? RECENT_KLINES_TTL_MS : PAST_KLINES_TTL_MS,
+    };
+  };
+
+  // Order books and trades are only useful fresh, so they go straight to the exchange
+  return {
+    ...provider,
+
+    getTicker: (symbol: string): Promise<CryptoData> =>
+      cached(`ticker:${symbol}`, TICKER_TTL_MS, () => provider.getTicker(symbol), staleTicker),
+
+    getTickers: (symbols?: string[]): Promise<CryptoData[]> =>
+      cached(
+        `tickers:${symbols ? symbols.join(',') : '*'}`,
+        TICKER_TTL_MS,
+        () => provider.getTickers(symbols),
+        (tickers, fetchedAt) => tickers.map(ticker => staleTicker(ticker, fetchedAt))
+      ),
+
+    getKlines: (symbol: string, query: KlineQuery): Promise<Kline[]> => {
+      const { key, ttlMs } = klineKey(symbol, query, Date.now());
+      return cached(key, ttlMs, () => provider.getKlines(symbol, query));
+    },
+
+    getSymbols: (): Promise<SymbolInfo[]> => cached('symbols', SYMBOLS_TTL_MS, () => provider.getSymbols()),
+  };
+};
+
+// "just now", "2 min ago", "3 h ago"
+export const formatDataAge = (fetchedAt: number, now: number): string => {
+  const minutes = Math.round((now - fetchedAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.round(minutes / 60)} h ago`;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { isWall, summarizeOrderBook } from './depth';
+import { OrderBook, OrderBookLevel } from './types';
+
+const levels = (...pairs: [number, number][]): OrderBookLevel[] => pairs.map(([price, quantity]) => ({ price, quantity }));
+
+// Mid price 100, so the default 2% band runs from 98 to 102
+const book = (bids: OrderBookLevel[], asks: OrderBookLevel[]): OrderBook => ({ symbol: 'BTCUSDT', bids, asks, time: 0 });
+
+describe('summarizeOrderBook', () => {
+  it('finds the largest bid and ask in the band and whether they are walls', () => {
+    const summary = summarizeOrderBook(book(
+      levels([99.5, 1], [99, 1], [98.5, 10], [98, 1]),
+      levels([100.5, 1], [101, 2], [101.5, 1], [102, 1])
+    ))!;
+
+    expect(summary).toMatchObject({ bestBid: 99.5, bestAsk: 100.5, mid: 100, spread: 1, spreadPercent: 1 });
+    expect(summary.largestBid).toEqual({
+      price: 98.5,
+      quantity: 10,
+      value: 985,
+      distancePercent: 1.5,
+      multiple: 985 / 99.25,
+    });
+    expect(isWall(summary.largestBid)).toBe(true);
+    // Twice the typical ask is the largest, but not a wall
+    expect(summary.largestAsk).toMatchObject({ price: 101, quantity: 2, value: 202, distancePercent: 1 });
+    expect(summary.largestAsk!.multiple).toBeCloseTo(202 / 101.75, 10);
+    expect(isWall(summary.largestAsk)).toBe(false);
+  });
+
+  it('ignores orders outside the band', () => {
+    const summary = summarizeOrderBook(book(
+      levels([99.5, 1], [97, 500]),
+      levels([100.5, 1], [103, 500])
+    ))!;
+
+    expect(summary.largestBid?.price).toBe(99.5);
+    expect(summary.largestAsk?.price).toBe(100.5);
+    expect(summary.bidValue).toBe(99.5);
+    expect(summary.askValue).toBe(100.5);
+  });
+
+  it('weighs the two sides of the band', () => {
+    const summary = summarizeOrderBook(book(levels([99.5, 3]), levels([100.5, 1])))!;
+
+    expect(summary.imbalance).toBeCloseTo((298.5 - 100.5) / (298.5 + 100.5), 10);
+  });
+
+  it('has nothing to say about a one-sided book', () => {
+    expect(summarizeOrderBook(book(levels([99.5, 1]), []))).toBeNull();
+    expect(isWall(null)).toBe(false);
+  });
+});
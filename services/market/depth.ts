@@ -0,0 +1,125 @@
+import { MarketTrade, OrderBook, OrderBookLevel } from './types';
+
+// Only liquidity within this distance of the mid price counts towards imbalance and walls
+export const DEPTH_BAND_PERCENT = 2;
+// A level this many times the median level in the band counts as a wall
+export const WALL_MULTIPLE = 4;
+// A trade this many times the median trade counts as large
+export const LARGE_TRADE_MULTIPLE = 10;
+
+export interface BookWall {
+  price: number;
+  quantity: number;
+  // quantity × price, in the quote asset
+  value: number;
+  distancePercent: number;
+  // Size relative to the median level on its side of the band
+  multiple: number;
+}
+
+export interface OrderBookSummary {
+  bestBid: number;
+  bestAsk: number;
+  mid: number;
+  spread: number;
+  spreadPercent: number;
+  // Quote value resting within the band on each side
+  bidValue: number;
+  askValue: number;
+  // -1 (all asks) to 1 (all bids)
+  imbalance: number;
+  // Largest level on each side of the band, whether or not it is big enough to be a wall
+  largestBid: BookWall | null;
+  largestAsk: BookWall | null;
+}
+
+export interface TradeFlowSummary {
+  count: number;
+  // Quote value bought and sold by takers
+  buyValue: number;
+  sellValue: number;
+  // Share of the traded value that was taker buying, 0 to 1
+  buyShare: number;
+  // Smallest quote value counted as a large trade
+  largeTradeValue: number;
+  largeTrades: MarketTrade[];
+}
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const valueOf = (level: OrderBookLevel): number => level.price * level.quantity;
+
+const largestLevel = (levels: OrderBookLevel[], mid: number): BookWall | null => {
+  if (levels.length === 0) return null;
+  const typical = median(levels.map(valueOf));
+  const largest = levels.reduce((best, level) => (valueOf(level) > valueOf(best) ? level : best));
+  return {
+    price: largest.price,
+    quantity: largest.quantity,
+    value: valueOf(largest),
+    distancePercent: (Math.abs(largest.price - mid) / mid) * 100,
+    multiple: typical > 0 ? valueOf(largest) / typical : 1,
+  };
+};
+
+export const isWall = (wall: BookWall | null): wall is BookWall => wall !== null && wall.multiple >= WALL_MULTIPLE;
+
+// Spread, depth on each side and the largest resting orders near the price
+export const summarizeOrderBook = (book: OrderBook, bandPercent = DEPTH_BAND_PERCENT): OrderBookSummary | null => {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  if (bestBid === undefined || bestAsk === undefined) return null;
+
+  const mid = (bestBid + bestAsk) / 2;
+  const band = (mid * bandPercent) / 100;
+  const bids = book.bids.filter(level => level.price >= mid - band);
+  const asks = book.asks.filter(level => level.price <= mid + band);
+  const bidValue = bids.reduce((sum, level) => sum + valueOf(level), 0);
+  const askValue = asks.reduce((sum, level) => sum + valueOf(level), 0);
+
+  return {
+    bestBid,
+    bestAsk,
+    mid,
+    spread: bestAsk - bestBid,
+    spreadPercent: ((bestAsk - bestBid) / mid) * 100,
+    bidValue,
+    askValue,
+    imbalance: bidValue + askValue > 0 ? (bidValue - askValue) / (bidValue + askValue) : 0,
+    largestBid: largestLevel(bids, mid),
+    largestAsk: largestLevel(asks, mid),
+  };
+};
+
+// Taker buying versus selling and unusually large prints in a run of trades
+export const summarizeTrades = (trades: MarketTrade[], multiple = LARGE_TRADE_MULTIPLE): TradeFlowSummary | null => {
+  if (trades.length === 0) return null;
+
+  const values = trades.map(trade => trade.price * trade.quantity);
+  const buyValue = trades.reduce((sum, trade, index) => sum + (trade.side === 'buy' ? values[index] : 0), 0);
+  const sellValue = trades.reduce((sum, trade, index) => sum + (trade.side === 'sell' ? values[index] : 0), 0);
+  const largeTradeValue = median(values) * multiple;
+
+  return {
+    count: trades.length,
+    buyValue,
+    sellValue,
+    buyShare: buyValue + sellValue > 0 ? buyValue / (buyValue + sellValue) : 0.5,
+    largeTradeValue,
+    largeTrades: trades.filter((_, index) => values[index] >= largeTradeValue),
+  };
+};
+
+// Running total of quote value from the best price outwards, for the depth chart
+export const cumulativeDepth = (levels: OrderBookLevel[]): { price: number; total: number }[] => {
+  let total = 0;
+  return levels.map(level => {
+    total += valueOf(level);
+    return { price: level.price, total };
+  });
+};
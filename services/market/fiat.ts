@@ -0,0 +1,100 @@
+import { Kline, MarketDataProvider, SymbolInfo } from './types';
+
+// A currency prices can be displayed in. US dollar prices come straight from the
+// USD stablecoin pairs; the others are converted with the exchange's fiat pairs.
+export interface FiatCurrency {
+  code: string;
+  name: string;
+  // Written before the amount, e.g. "€67250.12"
+  sign: string;
+  decimals: number;
+}
+
+export const USD_CURRENCY: FiatCurrency = { code: 'USD', name: 'US Dollar', sign: '$', decimals: 2 };
+
+export const FIAT_CURRENCIES: FiatCurrency[] = [
+  USD_CURRENCY,
+  { code: 'EUR', name: 'Euro', sign: '€', decimals: 2 },
+  { code: 'GBP', name: 'British Pound', sign: '£', decimals: 2 },
+  { code: 'TRY', name: 'Turkish Lira', sign: '₺', decimals: 2 },
+  { code: 'JPY', name: 'Japanese Yen', sign: '¥', decimals: 0 },
+  { code: 'BRL', name: 'Brazilian Real', sign: 'R$', decimals: 2 },
+];
+
+// Stablecoins a fiat pair may be quoted against, each taken as one US dollar
+const RATE_STABLECOINS = ['USDT', 'USDC', 'FDUSD'];
+
+// Conversion from US dollars into the display currency
+export interface FiatRate {
+  currency: string;
+  // Units of the currency per US dollar
+  rate: number;
+  // Exchange pair the rate was read from, e.g. EURUSDT or USDTTRY
+  pair: string;
+  source: string;
+  fetchedAt: number;
+}
+
+interface RatePair {
+  symbol: string;
+  // True when the currency is the base asset (EURUSDT quotes dollars per euro)
+  inverted: boolean;
+}
+
+export const getFiatCurrency = (code: string): FiatCurrency | undefined =>
+  FIAT_CURRENCIES.find(currency => currency.code === code);
+
+// Find the stablecoin pair that prices a currency, in either direction
+const findRatePair = (symbols: SymbolInfo[], code: string): RatePair | null => {
+  for (const stablecoin of RATE_STABLECOINS) {
+    const direct = symbols.find(info => info.baseAsset === stablecoin && info.quoteAsset === code);
+    if (direct) return { symbol: direct.symbol, inverted: false };
+    const inverse = symbols.find(info => info.baseAsset === code && info.quoteAsset === stablecoin);
+    if (inverse) return { symbol: inverse.symbol, inverted: true };
+  }
+  return null;
+};
+
+// Currencies the provider can convert to: US dollars plus those with a stablecoin pair
+export const availableFiatCurrencies = (symbols: SymbolInfo[]): FiatCurrency[] =>
+  FIAT_CURRENCIES.filter(currency => currency === USD_CURRENCY || findRatePair(symbols, currency.code));
+
+export const fetchFiatRate = async (provider: MarketDataProvider, symbols: SymbolInfo[], code: string): Promise<FiatRate> => {
+  const pair = findRatePair(symbols, code);
+  if (!pair) {
+    throw new Error(`${provider.name} has no ${code} pair to convert prices with`);
+  }
+
+  const ticker = await provider.getTicker(pair.symbol);
+  const price = parseFloat(ticker.lastPrice);
+  if (!(price > 0)) {
+    throw new Error(`No ${code} exchange rate available`);
+  }
+
+  return {
+    currency: code,
+    rate: pair.inverted ? 1 / price : price,
+    pair: pair.symbol,
+    source: provider.name,
+    fetchedAt: Date.now(),
+  };
+};
+
+// Format an amount with the currency's sign, e.g. "€1,234.50" or "-¥10,500"
+export const formatMoney = (value: number, currency: FiatCurrency): string =>
+  `${value < 0 ? '-' : ''}${currency.sign}${Math.abs(value).toLocaleString('en-US', {
+    minimumFractionDigits: currency.decimals,
+    maximumFractionDigits: currency.decimals,
+  })}`;
+
+// Scale candle prices into another currency; volumes stay in the base asset
+export const convertKlines = (klines: Kline[], rate: number): Kline[] =>
+  rate === 1
+    ? klines
+    : klines.map(candle => ({
+        ...candle,
+        open: candle.open * rate,
+        high: candle.high * rate,
+        low: candle.low * rate,
+        close: candle.close * rate,
+      }));
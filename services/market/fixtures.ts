@@ -0,0 +1,541 @@
+import { CryptoData, KlineInterval } from './types';
+
+// Recorded market snapshot replayed by the mock provider so the app can run
+// offline. Daily candles are [open, high, low, close, volume], oldest first.
+
+export const FIXTURE_INTERVAL: KlineInterval = '1d';
+
+export const TICKER_FIXTURES: Record<string, CryptoData> = {
+  BTCUSDT: {
+    symbol: 'BTCUSDT',
+    priceChange: '1215.05',
+    priceChangePercent: '1.840',
+    lastPrice: '67250.12',
+    volume: '18542.30',
+    highPrice: '68078.86',
+    lowPrice: '65036.16',
+  },
+  ETHUSDT: {
+    symbol: 'ETHUSDT',
+    priceChange: '-32.61',
+    priceChangePercent: '-0.920',
+    lastPrice: '3512.47',
+    volume: '214876.50',
+    highPrice: '3580.51',
+    lowPrice: '3509.14',
+  },
+  BNBUSDT: {
+    symbol: 'BNBUSDT',
+    priceChange: '1.8',
+    priceChangePercent: '0.310',
+    lastPrice: '592.3',
+    volume: '412398.10',
+    highPrice: '594.2',
+    lowPrice: '575.2',
+  },
+  ADAUSDT: {
+    symbol: 'ADAUSDT',
+    priceChange: '-0.0110',
+    priceChangePercent: '-2.370',
+    lastPrice: '0.4521',
+    volume: '182345678.00',
+    highPrice: '0.4719',
+    lowPrice: '0.4454',
+  },
+  SOLUSDT: {
+    symbol: 'SOLUSDT',
+    priceChange: '5.88',
+    priceChangePercent: '4.120',
+    lastPrice: '148.65',
+    volume: '3345781.20',
+    highPrice: '149.90',
+    lowPrice: '141.16',
+  },
+  XRPUSDT: {
+    symbol: 'XRPUSDT',
+    priceChange: '-0.0022',
+    priceChangePercent: '-0.410',
+    lastPrice: '0.5234',
+    volume: '401234567.00',
+    highPrice: '0.5257',
+    lowPrice: '0.5223',
+  },
+  DOGEUSDT: {
+    symbol: 'DOGEUSDT',
+    priceChange: '0.00938',
+    priceChangePercent: '6.280',
+    lastPrice: '0.15873',
+    volume: '2154879321.00',
+    highPrice: '0.16000',
+    lowPrice: '0.14933',
+  },
+  DOTUSDT: {
+    symbol: 'DOTUSDT',
+    priceChange: '-0.080',
+    priceChangePercent: '-1.150',
+    lastPrice: '6.874',
+    volume: '5123478.40',
+    highPrice: '6.998',
+    lowPrice: '6.846',
+  },
+  AVAXUSDT: {
+    symbol: 'AVAXUSDT',
+    priceChange: '0.69',
+    priceChangePercent: '2.050',
+    lastPrice: '34.12',
+    volume: '2987345.60',
+    highPrice: '34.13',
+    lowPrice: '33.14',
+  },
+  SHIBUSDT: {
+    symbol: 'SHIBUSDT',
+    priceChange: '-0.00000075',
+    priceChangePercent: '-3.110',
+    lastPrice: '0.00002345',
+    volume: '12345678901234.00',
+    highPrice: '0.00002476',
+    lowPrice: '0.00002293',
+  },
+  LTCUSDT: {
+    symbol: 'LTCUSDT',
+    priceChange: '0.10',
+    priceChangePercent: '0.120',
+    lastPrice: '81.45',
+    volume: '456789.30',
+    highPrice: '81.63',
+    lowPrice: '81.24',
+  },
+  LINKUSDT: {
+    symbol: 'LINKUSDT',
+    priceChange: '-0.881',
+    priceChangePercent: '-5.640',
+    lastPrice: '14.732',
+    volume: '4567123.90',
+    highPrice: '15.750',
+    lowPrice: '14.667',
+  },
+  // Fiat pairs, used only as exchange rates for the display currency
+  EURUSDT: {
+    symbol: 'EURUSDT',
+    priceChange: '0.0021',
+    priceChangePercent: '0.194',
+    lastPrice: '1.0852',
+    volume: '48213570.20',
+    highPrice: '1.0868',
+    lowPrice: '1.0824',
+  },
+  GBPUSDT: {
+    symbol: 'GBPUSDT',
+    priceChange: '-0.0015',
+    priceChangePercent: '-0.118',
+    lastPrice: '1.2706',
+    volume: '3120455.10',
+    highPrice: '1.2731',
+    lowPrice: '1.2689',
+  },
+  USDTTRY: {
+    symbol: 'USDTTRY',
+    priceChange: '0.06',
+    priceChangePercent: '0.185',
+    lastPrice: '32.47',
+    volume: '96541230.00',
+    highPrice: '32.51',
+    lowPrice: '32.38',
+  },
+  USDTBRL: {
+    symbol: 'USDTBRL',
+    priceChange: '-0.012',
+    priceChangePercent: '-0.237',
+    lastPrice: '5.048',
+    volume: '21874530.00',
+    highPrice: '5.071',
+    lowPrice: '5.039',
+  },
+};
+
+export const KLINE_FIXTURES: Record<string, [number, number, number, number, number][]> = {
+  BTCUSDT: [
+    [65905.06, 66395.66, 63793.00, 64364.18, 16947.4],
+    [64364.18, 65651.41, 63875.98, 65567.67, 19693.9],
+    [65567.67, 69448.07, 64814.76, 69077.24, 16129.1],
+    [69077.24, 70089.30, 67187.53, 67845.31, 19676.9],
+    [67845.31, 69135.30, 66632.45, 68783.25, 18767.0],
+    [68783.25, 70648.14, 67120.60, 69557.82, 17051.5],
+    [69557.82, 69646.42, 67686.38, 68356.77, 20848.0],
+    [68356.77, 69613.83, 67155.34, 69561.84, 22379.8],
+    [69561.84, 70164.23, 68772.31, 69605.16, 25220.3],
+    [69605.16, 70688.13, 69505.53, 70382.19, 12519.9],
+    [70382.19, 70901.98, 69023.92, 69534.38, 16443.8],
+    [69534.38, 70589.74, 67030.23, 67817.69, 16080.2],
+    [67817.69, 68866.56, 62835.03, 64405.33, 11785.0],
+    [64405.33, 64590.31, 60205.01, 61266.15, 21224.0],
+    [61266.15, 63726.03, 59414.76, 62305.50, 20199.0],
+    [62305.50, 63936.57, 61468.28, 63376.63, 23073.0],
+    [63376.63, 65990.58, 63257.04, 65129.47, 19681.6],
+    [65129.47, 65468.95, 60818.42, 62004.44, 21411.9],
+    [62004.44, 62862.00, 61596.89, 62473.18, 11272.3],
+    [62473.18, 64312.19, 61757.16, 63338.00, 20997.4],
+    [63338.00, 65452.09, 62856.37, 63937.63, 22446.9],
+    [63937.63, 67490.04, 63796.44, 66054.37, 23268.4],
+    [66054.37, 68081.60, 64778.12, 67026.98, 21101.0],
+    [67026.98, 69521.92, 66765.68, 69396.89, 21554.6],
+    [69396.89, 69497.15, 68141.74, 69091.61, 15475.7],
+    [69091.61, 69435.47, 66460.81, 67302.10, 18666.5],
+    [67302.10, 68013.18, 66041.88, 66800.56, 25335.7],
+    [66800.56, 67157.14, 65380.14, 66481.06, 17917.7],
+    [66481.06, 66599.94, 65798.93, 66035.07, 25054.2],
+    [66035.07, 68078.86, 65036.16, 67250.12, 12662.9],
+  ],
+  ETHUSDT: [
+    [2821.65, 2831.20, 2767.71, 2785.16, 345416.9],
+    [2785.16, 2797.02, 2736.38, 2754.70, 209534.2],
+    [2754.70, 2787.45, 2752.63, 2779.93, 68326.1],
+    [2779.93, 2835.18, 2746.28, 2818.71, 152102.4],
+    [2818.71, 2847.25, 2786.45, 2844.97, 260869.6],
+    [2844.97, 2895.87, 2698.49, 2754.73, 195893.5],
+    [2754.73, 2766.00, 2529.23, 2548.29, 273526.4],
+    [2548.29, 2780.57, 2515.00, 2693.85, 137115.7],
+    [2693.85, 2752.80, 2645.61, 2730.42, 224323.2],
+    [2730.42, 2769.56, 2703.46, 2708.31, 225142.4],
+    [2708.31, 2815.46, 2703.71, 2788.78, 210123.4],
+    [2788.78, 2844.66, 2753.70, 2793.26, 199093.0],
+    [2793.26, 2885.29, 2729.54, 2767.63, 264008.5],
+    [2767.63, 2776.46, 2733.32, 2737.66, 252748.8],
+    [2737.66, 2777.21, 2716.68, 2769.83, 132829.9],
+    [2769.83, 2995.74, 2749.39, 2942.44, 163136.5],
+    [2942.44, 3035.21, 2890.53, 2998.28, 282905.3],
+    [2998.28, 3100.52, 2945.28, 3072.99, 164502.1],
+    [3072.99, 3079.25, 3030.94, 3079.22, 256027.4],
+    [3079.22, 3198.14, 3046.32, 3138.28, 298696.2],
+    [3138.28, 3208.27, 3131.58, 3170.68, 108944.0],
+    [3170.68, 3224.20, 3156.61, 3160.26, 182493.1],
+    [3160.26, 3236.57, 3144.71, 3221.12, 295352.9],
+    [3221.12, 3281.99, 3177.20, 3242.30, 294776.2],
+    [3242.30, 3319.49, 3235.27, 3262.63, 174907.9],
+    [3262.63, 3343.32, 3258.12, 3302.94, 221547.9],
+    [3302.94, 3452.68, 3292.50, 3394.67, 91498.4],
+    [3394.67, 3532.74, 3319.15, 3516.40, 258860.8],
+    [3516.40, 3558.57, 3490.61, 3545.08, 214360.8],
+    [3545.08, 3580.51, 3509.14, 3512.47, 286136.1],
+  ],
+  BNBUSDT: [
+    [565.6, 566.8, 548.8, 556.7, 251156.4],
+    [556.7, 562.2, 550.5, 557.9, 354090.7],
+    [557.9, 578.5, 552.8, 572.3, 254473.7],
+    [572.3, 591.6, 564.2, 590.7, 449941.4],
+    [590.7, 607.5, 579.0, 581.3, 346248.3],
+    [581.3, 594.9, 549.0, 553.8, 383993.3],
+    [553.8, 588.1, 548.0, 572.7, 442402.6],
+    [572.7, 575.9, 559.0, 564.3, 489470.9],
+    [564.3, 568.8, 542.0, 544.1, 549901.6],
+    [544.1, 548.4, 539.1, 542.0, 197540.9],
+    [542.0, 565.4, 533.5, 559.3, 381788.0],
+    [559.3, 572.6, 546.3, 569.4, 231135.5],
+    [569.4, 574.5, 552.8, 571.3, 316762.9],
+    [571.3, 608.1, 558.3, 603.1, 400004.4],
+    [603.1, 612.6, 596.6, 608.5, 319013.8],
+    [608.5, 609.2, 596.9, 599.0, 497494.9],
+    [599.0, 599.9, 597.6, 599.6, 307641.1],
+    [599.6, 602.2, 591.0, 597.4, 422887.8],
+    [597.4, 604.5, 591.4, 598.3, 687331.5],
+    [598.3, 606.5, 573.0, 577.4, 145069.4],
+    [577.4, 601.6, 574.1, 597.1, 586027.7],
+    [597.1, 600.2, 562.7, 563.1, 466261.9],
+    [563.1, 576.3, 539.2, 546.0, 445893.6],
+    [546.0, 550.6, 508.1, 516.3, 598940.1],
+    [516.3, 539.9, 512.2, 531.0, 442427.4],
+    [531.0, 532.2, 518.9, 521.4, 311957.4],
+    [521.4, 561.5, 514.9, 547.6, 289273.7],
+    [547.6, 582.4, 536.4, 573.2, 514378.9],
+    [573.2, 603.4, 567.6, 590.5, 322487.5],
+    [590.5, 594.2, 575.2, 592.3, 335267.4],
+  ],
+  ADAUSDT: [
+    [0.4675, 0.4736, 0.4462, 0.4607, 134957560.6],
+    [0.4607, 0.4694, 0.4467, 0.4488, 119918869.0],
+    [0.4488, 0.4546, 0.4460, 0.4505, 204995939.6],
+    [0.4505, 0.4514, 0.4182, 0.4257, 214552599.4],
+    [0.4257, 0.4258, 0.4113, 0.4143, 257772333.8],
+    [0.4143, 0.4255, 0.4092, 0.4206, 132983003.3],
+    [0.4206, 0.4214, 0.4154, 0.4191, 168831891.9],
+    [0.4191, 0.4308, 0.4161, 0.4254, 223749701.6],
+    [0.4254, 0.4408, 0.4124, 0.4397, 238873576.2],
+    [0.4397, 0.4473, 0.4392, 0.4461, 300651668.5],
+    [0.4461, 0.4480, 0.4257, 0.4302, 227040884.2],
+    [0.4302, 0.4302, 0.4233, 0.4293, 190894791.8],
+    [0.4293, 0.4343, 0.4235, 0.4324, 218034789.5],
+    [0.4324, 0.4334, 0.4280, 0.4333, 206955168.2],
+    [0.4333, 0.4373, 0.4330, 0.4362, 171251758.5],
+    [0.4362, 0.4398, 0.4301, 0.4356, 153686244.5],
+    [0.4356, 0.4365, 0.4280, 0.4365, 162475405.5],
+    [0.4365, 0.4470, 0.4257, 0.4292, 208258592.7],
+    [0.4292, 0.4321, 0.4191, 0.4194, 171764454.1],
+    [0.4194, 0.4280, 0.4102, 0.4209, 205866864.7],
+    [0.4209, 0.4373, 0.4164, 0.4317, 173901047.3],
+    [0.4317, 0.4411, 0.4243, 0.4283, 224975364.7],
+    [0.4283, 0.4417, 0.4281, 0.4319, 211080778.4],
+    [0.4319, 0.4503, 0.4224, 0.4410, 133792113.7],
+    [0.4410, 0.4502, 0.4336, 0.4469, 183787546.4],
+    [0.4469, 0.4553, 0.4435, 0.4539, 214347720.5],
+    [0.4539, 0.4621, 0.4468, 0.4531, 122541851.8],
+    [0.4531, 0.4559, 0.4385, 0.4441, 133266558.1],
+    [0.4441, 0.4635, 0.4441, 0.4631, 204699290.8],
+    [0.4631, 0.4719, 0.4454, 0.4521, 181292330.5],
+  ],
+  SOLUSDT: [
+    [184.88, 190.16, 184.62, 187.66, 2935027.7],
+    [187.66, 187.89, 184.76, 185.93, 3000328.4],
+    [185.93, 191.12, 178.06, 178.75, 4267300.5],
+    [178.75, 179.01, 172.88, 175.23, 1358452.5],
+    [175.23, 178.73, 174.71, 177.13, 3849710.8],
+    [177.13, 186.47, 176.44, 181.39, 4416298.4],
+    [181.39, 183.06, 179.32, 181.39, 3772420.0],
+    [181.39, 181.73, 179.87, 180.97, 2443982.1],
+    [180.97, 183.54, 174.55, 176.71, 3554228.0],
+    [176.71, 181.37, 176.24, 176.87, 3362095.8],
+    [176.87, 182.99, 176.82, 180.47, 2670232.9],
+    [180.47, 183.89, 179.21, 183.32, 3939715.1],
+    [183.32, 185.02, 178.14, 181.96, 4739946.9],
+    [181.96, 182.00, 180.38, 180.96, 2987358.1],
+    [180.96, 184.03, 172.37, 173.84, 3909625.2],
+    [173.84, 175.97, 172.40, 174.96, 3946905.0],
+    [174.96, 179.18, 174.94, 176.36, 2779147.1],
+    [176.36, 178.07, 168.65, 168.75, 3605608.3],
+    [168.75, 172.37, 166.46, 169.28, 2910965.7],
+    [169.28, 173.92, 164.63, 164.63, 4003197.6],
+    [164.63, 165.91, 151.44, 151.52, 1882011.1],
+    [151.52, 154.77, 148.56, 151.03, 2329248.5],
+    [151.03, 153.76, 145.40, 148.29, 4329236.9],
+    [148.29, 149.11, 148.09, 148.20, 3084173.6],
+    [148.20, 150.29, 146.26, 150.07, 3365946.4],
+    [150.07, 156.17, 149.94, 153.52, 3604031.1],
+    [153.52, 154.39, 149.91, 150.33, 2589874.3],
+    [150.33, 150.64, 149.46, 150.35, 4655516.7],
+    [150.35, 151.73, 142.57, 142.77, 2951693.7],
+    [142.77, 149.90, 141.16, 148.65, 3050558.9],
+  ],
+  XRPUSDT: [
+    [0.4900, 0.4929, 0.4868, 0.4902, 391250285.0],
+    [0.4902, 0.4947, 0.4655, 0.4705, 465434118.0],
+    [0.4705, 0.4810, 0.4668, 0.4700, 415931583.9],
+    [0.4700, 0.4789, 0.4613, 0.4781, 432969926.1],
+    [0.4781, 0.4886, 0.4741, 0.4834, 399615645.7],
+    [0.4834, 0.4953, 0.4731, 0.4952, 545760396.5],
+    [0.4952, 0.5111, 0.4848, 0.5056, 475900379.1],
+    [0.5056, 0.5064, 0.4941, 0.4968, 437993303.3],
+    [0.4968, 0.5162, 0.4955, 0.5071, 550956889.2],
+    [0.5071, 0.5106, 0.4862, 0.4922, 264856942.9],
+    [0.4922, 0.4995, 0.4761, 0.4780, 571015396.7],
+    [0.4780, 0.4814, 0.4766, 0.4789, 625288865.8],
+    [0.4789, 0.4819, 0.4634, 0.4672, 454243159.9],
+    [0.4672, 0.4702, 0.4362, 0.4416, 283875730.9],
+    [0.4416, 0.4543, 0.4403, 0.4527, 270144157.6],
+    [0.4527, 0.4554, 0.4497, 0.4543, 447382058.5],
+    [0.4543, 0.4608, 0.4538, 0.4602, 365776532.0],
+    [0.4602, 0.4660, 0.4502, 0.4578, 364423588.4],
+    [0.4578, 0.4690, 0.4537, 0.4643, 408455704.3],
+    [0.4643, 0.4716, 0.4559, 0.4674, 362860253.2],
+    [0.4674, 0.4711, 0.4663, 0.4707, 250962080.2],
+    [0.4707, 0.4708, 0.4605, 0.4643, 438497153.7],
+    [0.4643, 0.4706, 0.4288, 0.4392, 405074798.5],
+    [0.4392, 0.4784, 0.4363, 0.4769, 490393590.7],
+    [0.4769, 0.4796, 0.4735, 0.4781, 449156237.7],
+    [0.4781, 0.4871, 0.4651, 0.4689, 399150984.1],
+    [0.4689, 0.5045, 0.4680, 0.4994, 432177314.3],
+    [0.4994, 0.5129, 0.4976, 0.5089, 568094722.4],
+    [0.5089, 0.5299, 0.4944, 0.5256, 336652211.7],
+    [0.5256, 0.5257, 0.5223, 0.5234, 503981171.3],
+  ],
+  DOGEUSDT: [
+    [0.13931, 0.14082, 0.13906, 0.13971, 1533782126.7],
+    [0.13971, 0.14454, 0.13893, 0.14206, 1639182925.0],
+    [0.14206, 0.14813, 0.14147, 0.14624, 1312127792.6],
+    [0.14624, 0.14906, 0.14519, 0.14577, 2635120978.2],
+    [0.14577, 0.14670, 0.14551, 0.14635, 1320857077.4],
+    [0.14635, 0.14852, 0.14630, 0.14681, 2000528290.2],
+    [0.14681, 0.15055, 0.14667, 0.14992, 2518866705.7],
+    [0.14992, 0.15058, 0.14732, 0.14738, 1002587470.0],
+    [0.14738, 0.14813, 0.14280, 0.14397, 2875002651.4],
+    [0.14397, 0.14460, 0.14189, 0.14210, 3007916320.8],
+    [0.14210, 0.14266, 0.14006, 0.14130, 3059021384.0],
+    [0.14130, 0.14162, 0.13922, 0.14156, 1772122672.0],
+    [0.14156, 0.15136, 0.14143, 0.15099, 2216785419.5],
+    [0.15099, 0.15758, 0.14666, 0.15548, 1796378208.5],
+    [0.15548, 0.15655, 0.15313, 0.15405, 1586451005.8],
+    [0.15405, 0.15906, 0.15299, 0.15811, 2005380970.4],
+    [0.15811, 0.15912, 0.13945, 0.14209, 2564242323.9],
+    [0.14209, 0.14472, 0.13960, 0.14077, 1855244519.8],
+    [0.14077, 0.14145, 0.13443, 0.13583, 2198866194.3],
+    [0.13583, 0.14356, 0.13494, 0.14288, 3006744385.7],
+    [0.14288, 0.14475, 0.14225, 0.14474, 2822728820.4],
+    [0.14474, 0.14955, 0.14251, 0.14907, 3496445804.1],
+    [0.14907, 0.15449, 0.14552, 0.15050, 2133784480.0],
+    [0.15050, 0.15249, 0.14876, 0.15173, 2515286151.5],
+    [0.15173, 0.16454, 0.14981, 0.16400, 2210343912.2],
+    [0.16400, 0.16948, 0.16186, 0.16740, 1601512184.3],
+    [0.16740, 0.17178, 0.16351, 0.17173, 2014652012.3],
+    [0.17173, 0.17611, 0.17080, 0.17520, 1776823620.2],
+    [0.17520, 0.17705, 0.14864, 0.14935, 2127983166.0],
+    [0.14935, 0.16000, 0.14933, 0.15873, 2559037632.8],
+  ],
+  DOTUSDT: [
+    [5.967, 6.069, 5.911, 5.986, 5371513.5],
+    [5.986, 6.147, 5.956, 6.078, 5794833.7],
+    [6.078, 6.409, 5.980, 6.406, 4622927.0],
+    [6.406, 6.448, 6.330, 6.398, 5204952.9],
+    [6.398, 6.420, 6.212, 6.255, 4794432.3],
+    [6.255, 6.452, 6.228, 6.404, 3574099.2],
+    [6.404, 6.437, 6.324, 6.338, 3842382.2],
+    [6.338, 6.577, 6.317, 6.517, 4693820.5],
+    [6.517, 6.579, 6.383, 6.486, 4241512.0],
+    [6.486, 6.788, 6.418, 6.753, 8087733.0],
+    [6.753, 6.896, 6.656, 6.856, 4294349.0],
+    [6.856, 7.035, 6.673, 6.967, 1868819.9],
+    [6.967, 7.061, 6.925, 7.025, 5004536.7],
+    [7.025, 7.267, 6.843, 7.209, 5225309.3],
+    [7.209, 7.351, 6.749, 6.819, 2918320.3],
+    [6.819, 7.175, 6.772, 7.077, 5308999.1],
+    [7.077, 7.262, 7.067, 7.153, 3341684.8],
+    [7.153, 7.299, 6.680, 6.776, 6071875.9],
+    [6.776, 6.851, 6.706, 6.784, 5759626.4],
+    [6.784, 6.946, 6.600, 6.892, 4736537.7],
+    [6.892, 6.967, 6.567, 6.625, 6252458.6],
+    [6.625, 6.941, 6.612, 6.742, 5753916.4],
+    [6.742, 6.955, 6.665, 6.749, 4701728.2],
+    [6.749, 6.752, 6.545, 6.616, 4555632.7],
+    [6.616, 7.102, 6.553, 7.006, 5465303.2],
+    [7.006, 7.050, 6.486, 6.498, 4238631.3],
+    [6.498, 6.622, 6.345, 6.429, 5512115.0],
+    [6.429, 6.472, 6.276, 6.291, 6391754.4],
+    [6.291, 7.036, 6.283, 6.954, 5814076.5],
+    [6.954, 6.998, 6.846, 6.874, 2424713.2],
+  ],
+  AVAXUSDT: [
+    [35.69, 35.81, 35.27, 35.27, 2784832.2],
+    [35.27, 36.44, 35.20, 36.30, 1699274.6],
+    [36.30, 37.36, 36.29, 37.21, 2259951.6],
+    [37.21, 38.12, 36.98, 38.10, 2864564.4],
+    [38.10, 39.23, 36.91, 38.27, 2833233.8],
+    [38.27, 39.11, 37.36, 37.81, 4969550.8],
+    [37.81, 39.21, 37.75, 38.07, 3375021.0],
+    [38.07, 38.21, 37.20, 37.45, 1312208.8],
+    [37.45, 37.84, 35.42, 35.58, 3004393.3],
+    [35.58, 36.06, 35.31, 35.81, 2624841.5],
+    [35.81, 36.03, 35.59, 35.93, 1309343.1],
+    [35.93, 35.95, 35.13, 35.22, 3550747.4],
+    [35.22, 35.87, 35.20, 35.50, 3448253.9],
+    [35.50, 37.10, 34.97, 37.04, 4474784.2],
+    [37.04, 37.91, 36.18, 37.50, 3627108.7],
+    [37.50, 38.19, 36.03, 36.43, 3595216.6],
+    [36.43, 37.50, 36.12, 37.23, 3650829.3],
+    [37.23, 37.64, 35.06, 35.84, 2242351.4],
+    [35.84, 37.69, 35.01, 36.60, 2474671.5],
+    [36.60, 36.92, 35.30, 35.40, 2427692.5],
+    [35.40, 35.95, 34.78, 34.82, 2176055.2],
+    [34.82, 35.36, 34.02, 34.26, 3152593.3],
+    [34.26, 34.27, 33.45, 33.57, 3230015.0],
+    [33.57, 33.85, 31.89, 32.61, 1338349.7],
+    [32.61, 33.10, 31.96, 32.26, 2970194.3],
+    [32.26, 32.60, 32.04, 32.58, 3076868.1],
+    [32.58, 32.89, 32.09, 32.37, 1404943.7],
+    [32.37, 32.51, 32.18, 32.45, 3382912.7],
+    [32.45, 33.48, 32.38, 33.43, 3686608.3],
+    [33.43, 34.13, 33.14, 34.12, 3422378.7],
+  ],
+  SHIBUSDT: [
+    [0.00001810, 0.00001845, 0.00001782, 0.00001795, 16239341326062.2],
+    [0.00001795, 0.00001797, 0.00001755, 0.00001766, 11725429970283.0],
+    [0.00001766, 0.00001796, 0.00001738, 0.00001787, 7928608911474.3],
+    [0.00001787, 0.00001856, 0.00001782, 0.00001854, 10583057500543.9],
+    [0.00001854, 0.00001986, 0.00001837, 0.00001978, 18523607241334.1],
+    [0.00001978, 0.00001999, 0.00001971, 0.00001984, 7557267886730.7],
+    [0.00001984, 0.00002029, 0.00001949, 0.00001950, 12241269100641.3],
+    [0.00001950, 0.00002069, 0.00001949, 0.00002042, 8962550833198.3],
+    [0.00002042, 0.00002044, 0.00001982, 0.00001994, 12442085538317.9],
+    [0.00001994, 0.00002000, 0.00001938, 0.00001958, 16758518331068.2],
+    [0.00001958, 0.00001973, 0.00001899, 0.00001941, 11766964072859.7],
+    [0.00001941, 0.00001959, 0.00001872, 0.00001895, 11250377130420.3],
+    [0.00001895, 0.00001911, 0.00001868, 0.00001905, 11921157106571.6],
+    [0.00001905, 0.00002025, 0.00001889, 0.00001991, 11876614598033.9],
+    [0.00001991, 0.00002025, 0.00001988, 0.00002022, 12198207534673.9],
+    [0.00002022, 0.00002039, 0.00001985, 0.00001987, 4924570275300.6],
+    [0.00001987, 0.00001987, 0.00001895, 0.00001915, 14355777792878.7],
+    [0.00001915, 0.00002003, 0.00001912, 0.00001989, 19065676556403.9],
+    [0.00001989, 0.00002066, 0.00001962, 0.00002041, 7989129951110.1],
+    [0.00002041, 0.00002178, 0.00001995, 0.00002117, 13470815644946.1],
+    [0.00002117, 0.00002174, 0.00002069, 0.00002157, 7769622595478.6],
+    [0.00002157, 0.00002179, 0.00002137, 0.00002163, 11213448518636.0],
+    [0.00002163, 0.00002290, 0.00002128, 0.00002281, 18336494262564.0],
+    [0.00002281, 0.00002422, 0.00002277, 0.00002392, 12914104357905.4],
+    [0.00002392, 0.00002444, 0.00002300, 0.00002340, 11387335545778.7],
+    [0.00002340, 0.00002353, 0.00002280, 0.00002288, 12507327019412.1],
+    [0.00002288, 0.00002302, 0.00002232, 0.00002268, 10697464375572.3],
+    [0.00002268, 0.00002310, 0.00002201, 0.00002233, 14001760232737.2],
+    [0.00002233, 0.00002455, 0.00002196, 0.00002420, 15097943112206.6],
+    [0.00002420, 0.00002476, 0.00002293, 0.00002345, 14845409076824.5],
+  ],
+  LTCUSDT: [
+    [73.07, 74.46, 72.20, 72.78, 354894.1],
+    [72.78, 76.29, 72.19, 75.14, 437977.8],
+    [75.14, 75.39, 72.48, 72.77, 486432.2],
+    [72.77, 75.22, 72.19, 74.72, 457415.5],
+    [74.72, 74.91, 71.82, 74.27, 589420.8],
+    [74.27, 77.02, 72.69, 76.99, 467692.2],
+    [76.99, 79.09, 76.00, 78.65, 333145.3],
+    [78.65, 80.11, 77.25, 77.40, 730262.0],
+    [77.40, 81.30, 76.77, 81.16, 414923.5],
+    [81.16, 82.25, 79.48, 80.54, 560291.6],
+    [80.54, 82.44, 79.71, 80.94, 391334.1],
+    [80.94, 84.62, 80.31, 82.96, 379703.9],
+    [82.96, 86.33, 82.38, 85.50, 494223.1],
+    [85.50, 85.77, 84.36, 84.53, 440158.8],
+    [84.53, 84.75, 82.24, 82.99, 566355.7],
+    [82.99, 83.92, 81.49, 83.23, 619796.0],
+    [83.23, 84.18, 82.13, 84.06, 269150.2],
+    [84.06, 85.49, 84.04, 85.16, 292175.6],
+    [85.16, 85.68, 83.05, 83.78, 579957.6],
+    [83.78, 85.38, 81.69, 82.55, 296761.6],
+    [82.55, 83.06, 78.37, 79.26, 478833.2],
+    [79.26, 80.50, 75.75, 76.46, 547298.5],
+    [76.46, 76.97, 72.76, 73.19, 491511.3],
+    [73.19, 76.37, 72.70, 75.65, 246242.8],
+    [75.65, 76.49, 75.21, 76.19, 458332.6],
+    [76.19, 77.62, 75.65, 76.80, 447392.9],
+    [76.80, 78.22, 76.28, 77.93, 639011.6],
+    [77.93, 79.57, 76.01, 79.33, 631394.1],
+    [79.33, 82.12, 78.77, 81.35, 659012.6],
+    [81.35, 81.63, 81.24, 81.45, 335446.8],
+  ],
+  LINKUSDT: [
+    [16.623, 17.022, 16.364, 16.912, 5539930.3],
+    [16.912, 17.034, 16.530, 16.594, 2799889.7],
+    [16.594, 16.697, 15.920, 16.026, 3451048.9],
+    [16.026, 16.594, 15.884, 16.494, 3756678.9],
+    [16.494, 16.700, 15.378, 15.767, 5246768.5],
+    [15.767, 16.164, 15.734, 15.909, 3452015.5],
+    [15.909, 16.426, 14.942, 14.973, 5955866.7],
+    [14.973, 15.027, 14.677, 14.842, 6254883.0],
+    [14.842, 15.228, 14.764, 15.025, 5768764.5],
+    [15.025, 15.165, 14.497, 14.769, 4104342.7],
+    [14.769, 15.021, 14.449, 14.468, 5227402.0],
+    [14.468, 14.654, 13.510, 13.852, 6049541.5],
+    [13.852, 13.915, 13.398, 13.639, 3055784.1],
+    [13.639, 14.208, 13.300, 14.030, 6858818.3],
+    [14.030, 14.484, 13.984, 14.448, 4391282.5],
+    [14.448, 14.621, 13.715, 13.888, 4666437.7],
+    [13.888, 14.591, 13.764, 14.357, 4030670.4],
+    [14.357, 14.865, 14.311, 14.754, 6420977.6],
+    [14.754, 14.955, 14.340, 14.418, 4965626.1],
+    [14.418, 14.723, 14.031, 14.122, 5062012.8],
+    [14.122, 14.324, 13.476, 13.682, 5159257.3],
+    [13.682, 13.899, 13.336, 13.541, 4849670.7],
+    [13.541, 14.060, 13.127, 13.995, 3583610.4],
+    [13.995, 14.186, 13.300, 13.424, 2658607.0],
+    [13.424, 13.652, 13.397, 13.519, 4003600.7],
+    [13.519, 13.544, 13.389, 13.465, 3642913.0],
+    [13.465, 13.739, 13.362, 13.663, 3945250.6],
+    [13.663, 13.998, 13.569, 13.908, 4895032.4],
+    [13.908, 15.912, 13.904, 15.613, 4400339.2],
+    [15.613, 15.750, 14.667, 14.732, 5803457.9],
+  ],
+};
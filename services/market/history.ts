@@ -0,0 +1,69 @@
+import { Kline, KlineInterval, MarketDataProvider } from './types';
+
+// Upper bound on requests for one range, in case an exchange keeps returning data
+const MAX_PAGES = 20;
+
+// Fetch every candle between startTime and endTime, paging backwards from the end
+// in chunks of the provider's request limit
+export const fetchKlineHistory = async (
+  provider: MarketDataProvider,
+  symbol: string,
+  interval: KlineInterval,
+  startTime: number,
+  endTime: number
+): Promise<Kline[]> => {
+  const limit = provider.maxKlinesPerRequest;
+  let cursor = endTime;
+  let candles: Kline[] = [];
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const batch = await provider.getKlines(symbol, { interval, endTime: cursor, limit });
+    const inRange = batch.filter(candle => candle.openTime >= startTime);
+    const known = new Set(candles.map(candle => candle.openTime));
+    candles = [...inRange.filter(candle => !known.has(candle.openTime)), ...candles];
+
+    if (batch.length < limit || batch.length === 0 || batch[0].openTime <= startTime) break;
+    cursor = batch[0].openTime - 1;
+  }
+
+  return candles;
+};
+
+export interface KlineSummary {
+  open: number;
+  close: number;
+  high: number;
+  highTime: number;
+  low: number;
+  lowTime: number;
+  volume: number;
+  changePercent: number;
+}
+
+// High, low, volume and net change across a run of candles
+export const summarizeKlines = (klines: Kline[]): KlineSummary | null => {
+  if (klines.length === 0) return null;
+
+  const first = klines[0];
+  const last = klines[klines.length - 1];
+  let highest = first;
+  let lowest = first;
+  let volume = 0;
+
+  for (const candle of klines) {
+    if (candle.high > highest.high) highest = candle;
+    if (candle.low < lowest.low) lowest = candle;
+    volume += candle.volume;
+  }
+
+  return {
+    open: first.open,
+    close: last.close,
+    high: highest.high,
+    highTime: highest.openTime,
+    low: lowest.low,
+    lowTime: lowest.openTime,
+    volume,
+    changePercent: first.open === 0 ? 0 : ((last.close - first.open) / first.open) * 100,
+  };
+};
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchJson, rateLimitRemaining } from './http';
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// fetch that answers with each response in turn
+const stubFetch = (...responses: Response[]) => {
+  const fetchMock = vi.fn(async () => responses.shift() ?? json({ msg: 'No more responses' }, 500));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('fetchJson', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // No jitter, so the backoff is exactly 500ms, then 1s
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries server errors with a growing backoff', async () => {
+    const fetchMock = stubFetch(json({}, 502), json({}, 503), json({ price: '1' }));
+
+    const request = fetchJson('https://retry.test/ticker', { errorMessage: 'Failed' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(request).resolves.toEqual({ price: '1' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry with the reason', async () => {
+    const fetchMock = stubFetch(json({}, 500), json({}, 500), json({}, 500));
+
+    const request = fetchJson('https://down.test/ticker', { errorMessage: 'Failed to fetch data for BTCUSDT' });
+    const failed = expect(request).rejects.toThrow('Failed to fetch data for BTCUSDT: the server answered with status 500');
+    await vi.advanceTimersByTimeAsync(1500);
+
+    await failed;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('treats a network error like a server error', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(json({ ok: true }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const request = fetchJson('https://flaky.test/ticker', { errorMessage: 'Failed' });
+    await vi.advanceTimersByTimeAsync(500);
+
+    await expect(request).resolves.toEqual({ ok: true });
+  });
+
+  it('holds off a rate-limited host for as long as it asks', async () => {
+    const fetchMock = stubFetch(json({}, 429, { 'Retry-After': '30' }), json({ ok: true }));
+
+    await expect(fetchJson('https://limited.test/ticker', { errorMessage: 'Failed' }))
+      .rejects.toThrow('Failed: the exchange is rate limiting requests, try again in 30 seconds');
+    expect(rateLimitRemaining('https://limited.test/klines')).toBe(30000);
+
+    // Other requests to the host fail without being sent until the cool-down is over
+    await expect(fetchJson('https://limited.test/klines', { errorMessage: 'Failed' })).rejects.toThrow('rate limiting');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(30000);
+    await expect(fetchJson('https://limited.test/klines', { errorMessage: 'Failed' })).resolves.toEqual({ ok: true });
+  });
+
+  it('cools down for a minute after a ban without Retry-After', async () => {
+    stubFetch(json({}, 418));
+
+    await expect(fetchJson('https://banned.test/ticker', { errorMessage: 'Failed' })).rejects.toThrow('try again in 60 seconds');
+  });
+
+  it('fails straight away while offline', async () => {
+    const fetchMock = stubFetch(json({ ok: true }));
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+    await expect(fetchJson('https://offline.test/ticker', { errorMessage: 'Failed' })).rejects.toThrow('Failed: you appear to be offline');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+// Request layer shared by the exchange providers: timeouts, retries with exponential
+// backoff, rate-limit cool-downs and offline detection.
+
+export interface RequestOptions {
+  // Prefix for every error message, e.g. "Failed to fetch data for BTCUSDT"
+  errorMessage: string;
+  timeoutMs?: number;
+  // Extra attempts after the first for timeouts, network errors and 5xx responses
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 2;
+const INITIAL_BACKOFF_MS = 500;
+// Cool-down when a 429/418 response doesn't say how long to wait
+const DEFAULT_RATE_LIMIT_MS = 60 * 1000;
+// Binance answers 429 when the per-minute request weight is used up and 418 once an
+// IP keeps sending requests after that; both carry a Retry-After header in seconds
+const RATE_LIMIT_STATUSES = [418, 429];
+
+// Hosts that have rate-limited us, with the time requests may resume
+const coolDowns = new Map<string, number>();
+
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Time until the host accepts requests again, or 0
+export const rateLimitRemaining = (url: string): number => {
+  const until = coolDowns.get(new URL(url).host) ?? 0;
+  return Math.max(0, until - Date.now());
+};
+
+const retryAfterMs = (response: Response): number => {
+  const seconds = parseFloat(response.headers.get('Retry-After') ?? '');
+  return seconds > 0 ? seconds * 1000 : DEFAULT_RATE_LIMIT_MS;
+};
+
+const waitFor = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// One attempt, aborted after the timeout or when the caller's signal fires. Resolves
+// to null when the request timed out or never reached the server.
+const attemptFetch = async (url: string, timeoutMs: number, signal?: AbortSignal): Promise<Response | null> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    return null;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+// GET a JSON document, retrying transient failures with exponential backoff (plus jitter)
+export const fetchJson = async <T>(url: string, options: RequestOptions): Promise<T> => {
+  const { errorMessage, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, signal } = options;
+  const host = new URL(url).host;
+
+  for (let attempt = 0; ; attempt++) {
+    if (isOffline()) {
+      throw new Error(`${errorMessage}: you appear to be offline`);
+    }
+
+    const coolDown = rateLimitRemaining(url);
+    if (coolDown > 0) {
+      throw new Error(`${errorMessage}: the exchange is rate limiting requests, try again in ${Math.ceil(coolDown / 1000)} seconds`);
+    }
+
+    const response = await attemptFetch(url, timeoutMs, signal);
+
+    if (response?.ok) {
+      return await response.json() as T;
+    }
+
+    if (response && RATE_LIMIT_STATUSES.includes(response.status)) {
+      coolDowns.set(host, Date.now() + retryAfterMs(response));
+      continue;
+    }
+
+    // Client errors (unknown symbol and the like) won't change on a retry
+    if (response && response.status < 500) {
+      throw new Error(errorMessage);
+    }
+
+    if (attempt >= retries) {
+      const reason = response ? `the server answered with status ${response.status}` : 'the exchange could not be reached';
+      throw new Error(`${errorMessage}: ${reason}`);
+    }
+    await waitFor(INITIAL_BACKOFF_MS * 2 ** attempt + Math.random() * 250, signal);
+  }
+};
@@ -0,0 +1,29 @@
+import { binanceProvider } from './binance';
+import { bybitProvider } from './bybit';
+import { createCachedProvider } from './cache';
+import { mockProvider } from './mock';
+import { MarketDataProvider } from './types';
+
+export * from './types';
+export * from './timeframes';
+export * from './history';
+export * from './overview';
+export * from './fiat';
+export * from './depth';
+export { formatDataAge } from './cache';
+export { isOffline } from './http';
+
+// Exchange responses are cached; the mock answers instantly and needs no cache
+export const MARKET_PROVIDERS: MarketDataProvider[] = [
+  createCachedProvider(binanceProvider),
+  createCachedProvider(bybitProvider),
+  mockProvider,
+];
+
+// Provider used when nothing has been selected yet; set VITE_MARKET_PROVIDER=mock for offline demos
+export const DEFAULT_PROVIDER_ID: string = import.meta.env.VITE_MARKET_PROVIDER || binanceProvider.id;
+
+export const getMarketDataProvider = (id: string): MarketDataProvider =>
+  MARKET_PROVIDERS.find(provider => provider.id === id) ??
+  MARKET_PROVIDERS.find(provider => provider.id === DEFAULT_PROVIDER_ID) ??
+  MARKET_PROVIDERS[0];
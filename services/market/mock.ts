@@ -0,0 +1,314 @@
+import {
+  CryptoData,
+  INTERVAL_MS,
+  Kline,
+  KlineInterval,
+  KlineQuery,
+  MarketDataProvider,
+  MarketStreamHandlers,
+  MarketTrade,
+  ORDER_BOOK_DEPTH,
+  OrderBook,
+  RECENT_TRADES_LIMIT,
+  SymbolInfo,
+  TradeStreamHandlers,
+} from './types';
+import { FIXTURE_INTERVAL, KLINE_FIXTURES, TICKER_FIXTURES } from './fixtures';
+
+// How often the simulated stream ticks, and the largest relative move per tick
+const MOCK_TICK_MS = 2000;
+const MOCK_TICK_VOLATILITY = 0.002;
+// Simulated book: levels this fraction of the price apart, an occasional wall several
+// times the usual size, and trades sized against the 24h volume
+const MOCK_BOOK_STEP = 0.0002;
+const MOCK_WALL_CHANCE = 0.05;
+const MOCK_WALL_SIZE = 8;
+const MOCK_LARGE_TRADE_CHANCE = 0.03;
+const MOCK_TRADE_MS = 1000;
+// Days of synthetic history generated before the recorded candles
+const SYNTHETIC_HISTORY_DAYS = 800;
+const SYNTHETIC_DAILY_VOLATILITY = 0.03;
+
+// Small deterministic PRNG (mulberry32) so the synthetic history is the same on every load
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hashSymbol = (symbol: string) =>
+  [...symbol].reduce((hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) | 0, 7);
+
+// Walk backwards from the first recorded candle so long ranges and indicators have data
+const syntheticHistory = (symbol: string, first: Kline): Kline[] => {
+  const random = seededRandom(hashSymbol(symbol));
+  const dayMs = INTERVAL_MS[FIXTURE_INTERVAL];
+  const candles: Kline[] = [];
+  let close = first.open;
+
+  for (let day = 1; day <= SYNTHETIC_HISTORY_DAYS; day++) {
+    const open = close / (1 + (random() - 0.5) * 2 * SYNTHETIC_DAILY_VOLATILITY);
+    const openTime = first.openTime - day * dayMs;
+    candles.unshift({
+      openTime,
+      open,
+      high: Math.max(open, close) * (1 + random() * 0.015),
+      low: Math.min(open, close) * (1 - random() * 0.015),
+      close,
+      volume: first.volume * (0.6 + random() * 0.8),
+      closeTime: openTime + dayMs - 1,
+    });
+    close = open;
+  }
+
+  return candles;
+};
+
+const dailyCache = new Map<string, Kline[]>();
+
+// Re-anchor the recorded daily candles so the last one is the current UTC day,
+// preceded by the synthetic history
+const anchoredDailyKlines = (symbol: string): Kline[] => {
+  const rows = KLINE_FIXTURES[symbol] ?? [];
+  const dayMs = INTERVAL_MS[FIXTURE_INTERVAL];
+  const lastOpen = Math.floor(Date.now() / dayMs) * dayMs;
+  const cacheKey = `${symbol}:${lastOpen}`;
+  const cached = dailyCache.get(cacheKey);
+  if (cached) return cached;
+
+  const firstOpen = lastOpen - (rows.length - 1) * dayMs;
+  const recorded = rows.map(([open, high, low, close, volume], index) => ({
+    openTime: firstOpen + index * dayMs,
+    open,
+    high,
+    low,
+    close,
+    volume,
+    closeTime: firstOpen + (index + 1) * dayMs - 1,
+  }));
+
+  const candles = recorded.length ? [...syntheticHistory(symbol, recorded[0]), ...recorded] : [];
+  dailyCache.set(cacheKey, candles);
+  return candles;
+};
+
+// Split each daily candle into intraday candles along a straight open -> close path
+const splitKlines = (daily: Kline[], intervalMs: number): Kline[] => {
+  const parts = Math.round(INTERVAL_MS[FIXTURE_INTERVAL] / intervalMs);
+
+  return daily.flatMap(candle =>
+    Array.from({ length: parts }, (_, part) => {
+      const open = candle.open + ((candle.close - candle.open) * part) / parts;
+      const close = candle.open + ((candle.close - candle.open) * (part + 1)) / parts;
+      const openTime = candle.openTime + part * intervalMs;
+      return {
+        openTime,
+        open,
+        high: Math.min(candle.high, Math.max(open, close) * 1.002),
+        low: Math.max(candle.low, Math.min(open, close) * 0.998),
+        close,
+        volume: candle.volume / parts,
+        closeTime: openTime + intervalMs - 1,
+      };
+    })
+  );
+};
+
+// Merge consecutive daily candles into weekly ones
+const mergeKlines = (daily: Kline[], size: number): Kline[] => {
+  const merged: Kline[] = [];
+  for (let i = 0; i < daily.length; i += size) {
+    const group = daily.slice(i, i + size);
+    merged.push({
+      openTime: group[0].openTime,
+      open: group[0].open,
+      high: Math.max(...group.map(candle => candle.high)),
+      low: Math.min(...group.map(candle => candle.low)),
+      close: group[group.length - 1].close,
+      volume: group.reduce((sum, candle) => sum + candle.volume, 0),
+      closeTime: group[group.length - 1].closeTime,
+    });
+  }
+  return merged;
+};
+
+// Serve the recorded candles, resampled to the requested interval
+const getMockKlines = (symbol: string, query: KlineQuery): Kline[] => {
+  if (!KLINE_FIXTURES[symbol]) {
+    throw new Error(`Failed to fetch historical data for ${symbol}`);
+  }
+
+  const daily = anchoredDailyKlines(symbol);
+  const intervalMs = INTERVAL_MS[query.interval];
+  const dayMs = INTERVAL_MS[FIXTURE_INTERVAL];
+
+  let klines = intervalMs === dayMs
+    ? daily
+    : intervalMs < dayMs
+      ? splitKlines(daily, intervalMs)
+      : mergeKlines(daily, Math.round(intervalMs / dayMs));
+
+  if (query.startTime !== undefined) {
+    const startTime = query.startTime;
+    klines = klines.filter(candle => candle.openTime >= startTime);
+  }
+  if (query.endTime !== undefined) {
+    const endTime = query.endTime;
+    klines = klines.filter(candle => candle.openTime <= endTime);
+  }
+
+  // Like Binance: with a start time the limit counts forwards, otherwise back from the end
+  const limit = query.limit ?? 500;
+  return query.startTime !== undefined ? klines.slice(0, limit) : klines.slice(-limit);
+};
+
+// Typical size of one book level or trade, in the base asset
+const typicalSize = (ticker: CryptoData) => parseFloat(ticker.volume) / 50000;
+
+const mockOrderBook = (symbol: string, limit: number): OrderBook => {
+  const ticker = TICKER_FIXTURES[symbol];
+  if (!ticker) {
+    throw new Error(`Failed to fetch the order book for ${symbol}`);
+  }
+
+  const price = parseFloat(ticker.lastPrice);
+  const size = typicalSize(ticker);
+  const side = (direction: number) =>
+    Array.from({ length: limit }, (_, index) => ({
+      price: parseFloat((price + direction * (index + 0.5) * price * MOCK_BOOK_STEP).toPrecision(8)),
+      quantity: size * (0.3 + Math.random()) * (Math.random() < MOCK_WALL_CHANCE ? MOCK_WALL_SIZE : 1),
+    }));
+
+  return { symbol, bids: side(-1), asks: side(1), time: Date.now() };
+};
+
+let mockTradeId = 0;
+
+const mockTrade = (ticker: CryptoData, price: number, time: number): MarketTrade => ({
+  id: String(++mockTradeId),
+  price: parseFloat(price.toPrecision(8)),
+  quantity: typicalSize(ticker) * Math.random() * (Math.random() < MOCK_LARGE_TRADE_CHANCE ? 40 : 1),
+  time,
+  side: Math.random() < 0.5 ? 'buy' : 'sell',
+});
+
+export const mockProvider: MarketDataProvider = {
+  id: 'mock',
+  name: 'Offline demo',
+  maxKlinesPerRequest: 1000,
+
+  async getTicker(symbol: string): Promise<CryptoData> {
+    const ticker = TICKER_FIXTURES[symbol];
+
+    if (!ticker) {
+      throw new Error(`Failed to fetch data for ${symbol}`);
+    }
+
+    return { ...ticker };
+  },
+
+  async getTickers(symbols?: string[]): Promise<CryptoData[]> {
+    return (symbols ?? Object.keys(TICKER_FIXTURES))
+      .filter(symbol => TICKER_FIXTURES[symbol])
+      .map(symbol => ({ ...TICKER_FIXTURES[symbol] }));
+  },
+
+  async getKlines(symbol: string, query: KlineQuery): Promise<Kline[]> {
+    return getMockKlines(symbol, query);
+  },
+
+  async getSymbols(): Promise<SymbolInfo[]> {
+    // Recorded pairs are quoted in USDT, except fiat rates such as USDTTRY
+    return Object.keys(TICKER_FIXTURES).map(symbol =>
+      symbol.startsWith('USDT')
+        ? { symbol, baseAsset: 'USDT', quoteAsset: symbol.slice(4) }
+        : { symbol, baseAsset: symbol.replace(/USDT$/, ''), quoteAsset: 'USDT' }
+    );
+  },
+
+  async getOrderBook(symbol: string, limit = ORDER_BOOK_DEPTH): Promise<OrderBook> {
+    return mockOrderBook(symbol, limit);
+  },
+
+  async getRecentTrades(symbol: string, limit = RECENT_TRADES_LIMIT): Promise<MarketTrade[]> {
+    const ticker = TICKER_FIXTURES[symbol];
+
+    if (!ticker) {
+      throw new Error(`Failed to fetch recent trades for ${symbol}`);
+    }
+
+    const price = parseFloat(ticker.lastPrice);
+    const now = Date.now();
+    return Array.from({ length: limit }, (_, index) =>
+      mockTrade(ticker, price * (1 + (Math.random() - 0.5) * MOCK_BOOK_STEP * 10), now - (limit - index) * MOCK_TRADE_MS)
+    );
+  },
+
+  // Simulated stream: a small random walk around the recorded price
+  subscribe(symbol: string, interval: KlineInterval, handlers: MarketStreamHandlers): () => void {
+    const ticker = TICKER_FIXTURES[symbol];
+
+    if (!ticker) {
+      handlers.onStatus('closed');
+      return () => {};
+    }
+
+    const previousClose = parseFloat(ticker.lastPrice) - parseFloat(ticker.priceChange);
+    const klines = getMockKlines(symbol, { interval });
+    let candle: Kline | undefined = klines[klines.length - 1];
+    let price = parseFloat(ticker.lastPrice);
+    let high = parseFloat(ticker.highPrice);
+    let low = parseFloat(ticker.lowPrice);
+    const format = (value: number) => String(parseFloat(value.toPrecision(8)));
+
+    handlers.onStatus('live');
+
+    const timer = setInterval(() => {
+      price *= 1 + (Math.random() - 0.5) * 2 * MOCK_TICK_VOLATILITY;
+      high = Math.max(high, price);
+      low = Math.min(low, price);
+
+      handlers.onTicker({
+        ...ticker,
+        lastPrice: format(price),
+        priceChange: format(price - previousClose),
+        priceChangePercent: (((price - previousClose) / previousClose) * 100).toFixed(3),
+        highPrice: format(high),
+        lowPrice: format(low),
+      });
+
+      if (candle) {
+        candle = { ...candle, close: price, high: Math.max(candle.high, price), low: Math.min(candle.low, price) };
+        handlers.onKline(candle);
+      }
+    }, MOCK_TICK_MS);
+
+    return () => {
+      clearInterval(timer);
+      handlers.onStatus('closed');
+    };
+  },
+
+  subscribeTrades(symbol: string, handlers: TradeStreamHandlers): () => void {
+    const ticker = TICKER_FIXTURES[symbol];
+
+    if (!ticker) {
+      handlers.onStatus('closed');
+      return () => {};
+    }
+
+    let price = parseFloat(ticker.lastPrice);
+    handlers.onStatus('live');
+
+    const timer = setInterval(() => {
+      price *= 1 + (Math.random() - 0.5) * 2 * MOCK_BOOK_STEP;
+      handlers.onTrade(mockTrade(ticker, price, Date.now()));
+    }, MOCK_TRADE_MS);
+
+    return () => {
+      clearInterval(timer);
+      handlers.onStatus('closed');
+    };
+  },
+};
@@ -0,0 +1,76 @@
+import { CryptoData, Kline } from './types';
+
+export type MoverDirection = 'gainers' | 'losers' | 'movers';
+
+export interface MarketBreadth {
+  // Most traded pairs the figures were computed from, by quote volume
+  tickers: CryptoData[];
+  advancers: number;
+  decliners: number;
+  averageChangePercent: number;
+}
+
+export interface PerformancePoint {
+  time: number;
+  // Percent change since the first candle
+  percent: number;
+}
+
+// One coin's performance line in a comparison
+export interface ComparisonSeries {
+  symbol: string;
+  points: PerformancePoint[];
+}
+
+// Market-wide rankings only consider USDT pairs of real assets
+const MOVER_QUOTE = 'USDT';
+const STABLECOINS = new Set(['USDC', 'FDUSD', 'BUSD', 'TUSD', 'DAI', 'USDP', 'USDD', 'PYUSD', 'EUR', 'GBP', 'TRY', 'BRL']);
+// Leveraged tokens such as BTCUPUSDT swing wildly and would crowd the rankings
+const LEVERAGED_PATTERN = /(UP|DOWN|BULL|BEAR)USDT$/;
+// Ignore illiquid pairs whose moves are mostly noise
+const MIN_QUOTE_VOLUME = 1_000_000;
+
+export const changeOf = (ticker: CryptoData): number => parseFloat(ticker.priceChangePercent);
+
+// 24h turnover in the quote asset
+export const quoteVolumeOf = (ticker: CryptoData): number => parseFloat(ticker.volume) * parseFloat(ticker.lastPrice);
+
+const isRankable = (ticker: CryptoData): boolean => {
+  if (!ticker.symbol.endsWith(MOVER_QUOTE) || LEVERAGED_PATTERN.test(ticker.symbol)) return false;
+  const base = ticker.symbol.slice(0, -MOVER_QUOTE.length);
+  return !STABLECOINS.has(base) && quoteVolumeOf(ticker) >= MIN_QUOTE_VOLUME && Number.isFinite(changeOf(ticker));
+};
+
+// Biggest 24h gainers, losers, or moves in either direction
+export const topMovers = (tickers: CryptoData[], direction: MoverDirection, limit: number): CryptoData[] => {
+  const score = (ticker: CryptoData) =>
+    direction === 'gainers' ? changeOf(ticker) : direction === 'losers' ? -changeOf(ticker) : Math.abs(changeOf(ticker));
+
+  return tickers
+    .filter(isRankable)
+    .sort((a, b) => score(b) - score(a))
+    .slice(0, limit);
+};
+
+// How the most traded pairs are doing as a group
+export const marketBreadth = (tickers: CryptoData[], limit: number): MarketBreadth => {
+  const leaders = tickers
+    .filter(isRankable)
+    .sort((a, b) => quoteVolumeOf(b) - quoteVolumeOf(a))
+    .slice(0, limit);
+  const changes = leaders.map(changeOf);
+
+  return {
+    tickers: leaders,
+    advancers: changes.filter(change => change > 0).length,
+    decliners: changes.filter(change => change < 0).length,
+    averageChangePercent: changes.length ? changes.reduce((sum, change) => sum + change, 0) / changes.length : 0,
+  };
+};
+
+// Close prices rebased to the first candle, so coins at different prices share one chart
+export const performanceSeries = (klines: Kline[]): PerformancePoint[] => {
+  const base = klines[0]?.close;
+  if (!base) return [];
+  return klines.map(candle => ({ time: candle.openTime, percent: ((candle.close - base) / base) * 100 }));
+};
@@ -0,0 +1,88 @@
+import { StreamStatus } from './types';
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+interface ReconnectingSocketOptions {
+  url: string;
+  onOpen?(socket: WebSocket): void;
+  onMessage(data: unknown): void;
+  onStatus(status: StreamStatus): void;
+  // Send a keep-alive message on this interval while connected
+  heartbeat?: { intervalMs: number; message: string };
+}
+
+// WebSocket that reconnects with exponential backoff (plus jitter) until closed
+export const createReconnectingSocket = (options: ReconnectingSocketOptions): (() => void) => {
+  let socket: WebSocket | null = null;
+  let attempt = 0;
+  let closed = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || retryTimer) return;
+    const delay = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** attempt) + Math.random() * 500;
+    attempt++;
+    options.onStatus('reconnecting');
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed) return;
+    if (attempt === 0) options.onStatus('connecting');
+
+    socket = new WebSocket(options.url);
+
+    socket.onopen = () => {
+      attempt = 0;
+      options.onStatus('live');
+      if (socket) options.onOpen?.(socket);
+
+      const heartbeat = options.heartbeat;
+      if (heartbeat) {
+        stopHeartbeat();
+        heartbeatTimer = setInterval(() => socket?.send(heartbeat.message), heartbeat.intervalMs);
+      }
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        options.onMessage(JSON.parse(event.data));
+      } catch (err) {
+        console.error('Error parsing stream message:', err);
+      }
+    };
+
+    socket.onerror = () => {
+      socket?.close();
+    };
+
+    socket.onclose = () => {
+      stopHeartbeat();
+      socket = null;
+      scheduleReconnect();
+    };
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    stopHeartbeat();
+    if (retryTimer) clearTimeout(retryTimer);
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+    options.onStatus('closed');
+  };
+};
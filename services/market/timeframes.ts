@@ -0,0 +1,65 @@
+import { INTERVAL_MS, KlineInterval } from './types';
+
+export type ChartRange = '24h' | '7d' | '1M' | '3M' | '6M' | '1y';
+
+export interface Timeframe {
+  range: ChartRange;
+  interval: KlineInterval;
+}
+
+export interface RangeInfo {
+  label: string;
+  // Used in speech and chart titles, e.g. "the last month"
+  spoken: string;
+  ms: number;
+  defaultInterval: KlineInterval;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CHART_RANGES: Record<ChartRange, RangeInfo> = {
+  '24h': { label: '24H', spoken: 'the last 24 hours', ms: DAY_MS, defaultInterval: '1h' },
+  '7d': { label: '7D', spoken: 'the last 7 days', ms: 7 * DAY_MS, defaultInterval: '1d' },
+  '1M': { label: '1M', spoken: 'the last month', ms: 30 * DAY_MS, defaultInterval: '4h' },
+  '3M': { label: '3M', spoken: 'the last 3 months', ms: 90 * DAY_MS, defaultInterval: '1d' },
+  '6M': { label: '6M', spoken: 'the last 6 months', ms: 180 * DAY_MS, defaultInterval: '1d' },
+  '1y': { label: '1Y', spoken: 'the last year', ms: 365 * DAY_MS, defaultInterval: '1w' },
+};
+
+export const KLINE_INTERVALS: KlineInterval[] = ['1h', '4h', '1d', '1w'];
+
+export const SPOKEN_INTERVALS: Record<KlineInterval, string> = {
+  '1h': '1 hour',
+  '4h': '4 hour',
+  '1d': 'daily',
+  '1w': 'weekly',
+};
+
+export const DEFAULT_TIMEFRAME: Timeframe = { range: '7d', interval: '1d' };
+
+// Keep charts readable: at least a handful of candles and no more than a few thousand
+const MIN_CANDLES = 5;
+const MAX_CANDLES = 2200;
+
+// Adjust the interval so the range holds a sensible number of candles
+export const fitInterval = (range: ChartRange, interval: KlineInterval): KlineInterval => {
+  const rangeMs = CHART_RANGES[range].ms;
+  const count = (candidate: KlineInterval) => rangeMs / INTERVAL_MS[candidate];
+  const index = KLINE_INTERVALS.indexOf(interval);
+
+  if (count(interval) > MAX_CANDLES) {
+    return KLINE_INTERVALS.slice(index + 1).find(candidate => count(candidate) <= MAX_CANDLES) ?? '1w';
+  }
+  if (count(interval) < MIN_CANDLES) {
+    return [...KLINE_INTERVALS.slice(0, index)].reverse().find(candidate => count(candidate) >= MIN_CANDLES) ?? '1h';
+  }
+  return interval;
+};
+
+// Smallest preset range that covers the requested duration
+export const rangeForDuration = (ms: number): ChartRange => {
+  const ranges = Object.keys(CHART_RANGES) as ChartRange[];
+  return ranges.find(range => CHART_RANGES[range].ms >= ms * 0.95) ?? '1y';
+};
+
+export type ChartType = 'line' | 'candles';
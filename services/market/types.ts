@@ -0,0 +1,113 @@
+// Shared types for the market data layer. Symbols are always passed around in
+// Binance format (e.g. "BTCUSDT"); each provider maps them to its own format.
+
+// 24h ticker snapshot, kept in the string-based Binance shape the UI already uses
+export interface CryptoData {
+  symbol: string;
+  priceChange: string;
+  priceChangePercent: string;
+  lastPrice: string;
+  volume: string;
+  highPrice: string;
+  lowPrice: string;
+  // Set when the exchange couldn't be reached and an earlier response was used instead
+  cachedAt?: number;
+}
+
+// Candle intervals supported by every provider
+export type KlineInterval = '1h' | '4h' | '1d' | '1w';
+
+// A single OHLCV candle
+export interface Kline {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  closeTime: number;
+}
+
+export interface KlineQuery {
+  interval: KlineInterval;
+  startTime?: number;
+  endTime?: number;
+  limit?: number;
+}
+
+// Connection state of a live market stream
+export type StreamStatus = 'connecting' | 'live' | 'reconnecting' | 'closed';
+
+export interface MarketStreamHandlers {
+  onTicker(ticker: CryptoData): void;
+  // Called with the candle currently forming (or just closed) for the subscribed interval
+  onKline(kline: Kline): void;
+  onStatus(status: StreamStatus): void;
+}
+
+// One price level of an order book
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+}
+
+// Snapshot of the nearest bids and asks, each side sorted best price first
+export interface OrderBook {
+  symbol: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  time: number;
+}
+
+// A public trade. side is the taker's: 'buy' means a buyer took the ask.
+export interface MarketTrade {
+  id: string;
+  price: number;
+  quantity: number;
+  time: number;
+  side: 'buy' | 'sell';
+}
+
+export interface TradeStreamHandlers {
+  onTrade(trade: MarketTrade): void;
+  onStatus(status: StreamStatus): void;
+}
+
+// Common interface implemented by every exchange (and the offline mock)
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  // Largest number of candles a single getKlines call returns
+  maxKlinesPerRequest: number;
+  getTicker(symbol: string): Promise<CryptoData>;
+  // 24h tickers for several symbols in one request, or for every listed pair when none are given
+  getTickers(symbols?: string[]): Promise<CryptoData[]>;
+  getKlines(symbol: string, query: KlineQuery): Promise<Kline[]>;
+  getSymbols(): Promise<SymbolInfo[]>;
+  // Up to `limit` levels on each side of the book
+  getOrderBook(symbol: string, limit?: number): Promise<OrderBook>;
+  // Latest public trades, oldest first
+  getRecentTrades(symbol: string, limit?: number): Promise<MarketTrade[]>;
+  // Stream live ticker and kline updates; returns a function that unsubscribes
+  subscribe(symbol: string, interval: KlineInterval, handlers: MarketStreamHandlers): () => void;
+  // Stream public trades as they happen; returns a function that unsubscribes
+  subscribeTrades(symbol: string, handlers: TradeStreamHandlers): () => void;
+}
+
+// Default request sizes for the order book and the trade tape
+export const ORDER_BOOK_DEPTH = 100;
+export const RECENT_TRADES_LIMIT = 50;
+
+export const INTERVAL_MS: Record<KlineInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+};
+
+// A tradable pair from the exchange listing
+export interface SymbolInfo {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+}
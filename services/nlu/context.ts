@@ -0,0 +1,183 @@
+import { ChartRange } from '../market/timeframes';
+import type { Intent, ParsedIntent } from './intent';
+import { Token, findPhrase, hasAnyPhrase } from './tokenize';
+import { Lexicon } from './lexicon';
+
+// Questions about a coin that "what about <coin>" can repeat
+type QueryIntent = Extract<Intent, { type: 'price' | 'stat' | 'chart' }>;
+
+// What the conversation is currently about, so follow-ups like "what about its
+// weekly high?" or "what about solana?" can be resolved
+export interface DialogueContext {
+  // Active asset, in exchange format
+  symbol: string | null;
+  // Range of the last chart or stat question
+  range: ChartRange | null;
+  // Last question answered, repeated by "what about <coin>"
+  lastQuery: QueryIntent | null;
+  // Last thing Jarvis said
+  lastAnswer: string | null;
+  updatedAt: number;
+}
+
+export const EMPTY_DIALOGUE_CONTEXT: DialogueContext = {
+  symbol: null,
+  range: null,
+  lastQuery: null,
+  lastAnswer: null,
+  updatedAt: 0,
+};
+
+// Follow-ups are only resolved against a recent conversation
+export const DIALOGUE_CONTEXT_TTL_MS = 5 * 60 * 1000;
+
+export const isContextFresh = (context: DialogueContext, now: number): boolean =>
+  now - context.updatedAt <= DIALOGUE_CONTEXT_TTL_MS;
+
+// Coin an intent is about, if any
+export const intentSymbol = (intent: Intent): string | null => {
+  switch (intent.type) {
+    case 'price':
+    case 'stat':
+    case 'chart':
+    case 'depth':
+      return intent.symbol;
+    case 'alert':
+      return intent.command.action === 'create' ? intent.command.symbol : null;
+    case 'portfolio':
+      return intent.command.action === 'summary' ? null : intent.command.symbol;
+    case 'watchlist':
+      return intent.command.action === 'read' ? null : intent.command.symbols[0] ?? null;
+    case 'paper':
+      return intent.command.action === 'order' || intent.command.action === 'cancel' ? intent.command.symbol : null;
+    case 'backtest':
+      return intent.command.symbol;
+    default:
+      return null;
+  }
+};
+
+// Fold a handled intent into the context
+export const rememberIntent = (context: DialogueContext, intent: Intent, now: number): DialogueContext => {
+  const base = isContextFresh(context, now) ? context : EMPTY_DIALOGUE_CONTEXT;
+  const symbol = intentSymbol(intent) ?? base.symbol;
+  const range = intent.type === 'stat' ? intent.range : intent.type === 'chart' ? intent.request.range ?? base.range : base.range;
+
+  return {
+    ...base,
+    symbol,
+    range,
+    lastQuery: intent.type === 'price' || intent.type === 'stat' || intent.type === 'chart' ? intent : base.lastQuery,
+    updatedAt: now,
+  };
+};
+
+export const rememberAnswer = (context: DialogueContext, answer: string, now: number): DialogueContext => ({
+  ...(isContextFresh(context, now) ? context : EMPTY_DIALOGUE_CONTEXT),
+  lastAnswer: answer,
+  updatedAt: now,
+});
+
+const PRONOUNS = ['it', 'its', "it's", 'that one', 'this one', 'that coin', 'this coin', 'the same', 'same coin'];
+const PRICE_WORDS = ['price', 'how much', 'worth', 'trading at', 'going for'];
+// Leading words that carry no meaning before a follow-up ("jarvis, and what about...")
+const LEADING_FILLERS = new Set(['jarvis', 'hey', 'ok', 'okay', 'so', 'also', 'then', 'well']);
+
+// "what about solana", "how about last month", "and ethereum?", or the locale's equivalents
+const isFollowUp = (tokens: Token[], openers: string[]): boolean => {
+  const words = tokens.map(token => token.word);
+  let start = 0;
+  while (start < words.length && LEADING_FILLERS.has(words[start])) start++;
+  if (words[start] === 'and') return true;
+  if ((words[start] === 'what' || words[start] === 'how') && words[start + 1] === 'about') return true;
+  return openers.some(opener => findPhrase(tokens.slice(start), opener) === 0);
+};
+
+// Fill in what a follow-up leaves out from the dialogue context: the coin for
+// "its weekly high", the question for "what about solana", the period for "what about last month"
+export const resolveFollowUp = (parsed: ParsedIntent, context: DialogueContext, now: number, lexicon: Lexicon): ParsedIntent => {
+  if (!isContextFresh(context, now)) return parsed;
+
+  const { intent, tokens, entities } = parsed;
+  const pronoun = hasAnyPhrase(tokens, [...PRONOUNS, ...lexicon.pronouns]);
+  const followUp = isFollowUp(tokens, lexicon.followUp);
+  const withIntent = (next: Intent, confidence = parsed.confidence): ParsedIntent => ({ ...parsed, intent: next, confidence });
+
+  switch (intent.type) {
+    case 'stat':
+    case 'chart':
+    case 'depth':
+      return intent.symbol === null && context.symbol ? withIntent({ ...intent, symbol: context.symbol }) : parsed;
+
+    case 'alert':
+      if (pronoun && context.symbol && intent.command.action === 'create' && intent.command.symbol === null) {
+        return withIntent({ ...intent, command: { ...intent.command, symbol: context.symbol } });
+      }
+      return parsed;
+
+    case 'portfolio':
+      if (pronoun && context.symbol && intent.command.action !== 'summary' && intent.command.symbol === null) {
+        return withIntent({ ...intent, command: { ...intent.command, symbol: context.symbol } });
+      }
+      return parsed;
+
+    // "add it to my watchlist"
+    case 'watchlist':
+      if (pronoun && context.symbol && intent.command.action !== 'read' && intent.command.symbols.length === 0) {
+        return withIntent({ ...intent, command: { ...intent.command, symbols: [context.symbol] } });
+      }
+      return parsed;
+
+    // "buy 100 dollars of it"
+    case 'paper':
+      if (pronoun && context.symbol && (intent.command.action === 'order' || intent.command.action === 'cancel') &&
+          intent.command.symbol === null) {
+        return withIntent({ ...intent, command: { ...intent.command, symbol: context.symbol } });
+      }
+      return parsed;
+
+    // "backtest a weekly DCA on it"
+    case 'backtest':
+      return pronoun && context.symbol && intent.command.symbol === null
+        ? withIntent({ ...intent, command: { ...intent.command, symbol: context.symbol } })
+        : parsed;
+
+    // "compare it with solana"
+    case 'market':
+      if (intent.command.action === 'compare' && intent.command.symbols.length < 2 && context.symbol &&
+          !intent.command.symbols.includes(context.symbol)) {
+        return withIntent({ ...intent, command: { ...intent.command, symbols: [context.symbol, ...intent.command.symbols] } });
+      }
+      return parsed;
+
+    // "why is it falling?"
+    case 'question':
+      return intent.symbol === null && pronoun && context.symbol ? withIntent({ ...intent, symbol: context.symbol }) : parsed;
+
+    // "what about solana" asks the previous question again for another coin
+    case 'price': {
+      const last = context.lastQuery;
+      if (!followUp || !last || last.type === 'price') return parsed;
+      return withIntent({ ...last, symbol: intent.symbol });
+    }
+
+    case 'unknown': {
+      const last = context.lastQuery;
+
+      // "what about last month" asks the previous question again for another period
+      if (entities.range && last && (followUp || pronoun)) {
+        if (last.type === 'stat') return withIntent({ ...last, range: entities.range }, 0.75);
+        if (last.type === 'chart') return withIntent({ ...last, request: { ...last.request, range: entities.range, interval: null } }, 0.75);
+      }
+
+      // "how much is it now"
+      if (pronoun && context.symbol && hasAnyPhrase(tokens, [...PRICE_WORDS, ...lexicon.priceWords])) {
+        return withIntent({ type: 'price', symbol: context.symbol }, 0.75);
+      }
+      return parsed;
+    }
+
+    default:
+      return parsed;
+  }
+};
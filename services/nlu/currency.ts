@@ -0,0 +1,31 @@
+import { FIAT_ALIASES } from '../symbols/aliases';
+import { Token, findPhrase } from './tokenize';
+import type { Lexicon } from './lexicon';
+
+// Words introducing a currency, as in "bitcoin price in euros" or "switch to lira"
+const CURRENCY_CONNECTORS = ['in', 'into', 'to'];
+
+// Requests to change the display currency without naming a coin ("show prices in pounds")
+export const CURRENCY_CUES = ['show', 'display', 'switch', 'change', 'convert', 'set', 'use', 'prices', 'currency'];
+
+// The display currency named in the utterance, e.g. "EUR" for "... in euros", or null.
+// A bare currency word isn't enough: "200 dollars of solana" names an amount, not a currency.
+export const findCurrency = (tokens: Token[], lexicon?: Lexicon): string | null => {
+  const connectors = [...CURRENCY_CONNECTORS, ...(lexicon?.currencyConnectors ?? [])];
+  const suffixes = lexicon?.currencySuffixes ?? [];
+
+  for (const [code, aliases] of Object.entries(FIAT_ALIASES)) {
+    for (const alias of aliases) {
+      const start = findPhrase(tokens, alias);
+      if (start === -1) continue;
+
+      const end = start + alias.split(' ').length;
+      const before = tokens[start - 1]?.word === 'the' ? tokens[start - 2] : tokens[start - 1];
+      if ((before && connectors.includes(before.word)) || (tokens[end] && suffixes.includes(tokens[end].word))) {
+        return code;
+      }
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,24 @@
+import { hasAnyPhrase, tokenize } from './tokenize';
+import type { Lexicon } from './lexicon';
+
+// What can be asked about the order book and the trade tape
+export type DepthTopic = 'spread' | 'buyWall' | 'sellWall' | 'walls' | 'imbalance' | 'trades' | 'book';
+
+// Checked in order: "bid/ask imbalance" is about imbalance, not the spread
+const DEPTH_PATTERNS: [DepthTopic, RegExp][] = [
+  ['imbalance', /\b(imbalance|buy(?:ing)? (?:or|vs|versus) sell(?:ing)? pressure|(?:buy|sell)(?:ing)? pressure|order flow)\b/],
+  ['sellWall', /\b(sell|ask|offer|resistance) walls?\b|\b(biggest|largest|big|large) (?:sell|ask)s?\b/],
+  ['buyWall', /\b(buy|bid|support) walls?\b|\b(biggest|largest|big|large) (?:buy|bid)s?\b/],
+  ['walls', /\bwalls?\b/],
+  ['spread', /\b(spread|bid[\s-]ask)\b/],
+  ['trades', /\b(trade tape|tape|(?:recent|latest|last|large|big|whale) (?:trades|prints|orders)|whales?)\b/],
+  ['book', /\b(order ?book|market depth|depth|liquidity)\b/],
+];
+
+// Recognise questions like "where is the biggest sell wall on bitcoin",
+// "what's the spread on doge" or "show me the order book"
+export const parseDepthQuestion = (input: string, lexicon?: Lexicon): DepthTopic | null => {
+  const text = input.toLowerCase();
+  const tokens = tokenize(text);
+  return DEPTH_PATTERNS.find(([topic, pattern]) => pattern.test(text) || hasAnyPhrase(tokens, lexicon?.depth[topic] ?? []))?.[0] ?? null;
+};
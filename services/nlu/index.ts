@@ -0,0 +1,11 @@
+export * from './numbers';
+export * from './timeframe';
+export * from './tokenize';
+export * from './intent';
+export * from './stats';
+export * from './depth';
+export * from './context';
+export * from './market';
+export * from './lexicon';
+export * from './currency';
+export * from './question';
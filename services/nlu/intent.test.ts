@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { createSymbolRegistry } from '../symbols';
+import { EMPTY_DIALOGUE_CONTEXT, parseIntent } from '.';
+
+const registry = createSymbolRegistry(
+  ['BTC', 'ETH', 'SOL', 'ADA'].map(asset => ({ symbol: `${asset}USDT`, baseAsset: asset, quoteAsset: 'USDT' }))
+);
+
+const intentOf = (text: string) => parseIntent(text, registry).intent;
+
+describe('parseIntent', () => {
+  it('recognises the wake word on its own and in front of a request', () => {
+    expect(parseIntent('Jarvis', registry)).toMatchObject({ wakeWord: true, intent: { type: 'unknown' } });
+    expect(parseIntent('Jarvis, what is the price of bitcoin', registry)).toMatchObject({
+      wakeWord: true,
+      intent: { type: 'price', symbol: 'BTCUSDT' },
+    });
+  });
+
+  it('resolves coin names, tickers and misheard names, trusting fuzzy matches less', () => {
+    expect(intentOf('ethereum')).toEqual({ type: 'price', symbol: 'ETHUSDT' });
+    const misheard = parseIntent('etherium', registry);
+    expect(misheard.intent).toEqual({ type: 'price', symbol: 'ETHUSDT' });
+    expect(misheard.entities.coin?.fuzzy).toBe(true);
+    expect(misheard.confidence).toBeLessThan(parseIntent('ethereum', registry).confidence);
+  });
+
+  it('tells stopping the reply apart from stopping listening', () => {
+    expect(intentOf('stop')).toEqual({ type: 'cancel' });
+    expect(intentOf('cancel that')).toEqual({ type: 'cancel' });
+    expect(intentOf('stop listening')).toEqual({ type: 'stopListening' });
+    expect(intentOf('repeat that')).toEqual({ type: 'repeat' });
+  });
+
+  it('only cancels when the stop word is the request itself', () => {
+    expect(intentOf('jarvis stop it please')).toEqual({ type: 'cancel' });
+    expect(intentOf('be quiet')).toEqual({ type: 'cancel' });
+    expect(parseIntent('lütfen dur', registry, { locale: 'tr' }).intent).toEqual({ type: 'cancel' });
+    expect(intentOf('stop the chart')).not.toEqual({ type: 'cancel' });
+    expect(intentOf('when did bitcoin stop falling')).not.toEqual({ type: 'cancel' });
+    expect(intentOf('cancel my bitcoin alert')).toMatchObject({ type: 'alert' });
+    // The overview's own reply picked up by the microphone
+    expect(intentOf('it is a quiet day for crypto')).not.toEqual({ type: 'cancel' });
+    expect(intentOf('quiet')).not.toEqual({ type: 'cancel' });
+    expect(intentOf('enough')).not.toEqual({ type: 'cancel' });
+  });
+
+  it('picks out conversation topics', () => {
+    expect(intentOf('how are you')).toEqual({ type: 'conversation', topic: 'wellbeing' });
+    expect(intentOf('who are you')).toEqual({ type: 'conversation', topic: 'identity' });
+    expect(intentOf('what time is it')).toEqual({ type: 'conversation', topic: 'time' });
+  });
+
+  it('parses commands with their amounts, ranges and intervals', () => {
+    expect(intentOf('alert me when bitcoin goes above 70000')).toMatchObject({
+      type: 'alert',
+      command: { action: 'create', symbol: 'BTCUSDT', condition: { type: 'above', price: 70000 } },
+    });
+    expect(intentOf('top gainers today')).toMatchObject({ type: 'market', command: { action: 'movers', direction: 'gainers' } });
+    expect(intentOf('show me the weekly chart for solana')).toMatchObject({ type: 'chart', symbol: 'SOLUSDT', request: { interval: '1w' } });
+    expect(intentOf('what was the high of eth this week')).toEqual({ type: 'stat', symbol: 'ETHUSDT', stat: 'high', range: '7d' });
+    expect(intentOf('give me my briefing now')).toEqual({ type: 'briefing', command: { slot: null } });
+  });
+
+  it('understands coin questions in Turkish and German', () => {
+    expect(parseIntent('bitcoin kaç dolar', registry, { locale: 'tr' }).intent).toEqual({ type: 'price', symbol: 'BTCUSDT' });
+    expect(parseIntent('wie viel kostet bitcoin', registry, { locale: 'de' }).intent).toEqual({ type: 'price', symbol: 'BTCUSDT' });
+  });
+
+  it('sets alerts, records trades, places orders and edits the watchlist in Turkish and German', () => {
+    const de = (text: string) => parseIntent(text, registry, { locale: 'de' }).intent;
+    const tr = (text: string) => parseIntent(text, registry, { locale: 'tr' }).intent;
+    const below = { type: 'alert', command: { action: 'create', symbol: 'BTCUSDT', condition: { type: 'below', price: 60000 } } };
+
+    expect(de('alarm wenn bitcoin unter 60000 fällt')).toMatchObject(below);
+    expect(tr('bitcoin 60000 altına düşünce haber ver')).toMatchObject(below);
+    expect(de('ich habe 0.5 bitcoin zu 60000 gekauft')).toMatchObject({
+      type: 'portfolio',
+      command: { action: 'trade', side: 'buy', symbol: 'BTCUSDT', quantity: 0.5, price: 60000 },
+    });
+    expect(tr('portföyüm nasıl')).toEqual({ type: 'portfolio', command: { action: 'summary' } });
+    expect(de('kaufe 200 dollar solana')).toMatchObject({
+      type: 'paper',
+      command: { action: 'order', side: 'buy', type: 'market', symbol: 'SOLUSDT', quantity: null, quoteAmount: 200 },
+    });
+    expect(tr('2 solana sat')).toMatchObject({ type: 'paper', command: { side: 'sell', symbol: 'SOLUSDT', quantity: 2 } });
+    expect(tr('izleme listeme solana ekle')).toEqual({ type: 'watchlist', command: { action: 'add', symbols: ['SOLUSDT'] } });
+    expect(de('entferne cardano von meiner merkliste')).toEqual({ type: 'watchlist', command: { action: 'remove', symbols: ['ADAUSDT'] } });
+    expect(de('füge ethereum zu meiner watchlist hinzu')).toEqual({ type: 'watchlist', command: { action: 'add', symbols: ['ETHUSDT'] } });
+  });
+
+  it('opens charts, runs backtests, reads briefings and answers order book questions in Turkish and German', () => {
+    const de = (text: string) => parseIntent(text, registry, { locale: 'de' }).intent;
+    const tr = (text: string) => parseIntent(text, registry, { locale: 'tr' }).intent;
+    const year = 365 * 24 * 60 * 60 * 1000;
+
+    expect(tr('bitcoin 4 saatlik grafik göster')).toEqual({
+      type: 'chart',
+      symbol: 'BTCUSDT',
+      request: { range: null, interval: '4h', chartType: null },
+    });
+    expect(de('zeige bitcoin 4 stunden chart')).toMatchObject({ type: 'chart', symbol: 'BTCUSDT', request: { interval: '4h' } });
+    expect(tr('ethereum son 3 ay mum grafiği')).toMatchObject({ type: 'chart', request: { range: '3M', interval: null, chartType: 'candles' } });
+    expect(de('bitcoin in einem jahr backtesten')).toEqual({
+      type: 'backtest',
+      command: { strategy: null, symbol: 'BTCUSDT', durationMs: year },
+    });
+    expect(de('backteste den gleitenden durchschnitt auf solana über zwei jahre')).toMatchObject({
+      type: 'backtest',
+      command: { strategy: { kind: 'maCrossover' }, symbol: 'SOLUSDT', durationMs: 2 * year },
+    });
+    expect(tr('brifingimi ver')).toEqual({ type: 'briefing', command: { slot: null } });
+    expect(de('lies mir den abendlichen lagebericht vor')).toEqual({ type: 'briefing', command: { slot: 'evening' } });
+    expect(de('wo ist die größte verkaufswand bei bitcoin')).toMatchObject({ type: 'depth', symbol: 'BTCUSDT', topic: 'sellWall' });
+    expect(tr('ethereum alış duvarı nerede')).toMatchObject({ type: 'depth', symbol: 'ETHUSDT', topic: 'buyWall' });
+  });
+
+  it('notes a currency named alongside the request', () => {
+    expect(parseIntent('how much is it in euros', registry).entities.currency).toBe('EUR');
+  });
+
+  it('leaves chatter it does not understand unknown', () => {
+    expect(parseIntent('blah blah', registry)).toMatchObject({ intent: { type: 'unknown' }, confidence: 0 });
+  });
+});
+
+describe('follow-ups', () => {
+  const context = { ...EMPTY_DIALOGUE_CONTEXT, symbol: 'SOLUSDT', updatedAt: Date.now() };
+
+  it('fills "it" in with the coin under discussion', () => {
+    expect(parseIntent('show me its chart', registry, { context }).intent).toMatchObject({ type: 'chart', symbol: 'SOLUSDT' });
+  });
+
+  it('repeats the last question for another coin', () => {
+    const lastQuery = intentOf('what was the high of eth this week');
+    if (lastQuery.type !== 'stat') throw new Error('expected a stat question');
+    const followUp = parseIntent('what about bitcoin', registry, { context: { ...context, symbol: 'ETHUSDT', lastQuery } });
+    expect(followUp.intent).toEqual({ type: 'stat', symbol: 'BTCUSDT', stat: 'high', range: '7d' });
+  });
+});
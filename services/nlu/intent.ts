@@ -0,0 +1,262 @@
+import { SymbolMatch, SymbolRegistry } from '../symbols';
+import { AlertCommand, parseAlertCommand } from '../alerts/parse';
+import { PortfolioCommand, parsePortfolioCommand } from '../portfolio/parse';
+import { WatchlistCommand, parseWatchlistCommand } from '../watchlist/parse';
+import { PaperCommand, parsePaperCommand } from '../paper/parse';
+import { BacktestCommand, parseBacktestCommand } from '../backtest/parse';
+import { BriefingCommand, parseBriefingCommand } from '../briefing/parse';
+import { NumberMention, findDurationMention, findNumbers, findPercent } from './numbers';
+import { ChartRange } from '../market/timeframes';
+import { ChartRequest, extractRange, parseChartRequest } from './timeframe';
+import { MarketStat, parseStatQuestion } from './stats';
+import { DepthTopic, parseDepthQuestion } from './depth';
+import { MarketCommand, parseMarketCommand } from './market';
+import { CURRENCY_CUES, findCurrency } from './currency';
+import { isOpenQuestion, looksLikeQuestion } from './question';
+import { DialogueContext, EMPTY_DIALOGUE_CONTEXT, resolveFollowUp } from './context';
+import { Token, findPhrase, foldText, hasAnyPhrase, hasPhrase, tokenize } from './tokenize';
+import { LEXICONS, Lexicon } from './lexicon';
+import type { Locale } from '../i18n/types';
+
+export type ConversationTopic =
+  | 'identity'
+  | 'wellbeing'
+  | 'capabilities'
+  | 'time'
+  | 'weather'
+  | 'joke'
+  | 'thanks'
+  | 'goodbye'
+  | 'greeting'
+  | 'help';
+
+export type Intent =
+  // Read the market briefing now instead of waiting for its scheduled time
+  | { type: 'briefing'; command: BriefingCommand }
+  | { type: 'alert'; command: AlertCommand }
+  | { type: 'portfolio'; command: PortfolioCommand }
+  | { type: 'watchlist'; command: WatchlistCommand }
+  // Simulated orders against the paper-trading account
+  | { type: 'paper'; command: PaperCommand }
+  // Replay a trading strategy over past candles
+  | { type: 'backtest'; command: BacktestCommand }
+  // Several coins or the whole market at once
+  | { type: 'market'; command: MarketCommand }
+  // symbol is null when the chart request didn't name a coin ("switch to candles")
+  | { type: 'chart'; request: ChartRequest; symbol: string | null }
+  | { type: 'price'; symbol: string }
+  // symbol is null when the question didn't name a coin ("what's its weekly high?")
+  | { type: 'stat'; symbol: string | null; stat: MarketStat; range: ChartRange }
+  // Order book or trade tape question; symbol is null when no coin was named ("what's the spread?")
+  | { type: 'depth'; symbol: string | null; topic: DepthTopic }
+  | { type: 'conversation'; topic: ConversationTopic }
+  // Free-form question for the chat backend; symbol is the coin it mentions, if any
+  | { type: 'question'; text: string; symbol: string | null }
+  // Change the currency prices are shown in ("show prices in euros")
+  | { type: 'currency'; currency: string }
+  | { type: 'stopListening' }
+  // Say the last reply again
+  | { type: 'repeat' }
+  // Barge-in: stop talking and drop the current request
+  | { type: 'cancel' }
+  | { type: 'unknown' };
+
+export type IntentType = Intent['type'];
+
+// Everything recognisable in the utterance, whichever intent wins
+export interface IntentEntities {
+  coin: SymbolMatch | null;
+  amounts: NumberMention[];
+  percent: NumberMention | null;
+  duration: NumberMention | null;
+  range: ChartRange | null;
+  timeframe: ChartRequest | null;
+  // Display currency asked for, e.g. "EUR" for "bitcoin price in euros"
+  currency: string | null;
+}
+
+export interface ParsedIntent {
+  intent: Intent;
+  // 0..1; fuzzy coin matches and one-word greetings score lower than explicit commands
+  confidence: number;
+  wakeWord: boolean;
+  tokens: Token[];
+  entities: IntentEntities;
+}
+
+export const WAKE_WORD = 'jarvis';
+
+export interface ParseOptions {
+  context?: DialogueContext;
+  now?: number;
+  // Language whose phrases are understood in addition to English
+  locale?: Locale;
+}
+
+interface ConversationRule {
+  topic: ConversationTopic;
+  phrases: string[];
+  // Topics that only win when no coin was mentioned ("hi jarvis, bitcoin please" is a price request)
+  weak?: boolean;
+  confidence: number;
+}
+
+// Checked in order; the first matching rule decides the topic
+const CONVERSATION_RULES: ConversationRule[] = [
+  { topic: 'identity', phrases: ['who are you', 'what are you', 'your name', 'who is jarvis'], confidence: 0.9 },
+  { topic: 'wellbeing', phrases: ['how are you', 'how do you feel', "how's it going", 'how is it going'], confidence: 0.9 },
+  { topic: 'capabilities', phrases: ['what can you do', 'your capabilities', 'help me'], confidence: 0.9 },
+  { topic: 'time', phrases: ['what time', 'what day', 'what is the date', "what's the date", 'what date'], confidence: 0.9 },
+  { topic: 'weather', phrases: ['weather', 'temperature'], confidence: 0.85 },
+  { topic: 'joke', phrases: ['joke', 'jokes', 'funny'], confidence: 0.85 },
+  { topic: 'thanks', phrases: ['thank you', 'thanks'], weak: true, confidence: 0.8 },
+  { topic: 'goodbye', phrases: ['goodbye', 'bye', 'see you'], confidence: 0.85 },
+  { topic: 'greeting', phrases: ['hello', 'hi'], weak: true, confidence: 0.7 },
+  { topic: 'help', phrases: ['help'], weak: true, confidence: 0.7 },
+];
+
+// A stat word alone ("I'm feeling low") isn't a question; it also needs a coin or one of these
+const STAT_CUES = ['what', 'how', 'when', 'did', 'was', 'is', 'show', 'tell', 'give', 'and', 'it', 'its', "it's"];
+
+const STOP_LISTENING_PHRASES = ['stop listening', 'stop hearing'];
+const REPEAT_PHRASES = ['repeat', 'repeat that', 'say that again', 'say again', 'come again', 'what did you say', 'one more time'];
+// Plain "quiet" and "enough" are left out: market overviews say them ("a quiet day", "enough volume")
+const CANCEL_PHRASES = ['cancel', 'stop', 'stop talking', 'never mind', 'nevermind', 'be quiet', 'shut up', 'that will do'];
+// Words allowed around a cancel phrase ("jarvis, stop it please")
+const CANCEL_FILLERS = [WAKE_WORD, 'please', 'that', 'it', 'now', 'ok', 'okay', 'hey', 'lutfen', 'bitte', 'jetzt'];
+
+// Stop words are everyday words too ("stop the chart", "a quiet day"), so they only cancel when they
+// make up the utterance, leading it after the wake word and followed by nothing but fillers
+const isCancelRequest = (tokens: Token[], phrases: string[]): boolean => {
+  let start = 0;
+  while (start < tokens.length && CANCEL_FILLERS.includes(tokens[start].word)) start++;
+  const rest = tokens.slice(start);
+
+  return phrases.some(phrase => {
+    if (findPhrase(rest, phrase) !== 0) return false;
+    const length = tokenize(phrase).length;
+    return rest.slice(length).every(token => CANCEL_FILLERS.includes(token.word) || phrases.includes(token.word));
+  });
+};
+
+// Confidence for a coin lookup, lower when the name had to be corrected
+const coinConfidence = (coin: SymbolMatch): number => (coin.fuzzy ? 0.6 : 0.9);
+
+const extractEntities = (text: string, tokens: Token[], registry: SymbolRegistry, lexicon: Lexicon): IntentEntities => ({
+  coin: registry.resolve(text),
+  amounts: findNumbers(text),
+  percent: findPercent(text),
+  duration: findDurationMention(text, lexicon),
+  range: extractRange(text, lexicon).range,
+  timeframe: parseChartRequest(text, lexicon),
+  currency: findCurrency(tokens, lexicon),
+});
+
+// The intent of a single utterance on its own, without dialogue context
+const parseUtterance = (input: string, registry: SymbolRegistry, lexicon: Lexicon): ParsedIntent => {
+  const text = foldText(input);
+  const tokens = tokenize(text);
+  const entities = extractEntities(text, tokens, registry, lexicon);
+  const result = (intent: Intent, confidence: number): ParsedIntent => ({
+    intent,
+    confidence,
+    wakeWord: hasPhrase(tokens, WAKE_WORD),
+    tokens,
+    entities,
+  });
+
+  if (hasAnyPhrase(tokens, [...STOP_LISTENING_PHRASES, ...lexicon.stopListening])) {
+    return result({ type: 'stopListening' }, 0.95);
+  }
+
+  if (hasAnyPhrase(tokens, [...REPEAT_PHRASES, ...lexicon.repeat])) {
+    return result({ type: 'repeat' }, 0.9);
+  }
+
+  // Before alerts, so "brief me on my alerts" reads the briefing
+  const briefingCommand = parseBriefingCommand(text, lexicon);
+  if (briefingCommand) return result({ type: 'briefing', command: briefingCommand }, 0.9);
+
+  const alertCommand = parseAlertCommand(text, registry, lexicon);
+  if (alertCommand) return result({ type: 'alert', command: alertCommand }, 0.9);
+
+  const portfolioCommand = parsePortfolioCommand(text, registry, lexicon);
+  if (portfolioCommand) return result({ type: 'portfolio', command: portfolioCommand }, 0.9);
+
+  const watchlistCommand = parseWatchlistCommand(text, registry, lexicon);
+  if (watchlistCommand) return result({ type: 'watchlist', command: watchlistCommand }, 0.9);
+
+  // Checked before paper orders so "backtest buying bitcoin weekly" isn't placed as an order
+  const backtestCommand = parseBacktestCommand(text, registry, lexicon);
+  if (backtestCommand) return result({ type: 'backtest', command: backtestCommand }, 0.9);
+
+  const paperCommand = parsePaperCommand(text, registry, lexicon);
+  if (paperCommand) return result({ type: 'paper', command: paperCommand }, 0.9);
+
+  // Checked after alerts so "cancel my solana alert" still deletes the alert
+  if (isCancelRequest(tokens, [...CANCEL_PHRASES, ...lexicon.cancel])) {
+    return result({ type: 'cancel' }, 0.9);
+  }
+
+  // Before market commands, so "the biggest buy walls" isn't read as a ranking
+  const depthTopic = parseDepthQuestion(text, lexicon);
+  if (depthTopic) return result({ type: 'depth', symbol: entities.coin?.symbol ?? null, topic: depthTopic }, entities.coin ? 0.85 : 0.75);
+
+  // Before stat questions, so "compare the performance of..." is a comparison
+  const marketCommand = parseMarketCommand(text, registry, lexicon);
+  if (marketCommand) return result({ type: 'market', command: marketCommand }, 0.85);
+
+  const statQuestion = parseStatQuestion(text, lexicon);
+  if (statQuestion && (entities.coin || hasAnyPhrase(tokens, [...STAT_CUES, ...lexicon.questionWords, ...lexicon.pronouns]))) {
+    return result({ type: 'stat', symbol: entities.coin?.symbol ?? null, ...statQuestion }, entities.coin ? 0.85 : 0.7);
+  }
+
+  if (entities.timeframe) {
+    const { range, interval, chartType } = entities.timeframe;
+    const slots = [range, interval, chartType, entities.coin].filter(slot => slot !== null).length;
+    return result(
+      { type: 'chart', request: entities.timeframe, symbol: entities.coin?.symbol ?? null },
+      Math.min(0.95, 0.6 + slots * 0.1),
+    );
+  }
+
+  if (entities.currency && !entities.coin && hasAnyPhrase(tokens, [...CURRENCY_CUES, ...lexicon.currencyCues])) {
+    return result({ type: 'currency', currency: entities.currency }, 0.85);
+  }
+
+  const rule = CONVERSATION_RULES.find(candidate =>
+    hasAnyPhrase(tokens, [...candidate.phrases, ...(lexicon.conversation[candidate.topic] ?? [])]));
+
+  if (rule && !rule.weak) {
+    return result({ type: 'conversation', topic: rule.topic }, rule.confidence);
+  }
+
+  const question = (): Intent => ({ type: 'question', text: input.trim(), symbol: entities.coin?.symbol ?? null });
+
+  if (isOpenQuestion(tokens, lexicon)) {
+    return result(question(), 0.6);
+  }
+
+  if (entities.coin) {
+    return result({ type: 'price', symbol: entities.coin.symbol }, coinConfidence(entities.coin));
+  }
+
+  if (looksLikeQuestion(input, tokens, lexicon)) {
+    return result(question(), 0.4);
+  }
+
+  if (rule) {
+    return result({ type: 'conversation', topic: rule.topic }, rule.confidence);
+  }
+
+  return result({ type: 'unknown' }, 0);
+};
+
+// Decide what an utterance asks for. Command parsers that also mention coins
+// (alerts, portfolio, charts) are tried before plain price lookups, and follow-ups
+// are completed from the dialogue context.
+export const parseIntent = (input: string, registry: SymbolRegistry, options: ParseOptions = {}): ParsedIntent => {
+  const lexicon = LEXICONS[options.locale ?? 'en'];
+  const parsed = parseUtterance(input, registry, lexicon);
+  return resolveFollowUp(parsed, options.context ?? EMPTY_DIALOGUE_CONTEXT, options.now ?? Date.now(), lexicon);
+};
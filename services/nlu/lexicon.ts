@@ -0,0 +1,321 @@
+import type { ChartRange } from '../market/timeframes';
+import type { KlineInterval } from '../market/types';
+import type { Locale } from '../i18n/types';
+import type { ConversationTopic } from './intent';
+import type { MarketStat } from './stats';
+import type { DepthTopic } from './depth';
+import type { DurationUnit } from './numbers';
+
+// Phrases a language adds on top of the English ones, which are always understood.
+// Written without diacritics since input is folded first (see foldText).
+export interface Lexicon {
+  conversation: Partial<Record<ConversationTopic, string[]>>;
+  stopListening: string[];
+  cancel: string[];
+  repeat: string[];
+  // Openers of an elliptical follow-up, like English "what about"
+  followUp: string[];
+  pronouns: string[];
+  priceWords: string[];
+  // Words that make a stat word a question
+  questionWords: string[];
+  // Requests for an opinion or explanation, like English "why" or "should I"
+  openQuestions: string[];
+  stats: Partial<Record<MarketStat, string[]>>;
+  // Period adjectives for stats, like English "weekly"
+  periods: Partial<Record<ChartRange, string[]>>;
+  // Periods like "in einem Jahr" or "son 3 ay": number words, units, and the single words before or after them
+  numberWords: Record<string, number>;
+  durationUnits: Partial<Record<DurationUnit, string[]>>;
+  durationConnectors: string[];
+  durationSuffixes: string[];
+  // Charts: the word itself, requests to change it, chart types and candle intervals
+  chart: string[];
+  chartChange: string[];
+  candles: string[];
+  line: string[];
+  intervals: Partial<Record<KlineInterval, string[]>>;
+  compare: string[];
+  gainers: string[];
+  losers: string[];
+  movers: string[];
+  overview: string[];
+  // Words before or after a currency name ("euro cinsinden"), and requests to switch currency
+  currencyConnectors: string[];
+  currencySuffixes: string[];
+  currencyCues: string[];
+  // Alerts: the word itself, requests to set one, and the direction of the level
+  alerts: string[];
+  alertCreate: string[];
+  below: string[];
+  above: string[];
+  // Requests to read out a list ("show my alerts")
+  listWords: string[];
+  // Portfolio: the word itself and past-tense trades ("I bought")
+  portfolio: string[];
+  bought: string[];
+  sold: string[];
+  // Paper orders ("buy 200 dollars of solana"), the word before an order's price, and dollar units
+  buy: string[];
+  sell: string[];
+  priceMarkers: string[];
+  quoteUnits: string[];
+  // Watchlist: the word itself and requests to add or remove coins
+  watchlist: string[];
+  watchlistAdd: string[];
+  watchlistRemove: string[];
+  // Backtests: the word itself and moving-average strategies
+  backtest: string[];
+  movingAverage: string[];
+  // Briefings: the word itself and the time of day
+  briefing: string[];
+  morning: string[];
+  evening: string[];
+  // Order book and trade tape questions, checked in the same order as the English ones
+  depth: Partial<Record<DepthTopic, string[]>>;
+}
+
+const EMPTY_LEXICON: Lexicon = {
+  conversation: {},
+  stopListening: [],
+  cancel: [],
+  repeat: [],
+  followUp: [],
+  pronouns: [],
+  priceWords: [],
+  questionWords: [],
+  openQuestions: [],
+  stats: {},
+  periods: {},
+  numberWords: {},
+  durationUnits: {},
+  durationConnectors: [],
+  durationSuffixes: [],
+  chart: [],
+  chartChange: [],
+  candles: [],
+  line: [],
+  intervals: {},
+  compare: [],
+  gainers: [],
+  losers: [],
+  movers: [],
+  overview: [],
+  currencyConnectors: [],
+  currencySuffixes: [],
+  currencyCues: [],
+  alerts: [],
+  alertCreate: [],
+  below: [],
+  above: [],
+  listWords: [],
+  portfolio: [],
+  bought: [],
+  sold: [],
+  buy: [],
+  sell: [],
+  priceMarkers: [],
+  quoteUnits: [],
+  watchlist: [],
+  watchlistAdd: [],
+  watchlistRemove: [],
+  backtest: [],
+  movingAverage: [],
+  briefing: [],
+  morning: [],
+  evening: [],
+  depth: {},
+};
+
+export const LEXICONS: Record<Locale, Lexicon> = {
+  en: EMPTY_LEXICON,
+
+  tr: {
+    conversation: {
+      identity: ['sen kimsin', 'kimsin', 'adin ne', 'ismin ne'],
+      wellbeing: ['nasilsin', 'naber', 'nasil gidiyor'],
+      capabilities: ['neler yapabilirsin', 'ne yapabilirsin'],
+      time: ['saat kac', 'bugun gunlerden ne', 'tarih ne', 'bugunun tarihi'],
+      weather: ['hava durumu', 'hava nasil', 'sicaklik'],
+      joke: ['fikra', 'saka', 'komik'],
+      thanks: ['tesekkurler', 'tesekkur ederim', 'sagol', 'sag ol'],
+      goodbye: ['hosca kal', 'gorusuruz', 'gule gule'],
+      greeting: ['merhaba', 'selam'],
+      help: ['yardim'],
+    },
+    stopListening: ['dinlemeyi birak', 'dinlemeyi durdur'],
+    cancel: ['dur', 'iptal', 'vazgec', 'sus', 'yeter', 'bosver'],
+    repeat: ['tekrarla', 'tekrar et', 'tekrar eder misin', 'ne dedin', 'bir daha soyle'],
+    followUp: ['peki ya', 'bir de'],
+    pronouns: ['onun', 'bunun', 'ayni'],
+    priceWords: ['fiyat', 'fiyati', 'kac para', 'ne kadar'],
+    questionWords: ['ne', 'neydi', 'nasil', 'kac'],
+    openQuestions: ['neden', 'niye', 'nicin', 'sence', 'aciklar misin', 'almali miyim', 'satmali miyim', 'nedir'],
+    stats: {
+      high: ['en yuksek', 'zirve'],
+      low: ['en dusuk', 'dip'],
+      volume: ['hacim', 'hacmi'],
+      change: ['degisim', 'karsilastir', 'gore'],
+    },
+    periods: {
+      '24h': ['gunluk', 'dun', 'dunku'],
+      '7d': ['haftalik', 'bu hafta'],
+      '1M': ['aylik', 'bu ay'],
+      '1y': ['yillik'],
+    },
+    numberWords: { bir: 1, iki: 2, uc: 3, dort: 4, bes: 5, alti: 6, yedi: 7, sekiz: 8, dokuz: 9, on: 10 },
+    durationUnits: {
+      minute: ['dakika', 'dakikada'],
+      hour: ['saat', 'saatte'],
+      day: ['gun', 'gunde'],
+      week: ['hafta', 'haftada'],
+      month: ['ay', 'ayda'],
+      year: ['yil', 'yilda', 'sene', 'senede'],
+    },
+    durationConnectors: ['son', 'gecen'],
+    durationSuffixes: ['icinde', 'boyunca', 'zarfinda'],
+    chart: ['grafik', 'grafigi', 'grafigini', 'grafigine', 'mum grafigi'],
+    chartChange: ['goster', 'gec', 'degistir', 'ac'],
+    candles: ['mum', 'mumlar', 'mum grafigi'],
+    line: ['cizgi'],
+    intervals: {
+      '4h': ['4 saatlik', 'dort saatlik'],
+      '1h': ['saatlik', '1 saatlik', 'bir saatlik'],
+      '1w': ['haftalik'],
+      '1d': ['gunluk'],
+    },
+    compare: ['karsilastir', 'kiyasla'],
+    gainers: ['en cok yukselen', 'en cok yukselenler', 'yukselenler', 'en cok kazandiran'],
+    losers: ['en cok dusen', 'en cok dusenler', 'dusenler', 'en cok kaybettiren'],
+    movers: ['en cok hareket eden'],
+    overview: ['piyasa ozeti', 'piyasa nasil', 'piyasa durumu'],
+    currencyConnectors: [],
+    currencySuffixes: ['cinsinden', 'olarak', 'bazinda'],
+    currencyCues: ['goster', 'cevir', 'gec', 'para birimi', 'fiyatlari'],
+    alerts: ['alarm', 'alarmlar', 'alarmlari', 'alarmlarim', 'alarmlarimi'],
+    alertCreate: ['haber ver', 'bana haber ver', 'alarm kur', 'uyar', 'beni uyar', 'bildir', 'haberim olsun'],
+    below: ['altina', 'altinda', 'asagisina'],
+    above: ['ustune', 'ustunde', 'uzerine', 'uzerinde', 'gecince', 'gecerse'],
+    listWords: ['goster', 'listele', 'oku', 'hangi', 'neler'],
+    portfolio: ['portfoy', 'portfoyum', 'portfoyumu', 'portfoyumde', 'varliklarim'],
+    bought: ['aldim', 'satin aldim', 'ekledim'],
+    sold: ['sattim', 'elden cikardim'],
+    buy: ['al', 'satin al'],
+    sell: ['sat'],
+    priceMarkers: [],
+    quoteUnits: ['dolar', 'dolarlik'],
+    watchlist: ['izleme listesi', 'izleme listem', 'izleme listemi', 'izleme listeme', 'izleme listemden', 'takip listem', 'takip listeme', 'takip listemden'],
+    watchlistAdd: ['ekle', 'ekler misin', 'takibe al'],
+    watchlistRemove: ['cikar', 'sil', 'kaldir'],
+    backtest: ['geriye donuk test', 'geriye donuk testi', 'gecmis verilerle test'],
+    movingAverage: ['hareketli ortalama', 'hareketli ortalamalar', 'ortalama kesisimi'],
+    briefing: ['brifing', 'brifingim', 'brifingimi', 'brifingi', 'gunluk ozet', 'piyasa bulteni'],
+    morning: ['sabah', 'sabahki'],
+    evening: ['aksam', 'aksamki', 'gece'],
+    depth: {
+      imbalance: ['dengesizlik', 'alis baskisi', 'satis baskisi', 'alim baskisi'],
+      sellWall: ['satis duvari', 'satis duvarlari', 'en buyuk satis'],
+      buyWall: ['alis duvari', 'alis duvarlari', 'alim duvari', 'en buyuk alis'],
+      walls: ['duvar', 'duvarlar', 'duvari'],
+      spread: ['makas', 'alis satis farki'],
+      trades: ['buyuk islemler', 'son islemler', 'balina', 'balinalar'],
+      book: ['emir defteri', 'derinlik', 'likidite'],
+    },
+  },
+
+  de: {
+    conversation: {
+      identity: ['wer bist du', 'wie heisst du', 'dein name'],
+      wellbeing: ['wie geht es dir', 'wie geht es ihnen', "wie geht's", 'wie gehts'],
+      capabilities: ['was kannst du'],
+      time: ['wie spat', 'welcher tag', 'welches datum', 'uhrzeit'],
+      weather: ['wetter', 'temperatur'],
+      joke: ['witz', 'lustig'],
+      thanks: ['danke', 'vielen dank'],
+      goodbye: ['tschuss', 'auf wiedersehen', 'bis bald'],
+      greeting: ['hallo', 'guten tag', 'servus', 'moin'],
+      help: ['hilfe'],
+    },
+    stopListening: ['hor auf zuzuhoren', 'nicht mehr zuhoren'],
+    cancel: ['stopp', 'abbrechen', 'halt', 'ruhe', 'vergiss es', 'schon gut'],
+    repeat: ['wiederhole', 'wiederhol das', 'sag das nochmal', 'noch einmal bitte', 'was hast du gesagt'],
+    followUp: ['und was ist mit', 'was ist mit', 'wie sieht es mit', 'und'],
+    pronouns: ['es', 'sein', 'seine', 'davon'],
+    priceWords: ['preis', 'kurs', 'wie viel', 'kostet'],
+    questionWords: ['was', 'wie', 'wann', 'war'],
+    openQuestions: ['warum', 'wieso', 'weshalb', 'erklare', 'erklar', 'sollte ich', 'soll ich', 'was denkst du', 'was halst du'],
+    stats: {
+      high: ['hoch', 'hochststand', 'hochstkurs', 'tageshoch', 'wochenhoch', 'jahreshoch'],
+      low: ['tief', 'tiefststand', 'tiefstkurs', 'tagestief', 'wochentief', 'jahrestief'],
+      volume: ['volumen', 'handelsvolumen'],
+      change: ['veranderung', 'verglichen mit', 'im vergleich zu', 'seit'],
+    },
+    periods: {
+      '24h': ['taglich', 'gestern', 'tageshoch', 'tagestief'],
+      '7d': ['wochentlich', 'diese woche', 'wochenhoch', 'wochentief'],
+      '1M': ['monatlich', 'diesen monat'],
+      '1y': ['jahrlich', 'jahreshoch', 'jahrestief'],
+    },
+    numberWords: {
+      ein: 1, eine: 1, einem: 1, einen: 1, einer: 1, zwei: 2, drei: 3, vier: 4, funf: 5,
+      sechs: 6, sieben: 7, acht: 8, neun: 9, zehn: 10, zwolf: 12,
+    },
+    durationUnits: {
+      minute: ['minute', 'minuten'],
+      hour: ['stunde', 'stunden'],
+      day: ['tag', 'tage', 'tagen'],
+      week: ['woche', 'wochen'],
+      month: ['monat', 'monate', 'monaten'],
+      year: ['jahr', 'jahre', 'jahren', 'jahres'],
+    },
+    durationConnectors: ['in', 'innerhalb', 'uber', 'wahrend', 'fur', 'letzten', 'letzte', 'vergangenen'],
+    durationSuffixes: [],
+    chart: ['chart', 'diagramm', 'grafik', 'kerzenchart', 'linienchart'],
+    chartChange: ['zeige', 'zeig', 'wechsle', 'stelle', 'andere'],
+    candles: ['kerzen', 'kerzenchart', 'candlestick'],
+    line: ['linie', 'linienchart'],
+    intervals: {
+      '4h': ['4 stunden', 'vier stunden', '4 stunden kerzen'],
+      '1h': ['stundlich', '1 stunde', 'eine stunde', 'stundenchart'],
+      '1w': ['wochentlich', 'wochenchart'],
+      '1d': ['taglich', 'tageschart'],
+    },
+    compare: ['vergleiche', 'vergleich'],
+    gainers: ['gewinner', 'top gewinner'],
+    losers: ['verlierer'],
+    movers: ['grosste bewegungen'],
+    overview: ['marktuberblick', 'markt uberblick', 'wie lauft der markt', 'marktlage'],
+    currencyConnectors: ['auf', 'nach'],
+    currencySuffixes: [],
+    currencyCues: ['zeige', 'zeig', 'wechsle', 'umstellen', 'umrechnen', 'wahrung', 'preise'],
+    alerts: ['alarm', 'alarme', 'preisalarm', 'preisalarme'],
+    alertCreate: ['alarm', 'preisalarm', 'benachrichtige mich', 'sag mir bescheid', 'warne mich', 'melde dich'],
+    below: ['unter', 'unterhalb'],
+    above: ['uber', 'oberhalb'],
+    listWords: ['zeige', 'zeig', 'liste', 'lies', 'welche'],
+    portfolio: ['portfolio', 'depot', 'bestande'],
+    bought: ['gekauft', 'erworben'],
+    sold: ['verkauft'],
+    buy: ['kaufe', 'kauf'],
+    sell: ['verkaufe', 'verkauf'],
+    priceMarkers: ['zu', 'fur', 'bei'],
+    quoteUnits: ['dollar'],
+    watchlist: ['beobachtungsliste', 'merkliste'],
+    watchlistAdd: ['fuge', 'hinzu', 'hinzufugen', 'setze'],
+    watchlistRemove: ['entferne', 'losche', 'streiche'],
+    backtest: ['backtesten', 'backteste', 'backtestet', 'ruckblickend testen'],
+    movingAverage: ['gleitender durchschnitt', 'gleitende durchschnitte', 'gleitenden durchschnitt', 'gleitenden durchschnitte'],
+    briefing: ['lagebericht', 'marktbericht', 'tagesbericht', 'zusammenfassung'],
+    morning: ['morgen', 'morgens', 'morgendliche', 'morgendlichen'],
+    evening: ['abend', 'abends', 'abendliche', 'abendlichen'],
+    depth: {
+      imbalance: ['ungleichgewicht', 'kaufdruck', 'verkaufsdruck'],
+      sellWall: ['verkaufswand', 'verkaufswande', 'grosste verkaufsorder'],
+      buyWall: ['kaufwand', 'kaufwande', 'grosste kauforder'],
+      walls: ['wand', 'wande', 'orderwand', 'orderwande'],
+      spread: ['spanne', 'geld brief spanne'],
+      trades: ['grosse trades', 'letzte trades', 'wal', 'wale'],
+      book: ['orderbuch', 'markttiefe', 'liquiditat'],
+    },
+  },
+};
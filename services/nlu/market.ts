@@ -0,0 +1,44 @@
+import { MoverDirection } from '../market/overview';
+import { SymbolRegistry } from '../symbols';
+import { findNumbers } from './numbers';
+import { hasAnyPhrase, tokenize } from './tokenize';
+import type { Lexicon } from './lexicon';
+
+export type MarketCommand =
+  // symbols may hold fewer than two coins when the rest come from context ("compare it with solana")
+  | { action: 'compare'; symbols: string[] }
+  | { action: 'movers'; direction: MoverDirection; limit: number }
+  | { action: 'overview' };
+
+const COMPARE_PATTERN = /\b(compare|comparison|compared with|side by side|stack up)\b/;
+const GAINERS_PATTERN = /\b(gainers|winners|best performers?|top performers?|pumping)\b/;
+const LOSERS_PATTERN = /\b(losers|decliners|worst performers?|dumping)\b/;
+const MOVERS_PATTERN = /\b(movers|moving the most|biggest moves)\b/;
+const OVERVIEW_PATTERN = /\bmarket (overview|summary|update|report|recap)\b|\bhow(?:'s| is) the (?:crypto )?market\b|\bstate of the (?:crypto )?market\b|\bmarket today\b/;
+
+const DEFAULT_MOVERS = 5;
+const MAX_MOVERS = 10;
+
+// Recognise "compare bitcoin and ethereum", "top 5 gainers today" or "market overview"
+export const parseMarketCommand = (input: string, registry: SymbolRegistry, lexicon?: Lexicon): MarketCommand | null => {
+  const text = input.toLowerCase();
+  const tokens = tokenize(text);
+  const mentions = (pattern: RegExp, phrases: string[] = []) => pattern.test(text) || hasAnyPhrase(tokens, phrases);
+
+  if (mentions(COMPARE_PATTERN, lexicon?.compare)) {
+    return { action: 'compare', symbols: registry.resolveAll(text).map(match => match.symbol) };
+  }
+
+  const direction: MoverDirection | null = mentions(GAINERS_PATTERN, lexicon?.gainers)
+    ? 'gainers'
+    : mentions(LOSERS_PATTERN, lexicon?.losers) ? 'losers' : mentions(MOVERS_PATTERN, lexicon?.movers) ? 'movers' : null;
+
+  if (direction) {
+    const count = findNumbers(text).find(number => Number.isInteger(number.value) && number.value > 0)?.value;
+    return { action: 'movers', direction, limit: Math.min(count ?? DEFAULT_MOVERS, MAX_MOVERS) };
+  }
+
+  if (mentions(OVERVIEW_PATTERN, lexicon?.overview)) return { action: 'overview' };
+
+  return null;
+};
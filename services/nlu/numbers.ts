@@ -0,0 +1,138 @@
+import { Token, findPhrase, tokenize } from './tokenize';
+import type { Lexicon } from './lexicon';
+
+// Helpers for pulling numbers, percentages and durations out of spoken commands.
+// Speech recognition usually emits digits ("120", "60,000", "5%"), sometimes
+// followed by a magnitude word ("60 thousand").
+
+export interface NumberMention {
+  value: number;
+  index: number;
+  end: number;
+}
+
+const MAGNITUDES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  grand: 1e3,
+  million: 1e6,
+  billion: 1e9,
+};
+
+const SMALL_NUMBERS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+};
+
+const NUMBER_PATTERN = /\$?(\d+(?:,\d{3})*(?:\.\d+)?|\.\d+)\s*(k|thousand|grand|million|billion)?\b/gi;
+
+// Every number in the text, with magnitude words applied ("1.5 million" -> 1500000)
+export const findNumbers = (text: string): NumberMention[] => {
+  const mentions: NumberMention[] = [];
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const base = parseFloat(match[1].replace(/,/g, ''));
+    const magnitude = match[2] ? MAGNITUDES[match[2].toLowerCase()] : 1;
+    const index = match.index ?? 0;
+    mentions.push({ value: base * magnitude, index, end: index + match[0].length });
+  }
+  return mentions;
+};
+
+// First percentage in the text, e.g. "5 percent" or "2.5%"
+export const findPercent = (text: string): NumberMention | null => {
+  const match = /(\d+(?:\.\d+)?)\s*(?:%|percent|per cent)/i.exec(text);
+  if (!match) return null;
+  return { value: parseFloat(match[1]), index: match.index, end: match.index + match[0].length };
+};
+
+const UNIT_MS: Record<string, number> = {
+  minute: 60 * 1000,
+  min: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  hr: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+};
+
+// A period in another language: an optional number and a unit word, opened by a connector
+// ("in einem Jahr") or closed by a suffix ("3 ay icinde")
+const findLexiconDuration = (text: string, lexicon: Lexicon): NumberMention | null => {
+  const tokens = tokenize(text);
+  const units = Object.keys(lexicon.durationUnits) as DurationUnit[];
+  const numberOf = (word: string): number | undefined =>
+    /^\d+$/.test(word) ? parseInt(word, 10)
+      : Object.prototype.hasOwnProperty.call(lexicon.numberWords, word) ? lexicon.numberWords[word] : undefined;
+
+  for (let position = 0; position < tokens.length; position++) {
+    const unit = units.find(candidate => lexicon.durationUnits[candidate]?.includes(tokens[position].word));
+    if (!unit) continue;
+
+    const amount = position > 0 ? numberOf(tokens[position - 1].word) : undefined;
+    const start = amount === undefined ? position : position - 1;
+    const opener = start > 0 && lexicon.durationConnectors.includes(tokens[start - 1].word) ? tokens[start - 1] : null;
+    const closer = lexicon.durationSuffixes.includes(tokens[position + 1]?.word) ? tokens[position + 1] : null;
+    if (!opener && !closer) continue;
+
+    return {
+      value: (amount ?? 1) * UNIT_MS[unit],
+      index: (opener ?? tokens[start]).index,
+      end: (closer ?? tokens[position]).end,
+    };
+  }
+  return null;
+};
+
+// Duration phrases like "in an hour", "within 15 minutes", "over the last 2 days" or "for the past year",
+// returned with their position in the text (value is in milliseconds)
+export const findDurationMention = (text: string, lexicon?: Lexicon): NumberMention | null => {
+  const match = /\b(?:in|within|over|during|for)\s+(?:the\s+)?(?:(?:last|next|past)\s+)?(\d+(?:\.\d+)?|[a-z]+)?\s*(minute|min|hour|hr|day|week|month|year)s?\b/i.exec(text);
+  if (!match) return lexicon ? findLexiconDuration(text, lexicon) : null;
+
+  const amount = match[1] === undefined
+    ? 1
+    : /^\d/.test(match[1]) ? parseFloat(match[1]) : SMALL_NUMBERS[match[1].toLowerCase()];
+
+  if (amount === undefined) return lexicon ? findLexiconDuration(text, lexicon) : null;
+  return { value: amount * UNIT_MS[match[2].toLowerCase()], index: match.index, end: match.index + match[0].length };
+};
+
+export const findDuration = (text: string, lexicon?: Lexicon): number | null => findDurationMention(text, lexicon)?.value ?? null;
+
+export type DurationUnit = 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute';
+
+// A duration as a whole count of its largest fitting unit, e.g. 7200000 -> 2 hours
+export const splitDuration = (ms: number): { count: number; unit: DurationUnit } => {
+  for (const unit of ['year', 'month', 'week', 'day', 'hour', 'minute'] as DurationUnit[]) {
+    const size = UNIT_MS[unit];
+    if (ms >= size && ms % size === 0) return { count: ms / size, unit };
+  }
+  return { count: Math.round(ms / UNIT_MS.minute), unit: 'minute' };
+};
+
+// Human-readable duration for speech, e.g. 3600000 -> "1 hour"
+export const describeDuration = (ms: number): string => {
+  const { count, unit } = splitDuration(ms);
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+};
+
+// Position of the word that introduces a price ("at", German "zu"), or Infinity without one
+export const priceMarkerIndex = (text: string, tokens: Token[], pattern: RegExp, phrases: string[] = []): number => {
+  const positions = phrases.map(phrase => findPhrase(tokens, phrase)).filter(index => index !== -1).map(index => tokens[index].index);
+  const match = pattern.exec(text);
+  return Math.min(match ? match.index : Infinity, ...positions);
+};
@@ -0,0 +1,38 @@
+import { Token, hasAnyPhrase } from './tokenize';
+import { Lexicon } from './lexicon';
+
+// Openers that ask for an opinion or an explanation rather than a price,
+// so "why is bitcoin down today" goes to the chat backend instead of a price lookup
+const OPEN_QUESTION_PHRASES = [
+  'why', 'explain', 'should i', 'should we', 'do you think', 'what do you think', 'your opinion',
+  'is it a good time', 'is now a good time', 'tell me about', 'what does', 'what is the difference',
+];
+
+// A question on any topic usually starts with one of these in English
+const QUESTION_OPENERS = new Set([
+  'what', "what's", 'why', 'how', "how's", 'when', 'who', 'which', 'where', 'is', 'are', 'can', 'could',
+  'will', 'would', 'should', 'do', 'does', 'did', 'explain', 'tell',
+]);
+
+// Words ignored before the opener ("jarvis, what is...")
+const LEADING_WORDS = new Set(['jarvis', 'hey', 'ok', 'okay', 'so', 'and', 'but', 'please']);
+
+// Shorter utterances are more likely the start of a sentence still being spoken
+const MIN_QUESTION_WORDS = 3;
+
+const contentTokens = (tokens: Token[]): Token[] => {
+  const start = tokens.findIndex(token => !LEADING_WORDS.has(token.word));
+  return start < 0 ? [] : tokens.slice(start);
+};
+
+// Asks for reasoning about the market, even when it names a coin
+export const isOpenQuestion = (tokens: Token[], lexicon: Lexicon): boolean =>
+  contentTokens(tokens).length >= MIN_QUESTION_WORDS && hasAnyPhrase(tokens, [...OPEN_QUESTION_PHRASES, ...lexicon.openQuestions]);
+
+// Any question at all; only used when nothing more specific matched
+export const looksLikeQuestion = (input: string, tokens: Token[], lexicon: Lexicon): boolean => {
+  const content = contentTokens(tokens);
+  if (content.length < MIN_QUESTION_WORDS) return false;
+  return input.trim().endsWith('?') || QUESTION_OPENERS.has(content[0].word) ||
+    hasAnyPhrase(content, [...lexicon.questionWords, ...lexicon.openQuestions]);
+};
@@ -0,0 +1,41 @@
+import { ChartRange } from '../market/timeframes';
+import { extractRange } from './timeframe';
+import { hasAnyPhrase, tokenize } from './tokenize';
+import type { Lexicon } from './lexicon';
+
+// Figures that can be asked about a coin over a period
+export type MarketStat = 'high' | 'low' | 'volume' | 'change';
+
+export interface StatQuestion {
+  stat: MarketStat;
+  range: ChartRange;
+}
+
+const STAT_PATTERNS: [MarketStat, RegExp][] = [
+  ['high', /\b(highs?|highest|peak|top price)\b/],
+  ['low', /\b(lows?|lowest|bottom)\b/],
+  ['volume', /\b(volume|traded)\b/],
+  ['change', /\b(compared? (?:to|with)|versus|vs|changed?|since|performance|perform(?:ed|ing)?|up or down)\b/],
+];
+
+// Period adjectives that only make sense for stats ("weekly high"); on charts they name the interval
+const PERIOD_PATTERNS: [ChartRange, RegExp][] = [
+  ['24h', /\b(daily|yesterday|24h)\b/],
+  ['7d', /\b(weekly|this week)\b/],
+  ['1M', /\b(monthly)\b/],
+  ['1y', /\b(yearly|annual|52[\s-]*week)\b/],
+];
+
+const DEFAULT_STAT_RANGE: ChartRange = '24h';
+
+// Recognise questions such as "what was ethereum's weekly high", "its volume today"
+// or "and compared to yesterday?"
+export const parseStatQuestion = (input: string, lexicon?: Lexicon): StatQuestion | null => {
+  const { range, rest } = extractRange(input, lexicon);
+  const tokens = tokenize(rest);
+  const stat = STAT_PATTERNS.find(([name, pattern]) => pattern.test(rest) || hasAnyPhrase(tokens, lexicon?.stats[name] ?? []))?.[0];
+  if (!stat) return null;
+
+  const period = PERIOD_PATTERNS.find(([range, pattern]) => pattern.test(rest) || hasAnyPhrase(tokens, lexicon?.periods[range] ?? []))?.[0];
+  return { stat, range: range ?? period ?? DEFAULT_STAT_RANGE };
+};
@@ -0,0 +1,76 @@
+import { KlineInterval } from '../market/types';
+import { ChartRange, ChartType, rangeForDuration } from '../market/timeframes';
+import { findDurationMention } from './numbers';
+import { hasAnyPhrase, tokenize } from './tokenize';
+import type { Lexicon } from './lexicon';
+
+export interface ChartRequest {
+  range: ChartRange | null;
+  interval: KlineInterval | null;
+  chartType: ChartType | null;
+}
+
+const CHART_WORDS = /\b(chart|charts|graph|candles?|candlesticks?|ohlc|timeframe)\b/;
+const CHANGE_WORDS = /\b(show|switch|change|set|zoom|give me|display)\b/;
+
+const INTERVAL_PATTERNS: [KlineInterval, RegExp][] = [
+  ['4h', /\b(?:4|four)[\s-]*(?:hours?|hrs?|h)\b|\b4h\b/],
+  ['1h', /\b(?:1|one|an?)[\s-]*(?:hour|hr|h)\b|\bhourly\b|\b1h\b/],
+  ['1w', /\bweekly\b|\b(?:1|one|a)[\s-]*week\b|\b1w\b|\bweek (?:chart|candles?|view)\b/],
+  ['1d', /\bdaily\b|\b(?:1|one|a)[\s-]*day\b|\b1d\b|\bday (?:chart|candles?|view)\b/],
+];
+
+const RANGE_UNITS_MS: Record<string, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+};
+
+// "past week", "last 3 months", "this year" without a leading preposition
+const BARE_RANGE_PATTERN = /\b(?:last|past|this)\s+(\d+\s+)?(day|week|month|year)s?\b/;
+
+// Pull a chart range ("last month", "the past 3 days", "today") out of the text,
+// returning the text with that phrase removed
+export const extractRange = (input: string, lexicon?: Lexicon): { range: ChartRange | null; rest: string } => {
+  const text = input.toLowerCase();
+
+  if (/\b24[\s-]*hours?\b|\btoday\b/.test(text)) {
+    return { range: '24h', rest: text.replace(/\b24[\s-]*hours?\b|\btoday\b/, ' ') };
+  }
+
+  const duration = findDurationMention(text, lexicon);
+  if (duration) {
+    return { range: rangeForDuration(duration.value), rest: text.slice(0, duration.index) + ' ' + text.slice(duration.end) };
+  }
+
+  const bare = BARE_RANGE_PATTERN.exec(text);
+  if (bare) {
+    return {
+      range: rangeForDuration((bare[1] ? parseInt(bare[1], 10) : 1) * RANGE_UNITS_MS[bare[2]]),
+      rest: text.slice(0, bare.index) + ' ' + text.slice(bare.index + bare[0].length),
+    };
+  }
+
+  return { range: null, rest: text };
+};
+
+// Recognise chart requests such as "show bitcoin 4 hour chart for the last month"
+// or "switch to candlesticks". Returns null when the text isn't about the chart.
+export const parseChartRequest = (input: string, lexicon?: Lexicon): ChartRequest | null => {
+  // Take the range out first so "the last 7 days" isn't mistaken for a daily interval
+  const { range, rest: text } = extractRange(input, lexicon);
+  const tokens = tokenize(text);
+  const mentions = (pattern: RegExp, phrases: string[] = []) => pattern.test(text) || hasAnyPhrase(tokens, phrases);
+
+  const interval = INTERVAL_PATTERNS.find(([name, pattern]) => mentions(pattern, lexicon?.intervals[name]))?.[0] ?? null;
+  const chartType: ChartType | null = mentions(/\b(candles?|candlesticks?|ohlc)\b/, lexicon?.candles)
+    ? 'candles'
+    : mentions(/\bline\b/, lexicon?.line) ? 'line' : null;
+
+  const aboutChart = mentions(CHART_WORDS, lexicon?.chart) ||
+    (mentions(CHANGE_WORDS, lexicon?.chartChange) && (range !== null || interval !== null));
+  if (!aboutChart) return null;
+
+  return { range, interval, chartType };
+};
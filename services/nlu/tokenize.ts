@@ -0,0 +1,48 @@
+// Word-level tokenization so phrases only match on word boundaries
+// ("hi" must not match inside "this", nor "sol" inside "console").
+
+export interface Token {
+  word: string;
+  index: number;
+  end: number;
+}
+
+const WORD_PATTERN = /[a-z0-9]+(?:'[a-z]+)?/g;
+
+// Lowercase and strip diacritics so Turkish and German words match their ASCII
+// spellings ("Tschüss" -> "tschuss", "teşekkürler" -> "tesekkurler"). Keeps the length
+// of the text for everything but "ß", so offsets stay usable.
+export const foldText = (text: string): string =>
+  text
+    .replace(/İ/g, 'i')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ı/g, 'i')
+    .replace(/ß/g, 'ss');
+
+// Lowercased, folded words with their character offsets in the folded text
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of foldText(text).matchAll(WORD_PATTERN)) {
+    const index = match.index ?? 0;
+    tokens.push({ word: match[0], index, end: index + match[0].length });
+  }
+  return tokens;
+};
+
+// Index of the first token where the phrase's words appear consecutively, or -1
+export const findPhrase = (tokens: Token[], phrase: string): number => {
+  const words = foldText(phrase).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return -1;
+
+  for (let start = 0; start + words.length <= tokens.length; start++) {
+    if (words.every((word, offset) => tokens[start + offset].word === word)) return start;
+  }
+  return -1;
+};
+
+export const hasPhrase = (tokens: Token[], phrase: string): boolean => findPhrase(tokens, phrase) !== -1;
+
+export const hasAnyPhrase = (tokens: Token[], phrases: string[]): boolean =>
+  phrases.some(phrase => hasPhrase(tokens, phrase));
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { PAPER_FEE_RATE, cancelOrders, createPaperAccount, matchOpenOrders, openOrders, placeOrder, valuePaperAccount } from './engine';
+import { OrderRequest } from './types';
+
+const NOW = Date.UTC(2024, 0, 1);
+
+const order = (overrides: Partial<OrderRequest>): OrderRequest => ({
+  symbol: 'BTCUSDT',
+  side: 'buy',
+  type: 'market',
+  quantity: null,
+  quoteAmount: null,
+  limitPrice: null,
+  ...overrides,
+});
+
+describe('placeOrder', () => {
+  it('fills a market buy at the price and charges the fee', () => {
+    const { account, order: placed, trade } = placeOrder(createPaperAccount(10000), order({ quantity: 0.1 }), 50000, NOW);
+
+    expect(placed).toMatchObject({ status: 'filled', fillPrice: 50000 });
+    expect(trade).toMatchObject({ quantity: 0.1, price: 50000, notional: 5000, fee: 5 });
+    expect(account.balance).toBeCloseTo(4995);
+    expect(account.feesPaid).toBeCloseTo(5);
+    expect(account.positions).toEqual([{ symbol: 'BTCUSDT', quantity: 0.1, costBasis: 5005 }]);
+  });
+
+  it('spends exactly a dollar amount, fee included', () => {
+    const { account, trade } = placeOrder(createPaperAccount(10000), order({ quoteAmount: 200 }), 100, NOW);
+
+    expect(trade!.notional + trade!.fee).toBeCloseTo(200);
+    expect(trade!.quantity).toBeCloseTo(2 / (1 + PAPER_FEE_RATE));
+    expect(account.balance).toBeCloseTo(9800);
+  });
+
+  it('realizes the profit of a sell against the average cost', () => {
+    const bought = placeOrder(createPaperAccount(10000), order({ quantity: 1 }), 1000, NOW).account;
+    const { account, trade } = placeOrder(bought, order({ side: 'sell', quantity: 1 }), 1200, NOW);
+
+    // Cost 1001 with the buy fee; proceeds 1200 less a 1.20 fee
+    expect(trade!.realizedPnl).toBeCloseTo(197.8);
+    expect(account.realizedPnl).toBeCloseTo(197.8);
+    expect(account.positions).toEqual([]);
+    expect(account.balance).toBeCloseTo(10000 - 1001 + 1198.8);
+  });
+
+  it('refuses orders the account cannot cover', () => {
+    const account = createPaperAccount(100);
+    expect(() => placeOrder(account, order({ quantity: 1 }), 1000, NOW)).toThrow('paper balance is 100.00 USDT');
+    expect(() => placeOrder(account, order({ side: 'sell', quantity: 1 }), 1000, NOW)).toThrow('You have no BTCUSDT to sell');
+    expect(() => placeOrder(account, order({ type: 'limit', quantity: 0.01 }), 1000, NOW)).toThrow('A limit order needs a price');
+  });
+
+  it('rests a limit order away from the price and fills one that is already reached', () => {
+    const resting = placeOrder(createPaperAccount(10000), order({ type: 'limit', quantity: 1, limitPrice: 900 }), 1000, NOW);
+    expect(resting.trade).toBeNull();
+    expect(resting.account.balance).toBe(10000);
+    expect(openOrders(resting.account)).toHaveLength(1);
+
+    const marketable = placeOrder(createPaperAccount(10000), order({ type: 'limit', quantity: 1, limitPrice: 1100 }), 1000, NOW);
+    expect(marketable.trade?.price).toBe(1000);
+  });
+});
+
+describe('matchOpenOrders', () => {
+  const resting = placeOrder(createPaperAccount(10000), order({ type: 'limit', quantity: 1, limitPrice: 900 }), 1000, NOW).account;
+
+  it('fills a limit at its own price once the range reaches it', () => {
+    const missed = matchOpenOrders(resting, 'BTCUSDT', { low: 950, high: 1010, time: NOW + 1 }, NOW + 1);
+    expect(missed.filled).toEqual([]);
+
+    const { account, filled } = matchOpenOrders(resting, 'BTCUSDT', { low: 880, high: 1010, time: NOW + 1 }, NOW + 1);
+    expect(filled).toHaveLength(1);
+    expect(filled[0]).toMatchObject({ status: 'filled', fillPrice: 900 });
+    expect(account.balance).toBeCloseTo(10000 - 900.9);
+    expect(openOrders(account)).toEqual([]);
+  });
+
+  it('ignores prices traded before the order was placed and other coins', () => {
+    expect(matchOpenOrders(resting, 'BTCUSDT', { low: 800, high: 1000, time: NOW - 1 }).filled).toEqual([]);
+    expect(matchOpenOrders(resting, 'ETHUSDT', { low: 800, high: 1000, time: NOW + 1 }).filled).toEqual([]);
+  });
+
+  it('rejects an order the account can no longer cover', () => {
+    const spent = placeOrder(resting, order({ quantity: 9.5 }), 1000, NOW).account;
+    const { rejected, account } = matchOpenOrders(spent, 'BTCUSDT', { low: 880, high: 1010, time: NOW + 1 }, NOW + 1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toMatch(/paper balance/);
+    expect(account.orders.find(candidate => candidate.id === rejected[0].id)?.status).toBe('rejected');
+  });
+});
+
+describe('cancelOrders', () => {
+  it('cancels open orders only', () => {
+    const resting = placeOrder(createPaperAccount(10000), order({ type: 'limit', quantity: 1, limitPrice: 900 }), 1000, NOW);
+    const filled = placeOrder(resting.account, order({ quantity: 1 }), 1000, NOW);
+
+    const account = cancelOrders(filled.account, [resting.order.id, filled.order.id], NOW + 1);
+    expect(account.orders.map(candidate => candidate.status)).toEqual(['cancelled', 'filled']);
+    expect(account.balance).toBe(filled.account.balance);
+  });
+});
+
+describe('valuePaperAccount', () => {
+  it('values positions at the given prices', () => {
+    const { account } = placeOrder(createPaperAccount(10000), order({ quantity: 1 }), 1000, NOW);
+    const valuation = valuePaperAccount(account, { BTCUSDT: 1500 });
+    expect(valuation.equity).toBeCloseTo(10000 - 1001 + 1500);
+    expect(valuation.positions[0].unrealizedPnl).toBeCloseTo(499);
+    expect(valuation.returnPercent).toBeCloseTo(4.99);
+  });
+});
@@ -0,0 +1,232 @@
+import {
+  OrderRequest,
+  OrderResult,
+  PaperAccount,
+  PaperAccountValuation,
+  PaperOrder,
+  PaperPositionValuation,
+  PaperTrade,
+} from './types';
+
+// Binance's standard spot taker fee, charged in USDT on every fill
+export const PAPER_FEE_RATE = 0.001;
+
+export const DEFAULT_STARTING_BALANCE = 10000;
+
+// Quantities below this are treated as a closed position
+const DUST = 1e-9;
+// Older trades and closed orders are dropped so the stored account stays small
+const MAX_TRADES = 500;
+const MAX_CLOSED_ORDERS = 100;
+
+export const createPaperAccount = (startingBalance = DEFAULT_STARTING_BALANCE): PaperAccount => ({
+  startingBalance,
+  balance: startingBalance,
+  positions: [],
+  orders: [],
+  trades: [],
+  feesPaid: 0,
+  realizedPnl: 0,
+  createdAt: Date.now(),
+});
+
+const createId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const positionOf = (account: PaperAccount, symbol: string) =>
+  account.positions.find(position => position.symbol === symbol);
+
+// Coin quantity an order trades at a given price. A USDT amount to buy includes the
+// fee, so "buy 200 dollars" spends exactly 200.
+const orderQuantity = (account: PaperAccount, order: OrderRequest, price: number): number => {
+  if (order.quantity !== null) return order.quantity;
+  if (order.quoteAmount !== null) {
+    return order.side === 'buy' ? order.quoteAmount / (1 + PAPER_FEE_RATE) / price : order.quoteAmount / price;
+  }
+  return order.side === 'sell' ? positionOf(account, order.symbol)?.quantity ?? 0 : 0;
+};
+
+// Check an order can be filled at the price; throws with a reason that can be spoken
+const validateOrder = (account: PaperAccount, order: OrderRequest, price: number) => {
+  const quantity = orderQuantity(account, order, price);
+  if (!(quantity > 0)) {
+    throw new Error(order.side === 'sell' ? `You have no ${order.symbol} to sell` : 'The order amount must be more than zero');
+  }
+
+  if (order.side === 'buy') {
+    const cost = quantity * price * (1 + PAPER_FEE_RATE);
+    if (cost > account.balance + DUST) {
+      throw new Error(`That needs ${cost.toFixed(2)} USDT but the paper balance is ${account.balance.toFixed(2)} USDT`);
+    }
+  } else {
+    const held = positionOf(account, order.symbol)?.quantity ?? 0;
+    if (quantity > held + DUST) {
+      throw new Error(held > 0 ? `You only hold ${held} of ${order.symbol}` : `You have no ${order.symbol} to sell`);
+    }
+  }
+};
+
+// Fill an order at the price, updating cash, the position and the trade log
+const fill = (account: PaperAccount, order: PaperOrder, price: number, now: number): { account: PaperAccount; trade: PaperTrade } => {
+  validateOrder(account, order, price);
+
+  const quantity = orderQuantity(account, order, price);
+  const notional = quantity * price;
+  const fee = notional * PAPER_FEE_RATE;
+  const existing = positionOf(account, order.symbol);
+  let positions = account.positions.filter(position => position.symbol !== order.symbol);
+  let balance: number;
+  let realizedPnl: number | undefined;
+
+  if (order.side === 'buy') {
+    balance = account.balance - notional - fee;
+    positions = [...positions, {
+      symbol: order.symbol,
+      quantity: (existing?.quantity ?? 0) + quantity,
+      costBasis: (existing?.costBasis ?? 0) + notional + fee,
+    }];
+  } else {
+    // validateOrder guarantees the position exists
+    const held = existing!;
+    const averageCost = held.costBasis / held.quantity;
+    const remaining = held.quantity - quantity;
+    balance = account.balance + notional - fee;
+    realizedPnl = notional - fee - averageCost * quantity;
+    if (remaining > DUST) {
+      positions = [...positions, { symbol: order.symbol, quantity: remaining, costBasis: averageCost * remaining }];
+    }
+  }
+
+  const trade: PaperTrade = {
+    id: createId(),
+    orderId: order.id,
+    symbol: order.symbol,
+    side: order.side,
+    quantity,
+    price,
+    notional,
+    fee,
+    realizedPnl,
+    time: now,
+  };
+
+  return {
+    account: {
+      ...account,
+      balance,
+      positions,
+      trades: [...account.trades, trade].slice(-MAX_TRADES),
+      feesPaid: account.feesPaid + fee,
+      realizedPnl: account.realizedPnl + (realizedPnl ?? 0),
+    },
+    trade,
+  };
+};
+
+// Keep open orders and the most recent closed ones
+const pruneOrders = (orders: PaperOrder[]): PaperOrder[] => {
+  const closed = orders.filter(order => order.status !== 'open');
+  const dropped = new Set(closed.slice(0, Math.max(0, closed.length - MAX_CLOSED_ORDERS)).map(order => order.id));
+  return orders.filter(order => !dropped.has(order.id));
+};
+
+// A limit order whose price is already reached fills straight away at the market price
+const isMarketable = (order: OrderRequest, price: number): boolean =>
+  order.type === 'market' ||
+  (order.limitPrice !== null && (order.side === 'buy' ? price <= order.limitPrice : price >= order.limitPrice));
+
+// Place an order at the current market price. Market orders and marketable limits
+// fill immediately; other limits rest until matchOpenOrders sees their price.
+// Throws if the balance or position can't cover it.
+export const placeOrder = (account: PaperAccount, request: OrderRequest, price: number, now = Date.now()): OrderResult => {
+  if (request.type === 'limit' && !(request.limitPrice !== null && request.limitPrice > 0)) {
+    throw new Error('A limit order needs a price');
+  }
+
+  const order: PaperOrder = { ...request, id: createId(), status: 'open', createdAt: now };
+
+  if (!isMarketable(request, price)) {
+    // Checked now so an order that could never fill isn't left open
+    validateOrder(account, request, request.limitPrice!);
+    return { account: { ...account, orders: pruneOrders([...account.orders, order]) }, order, trade: null };
+  }
+
+  const filled = fill(account, order, price, now);
+  const closed: PaperOrder = { ...order, status: 'filled', closedAt: now, fillPrice: price };
+  return { account: { ...filled.account, orders: pruneOrders([...account.orders, closed]) }, order: closed, trade: filled.trade };
+};
+
+export interface PriceRange {
+  low: number;
+  high: number;
+  // When the range was traded; orders placed after it don't match
+  time: number;
+}
+
+// Fill resting limit orders on a symbol whose price was reached within the range.
+// Limits fill at their own price; an order the account can no longer cover is rejected.
+export const matchOpenOrders = (
+  account: PaperAccount,
+  symbol: string,
+  range: PriceRange,
+  now = Date.now()
+): { account: PaperAccount; filled: PaperOrder[]; rejected: PaperOrder[] } => {
+  let next = account;
+  const filled: PaperOrder[] = [];
+  const rejected: PaperOrder[] = [];
+
+  for (const order of account.orders) {
+    if (order.status !== 'open' || order.symbol !== symbol || order.limitPrice === null || range.time < order.createdAt) continue;
+    const reached = order.side === 'buy' ? range.low <= order.limitPrice : range.high >= order.limitPrice;
+    if (!reached) continue;
+
+    let closed: PaperOrder;
+    try {
+      const result = fill(next, order, order.limitPrice, now);
+      next = result.account;
+      closed = { ...order, status: 'filled', closedAt: now, fillPrice: order.limitPrice };
+      filled.push(closed);
+    } catch (err) {
+      closed = { ...order, status: 'rejected', closedAt: now, reason: err instanceof Error ? err.message : 'Could not be filled' };
+      rejected.push(closed);
+    }
+    next = { ...next, orders: next.orders.map(candidate => (candidate.id === order.id ? closed : candidate)) };
+  }
+
+  return { account: { ...next, orders: pruneOrders(next.orders) }, filled, rejected };
+};
+
+export const cancelOrders = (account: PaperAccount, ids: string[], now = Date.now()): PaperAccount => ({
+  ...account,
+  orders: pruneOrders(account.orders.map(order =>
+    order.status === 'open' && ids.includes(order.id) ? { ...order, status: 'cancelled', closedAt: now } : order
+  )),
+});
+
+export const openOrders = (account: PaperAccount): PaperOrder[] => account.orders.filter(order => order.status === 'open');
+
+// Value the account at the given prices; positions without one are valued at cost
+export const valuePaperAccount = (account: PaperAccount, prices: Record<string, number>): PaperAccountValuation => {
+  const positions: PaperPositionValuation[] = account.positions.map(position => {
+    const price = prices[position.symbol] ?? position.costBasis / position.quantity;
+    const value = position.quantity * price;
+    const unrealizedPnl = value - position.costBasis;
+    return {
+      position,
+      price,
+      value,
+      unrealizedPnl,
+      unrealizedPnlPercent: position.costBasis > 0 ? (unrealizedPnl / position.costBasis) * 100 : 0,
+    };
+  });
+  positions.sort((a, b) => b.value - a.value);
+
+  const equity = account.balance + positions.reduce((sum, position) => sum + position.value, 0);
+
+  return {
+    positions,
+    equity,
+    unrealizedPnl: positions.reduce((sum, position) => sum + position.unrealizedPnl, 0),
+    realizedPnl: account.realizedPnl,
+    returnPercent: account.startingBalance > 0 ? ((equity - account.startingBalance) / account.startingBalance) * 100 : 0,
+  };
+};
@@ -0,0 +1,21 @@
+import { createPaperAccount } from './engine';
+import { PaperAccount } from './types';
+
+export * from './types';
+export * from './engine';
+export * from './parse';
+
+const STORAGE_KEY = 'jarvis.paper';
+
+export const loadPaperAccount = (): PaperAccount => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...createPaperAccount(), ...JSON.parse(raw) } : createPaperAccount();
+  } catch {
+    return createPaperAccount();
+  }
+};
+
+export const savePaperAccount = (account: PaperAccount) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(account));
+};
@@ -0,0 +1,83 @@
+import { SymbolRegistry } from '../symbols';
+import { findNumbers, priceMarkerIndex } from '../nlu/numbers';
+import { hasAnyPhrase, tokenize } from '../nlu/tokenize';
+import type { Lexicon } from '../nlu/lexicon';
+import { TradeSide } from '../portfolio/types';
+import { OrderType } from './types';
+
+export type PaperCommand =
+  // symbol is null when no coin was recognised; quantity and quoteAmount are both
+  // null when no amount was given
+  | {
+      action: 'order';
+      side: TradeSide;
+      type: OrderType;
+      symbol: string | null;
+      quantity: number | null;
+      quoteAmount: number | null;
+      limitPrice: number | null;
+    }
+  | { action: 'cancel'; symbol: string | null }
+  | { action: 'summary' }
+  | { action: 'reset' };
+
+// "buy 200 dollars of solana", "sell 2 eth", optionally after a filler ("jarvis, please buy...")
+const ORDER_PATTERN = /^(?:(?:jarvis|hey|ok|okay|please|now)[\s,]+)*(?:paper |simulated )?(buy|sell)\b/;
+// "set a limit sell on ETH at 4000", "place a limit buy for bitcoin at 50k"
+const LIMIT_PATTERN = /\blimit (buy|sell)\b|\b(buy|sell) limit\b/;
+const PAPER_PATTERN = /\b(paper|simulated|practice|demo) (account|trading|portfolio|balance|orders?|trades?|positions?)\b/;
+const CANCEL_PATTERN = /\b(cancel|remove|delete|clear)\b.*\b(orders?|limits?)\b/;
+const RESET_PATTERN = /\b(reset|restart|start over)\b/;
+const QUOTE_UNITS = /^\s*(dollars?|usd|usdt|bucks)\b/;
+// "at 4000", "@ 4000", "when it reaches 4000"
+const PRICE_MARKER = /(\bat\b|@|\breach(?:es)?\b|\bhits?\b)/;
+
+// Recognise paper-trading commands such as "buy 200 dollars of solana",
+// "set a limit sell on ETH at 4000", "cancel my ETH orders" or "how is my paper account doing"
+export const parsePaperCommand = (input: string, registry: SymbolRegistry, lexicon?: Lexicon): PaperCommand | null => {
+  const text = input.toLowerCase().trim();
+  const tokens = tokenize(text);
+  const quoteUnits = lexicon?.quoteUnits ?? [];
+
+  // Orders settle in USDT, so trade the coin's USDT pair
+  const resolveSymbol = (): string | null => {
+    const words = text.replace(/\b(dollars?|usd|usdt|bucks)\b/g, ' ').split(/\s+/);
+    const match = registry.resolve(words.filter(word => !quoteUnits.includes(word)).join(' '));
+    if (!match) return null;
+    return registry.get(`${match.baseAsset}USDT`)?.symbol ?? match.symbol;
+  };
+
+  const limit = LIMIT_PATTERN.exec(text);
+  const order = ORDER_PATTERN.exec(text);
+  // Other languages put the verb anywhere ("kaufe 200 dollar solana", "200 dolarlık solana al")
+  const localSide: TradeSide | null = hasAnyPhrase(tokens, lexicon?.buy ?? []) ? 'buy' : hasAnyPhrase(tokens, lexicon?.sell ?? []) ? 'sell' : null;
+
+  if (limit || order || localSide) {
+    const side = (limit ? limit[1] ?? limit[2] : order ? order[1] : localSide) as TradeSide;
+    const numbers = findNumbers(text);
+    const priceIndex = priceMarkerIndex(text, tokens, PRICE_MARKER, lexicon?.priceMarkers);
+    const amount = numbers.find(number => number.index < priceIndex) ?? null;
+    const price = numbers.find(number => number.index > priceIndex)?.value ?? null;
+    const unit = amount && tokens.find(token => token.index >= amount.end);
+    const inQuote = amount !== null && (text[amount.index] === '$' || QUOTE_UNITS.test(text.slice(amount.end)) || (!!unit && quoteUnits.includes(unit.word)));
+
+    return {
+      action: 'order',
+      side,
+      // "buy bitcoin at 50000" is a limit order even without the word
+      type: limit || price !== null ? 'limit' : 'market',
+      symbol: resolveSymbol(),
+      quantity: amount && !inQuote ? amount.value : null,
+      quoteAmount: amount && inQuote ? amount.value : null,
+      limitPrice: price,
+    };
+  }
+
+  // Only paper trading has orders, so "cancel my ETH orders" needs no "paper"
+  if (CANCEL_PATTERN.test(text)) {
+    return { action: 'cancel', symbol: resolveSymbol() };
+  }
+  if (!PAPER_PATTERN.test(text)) return null;
+  if (RESET_PATTERN.test(text)) return { action: 'reset' };
+  return { action: 'summary' };
+};
@@ -0,0 +1,89 @@
+import { TradeSide } from '../portfolio/types';
+
+export type OrderType = 'market' | 'limit';
+
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+// What the user asked for. Exactly one of quantity (in the coin) or quoteAmount
+// (in USDT) is set; a sell with neither closes the whole position.
+export interface OrderRequest {
+  symbol: string;
+  side: TradeSide;
+  type: OrderType;
+  quantity: number | null;
+  quoteAmount: number | null;
+  // Required for limit orders
+  limitPrice: number | null;
+}
+
+export interface PaperOrder extends OrderRequest {
+  id: string;
+  status: OrderStatus;
+  createdAt: number;
+  // Set once the order has filled, been cancelled or been rejected
+  closedAt?: number;
+  fillPrice?: number;
+  // Why a limit order couldn't be filled when its price was reached
+  reason?: string;
+}
+
+export interface PaperTrade {
+  id: string;
+  orderId: string;
+  symbol: string;
+  side: TradeSide;
+  quantity: number;
+  price: number;
+  // Traded value in USDT, before the fee
+  notional: number;
+  fee: number;
+  // Sells only: proceeds after fees minus the average cost of what was sold
+  realizedPnl?: number;
+  time: number;
+}
+
+export interface PaperPosition {
+  symbol: string;
+  quantity: number;
+  // USDT paid for the quantity held, buy fees included
+  costBasis: number;
+}
+
+// Simulated account with a virtual USDT balance
+export interface PaperAccount {
+  startingBalance: number;
+  balance: number;
+  positions: PaperPosition[];
+  orders: PaperOrder[];
+  trades: PaperTrade[];
+  feesPaid: number;
+  // Running total over every sell, so it survives old trades being dropped
+  realizedPnl: number;
+  createdAt: number;
+}
+
+export interface PaperPositionValuation {
+  position: PaperPosition;
+  price: number;
+  value: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+}
+
+export interface PaperAccountValuation {
+  positions: PaperPositionValuation[];
+  // Cash plus positions at market prices
+  equity: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+  // Equity against the starting balance
+  returnPercent: number;
+}
+
+// Result of placing an order: the account after it, and the order as it stands
+// (filled straight away, or resting until its limit price is reached)
+export interface OrderResult {
+  account: PaperAccount;
+  order: PaperOrder;
+  trade: PaperTrade | null;
+}
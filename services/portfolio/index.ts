@@ -0,0 +1,20 @@
+import { Holding } from './types';
+
+export * from './types';
+export * from './valuation';
+export * from './parse';
+
+const STORAGE_KEY = 'jarvis.portfolio';
+
+export const loadHoldings = (): Holding[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveHoldings = (holdings: Holding[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(holdings));
+};
@@ -0,0 +1,52 @@
+import { SymbolRegistry } from '../symbols';
+import { findNumbers, priceMarkerIndex } from '../nlu/numbers';
+import { hasAnyPhrase, tokenize } from '../nlu/tokenize';
+import type { Lexicon } from '../nlu/lexicon';
+import { TradeSide } from './types';
+
+export type PortfolioCommand =
+  // price is null when the user didn't say one; the current market price is used instead
+  | { action: 'trade'; side: TradeSide; symbol: string | null; quantity: number | null; price: number | null }
+  | { action: 'remove'; symbol: string | null }
+  | { action: 'summary' };
+
+const PORTFOLIO_PATTERN = /\b(portfolio|holdings|positions|my bags)\b/;
+const SUMMARY_PATTERN = /\b(how|what|show|summary|summarize|doing|worth|value|performance|status|read)\b/;
+const BUY_PATTERN = /\b(i|we) (?:just )?(bought|purchased|picked up|added)\b|\badd\b.*\bto my (portfolio|holdings)\b/;
+const SELL_PATTERN = /\b(i|we) (?:just )?(sold|dumped|took profit on)\b/;
+const REMOVE_PATTERN = /\b(remove|delete|clear)\b.*\bfrom my (portfolio|holdings)\b/;
+
+// Recognise portfolio commands such as "I bought 0.5 bitcoin at 60 thousand",
+// "I sold 2 ETH", "remove doge from my portfolio" or "how is my portfolio"
+export const parsePortfolioCommand = (input: string, registry: SymbolRegistry, lexicon?: Lexicon): PortfolioCommand | null => {
+  const text = input.toLowerCase();
+  const tokens = tokenize(text);
+  const mentions = (pattern: RegExp, phrases: string[] = []) => pattern.test(text) || hasAnyPhrase(tokens, phrases);
+
+  // Holdings are always valued in USD, so use the coin's USDT pair
+  const resolveSymbol = (): string | null => {
+    const match = registry.resolve(text);
+    if (!match) return null;
+    return registry.get(`${match.baseAsset}USDT`)?.symbol ?? match.symbol;
+  };
+
+  if (REMOVE_PATTERN.test(text)) {
+    return { action: 'remove', symbol: resolveSymbol() };
+  }
+
+  const side: TradeSide | null = mentions(BUY_PATTERN, lexicon?.bought) ? 'buy' : mentions(SELL_PATTERN, lexicon?.sold) ? 'sell' : null;
+
+  if (side) {
+    const numbers = findNumbers(text);
+    const priceIndex = priceMarkerIndex(text, tokens, /\b(at|for|@)\b/, lexicon?.priceMarkers);
+    const quantity = numbers.find(number => number.index < priceIndex)?.value ?? null;
+    const price = numbers.find(number => number.index > priceIndex)?.value ?? null;
+    return { action: 'trade', side, symbol: resolveSymbol(), quantity, price };
+  }
+
+  if (mentions(PORTFOLIO_PATTERN, lexicon?.portfolio) && mentions(SUMMARY_PATTERN, [...(lexicon?.questionWords ?? []), ...(lexicon?.listWords ?? [])])) {
+    return { action: 'summary' };
+  }
+
+  return null;
+};
@@ -0,0 +1,35 @@
+import { CryptoData } from '../market/types';
+
+// An aggregated position: total quantity held and what was paid for it
+export interface Holding {
+  symbol: string;
+  quantity: number;
+  costBasis: number;
+  updatedAt: number;
+}
+
+export type TradeSide = 'buy' | 'sell';
+
+export interface PositionValuation {
+  holding: Holding;
+  ticker: CryptoData | null;
+  price: number;
+  value: number;
+  averageCost: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  // Share of the total portfolio value, 0-100
+  allocationPercent: number;
+  change24h: number;
+}
+
+export interface PortfolioValuation {
+  positions: PositionValuation[];
+  totalValue: number;
+  totalCost: number;
+  unrealizedPnl: number;
+  unrealizedPnlPercent: number;
+  change24h: number;
+  change24hPercent: number;
+  updatedAt: number;
+}
@@ -0,0 +1,89 @@
+import { CryptoData } from '../market/types';
+import { Holding, PortfolioValuation, PositionValuation, TradeSide } from './types';
+
+// Quantities below this are treated as a closed position
+const DUST = 1e-12;
+
+// Apply a buy or sell to the holdings, keeping the average cost on sells
+export const applyTrade = (
+  holdings: Holding[],
+  symbol: string,
+  side: TradeSide,
+  quantity: number,
+  price: number
+): Holding[] => {
+  const existing = holdings.find(holding => holding.symbol === symbol);
+  const now = Date.now();
+
+  if (side === 'buy') {
+    const updated: Holding = existing
+      ? { ...existing, quantity: existing.quantity + quantity, costBasis: existing.costBasis + quantity * price, updatedAt: now }
+      : { symbol, quantity, costBasis: quantity * price, updatedAt: now };
+    return existing
+      ? holdings.map(holding => (holding.symbol === symbol ? updated : holding))
+      : [...holdings, updated];
+  }
+
+  if (!existing) {
+    throw new Error(`You don't hold any ${symbol}`);
+  }
+  if (quantity > existing.quantity + DUST) {
+    throw new Error(`You only hold ${existing.quantity} of ${symbol}`);
+  }
+
+  const remaining = existing.quantity - quantity;
+  if (remaining <= DUST) {
+    return holdings.filter(holding => holding.symbol !== symbol);
+  }
+
+  const averageCost = existing.costBasis / existing.quantity;
+  return holdings.map(holding =>
+    holding.symbol === symbol
+      ? { ...holding, quantity: remaining, costBasis: averageCost * remaining, updatedAt: now }
+      : holding
+  );
+};
+
+// Value the holdings against the latest tickers; positions without a ticker are valued at cost
+export const valuePortfolio = (holdings: Holding[], tickers: Record<string, CryptoData>): PortfolioValuation => {
+  const positions: PositionValuation[] = holdings.map(holding => {
+    const ticker = tickers[holding.symbol] ?? null;
+    const averageCost = holding.quantity > 0 ? holding.costBasis / holding.quantity : 0;
+    const price = ticker ? parseFloat(ticker.lastPrice) : averageCost;
+    const value = holding.quantity * price;
+    const unrealizedPnl = value - holding.costBasis;
+
+    return {
+      holding,
+      ticker,
+      price,
+      value,
+      averageCost,
+      unrealizedPnl,
+      unrealizedPnlPercent: holding.costBasis > 0 ? (unrealizedPnl / holding.costBasis) * 100 : 0,
+      allocationPercent: 0,
+      change24h: ticker ? holding.quantity * parseFloat(ticker.priceChange) : 0,
+    };
+  });
+
+  const totalValue = positions.reduce((sum, position) => sum + position.value, 0);
+  const totalCost = positions.reduce((sum, position) => sum + position.holding.costBasis, 0);
+  const change24h = positions.reduce((sum, position) => sum + position.change24h, 0);
+  const valueYesterday = totalValue - change24h;
+
+  for (const position of positions) {
+    position.allocationPercent = totalValue > 0 ? (position.value / totalValue) * 100 : 0;
+  }
+  positions.sort((a, b) => b.value - a.value);
+
+  return {
+    positions,
+    totalValue,
+    totalCost,
+    unrealizedPnl: totalValue - totalCost,
+    unrealizedPnlPercent: totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0,
+    change24h,
+    change24hPercent: valueYesterday > 0 ? (change24h / valueYesterday) * 100 : 0,
+    updatedAt: Date.now(),
+  };
+};
@@ -0,0 +1,54 @@
+import { CryptoData } from '../market/types';
+import { IndicatorReport } from '../indicators';
+import { AdviceKey, Messages, Trend } from '../i18n/types';
+import { AdviceThresholds } from './types';
+
+// Overbought/oversold advice already speaks to risk, the rest mentions volatility
+const RISK_ADVICE: AdviceKey[] = ['overbought', 'overboughtStretched', 'oversold'];
+
+// Trend of an analysis: the indicators' combined view when there is enough history,
+// otherwise the direction of the 24h move, or stable when it is smaller than `stablePercent`
+export const analysisTrend = (ticker: CryptoData, report: IndicatorReport | null, stablePercent: number): Trend => {
+  if (report && report.signals.length > 0) {
+    return report.bias === 'bullish' ? 'up' : report.bias === 'bearish' ? 'down' : 'stable';
+  }
+  if (Math.abs(parseFloat(ticker.priceChangePercent)) < stablePercent) return 'stable';
+  return parseFloat(ticker.priceChange) > 0 ? 'up' : 'down';
+};
+
+const adviceKey = (report: IndicatorReport | null, { rsiOverbought, rsiOversold }: AdviceThresholds): AdviceKey | null => {
+  if (!report) return null;
+  const crossover = report.sma?.cross ?? report.ema?.cross;
+
+  if (report.rsi !== null && report.rsi >= rsiOverbought) {
+    return report.bollinger && report.price > report.bollinger.upper ? 'overboughtStretched' : 'overbought';
+  }
+  if (report.rsi !== null && report.rsi <= rsiOversold) return 'oversold';
+  if (crossover === 'golden') return 'goldenCross';
+  if (crossover === 'death') return 'deathCross';
+  if (report.bias === 'bullish') return 'bullish';
+  if (report.bias === 'bearish') return 'bearish';
+  return null;
+};
+
+// Advice from the indicators, falling back to the 24h price movement
+export const generateAdvice = (
+  priceChangePercent: number,
+  trend: Trend,
+  report: IndicatorReport | null,
+  thresholds: AdviceThresholds,
+  messages: Messages
+): string => {
+  const key = adviceKey(report, thresholds);
+  if (key) {
+    const volatility = report && report.atrPercent !== null && !RISK_ADVICE.includes(key)
+      ? messages.volatility(report.atrPercent.toFixed(1))
+      : '';
+    return messages.advice[key] + volatility;
+  }
+
+  if (Math.abs(priceChangePercent) > thresholds.bigMovePercent) {
+    return messages.advice[priceChangePercent > 0 ? 'bigRise' : 'bigDrop'];
+  }
+  return trend === 'stable' ? messages.advice.consolidating : messages.advice.neutral;
+};
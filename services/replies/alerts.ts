@@ -0,0 +1,97 @@
+import { MarketDataProvider } from '../market/types';
+import { AlertCommand } from '../alerts/parse';
+import { AlertCondition, AlertTrigger, PriceAlert } from '../alerts/types';
+import { isUsdQuote } from '../symbols/aliases';
+import { assetNameOf, formatSymbolPrice, quoteAssetOf, toQuotePrice } from './coins';
+import { ReplyContext } from './types';
+
+// The saved alerts and the changes a voice command can make to them
+export interface AlertBook {
+  alerts: PriceAlert[];
+  addAlert: (symbol: string, condition: AlertCondition) => PriceAlert;
+  setPaused: (ids: string[], paused: boolean) => void;
+  removeAlerts: (ids: string[]) => void;
+}
+
+// An alert read aloud with the spoken coin name and its quote currency; dollar levels are read in the display currency
+export const describePriceAlert = (alert: PriceAlert, context: ReplyContext): string => {
+  const quoteAsset = quoteAssetOf(alert.symbol, context);
+  const { condition } = alert;
+  if (!isUsdQuote(quoteAsset)) {
+    return context.messages.alerts.describe({ name: assetNameOf(alert.symbol, context), condition, quote: quoteAsset });
+  }
+
+  const { convertUsd, currencyCode } = context.format;
+  return context.messages.alerts.describe({
+    name: assetNameOf(alert.symbol, context),
+    condition: condition.type === 'move' ? condition : { ...condition, price: Number(convertUsd(condition.price).toPrecision(8)) },
+    quote: currencyCode === 'USD' ? null : currencyCode,
+  });
+};
+
+// What is said when an alert fires
+export const describeAlertTrigger = ({ alert, price, changePercent }: AlertTrigger, context: ReplyContext): string => {
+  const name = assetNameOf(alert.symbol, context);
+  const priceText = formatSymbolPrice(price, alert.symbol, context);
+  return changePercent !== undefined
+    ? context.messages.alerts.triggeredMove(name, changePercent, priceText)
+    : context.messages.alerts.triggeredLevel(name, alert.condition.type === 'above' ? 'above' : 'below', priceText);
+};
+
+// Create, list, pause, resume or delete alerts, returning the reply
+export const replyToAlertCommand = async (
+  command: AlertCommand,
+  book: AlertBook,
+  provider: MarketDataProvider,
+  context: ReplyContext
+): Promise<string> => {
+  const { messages } = context;
+  const alerts = book.alerts;
+
+  if (command.action === 'list') {
+    if (alerts.length === 0) return messages.alerts.none;
+    return messages.alerts.list(alerts.map(alert => ({ description: describePriceAlert(alert, context), paused: alert.paused })));
+  }
+
+  if (command.action === 'create') {
+    if (!command.symbol) return messages.alerts.askCoin;
+    if (!command.condition) return messages.alerts.askCondition;
+
+    // Levels are said in the display currency and kept in the pair's quote asset
+    let condition = command.condition.type === 'move'
+      ? command.condition
+      : { ...command.condition, price: toQuotePrice(command.condition.price, command.symbol, context) };
+
+    // "When bitcoin hits 70000": decide the direction from the current price
+    if (command.crossing && condition.type !== 'move') {
+      try {
+        const ticker = await provider.getTicker(command.symbol);
+        condition = { type: condition.price >= parseFloat(ticker.lastPrice) ? 'above' : 'below', price: condition.price };
+      } catch (err) {
+        console.error('Error fetching price for new alert:', err);
+      }
+    }
+
+    return messages.alerts.created(describePriceAlert(book.addAlert(command.symbol, condition), context));
+  }
+
+  // Pause, resume or delete: work out which alerts are meant
+  const target = command.target;
+  const targeted = !target
+    ? []
+    : 'all' in target
+      ? alerts
+      : 'index' in target
+        ? alerts.filter((_, index) => index === target.index - 1)
+        : alerts.filter(alert => alert.symbol === target.symbol);
+
+  if (targeted.length === 0) return messages.alerts.notFound(command.action);
+
+  const ids = targeted.map(alert => alert.id);
+  if (command.action === 'delete') {
+    book.removeAlerts(ids);
+  } else {
+    book.setPaused(ids, command.action === 'pause');
+  }
+  return messages.alerts.changed(command.action, targeted.length === 1 ? describePriceAlert(targeted[0], context) : null, targeted.length);
+};
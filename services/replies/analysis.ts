@@ -0,0 +1,53 @@
+import { CryptoData, MarketTrade, OrderBook, SymbolInfo } from '../market/types';
+import { quoteVolumeOf } from '../market/overview';
+import { IndicatorReport } from '../indicators';
+import { isUsdQuote } from '../symbols/aliases';
+import { Messages } from '../i18n/types';
+import { analysisTrend, generateAdvice } from './advice';
+import { describeOrderFlow } from './orderFlow';
+import { AnalysisOptions, ReplyFormat } from './types';
+
+export interface AnalysisInput {
+  ticker: CryptoData;
+  // The pair's listing, when the symbol registry knows it
+  pair: SymbolInfo | undefined;
+  report: IndicatorReport | null;
+  book: OrderBook | null;
+  trades: MarketTrade[];
+}
+
+// The spoken analysis of a coin: price, 24h move, indicators, order flow and advice
+export const composeAnalysis = (
+  { ticker, pair, report, book, trades }: AnalysisInput,
+  options: AnalysisOptions,
+  format: ReplyFormat,
+  messages: Messages,
+  now = Date.now()
+): string => {
+  const name = pair?.baseAsset ?? ticker.symbol.replace('USDT', '');
+  const quoteAsset = pair?.quoteAsset ?? 'USDT';
+  const usdQuote = isUsdQuote(quoteAsset);
+  const changePercent = parseFloat(ticker.priceChangePercent);
+  const trend = analysisTrend(ticker, report, options.stablePercent);
+  const volume = usdQuote ? format.convertUsd(quoteVolumeOf(ticker)) : quoteVolumeOf(ticker);
+
+  // Prices stay as "$1234.56" or "0.0523 BTC"; the amounts are read out in the reply's language
+  const analysis = (options.verbosity === 'brief' ? messages.briefAnalysis : messages.analysis)({
+    name,
+    price: format.formatPrice(parseFloat(ticker.lastPrice), quoteAsset),
+    change: format.formatPrice(parseFloat(ticker.priceChange), quoteAsset),
+    changePercent,
+    high: format.formatPrice(parseFloat(ticker.highPrice), quoteAsset),
+    low: format.formatPrice(parseFloat(ticker.lowPrice), quoteAsset),
+    volumeMillions: (volume / 1000000).toFixed(2),
+    currency: usdQuote ? format.currencyCode : quoteAsset,
+    technicals: report ? report.signals.map(signal => messages.signal(signal, report)) : [],
+    orderFlow: describeOrderFlow(book, trades, quoteAsset, format, messages),
+    trend,
+    advice: options.includeAdvice ? generateAdvice(changePercent, trend, report, options, messages) : '',
+  });
+
+  // Figures served from the cache when the exchange was unreachable are introduced as such
+  const cachedNote = ticker.cachedAt ? `${messages.cachedData(Math.max(1, Math.round((now - ticker.cachedAt) / 60000)))} ` : '';
+  return cachedNote + analysis;
+};
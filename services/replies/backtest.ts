@@ -0,0 +1,43 @@
+import { BacktestCommand } from '../backtest/parse';
+import { BacktestResult, Strategy } from '../backtest/types';
+import { assetNameOf, failureReason } from './coins';
+import { ReplyContext } from './types';
+
+// Downloads a symbol's history over `durationMs` and replays a strategy over it
+export type BacktestRunner = (symbol: string, strategy: Strategy, durationMs: number) => Promise<BacktestResult>;
+
+// Spoken summary of a backtest
+export const describeBacktestResult = (result: BacktestResult, durationMs: number, context: ReplyContext): string => {
+  const { messages, formatValue: money } = context;
+  return messages.backtest.result({
+    strategy: messages.backtest.strategy(result.strategy, money),
+    name: assetNameOf(result.symbol, context),
+    durationMs,
+    dca: result.strategy.kind === 'dca',
+    trades: result.trades.length,
+    capital: money(result.capital),
+    finalEquity: money(result.finalEquity),
+    returnPercent: result.returnPercent,
+    buyAndHoldPercent: result.buyAndHoldPercent,
+    maxDrawdownPercent: result.maxDrawdownPercent,
+    winRate: result.winRate,
+    sharpe: result.sharpe,
+  });
+};
+
+// Run the backtest a voice command asked for, returning the reply
+export const replyToBacktestCommand = async (
+  command: BacktestCommand,
+  run: BacktestRunner,
+  context: ReplyContext
+): Promise<string> => {
+  const { messages } = context;
+  if (!command.symbol) return messages.backtest.askCoin;
+  if (!command.strategy) return messages.backtest.askStrategy(assetNameOf(command.symbol, context));
+
+  try {
+    return describeBacktestResult(await run(command.symbol, command.strategy, command.durationMs), command.durationMs, context);
+  } catch (err) {
+    return messages.backtest.failed(failureReason(err));
+  }
+};
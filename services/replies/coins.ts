@@ -0,0 +1,28 @@
+import { CryptoData } from '../market/types';
+import { changeOf } from '../market/overview';
+import { isUsdQuote, spokenAssetName } from '../symbols/aliases';
+import { CoinChange } from '../i18n/types';
+import { ReplyContext } from './types';
+
+// Spoken name for a symbol's base asset, e.g. "BTCUSDT" -> "Bitcoin"
+export const assetNameOf = (symbol: string, context: ReplyContext): string =>
+  spokenAssetName(context.pair(symbol)?.baseAsset ?? symbol.replace('USDT', ''));
+
+// Quote asset a symbol is priced in, USDT when the listing doesn't know it
+export const quoteAssetOf = (symbol: string, context: ReplyContext): string =>
+  context.pair(symbol)?.quoteAsset ?? 'USDT';
+
+// A price of `symbol` in its quote asset
+export const formatSymbolPrice = (value: number, symbol: string, context: ReplyContext): string =>
+  context.format.formatPrice(value, quoteAssetOf(symbol, context));
+
+// A price said for `symbol`, in the quote asset it is kept in: dollar prices are said in the display currency
+export const toQuotePrice = (value: number, symbol: string, context: ReplyContext): number =>
+  isUsdQuote(quoteAssetOf(symbol, context)) ? value / context.format.convertUsd(1) : value;
+
+// Spoken name and 24h change of a ticker, for rankings and digests
+export const coinChange = (ticker: CryptoData, context: ReplyContext): CoinChange =>
+  ({ name: assetNameOf(ticker.symbol, context), changePercent: changeOf(ticker) });
+
+// Reason given in a failure reply
+export const failureReason = (err: unknown): string => (err instanceof Error ? err.message : 'Please try again.');
@@ -0,0 +1,42 @@
+import { ConversationTopic } from '../nlu/intent';
+import { Messages } from '../i18n/types';
+
+// Small-talk reply for a conversation topic. Topics with several replies pick one with `random`;
+// the time topic reads `now` in `dateLocale`.
+export const conversationReply = (
+  topic: ConversationTopic,
+  messages: Messages,
+  dateLocale: string,
+  now = new Date(),
+  random = Math.random
+): string => {
+  const replies = messages.conversation;
+  const pick = (responses: string[]) => responses[Math.floor(random() * responses.length)];
+
+  switch (topic) {
+    case 'identity':
+      return replies.identity;
+    case 'wellbeing':
+      return pick(replies.wellbeing);
+    case 'capabilities':
+      return replies.capabilities;
+    case 'time': {
+      const time = now.toLocaleTimeString(dateLocale, { hour: 'numeric', minute: 'numeric' });
+      const date = now.toLocaleDateString(dateLocale, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+      return replies.time(time, date);
+    }
+    // Weather is outside what Jarvis knows; the reply says so
+    case 'weather':
+      return replies.weather;
+    case 'joke':
+      return pick(replies.jokes);
+    case 'thanks':
+      return pick(replies.thanks);
+    case 'goodbye':
+      return pick(replies.goodbye);
+    case 'greeting':
+      return replies.greeting;
+    case 'help':
+      return replies.help;
+  }
+};
@@ -0,0 +1,81 @@
+import { MarketDataProvider, MarketTrade } from '../market/types';
+import { DEPTH_BAND_PERCENT, WALL_MULTIPLE, isWall, summarizeOrderBook, summarizeTrades } from '../market/depth';
+import { DepthTopic } from '../nlu/depth';
+import { assetNameOf, failureReason, formatSymbolPrice } from './coins';
+import { ReplyContext } from './types';
+
+// Answer a question about a coin's order book and recent trades
+export const replyToDepthQuestion = async (
+  symbol: string | null,
+  topic: DepthTopic,
+  provider: MarketDataProvider,
+  context: ReplyContext
+): Promise<string> => {
+  const { messages } = context;
+  if (!symbol) return messages.depth.askCoin;
+
+  try {
+    const [book, trades] = await Promise.all([provider.getOrderBook(symbol), provider.getRecentTrades(symbol)]);
+    const summary = summarizeOrderBook(book);
+    if (!summary) {
+      throw new Error('The order book is empty.');
+    }
+
+    const name = assetNameOf(symbol, context);
+    const baseAsset = context.pair(symbol)?.baseAsset ?? name;
+    const price = (value: number) => formatSymbolPrice(value, symbol, context);
+    const amount = (quantity: number) => `${Number(quantity.toPrecision(3))} ${baseAsset}`;
+
+    const describeWall = (side: 'buy' | 'sell') => {
+      const wall = side === 'buy' ? summary.largestBid : summary.largestAsk;
+      return messages.depth.wall(name, side, wall && {
+        price: price(wall.price),
+        distancePercent: wall.distancePercent,
+        amount: amount(wall.quantity),
+        value: price(wall.value),
+        multiple: wall.multiple,
+        standout: wall.multiple >= WALL_MULTIPLE,
+      }, DEPTH_BAND_PERCENT);
+    };
+
+    const spread = messages.depth.spread(name, price(summary.spread), summary.spreadPercent, price(summary.bestBid), price(summary.bestAsk));
+
+    const bidShare = Math.round(((summary.imbalance + 1) / 2) * 100);
+    const deeper = Math.abs(summary.imbalance) < 0.1 ? 'balanced' : summary.imbalance > 0 ? 'buy' : 'sell';
+    const imbalance = messages.depth.imbalance(name, bidShare, deeper, DEPTH_BAND_PERCENT);
+
+    const flow = summarizeTrades(trades);
+    const tape = () => {
+      if (!flow) return messages.depth.tape(name, null);
+      const biggest: MarketTrade | undefined = [...flow.largeTrades]
+        .sort((a, b) => b.price * b.quantity - a.price * a.quantity)[0];
+      return messages.depth.tape(name, {
+        count: flow.count,
+        buySharePercent: Math.round(flow.buyShare * 100),
+        largeTrades: flow.largeTrades.length,
+        largeTradeValue: price(flow.largeTradeValue),
+        biggest: biggest ? { side: biggest.side, amount: amount(biggest.quantity), price: price(biggest.price) } : null,
+      });
+    };
+
+    switch (topic) {
+      case 'spread':
+        return spread;
+      case 'buyWall':
+        return describeWall('buy');
+      case 'sellWall':
+        return describeWall('sell');
+      case 'walls':
+        return `${describeWall('buy')} ${describeWall('sell')}`;
+      case 'imbalance':
+        return flow ? `${imbalance} ${messages.depth.flow(flow.count, Math.round(flow.buyShare * 100))}` : imbalance;
+      case 'trades':
+        return tape();
+      case 'book':
+        return `${spread} ${imbalance} ${isWall(summary.largestBid) ? describeWall('buy') : ''} ${isWall(summary.largestAsk) ? describeWall('sell') : ''}`.trim();
+    }
+  } catch (err) {
+    console.error('Error fetching order book:', err);
+    return messages.depth.failed(failureReason(err));
+  }
+};
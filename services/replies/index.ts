@@ -0,0 +1,15 @@
+// Reply text built from market data and the selected language's messages, free of React and browser APIs
+export * from './types';
+export * from './advice';
+export * from './orderFlow';
+export * from './analysis';
+export * from './conversation';
+export * from './coins';
+export * from './alerts';
+export * from './portfolio';
+export * from './watchlist';
+export * from './paper';
+export * from './backtest';
+export * from './stats';
+export * from './depth';
+export * from './market';
@@ -0,0 +1,129 @@
+import { CryptoData, MarketDataProvider } from '../market/types';
+import { CHART_RANGES, Timeframe } from '../market/timeframes';
+import { fetchKlineHistory } from '../market/history';
+import { ComparisonSeries, changeOf, marketBreadth, performanceSeries, topMovers } from '../market/overview';
+import { MarketCommand } from '../nlu/market';
+import { assetNameOf, coinChange } from './coins';
+import { ReplyContext } from './types';
+
+// Coins considered for the market overview, by 24h quote volume
+const OVERVIEW_BREADTH = 20;
+const OVERVIEW_TABLE_ROWS = 10;
+
+// A table of coins with their performance over the chart range, shown with the reply
+export interface MarketComparisonData {
+  title: string;
+  // Rows in the order they were ranked
+  tickers: CryptoData[];
+  series: ComparisonSeries[];
+}
+
+export interface MarketReply {
+  text: string;
+  // Null when the reply only asks for more detail
+  comparison: MarketComparisonData | null;
+}
+
+// Each coin's candles over the chart range, rebased for the comparison overlay. Coins whose
+// history can't be loaded are left out.
+export const fetchPerformanceSeries = async (
+  provider: MarketDataProvider,
+  symbols: string[],
+  timeframe: Timeframe
+): Promise<ComparisonSeries[]> => {
+  const endTime = Date.now();
+  const startTime = endTime - CHART_RANGES[timeframe.range].ms;
+  const results = await Promise.allSettled(
+    symbols.map(symbol => fetchKlineHistory(provider, symbol, timeframe.interval, startTime, endTime))
+  );
+
+  return results.flatMap((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Error fetching history for ${symbols[index]}:`, result.reason);
+      return [];
+    }
+    return [{ symbol: symbols[index], points: performanceSeries(result.value) }];
+  });
+};
+
+// Compare coins, rank the top movers or sum up the market, with the table to show.
+// Throws when the market data can't be loaded.
+export const replyToMarketCommand = async (
+  command: MarketCommand,
+  provider: MarketDataProvider,
+  timeframe: Timeframe,
+  context: ReplyContext
+): Promise<MarketReply> => {
+  const { messages } = context;
+  const change = (ticker: CryptoData) => coinChange(ticker, context);
+
+  if (command.action === 'compare') {
+    if (command.symbols.length < 2) return { text: messages.market.askCompare, comparison: null };
+
+    const ranked = (await provider.getTickers(command.symbols)).sort((a, b) => changeOf(b) - changeOf(a));
+    if (ranked.length < 2) {
+      throw new Error('Prices for those coins are not available right now.');
+    }
+
+    const series = await fetchPerformanceSeries(provider, ranked.map(ticker => ticker.symbol), timeframe);
+    const names = ranked.map(ticker => assetNameOf(ticker.symbol, context));
+    const best = [...series]
+      .filter(line => line.points.length > 0)
+      .sort((a, b) => b.points[b.points.length - 1].percent - a.points[a.points.length - 1].percent)[0];
+
+    return {
+      text: messages.market.comparison(
+        ranked.map(change),
+        best
+          ? { range: timeframe.range, coin: { name: assetNameOf(best.symbol, context), changePercent: best.points[best.points.length - 1].percent } }
+          : null
+      ),
+      comparison: { title: names.join(' vs '), tickers: ranked, series },
+    };
+  }
+
+  const allTickers = await provider.getTickers();
+
+  if (command.action === 'movers') {
+    const movers = topMovers(allTickers, command.direction, command.limit);
+    if (movers.length === 0) {
+      throw new Error('There is not enough market data to rank coins right now.');
+    }
+
+    const heading = command.direction === 'gainers' ? 'Top Gainers' : command.direction === 'losers' ? 'Top Losers' : 'Top Movers';
+    return {
+      text: messages.market.movers(command.direction, movers.map(change)),
+      comparison: {
+        title: `${heading} (24h)`,
+        tickers: movers,
+        series: await fetchPerformanceSeries(provider, movers.map(ticker => ticker.symbol), timeframe),
+      },
+    };
+  }
+
+  // Market overview: breadth of the most traded coins plus the day's extremes
+  const breadth = marketBreadth(allTickers, OVERVIEW_BREADTH);
+  if (breadth.tickers.length === 0) {
+    throw new Error('There is not enough market data for an overview right now.');
+  }
+
+  const leaders = breadth.tickers.slice(0, OVERVIEW_TABLE_ROWS);
+  const [topGainer] = topMovers(breadth.tickers, 'gainers', 1);
+  const [topLoser] = topMovers(breadth.tickers, 'losers', 1);
+
+  return {
+    text: messages.market.overview({
+      coins: breadth.tickers.length,
+      advancers: breadth.advancers,
+      decliners: breadth.decliners,
+      averageChangePercent: breadth.averageChangePercent,
+      topGainer: change(topGainer),
+      topLoser: change(topLoser),
+    }),
+    comparison: {
+      title: 'Market Overview',
+      tickers: leaders,
+      series: await fetchPerformanceSeries(provider, leaders.slice(0, 5).map(ticker => ticker.symbol), timeframe),
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import { MarketTrade, OrderBook } from '../market/types';
+import { isWall, summarizeOrderBook, summarizeTrades } from '../market/depth';
+import { Messages } from '../i18n/types';
+import { ReplyFormat } from './types';
+
+// The order book and recent trades as one sentence for the full analysis; empty without a book
+export const describeOrderFlow = (
+  book: OrderBook | null,
+  trades: MarketTrade[],
+  quoteAsset: string,
+  format: ReplyFormat,
+  messages: Messages
+): string => {
+  const summary = book ? summarizeOrderBook(book) : null;
+  if (!summary) return '';
+
+  const large = summarizeTrades(trades)?.largeTrades ?? [];
+  const largeBuyValue = large.filter(trade => trade.side === 'buy').reduce((sum, trade) => sum + trade.price * trade.quantity, 0);
+  const largeValue = large.reduce((sum, trade) => sum + trade.price * trade.quantity, 0);
+
+  return messages.orderFlow({
+    spreadPercent: summary.spreadPercent,
+    bidSharePercent: ((summary.imbalance + 1) / 2) * 100,
+    buyWall: isWall(summary.largestBid) ? format.formatPrice(summary.largestBid.price, quoteAsset) : null,
+    sellWall: isWall(summary.largestAsk) ? format.formatPrice(summary.largestAsk.price, quoteAsset) : null,
+    largeTrades: large.length,
+    largeBuySharePercent: largeValue > 0 ? (largeBuyValue / largeValue) * 100 : 50,
+  });
+};
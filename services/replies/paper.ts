@@ -0,0 +1,116 @@
+import { PaperCommand } from '../paper/parse';
+import { OrderRequest, OrderResult, PaperAccount, PaperAccountValuation, PaperOrder } from '../paper/types';
+import { assetNameOf, failureReason, toQuotePrice } from './coins';
+import { ReplyContext } from './types';
+
+// The paper account and the orders a voice command can place or cancel
+export interface PaperDesk {
+  account: PaperAccount;
+  valuation: PaperAccountValuation;
+  submitOrder: (request: OrderRequest) => Promise<OrderResult>;
+  // Returns the orders that were cancelled
+  cancel: (symbol: string | null) => PaperOrder[];
+  reset: () => void;
+}
+
+// How much a paper order trades, e.g. "0.5 Bitcoin" or "$200 of Solana"
+export const describePaperAmount = (order: PaperOrder, context: ReplyContext): string =>
+  context.messages.paper.amount(
+    assetNameOf(order.symbol, context),
+    order.quantity,
+    order.quoteAmount === null ? null : context.formatValue(order.quoteAmount)
+  );
+
+// Confirmation of a paper order that was just placed
+export const confirmPaperOrder = ({ account, order, trade }: OrderResult, context: ReplyContext): string => {
+  const money = context.formatValue;
+
+  if (!trade) {
+    return context.messages.paper.limitPlaced(order.side, describePaperAmount(order, context), money(order.limitPrice ?? 0));
+  }
+
+  const realizedPnl = trade.realizedPnl ?? 0;
+  return context.messages.paper.filled({
+    side: trade.side,
+    quantity: trade.quantity,
+    name: assetNameOf(trade.symbol, context),
+    price: money(trade.price),
+    total: money(trade.side === 'buy' ? trade.notional + trade.fee : trade.notional - trade.fee),
+    fee: money(trade.fee),
+    realizedPnl: trade.side === 'buy' ? null : money(Math.abs(realizedPnl)),
+    inProfit: realizedPnl >= 0,
+    balance: money(account.balance),
+  });
+};
+
+// One announcement per resting limit order that filled or was rejected while waiting
+export const describePaperFills = (
+  filled: PaperOrder[],
+  rejected: PaperOrder[],
+  context: ReplyContext
+): { order: PaperOrder; text: string }[] => [
+  ...filled.map(order => ({
+    order,
+    text: context.messages.paper.limitFilled(order.side, describePaperAmount(order, context), context.formatValue(order.fillPrice ?? 0)),
+  })),
+  ...rejected.map(order => ({
+    order,
+    text: context.messages.paper.limitRejected(order.side, assetNameOf(order.symbol, context), order.reason ?? ''),
+  })),
+];
+
+// Place, cancel or summarize paper orders, or reset the account, returning the reply
+export const replyToPaperCommand = async (command: PaperCommand, desk: PaperDesk, context: ReplyContext): Promise<string> => {
+  const money = context.formatValue;
+  const messages = context.messages.paper;
+
+  if (command.action === 'summary') {
+    const { account, valuation } = desk;
+    return messages.summary({
+      equity: money(valuation.equity),
+      returnPercent: valuation.returnPercent,
+      startingBalance: money(account.startingBalance),
+      balance: money(account.balance),
+      positions: valuation.positions.length,
+      pending: account.orders.filter(order => order.status === 'open').length,
+      realizedPnl: money(valuation.realizedPnl),
+      fees: money(account.feesPaid),
+    });
+  }
+
+  if (command.action === 'reset') {
+    desk.reset();
+    return messages.reset(money(desk.account.startingBalance));
+  }
+
+  if (command.action === 'cancel') {
+    const cancelled = desk.cancel(command.symbol);
+    const name = command.symbol ? assetNameOf(command.symbol, context) : null;
+    return cancelled.length > 0 ? messages.cancelled(cancelled.length, name) : messages.noOrders(name);
+  }
+
+  if (!command.symbol) return messages.askCoin;
+
+  const assetName = assetNameOf(command.symbol, context);
+  if (command.side === 'buy' && command.quantity === null && command.quoteAmount === null) {
+    return messages.askAmount(assetName);
+  }
+  if (command.type === 'limit' && command.limitPrice === null) {
+    return messages.askLimitPrice(command.side, assetName);
+  }
+
+  try {
+    const result = await desk.submitOrder({
+      symbol: command.symbol,
+      side: command.side,
+      type: command.type,
+      quantity: command.quantity,
+      quoteAmount: command.quoteAmount,
+      // Said in the display currency; amounts are only taken in dollars, so they stay as they are
+      limitPrice: command.limitPrice === null ? null : toQuotePrice(command.limitPrice, command.symbol, context),
+    });
+    return confirmPaperOrder(result, context);
+  } catch (err) {
+    return messages.failed(failureReason(err));
+  }
+};
@@ -0,0 +1,87 @@
+import { MarketDataProvider } from '../market/types';
+import { PortfolioCommand } from '../portfolio/parse';
+import { PortfolioValuation, PositionValuation, TradeSide } from '../portfolio/types';
+import { assetNameOf, formatSymbolPrice, toQuotePrice } from './coins';
+import { ReplyContext } from './types';
+
+// The holdings a voice command can value and change
+export interface PortfolioBook {
+  refresh: () => Promise<PortfolioValuation>;
+  trade: (symbol: string, side: TradeSide, quantity: number, price: number) => void;
+  removeHolding: (symbol: string) => void;
+}
+
+// Record a trade, pricing it at the market when no price was given. Returns an error message, or null on success.
+export const recordPortfolioTrade = async (
+  book: Pick<PortfolioBook, 'trade'>,
+  provider: MarketDataProvider,
+  symbol: string,
+  side: TradeSide,
+  quantity: number,
+  price: number | null
+): Promise<string | null> => {
+  try {
+    const tradePrice = price ?? parseFloat((await provider.getTicker(symbol)).lastPrice);
+    book.trade(symbol, side, quantity, tradePrice);
+    return null;
+  } catch (err) {
+    console.error('Error recording portfolio trade:', err);
+    return err instanceof Error ? err.message : 'Could not record the trade.';
+  }
+};
+
+// Spoken summary of the portfolio's value, profit and largest holdings
+export const describePortfolio = (valuation: PortfolioValuation, context: ReplyContext): string => {
+  const { messages, formatValue: money } = context;
+  if (valuation.positions.length === 0) return messages.portfolio.empty;
+
+  const largest = valuation.positions[0];
+  const ranked = [...valuation.positions].sort((a, b) => b.unrealizedPnlPercent - a.unrealizedPnlPercent);
+  const performance = (position: PositionValuation) =>
+    ({ name: assetNameOf(position.holding.symbol, context), changePercent: position.unrealizedPnlPercent });
+
+  return messages.portfolio.summary({
+    holdings: valuation.positions.length,
+    totalValue: money(valuation.totalValue),
+    pnl: money(Math.abs(valuation.unrealizedPnl)),
+    pnlPercent: valuation.unrealizedPnlPercent,
+    inProfit: valuation.unrealizedPnl >= 0,
+    cost: money(valuation.totalCost),
+    change24h: money(Math.abs(valuation.change24h)),
+    change24hPercent: valuation.change24hPercent,
+    largest: assetNameOf(largest.holding.symbol, context),
+    largestAllocationPercent: largest.allocationPercent,
+    best: ranked.length > 1 ? performance(ranked[0]) : null,
+    worst: ranked.length > 1 ? performance(ranked[ranked.length - 1]) : null,
+  });
+};
+
+// Record a trade, remove a holding or summarize the portfolio, returning the reply
+export const replyToPortfolioCommand = async (
+  command: PortfolioCommand,
+  book: PortfolioBook,
+  provider: MarketDataProvider,
+  context: ReplyContext
+): Promise<string> => {
+  const { messages } = context;
+
+  if (command.action === 'summary') return describePortfolio(await book.refresh(), context);
+  if (!command.symbol) return messages.portfolio.askCoin;
+
+  const assetName = assetNameOf(command.symbol, context);
+
+  if (command.action === 'remove') {
+    book.removeHolding(command.symbol);
+    return messages.portfolio.removed(assetName);
+  }
+
+  if (!command.quantity) return messages.portfolio.askQuantity(assetName, command.side);
+
+  // A price is said in the display currency; holdings are kept in dollars
+  const paid = command.price ? toQuotePrice(command.price, command.symbol, context) : null;
+  const error = await recordPortfolioTrade(book, provider, command.symbol, command.side, command.quantity, paid);
+  if (error) return messages.portfolio.recordFailed(error);
+
+  const price = paid ? formatSymbolPrice(paid, command.symbol, context) : null;
+  return messages.portfolio.recorded(command.side, command.quantity, assetName, price);
+};
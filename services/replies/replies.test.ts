@@ -0,0 +1,292 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CryptoData, OrderBook } from '../market/types';
+import { IndicatorReport } from '../indicators';
+import { MESSAGES } from '../i18n';
+import { getMarketDataProvider } from '../market';
+import { PriceAlert } from '../alerts/types';
+import { OrderResult } from '../paper/types';
+import {
+  AlertBook,
+  AnalysisOptions,
+  PaperDesk,
+  PortfolioBook,
+  ReplyContext,
+  ReplyFormat,
+  WatchlistBook,
+  analysisTrend,
+  composeAnalysis,
+  conversationReply,
+  describeOrderFlow,
+  describePriceAlert,
+  generateAdvice,
+  replyToAlertCommand,
+  replyToPaperCommand,
+  replyToPortfolioCommand,
+  replyToWatchlistCommand,
+} from '.';
+
+const messages = MESSAGES.en;
+
+const ticker = (overrides: Partial<CryptoData> = {}): CryptoData => ({
+  symbol: 'BTCUSDT',
+  priceChange: '1215.05',
+  priceChangePercent: '1.840',
+  lastPrice: '67250.12',
+  volume: '18542.30',
+  highPrice: '68078.86',
+  lowPrice: '65036.16',
+  ...overrides,
+});
+
+const report = (overrides: Partial<IndicatorReport> = {}): IndicatorReport => ({
+  price: 100,
+  rsi: 55,
+  macd: null,
+  sma: null,
+  ema: null,
+  bollinger: null,
+  atr: 2,
+  atrPercent: 2,
+  signals: [{ indicator: 'rsi', bias: 'neutral', description: 'RSI is 55, in neutral territory' }],
+  score: 0,
+  bias: 'neutral',
+  ...overrides,
+});
+
+const options: AnalysisOptions = {
+  verbosity: 'full',
+  includeAdvice: true,
+  stablePercent: 0.5,
+  rsiOverbought: 70,
+  rsiOversold: 30,
+  bigMovePercent: 5,
+};
+
+// Dollars with two decimals; 1 USD = 0.9 EUR
+const format: ReplyFormat = {
+  formatPrice: (value, quoteAsset) => (quoteAsset === 'USDT' ? `$${value.toFixed(2)}` : `${value} ${quoteAsset}`),
+  convertUsd: (value) => value * 0.9,
+  currencyCode: 'EUR',
+};
+
+describe('analysisTrend', () => {
+  it('follows the 24h move without indicator signals', () => {
+    expect(analysisTrend(ticker(), null, 0.5)).toBe('up');
+    expect(analysisTrend(ticker({ priceChange: '-10', priceChangePercent: '-2' }), null, 0.5)).toBe('down');
+    expect(analysisTrend(ticker({ priceChangePercent: '0.2' }), null, 0.5)).toBe('stable');
+  });
+
+  it("prefers the indicators' bias", () => {
+    expect(analysisTrend(ticker(), report({ bias: 'bearish' }), 0.5)).toBe('down');
+  });
+});
+
+describe('generateAdvice', () => {
+  it('warns about an overbought RSI, more strongly above the upper band', () => {
+    expect(generateAdvice(1, 'up', report({ rsi: 75 }), options, messages)).toBe(messages.advice.overbought);
+    const stretched = report({ rsi: 75, price: 110, bollinger: { upper: 105, middle: 100, lower: 95, percentB: 1.5 } });
+    expect(generateAdvice(1, 'up', stretched, options, messages)).toBe(messages.advice.overboughtStretched);
+  });
+
+  it('mentions volatility with trend advice', () => {
+    const advice = generateAdvice(1, 'up', report({ bias: 'bullish', atrPercent: 3.14 }), options, messages);
+    expect(advice).toBe(messages.advice.bullish + messages.volatility('3.1'));
+  });
+
+  it('puts a crossover ahead of the overall bias', () => {
+    const sma = { fast: 2, slow: 1, fastPeriod: 20, slowPeriod: 50, cross: 'golden' as const };
+    expect(generateAdvice(1, 'down', report({ sma, bias: 'bearish' }), options, messages)).toContain(messages.advice.goldenCross);
+  });
+
+  it('falls back to the 24h move without a clear signal', () => {
+    expect(generateAdvice(8, 'up', null, options, messages)).toBe(messages.advice.bigRise);
+    expect(generateAdvice(-8, 'down', null, options, messages)).toBe(messages.advice.bigDrop);
+    expect(generateAdvice(0.1, 'stable', null, options, messages)).toBe(messages.advice.consolidating);
+    expect(generateAdvice(2, 'up', report(), options, messages)).toBe(messages.advice.neutral);
+  });
+});
+
+describe('describeOrderFlow', () => {
+  const book: OrderBook = {
+    symbol: 'BTCUSDT',
+    time: 0,
+    bids: [{ price: 99.9, quantity: 3 }, { price: 99.8, quantity: 1 }],
+    asks: [{ price: 100.1, quantity: 1 }, { price: 100.2, quantity: 1 }],
+  };
+
+  it('is empty without a book', () => {
+    expect(describeOrderFlow(null, [], 'USDT', format, messages)).toBe('');
+  });
+
+  it('reads the spread and where the liquidity sits', () => {
+    const text = describeOrderFlow(book, [], 'USDT', format, messages);
+    expect(text).toContain('the spread is 0.200%');
+    expect(text).toContain('67% of the liquidity near the price is on the buy side');
+  });
+});
+
+describe('composeAnalysis', () => {
+  const pair = { symbol: 'BTCUSDT', baseAsset: 'BTC', quoteAsset: 'USDT' };
+
+  it('writes the full analysis in the display currency', () => {
+    const text = composeAnalysis({ ticker: ticker(), pair, report: report(), book: null, trades: [] }, options, format, messages);
+    expect(text).toMatch(/^Here's my analysis for BTC\. The current price is \$67250\.12\./);
+    expect(text).toContain('which is a 1.84% increase');
+    // 18542.3 BTC at $67250.12 is about $1247M, or 1122M euros
+    expect(text).toContain('approximately 1122.27 million euros');
+    expect(text).toContain('On the technical side, RSI is 55, in neutral territory.');
+    // A neutral indicator reading makes the trend stable
+    expect(text).toContain('showing a relatively stable trend');
+    expect(text.endsWith(messages.advice.consolidating)).toBe(true);
+  });
+
+  it('keeps to price, change and trend when brief, without advice if turned off', () => {
+    const text = composeAnalysis(
+      { ticker: ticker(), pair, report: null, book: null, trades: [] },
+      { ...options, verbosity: 'brief', includeAdvice: false },
+      format,
+      messages
+    );
+    expect(text).toMatch(/^BTC is at \$67250\.12, up 1\.84% in 24 hours, in a \w+ trend\. $/);
+  });
+
+  it('prices non-USD pairs in their quote asset', () => {
+    const ethBtc = ticker({ symbol: 'ETHBTC', lastPrice: '0.0523', priceChange: '0.0001', highPrice: '0.053', lowPrice: '0.052', volume: '1000' });
+    const text = composeAnalysis(
+      { ticker: ethBtc, pair: { symbol: 'ETHBTC', baseAsset: 'ETH', quoteAsset: 'BTC' }, report: null, book: null, trades: [] },
+      options,
+      format,
+      messages
+    );
+    expect(text).toContain('The current price is 0.0523 BTC.');
+    expect(text).toContain('0.00 million');
+  });
+
+  it('says how old cached figures are', () => {
+    const now = Date.UTC(2024, 0, 1, 12);
+    const text = composeAnalysis(
+      { ticker: ticker({ cachedAt: now - 5 * 60000 }), pair, report: null, book: null, trades: [] },
+      options,
+      format,
+      messages,
+      now
+    );
+    expect(text.startsWith(messages.cachedData(5))).toBe(true);
+  });
+});
+
+describe('conversationReply', () => {
+  it('answers fixed topics with their reply', () => {
+    expect(conversationReply('identity', messages, 'en-US')).toBe(messages.conversation.identity);
+    expect(conversationReply('help', messages, 'en-US')).toBe(messages.conversation.help);
+  });
+
+  it('picks among the replies with the random source', () => {
+    expect(conversationReply('joke', messages, 'en-US', new Date(), () => 0)).toBe(messages.conversation.jokes[0]);
+    expect(conversationReply('goodbye', messages, 'en-US', new Date(), () => 0.99)).toBe(messages.conversation.goodbye[messages.conversation.goodbye.length - 1]);
+  });
+
+  it('tells the time in the given locale', () => {
+    const reply = conversationReply('time', messages, 'en-US', new Date(2024, 4, 17, 9, 5));
+    expect(reply).toBe('The current time is 9:05 AM and today is Friday, May 17, 2024.');
+  });
+});
+
+const context: ReplyContext = {
+  messages,
+  format,
+  formatValue: (usd) => `$${usd.toFixed(2)}`,
+  pair: (symbol) => ({ symbol, baseAsset: symbol.replace('USDT', ''), quoteAsset: 'USDT' }),
+  dateLocale: 'en-US',
+};
+
+const alert = (id: string, symbol: string, price: number): PriceAlert =>
+  ({ id, symbol, condition: { type: 'below', price }, paused: false, createdAt: 0 });
+
+describe('replyToAlertCommand', () => {
+  const provider = getMarketDataProvider('mock');
+  const book = (alerts: PriceAlert[]): AlertBook => ({ alerts, addAlert: vi.fn(), setPaused: vi.fn(), removeAlerts: vi.fn() });
+
+  it('pauses the alerts on the coin named', async () => {
+    const sol = alert('a', 'SOLUSDT', 120);
+    const alerts = book([alert('b', 'ETHUSDT', 3000), sol]);
+    const reply = await replyToAlertCommand({ action: 'pause', target: { symbol: 'SOLUSDT' } }, alerts, provider, context);
+    expect(alerts.setPaused).toHaveBeenCalledWith(['a'], true);
+    expect(reply).toBe(messages.alerts.changed('pause', describePriceAlert(sol, context), 1));
+  });
+
+  it('asks for what is missing before creating anything', async () => {
+    const alerts = book([]);
+    expect(await replyToAlertCommand({ action: 'create', symbol: 'SOLUSDT', condition: null, crossing: false }, alerts, provider, context))
+      .toBe(messages.alerts.askCondition);
+    expect(await replyToAlertCommand({ action: 'delete', target: { index: 2 } }, alerts, provider, context))
+      .toBe(messages.alerts.notFound('delete'));
+    expect(alerts.addAlert).not.toHaveBeenCalled();
+  });
+
+  it('keeps a level said in the display currency in dollars', async () => {
+    const alerts = book([]);
+    vi.mocked(alerts.addAlert).mockImplementation((symbol, condition) => ({ ...alert('a', symbol, 0), condition }));
+
+    const reply = await replyToAlertCommand(
+      { action: 'create', symbol: 'SOLUSDT', condition: { type: 'below', price: 108 }, crossing: false }, alerts, provider, context
+    );
+
+    expect(alerts.addAlert).toHaveBeenCalledWith('SOLUSDT', { type: 'below', price: 120 });
+    expect(reply).toBe(messages.alerts.created(
+      messages.alerts.describe({ name: 'Solana', condition: { type: 'below', price: 108 }, quote: 'EUR' })
+    ));
+  });
+});
+
+describe('prices said in the display currency', () => {
+  const provider = getMarketDataProvider('mock');
+
+  it('are recorded in dollars in the portfolio', async () => {
+    const portfolio: PortfolioBook = { refresh: vi.fn(), trade: vi.fn(), removeHolding: vi.fn() };
+
+    await replyToPortfolioCommand({ action: 'trade', side: 'buy', symbol: 'BTCUSDT', quantity: 0.5, price: 54000 }, portfolio, provider, context);
+
+    expect(portfolio.trade).toHaveBeenCalledWith('BTCUSDT', 'buy', 0.5, 60000);
+  });
+
+  it('set the limit of a paper order in dollars', async () => {
+    const submitOrder = vi.fn(async (): Promise<OrderResult> => { throw new Error('Not enough cash'); });
+    const desk = { submitOrder } as unknown as PaperDesk;
+
+    await replyToPaperCommand(
+      { action: 'order', side: 'sell', type: 'limit', symbol: 'ETHUSDT', quantity: 2, quoteAmount: null, limitPrice: 3600 }, desk, context
+    );
+
+    expect(submitOrder).toHaveBeenCalledWith(expect.objectContaining({ quantity: 2, limitPrice: 4000 }));
+  });
+});
+
+describe('replyToPaperCommand', () => {
+  it('answers in the language of its messages', async () => {
+    const turkish = { ...context, messages: MESSAGES.tr };
+    const desk = { cancel: () => [] } as unknown as PaperDesk;
+
+    expect(await replyToPaperCommand(
+      { action: 'order', side: 'sell', type: 'limit', symbol: 'ETHUSDT', quantity: 2, quoteAmount: null, limitPrice: null }, desk, turkish
+    )).toBe('Ethereum için limit satış emri hangi fiyatı beklesin? Emri fiyatıyla birlikte tekrar söyleyin.');
+    expect(await replyToPaperCommand({ action: 'cancel', symbol: null }, desk, turkish)).toBe('Açık sanal emriniz yok.');
+  });
+});
+
+describe('replyToWatchlistCommand', () => {
+  const book = (symbols: string[]): WatchlistBook => ({ symbols, refresh: async () => [], add: () => [], remove: () => [] });
+
+  it('reads the coins with their prices', async () => {
+    const list = { ...book(['BTCUSDT']), refresh: async () => [ticker()] };
+    expect(await replyToWatchlistCommand({ action: 'read' }, list, context))
+      .toBe(messages.watchlist.digest([{ name: 'Bitcoin', changePercent: 1.84, price: '$67250.12' }], null));
+  });
+
+  it('says why nothing was added', async () => {
+    const full = book(Array.from({ length: 12 }, (_, index) => `COIN${index}USDT`));
+    expect(await replyToWatchlistCommand({ action: 'add', symbols: ['SOLUSDT'] }, full, context)).toBe(messages.watchlist.full(12));
+    expect(await replyToWatchlistCommand({ action: 'add', symbols: ['SOLUSDT'] }, book(['SOLUSDT']), context))
+      .toBe(messages.watchlist.alreadyListed(['Solana']));
+  });
+});
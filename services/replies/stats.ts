@@ -0,0 +1,57 @@
+import { MarketDataProvider } from '../market/types';
+import { CHART_RANGES, ChartRange } from '../market/timeframes';
+import { fetchKlineHistory, summarizeKlines } from '../market/history';
+import { MarketStat } from '../nlu/stats';
+import { assetNameOf, failureReason, formatSymbolPrice } from './coins';
+import { ReplyContext } from './types';
+
+// Answer "what was ethereum's weekly high" and the like from the candles of that period
+export const replyToStatQuestion = async (
+  symbol: string | null,
+  stat: MarketStat,
+  range: ChartRange,
+  provider: MarketDataProvider,
+  context: ReplyContext
+): Promise<string> => {
+  const { messages } = context;
+  if (!symbol) return messages.stats.askCoin;
+
+  try {
+    const endTime = Date.now();
+    const { ms, defaultInterval } = CHART_RANGES[range];
+    const summary = summarizeKlines(await fetchKlineHistory(provider, symbol, defaultInterval, endTime - ms, endTime));
+
+    if (!summary) {
+      throw new Error('There is no price history for that period.');
+    }
+
+    const name = assetNameOf(symbol, context);
+    const price = (value: number) => formatSymbolPrice(value, symbol, context);
+    const day = (time: number) =>
+      new Date(time).toLocaleDateString(context.dateLocale, { weekday: 'long', month: 'long', day: 'numeric' });
+    const fromCurrent = (level: number) => Math.abs(((summary.close - level) / level) * 100);
+
+    switch (stat) {
+      case 'high':
+      case 'low': {
+        const level = stat === 'high' ? summary.high : summary.low;
+        return messages.stats.level({
+          level: stat,
+          name,
+          range,
+          price: price(level),
+          date: day(stat === 'high' ? summary.highTime : summary.lowTime),
+          now: price(summary.close),
+          distancePercent: fromCurrent(level),
+        });
+      }
+      case 'volume':
+        return messages.stats.volume(name, range, summary.volume, context.pair(symbol)?.baseAsset ?? name);
+      case 'change':
+        return messages.stats.change(name, range, summary.changePercent, price(summary.open), price(summary.close));
+    }
+  } catch (err) {
+    console.error('Error answering market question:', err);
+    return messages.stats.failed(failureReason(err));
+  }
+};
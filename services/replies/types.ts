@@ -0,0 +1,33 @@
+import { AssistantSettings } from '../settings/types';
+import { SymbolInfo } from '../market/types';
+import { Messages } from '../i18n/types';
+
+// Settings an analysis is written with
+export type AnalysisOptions = Pick<
+  AssistantSettings,
+  'verbosity' | 'includeAdvice' | 'stablePercent' | 'rsiOverbought' | 'rsiOversold' | 'bigMovePercent'
+>;
+
+// Indicator and 24h-move thresholds the advice sentence uses
+export type AdviceThresholds = Pick<AssistantSettings, 'rsiOverbought' | 'rsiOversold' | 'bigMovePercent'>;
+
+// How figures are written into a reply, supplied by the app so they follow the display currency
+export interface ReplyFormat {
+  // A price or amount in the pair's quote asset, e.g. "$67250.12" or "0.0523 BTC"
+  formatPrice: (value: number, quoteAsset: string) => string;
+  // A USD amount in the display currency, and that currency's code
+  convertUsd: (value: number) => number;
+  currencyCode: string;
+}
+
+// What command replies need besides their own data, supplied by the app for the current language and listing
+export interface ReplyContext {
+  messages: Messages;
+  format: ReplyFormat;
+  // A USD amount in the display currency, e.g. "€92.10"
+  formatValue: (usd: number) => string;
+  // The pair's listing, when the symbol registry knows it
+  pair: (symbol: string) => SymbolInfo | undefined;
+  // Used for dates in replies
+  dateLocale: string;
+}
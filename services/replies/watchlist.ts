@@ -0,0 +1,60 @@
+import { CryptoData } from '../market/types';
+import { changeOf } from '../market/overview';
+import { WatchlistCommand } from '../watchlist/parse';
+import { MAX_WATCHLIST_SIZE } from '../watchlist';
+import { assetNameOf, coinChange, failureReason, formatSymbolPrice } from './coins';
+import { ReplyContext } from './types';
+
+// The watched coins and the changes a voice command can make to them
+export interface WatchlistBook {
+  symbols: string[];
+  refresh: () => Promise<CryptoData[]>;
+  // Both return the symbols that actually changed
+  add: (symbols: string[]) => string[];
+  remove: (symbols: string[]) => string[];
+}
+
+// Read the watchlist or add and remove coins, returning the reply
+export const replyToWatchlistCommand = async (
+  command: WatchlistCommand,
+  book: WatchlistBook,
+  context: ReplyContext
+): Promise<string> => {
+  const { messages } = context;
+  const name = (symbol: string) => assetNameOf(symbol, context);
+
+  if (command.action === 'read') {
+    try {
+      const tickers = await book.refresh();
+      if (tickers.length === 0) return messages.watchlist.empty;
+
+      const ranked = [...tickers].sort((a, b) => changeOf(b) - changeOf(a));
+      return messages.watchlist.digest(
+        tickers.map(ticker => ({
+          ...coinChange(ticker, context),
+          price: formatSymbolPrice(parseFloat(ticker.lastPrice), ticker.symbol, context),
+        })),
+        tickers.length > 2
+          ? { strongest: name(ranked[0].symbol), weakest: name(ranked[ranked.length - 1].symbol) }
+          : null
+      );
+    } catch (err) {
+      return messages.watchlist.failed(failureReason(err));
+    }
+  }
+
+  if (command.symbols.length === 0) return messages.watchlist.askCoin(command.action);
+
+  const requested = command.symbols.map(name);
+
+  if (command.action === 'remove') {
+    const removed = book.remove(command.symbols);
+    return removed.length > 0 ? messages.watchlist.removed(removed.map(name)) : messages.watchlist.notListed(requested);
+  }
+
+  const added = book.add(command.symbols);
+  if (added.length > 0) return messages.watchlist.added(added.map(name));
+  return book.symbols.length >= MAX_WATCHLIST_SIZE
+    ? messages.watchlist.full(MAX_WATCHLIST_SIZE)
+    : messages.watchlist.alreadyListed(requested);
+};
@@ -0,0 +1,100 @@
+import { RSI_OVERBOUGHT, RSI_OVERSOLD } from '../indicators';
+import { isLocale } from '../i18n/locales';
+import { AssistantSettings, ConfigFile, JarvisConfig } from './types';
+
+export * from './types';
+
+const STORAGE_KEY = 'jarvis.settings';
+const CONFIG_VERSION = 1;
+
+export const DEFAULT_ASSISTANT_SETTINGS: AssistantSettings = {
+  voiceURI: null,
+  rate: 0.9,
+  pitch: 1.0,
+  volume: 1.0,
+  verbosity: 'full',
+  includeAdvice: true,
+  rsiOverbought: RSI_OVERBOUGHT,
+  rsiOversold: RSI_OVERSOLD,
+  bigMovePercent: 5,
+  stablePercent: 0.5,
+};
+
+// Allowed range of each numeric setting, also used by the sliders
+export const SETTING_LIMITS = {
+  rate: { min: 0.5, max: 2, step: 0.05 },
+  pitch: { min: 0, max: 2, step: 0.05 },
+  volume: { min: 0, max: 1, step: 0.05 },
+  rsiOverbought: { min: 55, max: 95, step: 1 },
+  rsiOversold: { min: 5, max: 45, step: 1 },
+  bigMovePercent: { min: 1, max: 30, step: 0.5 },
+  stablePercent: { min: 0, max: 5, step: 0.1 },
+} as const;
+
+type NumericSetting = keyof typeof SETTING_LIMITS;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Keep known, in-range values and fall back to the defaults for everything else
+export const sanitizeAssistantSettings = (raw: unknown): AssistantSettings => {
+  const settings = { ...DEFAULT_ASSISTANT_SETTINGS };
+  if (!isRecord(raw)) return settings;
+
+  (Object.keys(SETTING_LIMITS) as NumericSetting[]).forEach(key => {
+    const value = raw[key];
+    const { min, max } = SETTING_LIMITS[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      settings[key] = Math.min(max, Math.max(min, value));
+    }
+  });
+  if (typeof raw.voiceURI === 'string' || raw.voiceURI === null) settings.voiceURI = raw.voiceURI;
+  if (raw.verbosity === 'brief' || raw.verbosity === 'full') settings.verbosity = raw.verbosity;
+  if (typeof raw.includeAdvice === 'boolean') settings.includeAdvice = raw.includeAdvice;
+  return settings;
+};
+
+export const loadAssistantSettings = (): AssistantSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return sanitizeAssistantSettings(raw ? JSON.parse(raw) : null);
+  } catch {
+    return DEFAULT_ASSISTANT_SETTINGS;
+  }
+};
+
+export const saveAssistantSettings = (settings: AssistantSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const serializeConfig = (config: JarvisConfig): string => {
+  const file: ConfigFile = { app: 'jarvis', version: CONFIG_VERSION, exportedAt: new Date().toISOString(), ...config };
+  return JSON.stringify(file, null, 2);
+};
+
+// Read an exported config file; throws when it isn't one. Sections that are
+// missing or invalid are left out so they keep their current values.
+export const parseConfig = (text: string): Partial<JarvisConfig> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(data) || data.app !== 'jarvis') {
+    throw new Error('This is not a Jarvis settings file');
+  }
+  if (typeof data.version !== 'number' || data.version > CONFIG_VERSION) {
+    throw new Error('This settings file was made by a newer version of Jarvis');
+  }
+
+  const config: Partial<JarvisConfig> = {};
+  if (isRecord(data.assistant)) config.assistant = sanitizeAssistantSettings(data.assistant);
+  if (isRecord(data.voiceSession) && typeof data.voiceSession.requireWakeWord === 'boolean' &&
+      typeof data.voiceSession.windowMs === 'number' && data.voiceSession.windowMs > 0) {
+    config.voiceSession = { requireWakeWord: data.voiceSession.requireWakeWord, windowMs: data.voiceSession.windowMs };
+  }
+  if (typeof data.locale === 'string' && isLocale(data.locale)) config.locale = data.locale;
+  if (typeof data.displayCurrency === 'string') config.displayCurrency = data.displayCurrency;
+  return config;
+};
@@ -0,0 +1,36 @@
+import type { Locale } from '../i18n/types';
+
+// Brief replies give the price, 24h change and trend; full ones add highs, volume and indicators
+export type Verbosity = 'brief' | 'full';
+
+// How Jarvis speaks and what goes into an analysis
+export interface AssistantSettings {
+  // Speech synthesis voice; null picks a natural voice for the reply's language
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+  verbosity: Verbosity;
+  // End an analysis with the advice sentence
+  includeAdvice: boolean;
+  rsiOverbought: number;
+  rsiOversold: number;
+  // A 24h move larger than this (percent) gets the big rise/drop advice
+  bigMovePercent: number;
+  // A 24h move smaller than this (percent) counts as a stable trend
+  stablePercent: number;
+}
+
+// Everything an exported config file carries
+export interface JarvisConfig {
+  assistant: AssistantSettings;
+  voiceSession: { requireWakeWord: boolean; windowMs: number };
+  locale: Locale;
+  displayCurrency: string;
+}
+
+export interface ConfigFile extends JarvisConfig {
+  app: 'jarvis';
+  version: number;
+  exportedAt: string;
+}
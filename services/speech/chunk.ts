@@ -0,0 +1,32 @@
+// Chrome stops speaking utterances after roughly 15 seconds, so long replies are
+// spoken a sentence at a time, and overlong sentences are split further.
+export const MAX_CHUNK_LENGTH = 200;
+
+// Whitespace after sentence-ending punctuation, so decimals like "67,250.12" stay whole
+const SENTENCE_BREAK = /(?<=[.!?;])\s+/;
+
+// Split an overlong sentence at the last comma, or failing that the last space, before the limit
+const splitLongSentence = (sentence: string, maxLength: number): string[] => {
+  const pieces: string[] = [];
+  let rest = sentence;
+
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength);
+    const comma = window.lastIndexOf(', ');
+    const space = window.lastIndexOf(' ');
+    const cut = comma > maxLength / 2 ? comma + 1 : space > 0 ? space : maxLength;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+};
+
+// Break text into speakable chunks of whole sentences, each at most maxLength long
+export const splitIntoChunks = (text: string, maxLength = MAX_CHUNK_LENGTH): string[] => {
+  const sentences = text.split(SENTENCE_BREAK)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+  return sentences.flatMap(sentence => splitLongSentence(sentence, maxLength));
+};
@@ -0,0 +1,3 @@
+export * from './chunk';
+export * from './queue';
+export * from './voice';
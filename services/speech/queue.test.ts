@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeSynth } from '../../test/speech';
+import { createSpeechQueue } from './queue';
+import { splitIntoChunks } from './chunk';
+
+const setup = () => {
+  const fake = createFakeSynth();
+  const onIdle = vi.fn();
+  const queue = createSpeechQueue({
+    synth: fake.synth,
+    createUtterance: (text) => new SpeechSynthesisUtterance(text),
+    onIdle,
+  });
+  // End the sentence being spoken and wait out the gap before the next one
+  const finishChunk = () => {
+    fake.finish();
+    vi.advanceTimersByTime(200);
+  };
+  return { ...fake, queue, onIdle, finishChunk };
+};
+
+describe('splitIntoChunks', () => {
+  it('splits at sentence ends but keeps decimals whole', () => {
+    expect(splitIntoChunks('Bitcoin is at $67,250.12. It rose 1.84% today!')).toEqual(['Bitcoin is at $67,250.12.', 'It rose 1.84% today!']);
+  });
+
+  it('splits overlong sentences at a comma', () => {
+    const sentence = `${'a'.repeat(120)}, ${'b'.repeat(120)}`;
+    expect(splitIntoChunks(sentence)).toEqual([`${'a'.repeat(120)},`, 'b'.repeat(120)]);
+  });
+});
+
+describe('createSpeechQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  it('speaks a reply a sentence at a time, then reports idle', () => {
+    const { queue, spoken, onIdle, finishChunk } = setup();
+
+    queue.enqueue('First sentence. Second sentence.');
+    expect(spoken).toEqual(['First sentence.']);
+    expect(queue.isSpeaking()).toBe(true);
+
+    finishChunk();
+    expect(spoken).toEqual(['First sentence.', 'Second sentence.']);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    finishChunk();
+    expect(queue.isSpeaking()).toBe(false);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('queues replies instead of cutting each other off', () => {
+    const { queue, spoken, finishChunk } = setup();
+
+    queue.enqueue('One.');
+    queue.enqueue('Two.');
+    expect(spoken).toEqual(['One.']);
+
+    finishChunk();
+    expect(spoken).toEqual(['One.', 'Two.']);
+  });
+
+  it('lets an alert in at the next sentence boundary and then finishes the reply', () => {
+    const { queue, spoken, finishChunk } = setup();
+
+    queue.enqueue('Reply one. Reply two.');
+    queue.enqueue('Alert!', { priority: 'high' });
+    finishChunk();
+    finishChunk();
+
+    expect(spoken).toEqual(['Reply one.', 'Alert!', 'Reply two.']);
+  });
+
+  it('drops everything on cancel and tells each request', () => {
+    const { queue, synth, onIdle } = setup();
+    const first = vi.fn();
+    const second = vi.fn();
+
+    queue.enqueue('Long reply. More.', { onDone: first });
+    queue.enqueue('Next.', { onDone: second });
+    queue.cancel();
+
+    expect(synth.cancel).toHaveBeenCalled();
+    expect(first).toHaveBeenCalledWith('cancelled');
+    expect(second).toHaveBeenCalledWith('cancelled');
+    expect(queue.isSpeaking()).toBe(false);
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+
+  it('skips a sentence whose end never arrives', () => {
+    const { queue, spoken } = setup();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    queue.enqueue('Stuck. Next.');
+    vi.advanceTimersByTime(10000);
+
+    expect(spoken).toEqual(['Stuck.', 'Next.']);
+  });
+});
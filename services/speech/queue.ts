@@ -0,0 +1,185 @@
+import { splitIntoChunks } from './chunk';
+
+// High-priority speech (alerts) is spoken at the next sentence boundary, ahead of queued replies
+export type SpeechPriority = 'high' | 'normal';
+
+export type SpeechOutcome = 'ended' | 'cancelled';
+
+export interface SpeechRequest {
+  priority?: SpeechPriority;
+  onDone?: (outcome: SpeechOutcome) => void;
+}
+
+export interface SpeechQueueState {
+  // True from the first chunk until the queue is empty, including while paused
+  speaking: boolean;
+  paused: boolean;
+}
+
+export interface SpeechQueueOptions {
+  synth: SpeechSynthesis;
+  createUtterance: (text: string) => SpeechSynthesisUtterance;
+  onStateChange?: (state: SpeechQueueState) => void;
+  // Everything queued has been spoken (not called after cancel)
+  onIdle?: () => void;
+}
+
+export interface SpeechQueue {
+  enqueue: (text: string, request?: SpeechRequest) => void;
+  // Stop speaking and drop everything queued
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+  isSpeaking: () => boolean;
+}
+
+interface QueueItem {
+  text: string;
+  chunks: string[];
+  priority: SpeechPriority;
+  onDone?: (outcome: SpeechOutcome) => void;
+}
+
+interface CurrentItem {
+  item: QueueItem;
+  // Next chunk to speak
+  index: number;
+  utterance: SpeechSynthesisUtterance | null;
+}
+
+// Short breath between sentences
+const CHUNK_GAP_MS = 120;
+// A chunk that hasn't ended after this long is assumed stuck and skipped, so a
+// missing onend can't leave Jarvis waiting for speech that never finishes
+const WATCHDOG_BASE_MS = 4000;
+const WATCHDOG_MS_PER_CHAR = 110;
+
+// Sequential, interruptible speech on top of the Web Speech API. Replies queue
+// instead of cutting each other off, long text is spoken in sentence chunks, and
+// errors or stuck utterances move on to the next chunk.
+export const createSpeechQueue = ({ synth, createUtterance, onStateChange, onIdle }: SpeechQueueOptions): SpeechQueue => {
+  const items: QueueItem[] = [];
+  let current: CurrentItem | null = null;
+  let paused = false;
+  let watchdog: ReturnType<typeof setTimeout> | null = null;
+  let gap: ReturnType<typeof setTimeout> | null = null;
+
+  const notify = () => onStateChange?.({ speaking: current !== null, paused });
+
+  const clearTimers = () => {
+    if (watchdog) clearTimeout(watchdog);
+    if (gap) clearTimeout(gap);
+    watchdog = null;
+    gap = null;
+  };
+
+  // High-priority items go ahead of every normal one, in arrival order
+  const insert = (item: QueueItem, front = false) => {
+    const firstNormal = items.findIndex(queued => queued.priority === 'normal');
+    const position = item.priority === 'high' || front ? (firstNormal < 0 ? items.length : firstNormal) : items.length;
+    items.splice(position, 0, item);
+  };
+
+  const armWatchdog = (utterance: SpeechSynthesisUtterance) => {
+    const timeout = WATCHDOG_BASE_MS + (utterance.text.length * WATCHDOG_MS_PER_CHAR) / (utterance.rate || 1);
+    watchdog = setTimeout(() => {
+      console.warn('Speech did not finish in time, skipping to the next sentence');
+      advance(utterance);
+      synth.cancel();
+    }, timeout);
+  };
+
+  // The current chunk ended (or failed); continue after a short gap
+  const advance = (utterance: SpeechSynthesisUtterance) => {
+    if (!current || current.utterance !== utterance) return;
+    clearTimers();
+    current.index++;
+    current.utterance = null;
+    gap = setTimeout(speakNext, CHUNK_GAP_MS);
+  };
+
+  const speakNext = () => {
+    clearTimers();
+
+    // An alert waiting behind a long reply gets the next sentence slot
+    if (current && current.index > 0 && current.index < current.item.chunks.length &&
+        current.item.priority === 'normal' && items[0]?.priority === 'high') {
+      insert({ ...current.item, chunks: current.item.chunks.slice(current.index) }, true);
+      current = null;
+    }
+
+    if (current && current.index >= current.item.chunks.length) {
+      current.item.onDone?.('ended');
+      current = null;
+    }
+
+    if (!current) {
+      const item = items.shift();
+      if (!item) {
+        notify();
+        onIdle?.();
+        return;
+      }
+      current = { item, index: 0, utterance: null };
+    }
+
+    const utterance = createUtterance(current.item.chunks[current.index]);
+    current.utterance = utterance;
+    utterance.onend = () => advance(utterance);
+    utterance.onerror = (event) => {
+      // "interrupted" and "canceled" are our own cancel() calls
+      if (event.error !== 'interrupted' && event.error !== 'canceled') {
+        console.error('Speech synthesis error:', event.error);
+      }
+      advance(utterance);
+    };
+
+    if (!paused) armWatchdog(utterance);
+    synth.speak(utterance);
+    notify();
+  };
+
+  const enqueue = (text: string, { priority = 'normal', onDone }: SpeechRequest = {}) => {
+    const chunks = splitIntoChunks(text);
+    if (chunks.length === 0) {
+      onDone?.('ended');
+      return;
+    }
+
+    insert({ text, chunks, priority, onDone });
+    if (!current) speakNext();
+  };
+
+  const cancel = () => {
+    const dropped = [...(current ? [current.item] : []), ...items.splice(0)];
+    current = null;
+    paused = false;
+    clearTimers();
+    synth.cancel();
+    dropped.forEach(item => item.onDone?.('cancelled'));
+    notify();
+  };
+
+  const pause = () => {
+    if (!current || paused) return;
+    paused = true;
+    clearTimers();
+    synth.pause();
+    notify();
+  };
+
+  const resume = () => {
+    if (!paused) return;
+    paused = false;
+    synth.resume();
+    if (current?.utterance) {
+      armWatchdog(current.utterance);
+    } else if (current) {
+      // Paused between sentences
+      speakNext();
+    }
+    notify();
+  };
+
+  return { enqueue, cancel, pause, resume, isSpeaking: () => current !== null };
+};
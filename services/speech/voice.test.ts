@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { fakeVoice } from '../../test/speech';
+import { createUtterance, pickVoice } from './voice';
+
+const voices = [
+  fakeVoice('Microsoft Hedda', 'de-DE'),
+  fakeVoice('Anna', 'de-DE'),
+  fakeVoice('Google Deutsch', 'de-DE'),
+  fakeVoice('Samantha', 'en_US'),
+];
+
+describe('pickVoice', () => {
+  it('uses the chosen voice when it is installed', () => {
+    expect(pickVoice(voices, 'de-DE', voices[0].voiceURI)).toBe(voices[0]);
+  });
+
+  it('prefers a Google voice for the language and skips Microsoft ones', () => {
+    expect(pickVoice(voices, 'de-DE', 'missing')?.name).toBe('Google Deutsch');
+    expect(pickVoice(voices.slice(0, 2), 'de-DE', null)?.name).toBe('Anna');
+  });
+
+  it('matches underscore language tags', () => {
+    expect(pickVoice(voices, 'en-US', null)?.name).toBe('Samantha');
+  });
+
+  it('leaves the browser default when nothing fits', () => {
+    expect(pickVoice(voices, 'tr-TR', null)).toBeNull();
+  });
+});
+
+describe('createUtterance', () => {
+  it('applies the language and voice settings', () => {
+    const utterance = createUtterance('Merhaba', { lang: 'tr-TR', voiceURI: null, rate: 0.9, pitch: 1.1, volume: 0.8 }, voices);
+    expect(utterance).toMatchObject({ text: 'Merhaba', lang: 'tr-TR', rate: 0.9, pitch: 1.1, volume: 0.8, voice: null });
+  });
+});
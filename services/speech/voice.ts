@@ -0,0 +1,33 @@
+export interface VoiceOptions {
+  // BCP 47 tag of the reply's language
+  lang: string;
+  // Chosen voice; null picks a natural one for the language
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+// The chosen voice if it is installed, otherwise a natural voice for the language (Google ones first)
+export const pickVoice = (voices: SpeechSynthesisVoice[], lang: string, voiceURI: string | null): SpeechSynthesisVoice | null => {
+  const chosen = voiceURI ? voices.find(voice => voice.voiceURI === voiceURI) : undefined;
+  if (chosen) return chosen;
+
+  const languageVoices = voices.filter(voice =>
+    voice.lang.replace('_', '-').startsWith(lang.slice(0, 3)) && !voice.name.includes('Microsoft')
+  );
+  return languageVoices.find(voice => voice.name.includes('Google')) ?? languageVoices[0] ?? null;
+};
+
+// An utterance of already prepared text with the voice settings applied
+export const createUtterance = (text: string, options: VoiceOptions, voices: SpeechSynthesisVoice[]): SpeechSynthesisUtterance => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = options.lang;
+  utterance.rate = options.rate;
+  utterance.pitch = options.pitch;
+  utterance.volume = options.volume;
+
+  const voice = pickVoice(voices, options.lang, options.voiceURI);
+  if (voice) utterance.voice = voice;
+  return utterance;
+};
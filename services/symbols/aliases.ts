@@ -0,0 +1,88 @@
+// Spoken names for base assets. The first alias is the name Jarvis uses when
+// speaking; tickers are only listed where they are safe to match as words.
+// Assets missing from the exchange listing are ignored, so delisted coins can stay here.
+// Turkish and German spellings are written without diacritics, since input is folded first.
+export const ASSET_ALIASES: Record<string, string[]> = {
+  BTC: ['bitcoin', 'btc', 'bitcoins', 'bitkoin'],
+  ETH: ['ethereum', 'eth', 'ether', 'eteryum', 'ather'],
+  BNB: ['binance coin', 'bnb'],
+  ADA: ['cardano', 'ada', 'kardano'],
+  SOL: ['solana', 'sol'],
+  XRP: ['ripple', 'xrp'],
+  DOGE: ['dogecoin', 'doge', 'doge coin'],
+  DOT: ['polkadot', 'dot', 'polka dot'],
+  AVAX: ['avalanche', 'avax'],
+  SHIB: ['shiba inu', 'shib', 'shiba'],
+  LTC: ['litecoin', 'ltc', 'lite coin', 'laytkoin'],
+  LINK: ['chainlink', 'link', 'chain link'],
+  POL: ['polygon', 'pol', 'matic'],
+  TRX: ['tron', 'trx'],
+  TON: ['toncoin', 'ton coin'],
+  NEAR: ['near protocol'],
+  UNI: ['uniswap'],
+  ATOM: ['cosmos', 'atom'],
+  XLM: ['stellar', 'lumens', 'xlm'],
+  BCH: ['bitcoin cash', 'bch'],
+  ETC: ['ethereum classic'],
+  FIL: ['filecoin', 'file coin'],
+  APT: ['aptos'],
+  ARB: ['arbitrum'],
+  OP: ['optimism'],
+  SUI: ['sui'],
+  PEPE: ['pepe', 'pepe coin'],
+  INJ: ['injective'],
+  AAVE: ['aave'],
+  HBAR: ['hedera', 'hbar'],
+  ICP: ['internet computer'],
+  VET: ['vechain', 've chain'],
+};
+
+// Aliases that are also everyday words ("the dot com era", "show me the link"). They only
+// count as coins when said on their own or next to a word about coins or prices.
+export const COMMON_WORD_ALIASES = ['dot', 'link', 'atom', 'ether', 'ripple', 'stellar', 'cosmos', 'avalanche', 'optimism', 'polygon', 'lumens'];
+
+// Words that put a common-word alias in a market context, in English, Turkish and German
+export const COIN_CONTEXT_WORDS = [
+  'price', 'prices', 'coin', 'coins', 'token', 'tokens', 'crypto', 'chart', 'worth', 'trading', 'market',
+  'buy', 'sell', 'bought', 'sold', 'alert', 'portfolio', 'watchlist', 'compare', 'backtest', 'rsi',
+  'usd', 'usdt', 'dollar', 'dollars',
+  'fiyat', 'fiyati', 'kac', 'grafik', 'al', 'sat',
+  'preis', 'kurs', 'kaufe', 'verkaufe', 'wert',
+];
+
+// Names accepted after "in", "against" or "versus" to pick the quote asset
+export const QUOTE_ALIASES: Record<string, string[]> = {
+  USDT: ['usdt', 'tether', 'dollar', 'dollars', 'usd', 'dolar'],
+  USDC: ['usdc', 'usd coin'],
+  FDUSD: ['fdusd'],
+  BTC: ['bitcoin', 'bitcoins', 'btc'],
+  ETH: ['ethereum', 'ether', 'eth'],
+  BNB: ['bnb', 'binance coin'],
+  EUR: ['euro', 'euros', 'eur', 'avro'],
+  TRY: ['lira', 'turkish lira', 'liras', 'turk lirasi', 'tl'],
+};
+
+// Names of the display currencies, accepted after "in" or "to" ("bitcoin price in euros").
+// Longer names first; words that are common in other phrases ("real time") are left out.
+export const FIAT_ALIASES: Record<string, string[]> = {
+  USD: ['us dollars', 'us dollar', 'dollars', 'dollar', 'usd', 'dolar', 'amerikan dolari'],
+  EUR: ['euros', 'euro', 'eur', 'avro'],
+  GBP: ['british pounds', 'pounds', 'pound', 'sterling', 'gbp', 'sterlin', 'pfund'],
+  TRY: ['turkish lira', 'turk lirasi', 'liras', 'lira', 'tl'],
+  JPY: ['japanese yen', 'yen', 'jpy'],
+  BRL: ['brazilian real', 'reais', 'brl'],
+};
+
+// Quote assets whose prices are read out as US dollars
+export const USD_QUOTES = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'TUSD', 'USD'];
+
+// Preferred quote when the user names only the base asset
+export const DEFAULT_QUOTES = ['USDT', 'USDC', 'FDUSD', 'BTC'];
+
+export const isUsdQuote = (asset: string): boolean => USD_QUOTES.includes(asset);
+
+// Name used when speaking an asset, e.g. "BTC" -> "Bitcoin"
+export const spokenAssetName = (asset: string): string => {
+  const name = ASSET_ALIASES[asset]?.[0];
+  return name ? name.replace(/\b\w/g, letter => letter.toUpperCase()) : asset;
+};
@@ -0,0 +1,26 @@
+// Edit distance between two strings (insertions, deletions and substitutions)
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Largest edit distance tolerated for a word of this length; short words must match exactly
+export const maxFuzzyDistance = (length: number): number => {
+  if (length >= 8) return 2;
+  if (length >= 5) return 1;
+  return 0;
+};
@@ -0,0 +1,71 @@
+import { MarketDataProvider, SymbolInfo } from '../market/types';
+import { ASSET_ALIASES } from './aliases';
+import { createSymbolRegistry, SymbolRegistry } from './registry';
+
+export * from './aliases';
+export * from './registry';
+
+// The exchange listing changes rarely, so refresh it once a day
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const cacheKey = (providerId: string) => `jarvis.symbols.${providerId}`;
+
+interface CachedListing {
+  fetchedAt: number;
+  // [symbol, baseAsset, quoteAsset], kept as tuples to stay small in localStorage
+  symbols: [string, string, string][];
+}
+
+// Built-in USDT pairs for the known aliases, used before any listing has been fetched
+const FALLBACK_SYMBOLS: SymbolInfo[] = Object.keys(ASSET_ALIASES).map(asset => ({
+  symbol: `${asset}USDT`,
+  baseAsset: asset,
+  quoteAsset: 'USDT',
+}));
+
+const readCache = (providerId: string): CachedListing | null => {
+  try {
+    const raw = localStorage.getItem(cacheKey(providerId));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (providerId: string, symbols: SymbolInfo[]) => {
+  const listing: CachedListing = {
+    fetchedAt: Date.now(),
+    symbols: symbols.map(info => [info.symbol, info.baseAsset, info.quoteAsset]),
+  };
+  try {
+    localStorage.setItem(cacheKey(providerId), JSON.stringify(listing));
+  } catch (err) {
+    console.warn('Could not cache symbol listing:', err);
+  }
+};
+
+const fromCache = (listing: CachedListing): SymbolRegistry =>
+  createSymbolRegistry(listing.symbols.map(([symbol, baseAsset, quoteAsset]) => ({ symbol, baseAsset, quoteAsset })));
+
+// Registry available synchronously at startup: the cached listing, or the built-in pairs
+export const getCachedSymbolRegistry = (providerId: string): SymbolRegistry => {
+  const cached = readCache(providerId);
+  return cached ? fromCache(cached) : createSymbolRegistry(FALLBACK_SYMBOLS);
+};
+
+// Load the provider's tradable pairs, using the local cache while it is fresh and
+// falling back to a stale cache (or the built-in pairs) when the exchange is unreachable
+export const loadSymbolRegistry = async (provider: MarketDataProvider): Promise<SymbolRegistry> => {
+  const cached = readCache(provider.id);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return fromCache(cached);
+  }
+
+  try {
+    const symbols = await provider.getSymbols();
+    writeCache(provider.id, symbols);
+    return createSymbolRegistry(symbols);
+  } catch (err) {
+    console.error('Error loading symbol listing:', err);
+    return cached ? fromCache(cached) : createSymbolRegistry(FALLBACK_SYMBOLS);
+  }
+};
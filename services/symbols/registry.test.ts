@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createSymbolRegistry } from './registry';
+
+const registry = createSymbolRegistry(
+  ['BTC', 'ETH', 'DOT', 'LINK', 'ADA'].map(asset => ({ symbol: `${asset}USDT`, baseAsset: asset, quoteAsset: 'USDT' }))
+);
+
+describe('symbol registry', () => {
+  it('resolves names, run-together words and misheard names', () => {
+    expect(registry.resolve('what is bitcoin doing')?.symbol).toBe('BTCUSDT');
+    expect(registry.resolve('polka dot please')?.symbol).toBe('DOTUSDT');
+    expect(registry.resolve('cardono')).toMatchObject({ symbol: 'ADAUSDT', fuzzy: true });
+  });
+
+  it('does not read everyday words as coins', () => {
+    expect(registry.resolve('i love the dot com era')).toBeNull();
+    expect(registry.resolve('show me the link')).toBeNull();
+    expect(registry.resolveAll('connect the dot to the link')).toEqual([]);
+  });
+
+  it('accepts common-word names on their own or next to a price word', () => {
+    expect(registry.resolve('link')?.symbol).toBe('LINKUSDT');
+    expect(registry.resolve('what is the dot price')?.symbol).toBe('DOTUSDT');
+    expect(registry.resolve('link fiyatı')?.symbol).toBe('LINKUSDT');
+    expect(registry.resolveAll('compare dot and link').map(match => match.symbol)).toEqual(['DOTUSDT', 'LINKUSDT']);
+  });
+});
@@ -0,0 +1,189 @@
+import { SymbolInfo } from '../market/types';
+import { ASSET_ALIASES, COIN_CONTEXT_WORDS, COMMON_WORD_ALIASES, DEFAULT_QUOTES, QUOTE_ALIASES } from './aliases';
+import { levenshtein, maxFuzzyDistance } from './fuzzy';
+import { foldText } from '../nlu/tokenize';
+
+// A trading pair recognised in a piece of text
+export interface SymbolMatch extends SymbolInfo {
+  // The words that matched the base asset
+  alias: string;
+  // True when the match needed fuzzy correction (e.g. "cardono")
+  fuzzy: boolean;
+}
+
+export interface SymbolRegistry {
+  symbols: SymbolInfo[];
+  get(symbol: string): SymbolInfo | undefined;
+  resolve(text: string): SymbolMatch | null;
+  // Every distinct asset named in the text, each on its default pair ("compare bitcoin and ethereum")
+  resolveAll(text: string): SymbolMatch[];
+}
+
+interface AssetMention {
+  asset: string;
+  alias: string;
+  start: number;
+  end: number;
+  distance: number;
+}
+
+// Words that may sit between the coin and its quote, as in "bitcoin price in euros"
+const QUOTE_CONNECTORS = ['in', 'against', 'versus', 'vs', 'to'];
+const QUOTE_FILLERS = ['price', 'priced', 'value', 'terms', 'of'];
+const MAX_PHRASE_WORDS = 3;
+
+const tokenize = (text: string): string[] =>
+  foldText(text).replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+// Build an alias -> asset index for the assets present in the listing
+const buildAliasIndex = (aliases: Record<string, string[]>, assets: Set<string>): Map<string, string> => {
+  const index = new Map<string, string>();
+  for (const [asset, names] of Object.entries(aliases)) {
+    if (!assets.has(asset)) continue;
+    for (const name of names) {
+      index.set(name, asset);
+      index.set(name.replace(/\s+/g, ''), asset);
+    }
+  }
+  return index;
+};
+
+// Common-word aliases need the whole text to be the name, or a word about coins or prices
+const allowsCommonWords = (tokens: string[]): boolean =>
+  tokens.length === 1 || tokens.some(token => COIN_CONTEXT_WORDS.includes(token));
+
+// Find the first asset named in the tokens, trying exact phrases before fuzzy ones
+const findAsset = (tokens: string[], index: Map<string, string>, assets: Set<string>, commonWords: boolean): AssetMention | null => {
+  let best: AssetMention | null = null;
+
+  for (let start = 0; start < tokens.length; start++) {
+    for (let size = Math.min(MAX_PHRASE_WORDS, tokens.length - start); size >= 1; size--) {
+      const words = tokens.slice(start, start + size);
+      const phrase = words.join(' ');
+      const compact = words.join('');
+      const end = start + size;
+
+      // Exact alias, spoken either as words or run together ("sola na" -> "solana")
+      const name = index.has(phrase) ? phrase : compact;
+      const asset = index.get(name);
+      if (asset && (commonWords || !COMMON_WORD_ALIASES.includes(name))) {
+        return { asset, alias: phrase, start, end, distance: 0 };
+      }
+
+      // Tickers spelled out letter by letter, e.g. "s u i"
+      if (size > 1 && words.every(word => word.length === 1) && assets.has(compact.toUpperCase())) {
+        return { asset: compact.toUpperCase(), alias: phrase, start, end, distance: 0 };
+      }
+
+      // Misheard names: close in edit distance and starting with the same letter
+      const maxDistance = maxFuzzyDistance(compact.length);
+      if (maxDistance === 0) continue;
+
+      for (const [name, candidate] of index) {
+        if (name.length < 5 || name[0] !== compact[0]) continue;
+        if (!commonWords && COMMON_WORD_ALIASES.includes(name)) continue;
+        const distance = levenshtein(compact, name);
+        if (distance <= maxDistance && (!best || distance < best.distance)) {
+          best = { asset: candidate, alias: phrase, start, end, distance };
+        }
+      }
+    }
+  }
+
+  return best;
+};
+
+// Look for "in <quote>" after the base asset, allowing a couple of filler words
+const findQuote = (tokens: string[], from: number, index: Map<string, string>): string | null => {
+  let position = from;
+  while (position < tokens.length && QUOTE_FILLERS.includes(tokens[position])) position++;
+
+  if (!QUOTE_CONNECTORS.includes(tokens[position])) return null;
+  position++;
+  if (tokens[position] === 'the') position++;
+
+  for (let size = Math.min(2, tokens.length - position); size >= 1; size--) {
+    const words = tokens.slice(position, position + size);
+    const quote = index.get(words.join(' ')) ?? index.get(words.join(''));
+    if (quote) return quote;
+  }
+
+  return null;
+};
+
+export const createSymbolRegistry = (symbols: SymbolInfo[]): SymbolRegistry => {
+  const bySymbol = new Map(symbols.map(info => [info.symbol, info]));
+  const byBase = new Map<string, SymbolInfo[]>();
+  for (const info of symbols) {
+    byBase.set(info.baseAsset, [...(byBase.get(info.baseAsset) ?? []), info]);
+  }
+
+  const baseAssets = new Set(byBase.keys());
+  const quoteAssets = new Set(symbols.map(info => info.quoteAsset));
+  const assetIndex = buildAliasIndex(ASSET_ALIASES, baseAssets);
+  const quoteIndex = buildAliasIndex(QUOTE_ALIASES, quoteAssets);
+
+  // Pick the pair for a base asset, honouring a requested quote when it is listed
+  const pairFor = (base: string, quote: string | null): SymbolInfo | undefined => {
+    const pairs = byBase.get(base) ?? [];
+    if (quote) {
+      const requested = pairs.find(pair => pair.quoteAsset === quote);
+      if (requested) return requested;
+    }
+    for (const preferred of DEFAULT_QUOTES) {
+      const pair = pairs.find(candidate => candidate.quoteAsset === preferred);
+      if (pair) return pair;
+    }
+    return pairs[0];
+  };
+
+  const resolve = (text: string): SymbolMatch | null => {
+    const tokens = tokenize(text);
+
+    // Exact pair symbols such as "ETHBTC" pass straight through
+    for (const token of tokens) {
+      const info = bySymbol.get(token.toUpperCase());
+      if (info) return { ...info, alias: token, fuzzy: false };
+    }
+
+    const mention = findAsset(tokens, assetIndex, baseAssets, allowsCommonWords(tokens));
+    if (!mention) return null;
+
+    const pair = pairFor(mention.asset, findQuote(tokens, mention.end, quoteIndex));
+    if (!pair) return null;
+
+    return { ...pair, alias: mention.alias, fuzzy: mention.distance > 0 };
+  };
+
+  // Exact names are preferred over fuzzy ones anywhere in the text, so look on both sides of each find
+  const findAllAssets = (tokens: string[], commonWords: boolean): AssetMention[] => {
+    const mention = findAsset(tokens, assetIndex, baseAssets, commonWords);
+    if (!mention) return [];
+    return [
+      ...findAllAssets(tokens.slice(0, mention.start), commonWords),
+      mention,
+      ...findAllAssets(tokens.slice(mention.end), commonWords),
+    ];
+  };
+
+  const resolveAll = (text: string): SymbolMatch[] => {
+    const matches: SymbolMatch[] = [];
+
+    const tokens = tokenize(text);
+    for (const mention of findAllAssets(tokens, allowsCommonWords(tokens))) {
+      const pair = pairFor(mention.asset, null);
+      if (pair && !matches.some(match => match.baseAsset === pair.baseAsset)) {
+        matches.push({ ...pair, alias: mention.alias, fuzzy: mention.distance > 0 });
+      }
+    }
+
+    return matches;
+  };
+
+  return {
+    symbols,
+    get: (symbol: string) => bySymbol.get(symbol),
+    resolve,
+    resolveAll,
+  };
+};
@@ -0,0 +1,41 @@
+export * from './parse';
+
+const STORAGE_KEY = 'jarvis.watchlist';
+
+// Shown until the user changes the list
+export const DEFAULT_WATCHLIST = ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT'];
+
+// Enough for a screen of tiles and a digest short enough to listen to
+export const MAX_WATCHLIST_SIZE = 12;
+
+export const loadWatchlist = (): string[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : DEFAULT_WATCHLIST;
+  } catch {
+    return DEFAULT_WATCHLIST;
+  }
+};
+
+export const saveWatchlist = (symbols: string[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(symbols));
+};
+
+// Append symbols that aren't listed yet, up to the size limit
+export const addToWatchlist = (list: string[], symbols: string[]): string[] => {
+  const next = [...list];
+  for (const symbol of symbols) {
+    if (!next.includes(symbol) && next.length < MAX_WATCHLIST_SIZE) next.push(symbol);
+  }
+  return next;
+};
+
+// SVG polyline points for a sparkline of closing prices, oldest first
+export const sparklinePoints = (closes: number[], width: number, height: number): string => {
+  if (closes.length < 2) return '';
+  const min = Math.min(...closes);
+  const span = Math.max(...closes) - min || 1;
+  return closes
+    .map((close, index) => `${((index / (closes.length - 1)) * width).toFixed(1)},${(height - ((close - min) / span) * height).toFixed(1)}`)
+    .join(' ');
+};
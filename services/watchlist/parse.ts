@@ -0,0 +1,35 @@
+import { SymbolRegistry } from '../symbols';
+import { hasAnyPhrase, tokenize } from '../nlu/tokenize';
+import type { Lexicon } from '../nlu/lexicon';
+
+export type WatchlistCommand =
+  // symbols is empty when no coin was recognised
+  | { action: 'add'; symbols: string[] }
+  | { action: 'remove'; symbols: string[] }
+  | { action: 'read' };
+
+const WATCHLIST_PATTERN = /\b(watchlist|watch list|watching list)\b/;
+const REMOVE_PATTERN = /\b(remove|delete|drop|take|stop watching|untrack)\b/;
+const ADD_PATTERN = /\b(add|put|include|track|watch)\b/;
+
+// Recognise "add chainlink and polkadot to my watchlist", "remove doge from my watchlist"
+// or "read my watchlist"
+export const parseWatchlistCommand = (input: string, registry: SymbolRegistry, lexicon?: Lexicon): WatchlistCommand | null => {
+  const text = input.toLowerCase();
+  const tokens = tokenize(text);
+  const mentions = (pattern: RegExp, phrases: string[] = []) => pattern.test(text) || hasAnyPhrase(tokens, phrases);
+  if (!mentions(WATCHLIST_PATTERN, lexicon?.watchlist)) return null;
+
+  // Tiles show US dollar prices, so use each coin's USDT pair
+  const resolveSymbols = (): string[] =>
+    registry.resolveAll(text.replace(WATCHLIST_PATTERN, ' '))
+      .map(match => registry.get(`${match.baseAsset}USDT`)?.symbol ?? match.symbol);
+
+  if (mentions(REMOVE_PATTERN, lexicon?.watchlistRemove)) {
+    return { action: 'remove', symbols: resolveSymbols() };
+  }
+  if (ADD_PATTERN.test(text.replace(WATCHLIST_PATTERN, ' ')) || hasAnyPhrase(tokens, lexicon?.watchlistAdd ?? [])) {
+    return { action: 'add', symbols: resolveSymbols() };
+  }
+  return { action: 'read' };
+};
@@ -0,0 +1,16 @@
+import { vi } from 'vitest';
+
+type Route = [pattern: RegExp, body: unknown, status?: number];
+
+// Replaces fetch with one that answers from `routes`, matched against the URL in order.
+// Unmatched URLs get a 404. Returns the mock so tests can inspect the requests.
+export const mockFetch = (routes: Route[]) => {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+    const url = String(input);
+    const route = routes.find(([pattern]) => pattern.test(url));
+    const [, body, status = 200] = route ?? [null, { msg: 'Not found' }, 404];
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
@@ -0,0 +1,57 @@
+import { useSyncExternalStore } from 'react';
+import { vi } from 'vitest';
+
+// Stand-in for react-speech-recognition. Load it with
+// vi.mock('react-speech-recognition', () => import('<path>/test/recognition'))
+// and speak to the app with microphone.hear().
+
+interface RecognitionState {
+  transcript: string;
+  interimTranscript: string;
+}
+
+let state: RecognitionState = { transcript: '', interimTranscript: '' };
+const listeners = new Set<() => void>();
+
+const update = (next: RecognitionState) => {
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const microphone = {
+  supported: true,
+  // `interim` leaves the sentence unfinished, as while the recogniser is still listening
+  hear: (text: string, interim = false) => update({ transcript: text, interimTranscript: interim ? text : '' }),
+  // More words in the same session: the recogniser adds them to whatever it hasn't been told to forget
+  hearMore: (text: string) => update({ transcript: [state.transcript, text].filter(Boolean).join(' '), interimTranscript: '' }),
+  reset: () => update({ transcript: '', interimTranscript: '' }),
+};
+
+const resetTranscript = () => microphone.reset();
+
+export const useSpeechRecognition = () => {
+  const current = useSyncExternalStore(subscribe, () => state);
+  return {
+    ...current,
+    finalTranscript: current.interimTranscript ? '' : current.transcript,
+    listening: false,
+    resetTranscript,
+    browserSupportsSpeechRecognition: microphone.supported,
+    isMicrophoneAvailable: true,
+  };
+};
+
+const SpeechRecognition = {
+  startListening: vi.fn(async () => {}),
+  stopListening: vi.fn(async () => {}),
+  abortListening: vi.fn(async () => {}),
+};
+
+export default SpeechRecognition;
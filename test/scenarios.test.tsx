@@ -0,0 +1,250 @@
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import App from '../App';
+import { MarketDataProvider } from '../services/market';
+import { binanceProvider } from '../services/market/binance';
+import { createCachedProvider } from '../services/market/cache';
+import { HistoryEntry, HistoryStore } from '../services/history';
+import { MESSAGES } from '../services/i18n';
+import { AppServices, ServicesContext } from '../hooks/useServices';
+import { mockFetch } from './fetch';
+import { microphone } from './recognition';
+import { createFakeSynth } from './speech';
+
+vi.mock('react-speech-recognition', () => import('./recognition'));
+
+// Transcript in, spoken reply out: the whole App on mocked exchange responses, a fake
+// speech engine and the test microphone.
+
+const EXCHANGE_INFO = {
+  symbols: ['BTC', 'ETH', 'SOL', 'DOGE'].map(asset => ({ symbol: `${asset}USDT`, baseAsset: asset, quoteAsset: 'USDT', status: 'TRADING' })),
+};
+
+const BTC_TICKER = {
+  symbol: 'BTCUSDT',
+  priceChange: '1215.05',
+  priceChangePercent: '1.840',
+  lastPrice: '67250.12',
+  volume: '18542.30',
+  highPrice: '68078.86',
+  lowPrice: '65036.16',
+};
+
+// Daily candles drifting up to the ticker's price
+const BTC_KLINES = Array.from({ length: 100 }, (_, index) => {
+  const close = 60000 + index * 72.5;
+  const openTime = 1700000000000 + index * 86400000;
+  return [openTime, String(close - 20), String(close + 150), String(close - 150), String(close), '120.5', openTime + 86399999];
+});
+
+const BTC_ROUTES: [RegExp, unknown][] = [
+  [/exchangeInfo/, EXCHANGE_INFO],
+  [/ticker\/24hr\?symbol=BTCUSDT/, BTC_TICKER],
+  [/klines\?symbol=BTCUSDT/, BTC_KLINES],
+];
+
+// Holds back requests matching `pattern` until released; call after mockFetch
+const holdRequests = (pattern: RegExp) => {
+  const respond = vi.mocked(fetch);
+  let release = () => {};
+  const held = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL) => {
+    if (pattern.test(String(input))) await held;
+    return respond(input);
+  }));
+  return () => act(release);
+};
+
+// An alert that fires as soon as Bitcoin's price is checked
+const storeBitcoinAlert = () => localStorage.setItem('jarvis.alerts', JSON.stringify([
+  { id: 'alert-1', symbol: 'BTCUSDT', condition: { type: 'above', price: 60000 }, paused: false, createdAt: 0 },
+]));
+
+// History kept for the test only; jsdom has no IndexedDB
+const createMemoryHistory = () => {
+  const entries: HistoryEntry[] = [];
+  const store: HistoryStore = {
+    load: async () => [...entries],
+    add: async (entry) => entries.push(entry),
+    clear: async () => {
+      entries.length = 0;
+    },
+  };
+  return { store, entries };
+};
+
+// Live streams would open real sockets; the tests only use requests
+const withoutStreams = (provider: MarketDataProvider): MarketDataProvider => ({
+  ...provider,
+  subscribe: () => () => {},
+  subscribeTrades: () => () => {},
+});
+
+const renderApp = (autoEnd = true) => {
+  const fake = createFakeSynth({ autoEnd });
+  const history = createMemoryHistory();
+  // A fresh cache per test, so no test is answered from another's tickers
+  const provider = withoutStreams(createCachedProvider(binanceProvider));
+  const services: AppServices = {
+    marketProvider: () => provider,
+    speechSynthesis: fake.synth,
+    notify: vi.fn(),
+    historyStore: history.store,
+  };
+  render(
+    <ServicesContext.Provider value={services}>
+      <App />
+    </ServicesContext.Provider>
+  );
+  return { ...fake, history: history.entries };
+};
+
+describe('voice scenarios', () => {
+  beforeEach(() => {
+    microphone.supported = true;
+    microphone.reset();
+    // An empty watchlist keeps its tiles from polling the exchange
+    localStorage.setItem('jarvis.watchlist', '[]');
+  });
+
+  it('"what is the price of bitcoin" reads the analysis from the exchange data', async () => {
+    const fetchMock = mockFetch(BTC_ROUTES);
+    const { spoken, history } = renderApp();
+
+    act(() => microphone.hear('jarvis what is the price of bitcoin'));
+
+    // Sentences are spoken with a short gap between them
+    await waitFor(() => expect(spoken.join(' ')).toMatch(/Overall, BTC is showing .+$/), { timeout: 5000 });
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toEqual(expect.arrayContaining([
+      expect.stringMatching(/ticker\/24hr\?symbol=BTCUSDT/),
+      expect.stringMatching(/klines\?symbol=BTCUSDT/),
+    ]));
+    // Amounts are spelled out for the speech engine; the log keeps the written reply
+    expect(spoken.slice(0, 2)).toEqual(["Here's my analysis for BTC.", 'The current price is 67250 dollars and 12 cents.']);
+    await waitFor(() => expect(history).toHaveLength(1));
+    expect(history[0].reply).toContain('the price has changed by $1,215.05, which is a 1.84% increase.');
+    // The analysis card shows the same ticker
+    expect(await screen.findByText('$67,250.12')).toBeTruthy();
+  });
+
+  it('"how are you" is answered without asking the exchange', async () => {
+    const fetchMock = mockFetch([[/exchangeInfo/, EXCHANGE_INFO]]);
+    const { spoken, history } = renderApp();
+
+    act(() => microphone.hear('jarvis how are you'));
+
+    await waitFor(() => expect(MESSAGES.en.conversation.wellbeing).toContain(spoken.join(' ')));
+    expect(fetchMock.mock.calls.every(([url]) => /exchangeInfo/.test(String(url)))).toBe(true);
+    await waitFor(() => expect(history).toHaveLength(1));
+    expect(history[0]).toMatchObject({ source: 'voice', utterance: 'jarvis how are you', reply: spoken.join(' ') });
+  });
+
+  it('an exchange error is apologised for instead of read as data', async () => {
+    mockFetch([
+      [/exchangeInfo/, EXCHANGE_INFO],
+      [/ticker/, { code: -1121, msg: 'Invalid symbol.' }, 400],
+    ]);
+    const { spoken } = renderApp();
+
+    act(() => microphone.hear('jarvis dogecoin'));
+
+    await waitFor(() => expect(spoken.join(' ')).toMatch(/^I'm sorry, I couldn't retrieve data for .+Failed to fetch data for DOGEUSDT/));
+  });
+
+  it('"stop" cuts a reply short', async () => {
+    mockFetch(BTC_ROUTES);
+    // Utterances never end on their own, so the first sentence is still being spoken
+    const { spoken, synth } = renderApp(false);
+
+    act(() => microphone.hear('jarvis bitcoin'));
+    await waitFor(() => expect(spoken).toEqual(["Here's my analysis for BTC."]));
+
+    act(() => microphone.hear('stop'));
+
+    expect(synth.cancel).toHaveBeenCalled();
+    expect(spoken).toHaveLength(1);
+  });
+
+  it('"stop" drops a reply that is still loading', async () => {
+    mockFetch(BTC_ROUTES);
+    const releaseKlines = holdRequests(/klines/);
+    const { spoken } = renderApp();
+
+    act(() => microphone.hear('jarvis bitcoin'));
+    // The ticker is in; the candles are still on their way
+    await waitFor(() => expect(vi.mocked(fetch).mock.calls.map(([url]) => String(url))).toContainEqual(expect.stringMatching(/klines/)));
+    act(() => microphone.hearMore('stop'));
+    await releaseKlines();
+
+    await act(() => new Promise(resolve => setTimeout(resolve, 300)));
+    expect(spoken).toEqual([]);
+  });
+
+  it('sets a price alert and shows it in the alerts panel', async () => {
+    mockFetch([[/exchangeInfo/, EXCHANGE_INFO]]);
+    const { history } = renderApp();
+
+    act(() => microphone.hear('jarvis alert me when solana goes below 120'));
+
+    const description = MESSAGES.en.alerts.describe({ name: 'Solana', condition: { type: 'below', price: 120 }, quote: null });
+    await waitFor(() => expect(history[0]?.reply).toBe(MESSAGES.en.alerts.created(description)));
+    expect(await screen.findByText('Price Alerts')).toBeTruthy();
+    expect(screen.getByText(description)).toBeTruthy();
+  });
+
+  it('asks for the price of a limit order instead of placing it', async () => {
+    mockFetch([[/exchangeInfo/, EXCHANGE_INFO]]);
+    const { spoken } = renderApp();
+
+    act(() => microphone.hear('jarvis set a limit sell on ethereum'));
+
+    await waitFor(() => expect(spoken.join(' ')).toMatch(/^What price should the limit sell on Ethereum wait for\?/));
+  });
+
+  it('answers in the language recognition listens in', async () => {
+    localStorage.setItem('jarvis.locale', 'tr');
+    mockFetch(BTC_ROUTES);
+    const { spoken } = renderApp();
+
+    act(() => microphone.hear('jarvis bitcoin kaç dolar'));
+
+    await waitFor(() => expect(spoken[0]).toBe('BTC için analizim şöyle.'));
+  });
+
+  it('reads an alert aloud even after a typed command answered in text only', async () => {
+    localStorage.setItem('jarvis.console', JSON.stringify({ open: true, speakReplies: false }));
+    storeBitcoinAlert();
+    mockFetch(BTC_ROUTES);
+    const releaseTicker = holdRequests(/ticker/);
+    const { spoken, history } = renderApp();
+
+    fireEvent.change(screen.getByPlaceholderText(/Ask Jarvis/), { target: { value: 'how are you' } });
+    fireEvent.submit(screen.getByPlaceholderText(/Ask Jarvis/).closest('form')!);
+    await waitFor(() => expect(history).toHaveLength(1));
+    expect(spoken).toEqual([]);
+
+    await releaseTicker();
+
+    await waitFor(() => expect(spoken.join(' ')).toMatch(/^Alert: Bitcoin is now above your level/));
+  });
+
+  it('an alert read out while a request loads leaves the request running', async () => {
+    storeBitcoinAlert();
+    mockFetch(BTC_ROUTES);
+    const releaseKlines = holdRequests(/klines/);
+    const { spoken } = renderApp();
+
+    act(() => microphone.hear('jarvis bitcoin'));
+    await waitFor(() => expect(spoken.join(' ')).toMatch(/^Alert: Bitcoin is now above your level/));
+
+    // The alert is over, but the analysis is still on its way
+    await act(() => new Promise(resolve => setTimeout(resolve, 300)));
+    expect(screen.getByAltText('Jarvis AI')).toBeTruthy();
+
+    await releaseKlines();
+
+    await waitFor(() => expect(spoken).toContain("Here's my analysis for BTC."));
+  });
+});
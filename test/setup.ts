@@ -0,0 +1,15 @@
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { FakeSpeechSynthesisUtterance } from './speech';
+
+// jsdom has no Web Speech API; the synthesis itself is injected per test
+Object.assign(globalThis, { SpeechSynthesisUtterance: FakeSpeechSynthesisUtterance });
+// Nor does it lay anything out, so there is nothing to scroll
+Element.prototype.scrollTo = () => {};
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
@@ -0,0 +1,57 @@
+import { vi } from 'vitest';
+
+// Enough of SpeechSynthesisUtterance for the speech queue and createUtterance
+export class FakeSpeechSynthesisUtterance {
+  text: string;
+  lang = '';
+  rate = 1;
+  pitch = 1;
+  volume = 1;
+  voice: SpeechSynthesisVoice | null = null;
+  onend: ((event: Event) => void) | null = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+
+  constructor(text = '') {
+    this.text = text;
+  }
+}
+
+export const fakeVoice = (name: string, lang: string): SpeechSynthesisVoice => ({
+  name,
+  lang,
+  voiceURI: `${name}-${lang}`,
+  default: false,
+  localService: true,
+});
+
+// speechSynthesis that records what it was asked to say. Utterances end when the test
+// calls finish(), or straight away with `autoEnd`.
+export const createFakeSynth = ({ voices = [] as SpeechSynthesisVoice[], autoEnd = false } = {}) => {
+  const spoken: string[] = [];
+  let current: FakeSpeechSynthesisUtterance | null = null;
+
+  const synth = {
+    onvoiceschanged: null,
+    getVoices: vi.fn(() => voices),
+    speak: vi.fn((utterance: FakeSpeechSynthesisUtterance) => {
+      spoken.push(utterance.text);
+      current = utterance;
+      if (autoEnd) setTimeout(() => utterance.onend?.(new Event('end')), 0);
+    }),
+    cancel: vi.fn(() => {
+      const cancelled = current;
+      current = null;
+      cancelled?.onerror?.({ error: 'canceled' });
+    }),
+    pause: vi.fn(),
+    resume: vi.fn(),
+  };
+
+  const finish = () => {
+    const ended = current;
+    current = null;
+    ended?.onend?.(new Event('end'));
+  };
+
+  return { synth: synth as unknown as SpeechSynthesis, spoken, finish };
+};
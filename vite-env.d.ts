@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MARKET_PROVIDER?: string;
+  // Optional OpenAI-compatible chat backend for open-ended questions
+  readonly VITE_CHAT_BASE_URL?: string;
+  readonly VITE_CHAT_MODEL?: string;
+  readonly VITE_CHAT_API_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}